@@ -0,0 +1,221 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { headers } from "next/headers"
+import { notFound } from "next/navigation"
+import { LineChart, SERIES_COLORS, StackedBarChart, type ChartPoint, type ChartSeries } from "@/components/admin-charts"
+import { Card, CardContent } from "@/components/ui/card"
+import { verifyAdminAuthorization } from "@/lib/api/admin"
+import { createTranslator, getMessages, type MessageKey } from "@/lib/i18n"
+import { getRequestLocale } from "@/lib/i18n/server"
+import {
+  DEFAULT_METRICS_RANGE,
+  getMetricsRange,
+  getMetricsSummary,
+  METRICS_RANGES,
+  type MetricsSummary,
+} from "@/lib/metrics"
+import { checkHealth } from "@/lib/providers"
+
+export const dynamic = "force-dynamic"
+
+export const metadata: Metadata = {
+  title: "Admin - GreenGitch",
+  robots: { index: false },
+}
+
+interface AdminPageProps {
+  searchParams: { range?: string }
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(value > 0 && value < 0.1 ? 1 : 0)}%`
+const usd = (value: number) => `$${value.toFixed(value >= 10 ? 0 : 2)}`
+const count = (value: number) => String(Math.round(value))
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`
+
+function chartData(metrics: MetricsSummary, locale: string) {
+  const series: ChartSeries[] = metrics.providers.map((provider, index) => ({
+    id: provider.providerId,
+    name: provider.provider,
+    color: SERIES_COLORS[index % SERIES_COLORS.length],
+  }))
+  // Hourly buckets are labelled with the time, longer ones with the date
+  const label = (start: string) =>
+    new Date(start).toLocaleString(
+      locale,
+      metrics.bucketMs < 24 * 60 * 60 * 1000 ? { hour: "2-digit", minute: "2-digit" } : { month: "short", day: "numeric" },
+    )
+  const points = (value: (counts: MetricsSummary["timeline"][number]["providers"][string]) => number | null) =>
+    metrics.timeline.map<ChartPoint>((bucket) => ({
+      label: label(bucket.start),
+      values: Object.fromEntries(
+        Object.entries(bucket.providers).map(([providerId, counts]) => [providerId, value(counts)]),
+      ),
+    }))
+
+  return {
+    series,
+    volume: points((counts) => counts.requests),
+    failureRate: points((counts) => (counts.requests ? counts.failures / counts.requests : null)),
+    spend: points((counts) => counts.estimatedCostUsd),
+  }
+}
+
+export default async function AdminPage({ searchParams }: AdminPageProps) {
+  // Middleware already asks for the password; this keeps the page closed if
+  // it is ever reached another way
+  if (!(await verifyAdminAuthorization(headers().get("authorization")))) {
+    notFound()
+  }
+
+  const locale = getRequestLocale()
+  const t = createTranslator(getMessages(locale))
+  const range = getMetricsRange(searchParams.range || DEFAULT_METRICS_RANGE) ?? getMetricsRange(DEFAULT_METRICS_RANGE)!
+  const [metrics, health] = await Promise.all([getMetricsSummary(range), checkHealth()])
+  const { series, volume, failureRate, spend } = chartData(metrics, locale)
+  const { totals } = metrics
+
+  const stats = [
+    { label: t("admin.requests"), value: count(totals.requests), note: t("admin.cachedCount", { count: totals.cached }) },
+    { label: t("admin.failureRate"), value: percent(totals.failureRate) },
+    { label: t("admin.images"), value: count(totals.images) },
+    { label: t("admin.spend"), value: usd(totals.estimatedCostUsd) },
+    { label: t("admin.latency"), value: seconds(totals.p95LatencyMs) },
+  ]
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-green-50 to-green-100 p-4">
+      <Card className="max-w-5xl mx-auto bg-white/80 backdrop-blur">
+        <CardContent className="p-6 space-y-8">
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-bold text-green-800">{t("admin.title")}</h1>
+            <Link href="/" className="text-sm text-green-700 hover:underline">{t("admin.back")}</Link>
+          </div>
+
+          <nav className="flex gap-2 text-sm">
+            {METRICS_RANGES.map((option) => (
+              <Link
+                key={option.id}
+                href={`/admin?range=${option.id}`}
+                className={`rounded px-3 py-1 ${option.id === range.id ? "bg-green-600 text-white" : "text-green-700 hover:underline"}`}
+              >
+                {t(`admin.ranges.${option.id}` as MessageKey)}
+              </Link>
+            ))}
+          </nav>
+
+          <section className="space-y-2">
+            <h2 className="font-semibold">{t("admin.health")}</h2>
+            <p className={`text-sm ${health.status === "ok" ? "text-green-700" : "text-red-600"}`}>
+              {t(`admin.overall.${health.status}`)}
+              <span className="text-muted-foreground">
+                {" · "}{t("admin.checkedAt", { time: new Date(health.checkedAt).toLocaleTimeString(locale) })}
+              </span>
+            </p>
+            <table className="w-full text-sm">
+              <thead className="text-left text-muted-foreground">
+                <tr>
+                  <th className="py-1">{t("admin.provider")}</th>
+                  <th className="py-1">{t("admin.status")}</th>
+                  <th className="py-1 text-right">{t("admin.avgLatency")}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {health.providers.map((provider) => (
+                  <tr key={provider.id}>
+                    <td className="py-1">{provider.name}</td>
+                    <td className="py-1">
+                      {!provider.configured ? (
+                        <span className="text-muted-foreground">{t("admin.notConfigured")}</span>
+                      ) : provider.ok ? (
+                        <span className="text-green-700">{t("admin.reachable")}</span>
+                      ) : (
+                        <span className="text-red-600">
+                          {t("admin.unreachable")}
+                          {provider.error && <span className="block text-xs">{provider.error}</span>}
+                        </span>
+                      )}
+                      {provider.circuit !== "closed" && (
+                        <span className="block text-xs text-amber-700">{t(`admin.circuit.${provider.circuit}`)}</span>
+                      )}
+                    </td>
+                    <td className="py-1 text-right">
+                      {provider.latencyMs !== undefined ? `${provider.latencyMs} ms` : "–"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          <section className="grid gap-4 grid-cols-2 sm:grid-cols-5">
+            {stats.map((stat) => (
+              <div key={stat.label} className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">{stat.label}</p>
+                <p className="text-xl font-semibold">{stat.value}</p>
+                {stat.note && <p className="text-xs text-muted-foreground">{stat.note}</p>}
+              </div>
+            ))}
+          </section>
+
+          {totals.requests === 0 ? (
+            <p className="text-center text-sm text-muted-foreground">{t("admin.noData")}</p>
+          ) : (
+            <>
+              <section className="space-y-8">
+                <StackedBarChart title={t("admin.volumeChart")} series={series} points={volume} format={count} />
+                <LineChart title={t("admin.failureChart")} series={series} points={failureRate} format={percent} max={1} />
+                <StackedBarChart title={t("admin.spendChart")} series={series} points={spend} format={usd} />
+                <p className="text-xs text-muted-foreground">{t("admin.costNote")}</p>
+              </section>
+
+              <section className="space-y-2">
+                <h2 className="font-semibold">{t("admin.byProvider")}</h2>
+                <table className="w-full text-sm">
+                  <thead className="text-left text-muted-foreground">
+                    <tr>
+                      <th className="py-1">{t("admin.provider")}</th>
+                      <th className="py-1 text-right">{t("admin.requests")}</th>
+                      <th className="py-1 text-right">{t("admin.failureRate")}</th>
+                      <th className="py-1 text-right">{t("admin.images")}</th>
+                      <th className="py-1 text-right">{t("admin.spend")}</th>
+                      <th className="py-1 text-right">{t("admin.avgLatency")}</th>
+                      <th className="py-1 text-right">{t("admin.latency")}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {metrics.providers.map((provider) => (
+                      <tr key={provider.providerId}>
+                        <td className="py-1">{provider.provider}</td>
+                        <td className="py-1 text-right">{provider.requests}</td>
+                        <td className="py-1 text-right">{percent(provider.failureRate)}</td>
+                        <td className="py-1 text-right">{provider.images}</td>
+                        <td className="py-1 text-right">{usd(provider.estimatedCostUsd)}</td>
+                        <td className="py-1 text-right">{seconds(provider.avgLatencyMs)}</td>
+                        <td className="py-1 text-right">{seconds(provider.p95LatencyMs)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+
+              {metrics.recentFailures.length > 0 && (
+                <section className="space-y-2">
+                  <h2 className="font-semibold">{t("admin.recentFailures")}</h2>
+                  <ul className="divide-y text-sm">
+                    {metrics.recentFailures.map((record) => (
+                      <li key={record.id} className="py-1">
+                        <span className="text-muted-foreground">{new Date(record.at).toLocaleString(locale)}</span>
+                        {" · "}{record.provider} {record.model} ({record.operation})
+                        {record.error && <span className="block text-xs text-red-600">{record.error}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server"
+import { apiError, notFound } from "@/lib/api"
+import { createTranslator, DEFAULT_LOCALE, getMessages, isLocale } from "@/lib/i18n"
+import { span } from "@/lib/logger"
+import { checkRateLimit, identifyClient, rateLimitedResponse } from "@/lib/rate-limit"
+import { cropForShare, getShareCrop, SHARE_CROP_MIME_TYPE } from "@/lib/share"
+import { getImage, readCrop, readImageData, readProvenance, saveCrop } from "@/lib/store/images"
+
+export const runtime = "nodejs"
+
+// The share menu fetches several crops at once and link previews add more
+const CROP_RATE_LIMIT = { name: "crops", maxRequests: 60 }
+
+// Platform-sized copies for sharing: /api/images/<id>/crops/square|story|landscape|link?locale=en
+// The locale of the AI label is part of the URL, not negotiated, so shared caches stay correct
+export async function GET(request: Request, { params }: { params: { id: string; crop: string } }) {
+  const rate = await checkRateLimit(identifyClient(request), CROP_RATE_LIMIT)
+  if (!rate.allowed) {
+    return rateLimitedResponse(rate)
+  }
+
+  const crop = getShareCrop(params.crop)
+  if (!crop) {
+    return apiError(400, "invalid_request", "Unknown crop")
+  }
+
+  const image = await getImage(params.id)
+  if (!image) {
+    return notFound("Image not found")
+  }
+
+  const requested = new URL(request.url).searchParams.get("locale")
+  const locale = isLocale(requested) ? requested : DEFAULT_LOCALE
+  // Encoded once per crop and label language, then served from disk
+  const name = `${crop.id}-${locale}.jpg`
+  let output = await readCrop(image.id, name)
+  if (!output) {
+    const t = createTranslator(getMessages(locale))
+    const [data, provenance] = await Promise.all([readImageData(image), readProvenance(image.id)])
+    output = await span(
+      "encoding",
+      () => cropForShare(data, crop, { label: t("provenance.label"), mark: provenance?.manifest.watermark }),
+      { crop: crop.id },
+    )
+    await saveCrop(image.id, name, output)
+  }
+  return new NextResponse(new Uint8Array(output), {
+    headers: {
+      "Content-Type": SHARE_CROP_MIME_TYPE,
+      "Content-Length": String(output.length),
+      "Content-Disposition": `inline; filename="climate-${image.cityId}-${image.issueId}-${crop.id}.jpg"`,
+      // Revalidated like the image itself, so crops disappear when it is deleted
+      "Cache-Control": "public, max-age=60, must-revalidate",
+    },
+  })
+}
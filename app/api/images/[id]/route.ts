@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { notFound } from "@/lib/api"
+import { getImage, readImageData } from "@/lib/store/images"
+
+export const runtime = "nodejs"
+
+// Stored images never change, but they can be deleted (and restored), so
+// caches keep them only briefly and then revalidate. The id doubles as the
+// ETag, which makes revalidating an image that still exists a 304.
+const CACHE_CONTROL = "public, max-age=60, must-revalidate"
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const image = await getImage(params.id)
+  if (!image) {
+    return notFound("Image not found")
+  }
+
+  const etag = `"${image.id}"`
+  if (request.headers.get("if-none-match") === etag) {
+    return new NextResponse(null, { status: 304, headers: { ETag: etag, "Cache-Control": CACHE_CONTROL } })
+  }
+
+  const data = await readImageData(image)
+  return new NextResponse(data, {
+    headers: {
+      "Content-Type": image.mimeType,
+      "Content-Length": String(data.length),
+      ETag: etag,
+      "Cache-Control": CACHE_CONTROL,
+    },
+  })
+}
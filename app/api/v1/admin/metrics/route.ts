@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { apiError, apiRoute, isAdminPrincipal } from "@/lib/api"
+import type { AdminMetricsResponse } from "@/lib/api/types"
+import { DEFAULT_METRICS_RANGE, getMetricsRange, getMetricsSummary } from "@/lib/metrics"
+import { checkHealth } from "@/lib/providers"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// The dashboard's data for scripts and external monitoring: ?range=24h|7d|30d
+export const GET = apiRoute(async (request, { principal }) => {
+  if (!isAdminPrincipal(principal)) {
+    return apiError(403, "forbidden", "This API key is not listed in ADMIN_KEYS")
+  }
+
+  const range = getMetricsRange(new URL(request.url).searchParams.get("range") || DEFAULT_METRICS_RANGE)
+  if (!range) {
+    return apiError(400, "invalid_request", "Unknown range")
+  }
+
+  const [metrics, health] = await Promise.all([getMetricsSummary(range), checkHealth()])
+  return NextResponse.json<AdminMetricsResponse>({ range: range.id, metrics, health })
+})
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { apiError, apiRoute, notFound } from "@/lib/api"
+import { buildBatchArchive, getBatch } from "@/lib/batch"
+import { span } from "@/lib/logger"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// GET so the page can link straight to the download once the batch completes
+export const GET = apiRoute<{ id: string }>(async (_request, { params }) => {
+  const batch = getBatch(params.id)
+  if (!batch) {
+    return notFound("Batch not found")
+  }
+  if (batch.status !== "completed") {
+    return apiError(409, "not_ready", "Batch is still running", {}, { "Retry-After": "5" })
+  }
+
+  const archive = await span("encoding", () => buildBatchArchive(batch), { batchId: batch.id })
+  return new NextResponse(new Uint8Array(archive), {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Length": String(archive.length),
+      "Content-Disposition": `attachment; filename="climate-batch-${batch.createdAt.slice(0, 10)}-${batch.id.slice(0, 8)}.zip"`,
+      "Cache-Control": "private, no-store",
+    },
+  })
+})
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server"
+import { apiRoute, notFound } from "@/lib/api"
+import type { BatchResponse } from "@/lib/api/types"
+import { getBatch } from "@/lib/batch"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+export const GET = apiRoute<{ id: string }>(async (_request, { params }) => {
+  const batch = getBatch(params.id)
+  if (!batch) {
+    return notFound("Batch not found")
+  }
+
+  return NextResponse.json<BatchResponse>({ batch })
+})
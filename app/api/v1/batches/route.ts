@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server"
+import { apiError, apiRoute, invalidJson } from "@/lib/api"
+import type { BatchStartedResponse } from "@/lib/api/types"
+import { startBatch, type BatchTask } from "@/lib/batch"
+import { getFacts } from "@/lib/facts"
+import { logger, span } from "@/lib/logger"
+import { moderateFields, moderationIssues } from "@/lib/moderation"
+import { resolvePrompt } from "@/lib/prompts"
+import { getConfiguredProviders } from "@/lib/providers"
+import {
+  checkRateLimit,
+  consumeQuota,
+  quotaExceededResponse,
+  rateLimitedResponse,
+  rateLimitHeaders,
+} from "@/lib/rate-limit"
+import { parseBatchRequest, resolveProviderParams, unprocessable } from "@/lib/validation"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+export const POST = apiRoute(async (request, { clientId, owner }) => {
+  const rate = await checkRateLimit(clientId)
+  if (!rate.allowed) {
+    return rateLimitedResponse(rate)
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return invalidJson()
+  }
+
+  const parsed = span("validation", () => parseBatchRequest(body))
+  if (!parsed.ok) {
+    return unprocessable("validation_failed", "Invalid batch request", parsed.issues)
+  }
+  const { pairs, templateIds, facts, cache, options } = parsed.value
+
+  const flagged = await span("moderation", () => moderateFields({ negativePrompt: options.negativePrompt }))
+  if (flagged.length > 0) {
+    return unprocessable("moderation_flagged", "Request was flagged by content moderation", moderationIssues(flagged))
+  }
+
+  const providers = getConfiguredProviders()
+  if (providers.length === 0) {
+    return apiError(503, "no_providers", "No image providers are configured")
+  }
+
+  const selections = resolveProviderParams(options, providers)
+  if (!selections.ok) {
+    return unprocessable("validation_failed", "Options are not supported by the selected providers", selections.issues)
+  }
+
+  // The whole campaign is charged up front so it can't stall half way through
+  const imagesPerCell = selections.value.reduce((total, { params }) => total + params.count, 0)
+  const quota = await consumeQuota(clientId, imagesPerCell * pairs.length * templateIds.length)
+  if (!quota.allowed) {
+    return quotaExceededResponse(rate, quota)
+  }
+
+  const tasks = await span("prompt", async () => {
+    const tasks: BatchTask[] = []
+    for (const { city, issue } of pairs) {
+      const [fact] = facts ? await getFacts(city.id, issue.id) : []
+      for (const templateId of templateIds) {
+        const resolved = resolvePrompt(
+          { city: city.name, issue: issue.name, details: issue.promptHint, fact: fact?.statement },
+          templateId,
+        )
+        for (const selection of selections.value) {
+          tasks.push({ context: { city, issue, resolved, owner }, selection, factId: fact?.id })
+        }
+      }
+    }
+    return tasks
+  })
+
+  const batch = startBatch(tasks, { bypassCache: cache === "bypass" })
+  logger.info("batch started", { batchId: batch.id, items: tasks.length })
+
+  return NextResponse.json<BatchStartedResponse>(
+    { batch, quota },
+    { status: 202, headers: { ...rateLimitHeaders(rate, quota), Location: `/api/v1/batches/${batch.id}` } },
+  )
+})
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server"
+import { apiRoute } from "@/lib/api"
+import type { CatalogResponse } from "@/lib/api/types"
+import { cities } from "@/lib/catalog"
+
+export const dynamic = "force-dynamic"
+
+export const GET = apiRoute(async () => NextResponse.json<CatalogResponse>({ cities }))
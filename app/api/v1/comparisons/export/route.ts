@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server"
+import { apiError, apiRoute, notFound } from "@/lib/api"
+import { composeComparison, DEFAULT_COMPARISON_FORMAT, getComparisonFormat } from "@/lib/comparison"
+import { span } from "@/lib/logger"
+import { createTranslator, getMessages, isLocale, localeFromRequest } from "@/lib/i18n"
+import { checkRateLimit, rateLimitedResponse } from "@/lib/rate-limit"
+import { getImage, readImageData, readProvenance } from "@/lib/store/images"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// GET so the page can link straight to the download:
+// /api/v1/comparisons/export?today=<id>&future=<id>&format=side-by-side|gif&locale=en
+// The locale is part of the URL, not negotiated, so cached exports keep their labels
+export const GET = apiRoute(async (request, { clientId }) => {
+  const rate = await checkRateLimit(clientId)
+  if (!rate.allowed) {
+    return rateLimitedResponse(rate)
+  }
+
+  const { searchParams } = new URL(request.url)
+  const format = getComparisonFormat(searchParams.get("format") || DEFAULT_COMPARISON_FORMAT)
+  if (!format) {
+    return apiError(400, "invalid_request", "Unknown export format")
+  }
+
+  const [today, future] = await Promise.all([
+    getImage(searchParams.get("today") || ""),
+    getImage(searchParams.get("future") || ""),
+  ])
+  if (!today || !future) {
+    return notFound("Image not found")
+  }
+
+  const locale = searchParams.get("locale")
+  const t = createTranslator(getMessages(isLocale(locale) ? locale : localeFromRequest(request)))
+  const [todayData, futureData, provenance] = await Promise.all([
+    readImageData(today),
+    readImageData(future),
+    readProvenance(future.id),
+  ])
+  // A side-by-side export carries the "future" image's mark: the job records that prompt as its own
+  const labels = { today: t("comparison.today"), future: t("comparison.future"), generated: t("provenance.label") }
+  const output = await span(
+    "encoding",
+    () => composeComparison(todayData, futureData, format.id, labels, { mark: provenance?.manifest.watermark }),
+    { format: format.id },
+  )
+
+  return new NextResponse(new Uint8Array(output), {
+    headers: {
+      "Content-Type": format.mimeType,
+      "Content-Length": String(output.length),
+      "Content-Disposition": `attachment; filename="comparison-${today.cityId}-${today.issueId}-${format.id}.${format.extension}"`,
+      // Authenticated, so only the browser may cache it
+      "Cache-Control": "private, max-age=31536000, immutable",
+    },
+  })
+})
@@ -0,0 +1,60 @@
+import { apiRoute, invalidJson, jobStarted, notFound } from "@/lib/api"
+import { startDerivedJob } from "@/lib/generation"
+import { span } from "@/lib/logger"
+import { moderateFields, moderationIssues } from "@/lib/moderation"
+import { editPrompt } from "@/lib/prompts"
+import { checkRateLimit, consumeQuota, quotaExceededResponse, rateLimitedResponse } from "@/lib/rate-limit"
+import { getImage, readImageData } from "@/lib/store/images"
+import { parseEditRequest, resolveDerivedProvider, unprocessable } from "@/lib/validation"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// Repaints the masked region of a stored image following a short instruction
+export const POST = apiRoute(async (request, { clientId, owner }) => {
+  const rate = await checkRateLimit(clientId)
+  if (!rate.allowed) {
+    return rateLimitedResponse(rate)
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return invalidJson()
+  }
+
+  const parsed = span("validation", () => parseEditRequest(body))
+  if (!parsed.ok) {
+    return unprocessable("validation_failed", "Invalid edit request", parsed.issues)
+  }
+  const { imageId, instruction, mask, count } = parsed.value
+
+  const flagged = await span("moderation", () => moderateFields({ instruction }))
+  if (flagged.length > 0) {
+    return unprocessable("moderation_flagged", "Edit was flagged by content moderation", moderationIssues(flagged))
+  }
+
+  const source = await getImage(imageId)
+  if (!source) {
+    return notFound("Image not found")
+  }
+
+  const provider = resolveDerivedProvider(source, parsed.value, "edit")
+  if (!provider.ok) {
+    return unprocessable("validation_failed", "Edits are not available for this image", provider.issues)
+  }
+
+  const quota = await consumeQuota(clientId, count)
+  if (!quota.allowed) {
+    return quotaExceededResponse(rate, quota)
+  }
+
+  const prompt = editPrompt(source.prompt, instruction)
+  const data = await readImageData(source)
+  const job = startDerivedJob(source, provider.value, "edit", prompt, count, owner, () =>
+    provider.value.edit!({ image: { data, mimeType: source.mimeType, size: source.size }, prompt, mask, count }),
+  )
+
+  return jobStarted(job, rate, quota)
+})
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { apiError, apiRoute, notFound } from "@/lib/api"
+import type { FactsResponse } from "@/lib/api/types"
+import { findCity, findIssue } from "@/lib/catalog"
+import { getFacts } from "@/lib/facts"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+export const GET = apiRoute(async (request) => {
+  const { searchParams } = new URL(request.url)
+  const cityId = searchParams.get("city")
+  const issueId = searchParams.get("issue") || undefined
+
+  if (!cityId) {
+    return apiError(400, "invalid_request", "city is required")
+  }
+
+  const city = findCity(cityId)
+  if (!city) {
+    return notFound(`Unknown city "${cityId}"`)
+  }
+  if (issueId && !findIssue(city, issueId)) {
+    return notFound(`Unknown issue "${issueId}" for ${city.name}`)
+  }
+
+  return NextResponse.json<FactsResponse>(
+    { city: city.id, issue: issueId ?? null, facts: await getFacts(city.id, issueId) },
+    // The datasets only change with a deploy
+    { headers: { "Cache-Control": "private, max-age=3600" } },
+  )
+})
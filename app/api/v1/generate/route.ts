@@ -0,0 +1,96 @@
+import { apiError, apiRoute, invalidJson, jobStarted } from "@/lib/api"
+import { findFact } from "@/lib/facts"
+import { startComparisonJob, startGenerationJob } from "@/lib/generation"
+import { logger, span } from "@/lib/logger"
+import { moderateFields, moderationIssues } from "@/lib/moderation"
+import { resolveComparisonPrompts, resolvePrompt } from "@/lib/prompts"
+import { getConfiguredProviders } from "@/lib/providers"
+import { checkRateLimit, consumeQuota, quotaExceededResponse, rateLimitedResponse } from "@/lib/rate-limit"
+import { parseGenerateRequest, resolveProviderParams, unprocessable } from "@/lib/validation"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+export const POST = apiRoute(async (request, { clientId, owner }) => {
+  const rate = await checkRateLimit(clientId)
+  if (!rate.allowed) {
+    return rateLimitedResponse(rate)
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return invalidJson()
+  }
+
+  const parsed = span("validation", () => parseGenerateRequest(body))
+  if (!parsed.ok) {
+    return unprocessable("validation_failed", "Invalid generation request", parsed.issues)
+  }
+  const { city, issue, templateId, landmark, season, audience, cache, mode, factId, options } = parsed.value
+
+  const fact = factId ? await findFact(factId) : undefined
+  if (factId && (!fact || fact.cityId !== city.id || !fact.issueIds.includes(issue.id))) {
+    return unprocessable("validation_failed", "Invalid generation request", [
+      { field: "fact", code: "not_in_catalog", message: `Unknown fact "${factId}" for ${issue.name} in ${city.name}` },
+    ])
+  }
+
+  const flagged = await span("moderation", () =>
+    moderateFields({ season, audience, negativePrompt: options.negativePrompt }),
+  )
+  if (flagged.length > 0) {
+    return unprocessable("moderation_flagged", "Request was flagged by content moderation", moderationIssues(flagged))
+  }
+
+  const providers = getConfiguredProviders()
+  if (providers.length === 0) {
+    return apiError(503, "no_providers", "No image providers are configured")
+  }
+
+  const selections = resolveProviderParams(options, providers)
+  if (!selections.ok) {
+    return unprocessable("validation_failed", "Options are not supported by the selected providers", selections.issues)
+  }
+
+  // A comparison renders every requested image twice, once per phase
+  const imagesPerRequest = mode === "comparison" ? 2 : 1
+  const imageCount = selections.value.reduce((total, { params }) => total + params.count * imagesPerRequest, 0)
+  const quota = await consumeQuota(clientId, imageCount)
+  if (!quota.allowed) {
+    return quotaExceededResponse(rate, quota)
+  }
+
+  const variables = {
+    city: city.name,
+    issue: issue.name,
+    landmark,
+    season,
+    audience,
+    details: issue.promptHint,
+    fact: fact?.statement,
+  }
+  const generationOptions = { bypassCache: cache === "bypass" }
+
+  const job =
+    mode === "comparison"
+      ? startComparisonJob(
+          { city, issue, owner },
+          span("prompt", () => resolveComparisonPrompts(variables)),
+          selections.value,
+          generationOptions,
+        )
+      : startGenerationJob(
+          { city, issue, owner, resolved: span("prompt", () => resolvePrompt(variables, templateId), { templateId }) },
+          selections.value,
+          generationOptions,
+        )
+  logger.info("generation started", {
+    jobId: job.id,
+    mode,
+    providers: selections.value.map(({ provider }) => provider.id),
+  })
+
+  return jobStarted(job, rate, quota, fact)
+})
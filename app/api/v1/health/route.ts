@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import type { HealthResponse } from "@/lib/api/types"
+import { checkHealth } from "@/lib/providers"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// Public, for load balancers and uptime checks. Provider error messages stay
+// on the admin dashboard; here a provider is only reachable or not.
+export async function GET() {
+  const { status, providers, checkedAt } = await checkHealth()
+  return NextResponse.json<HealthResponse>(
+    {
+      status,
+      providers: providers.map(({ id, name, configured, ok, latencyMs, circuit }) => ({ id, name, configured, ok, latencyMs, circuit })),
+      checkedAt,
+    },
+    { status: status === "down" ? 503 : 200, headers: { "Cache-Control": "no-store" } },
+  )
+}
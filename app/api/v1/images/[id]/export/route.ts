@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server"
+import { apiError, apiRoute, notFound } from "@/lib/api"
+import {
+  DEFAULT_EXPORT_FORMAT,
+  DEFAULT_EXPORT_QUALITY,
+  exportFilename,
+  exportImage,
+  getExportFormat,
+  MAX_EXPORT_DIMENSION,
+  MIN_EXPORT_DIMENSION,
+} from "@/lib/export"
+import { createTranslator, getMessages, isLocale, localeFromRequest } from "@/lib/i18n"
+import { span } from "@/lib/logger"
+import { checkRateLimit, rateLimitedResponse } from "@/lib/rate-limit"
+import { getImage, readImageData, readProvenance } from "@/lib/store/images"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// NaN for anything that isn't a whole number in range, undefined when absent
+function integerParam(value: string | null, min: number, max: number) {
+  if (value === null || value === "") return undefined
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed >= min && parsed <= max ? parsed : NaN
+}
+
+// GET so the page can link straight to the download:
+// /api/v1/images/<id>/export?format=png|jpeg|webp|avif&width=1024&height=1024&quality=85&label=true&locale=en
+// label=true stamps a visible AI label, in the locale given or negotiated
+export const GET = apiRoute<{ id: string }>(async (request, { params, clientId }) => {
+  const rate = await checkRateLimit(clientId)
+  if (!rate.allowed) {
+    return rateLimitedResponse(rate)
+  }
+
+  const { searchParams } = new URL(request.url)
+  const format = getExportFormat(searchParams.get("format") || DEFAULT_EXPORT_FORMAT)
+  if (!format) {
+    return apiError(400, "invalid_request", "Unknown export format")
+  }
+
+  const width = integerParam(searchParams.get("width"), MIN_EXPORT_DIMENSION, MAX_EXPORT_DIMENSION)
+  const height = integerParam(searchParams.get("height"), MIN_EXPORT_DIMENSION, MAX_EXPORT_DIMENSION)
+  const quality = integerParam(searchParams.get("quality"), 1, 100) ?? DEFAULT_EXPORT_QUALITY
+  if (Number.isNaN(width) || Number.isNaN(height)) {
+    return apiError(
+      400,
+      "invalid_request",
+      `width and height must be whole numbers from ${MIN_EXPORT_DIMENSION} to ${MAX_EXPORT_DIMENSION}`,
+    )
+  }
+  if (Number.isNaN(quality)) {
+    return apiError(400, "invalid_request", "quality must be a whole number from 1 to 100")
+  }
+
+  const image = await getImage(params.id)
+  if (!image) {
+    return notFound("Image not found")
+  }
+
+  let label: string | undefined
+  if (searchParams.get("label") === "true") {
+    const locale = searchParams.get("locale")
+    label = createTranslator(getMessages(isLocale(locale) ? locale : localeFromRequest(request)))("provenance.label")
+  }
+
+  const [data, provenance] = await Promise.all([readImageData(image), readProvenance(image.id)])
+  const output = await span(
+    "encoding",
+    () => exportImage(data, image, { format, width, height, quality, label, mark: provenance?.manifest.watermark }),
+    { format: format.id },
+  )
+
+  return new NextResponse(new Uint8Array(output), {
+    headers: {
+      "Content-Type": format.mimeType,
+      "Content-Length": String(output.length),
+      "Content-Disposition": `attachment; filename="${exportFilename(image, format)}"`,
+      // Authenticated, so only the browser may cache it
+      "Cache-Control": "private, max-age=31536000, immutable",
+    },
+  })
+})
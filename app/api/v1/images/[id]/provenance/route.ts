@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { apiRoute, notFound } from "@/lib/api"
+import type { ProvenanceResponse } from "@/lib/api/types"
+import { publicKeyPem } from "@/lib/provenance"
+import { getImage, readProvenance } from "@/lib/store/images"
+
+export const runtime = "nodejs"
+
+// The signed manifest recorded when the image was generated. Images stored
+// before manifests were introduced have none.
+export const GET = apiRoute<{ id: string }>(async (_request, { params }) => {
+  const image = await getImage(params.id)
+  const provenance = image && (await readProvenance(image.id))
+  if (!provenance) {
+    return notFound(image ? "This image has no provenance manifest" : "Image not found")
+  }
+  return NextResponse.json<ProvenanceResponse>({ provenance, publicKey: await publicKeyPem() })
+})
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+import { apiError, apiRoute, isAdminPrincipal, notFound } from "@/lib/api"
+import type { ImageResponse } from "@/lib/api/types"
+import { getImage, imageUrl, restorableUntil, restoreImage } from "@/lib/store/images"
+
+export const runtime = "nodejs"
+
+// Undoes a delete. Restoring an image that isn't deleted just returns it.
+export const POST = apiRoute<{ id: string }>(async (_request, { params, principal, owner }) => {
+  const image = await getImage(params.id, { includeDeleted: true })
+  const until = image && restorableUntil(image)
+  if (!image || (until && until.getTime() <= Date.now())) {
+    return notFound("Image not found")
+  }
+  if (image.owner !== owner && !isAdminPrincipal(principal)) {
+    return apiError(403, "forbidden", "Only the caller that generated an image may restore it")
+  }
+
+  const restored = image.deletedAt ? await restoreImage(image) : image
+  return NextResponse.json<ImageResponse>({ image: { ...restored, url: imageUrl(restored.id) } })
+})
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { apiError, apiRoute, isAdminPrincipal, notFound } from "@/lib/api"
+import type { ImageDeletedResponse, ImageResponse } from "@/lib/api/types"
+import { evictCachedImage } from "@/lib/generation"
+import { deleteImage, getImage, imageUrl, restorableUntil } from "@/lib/store/images"
+
+export const runtime = "nodejs"
+
+// Metadata only; the image itself is served publicly from `url`
+export const GET = apiRoute<{ id: string }>(async (_request, { params }) => {
+  const image = await getImage(params.id)
+  if (!image) {
+    return notFound("Image not found")
+  }
+  return NextResponse.json<ImageResponse>({ image: { ...image, url: imageUrl(image.id) } })
+})
+
+// Hides the image straight away; it can be restored until restorableUntil,
+// after which its files are removed
+export const DELETE = apiRoute<{ id: string }>(async (_request, { params, principal, owner }) => {
+  const image = await getImage(params.id)
+  if (!image) {
+    return notFound("Image not found")
+  }
+  if (image.owner !== owner && !isAdminPrincipal(principal)) {
+    return apiError(403, "forbidden", "Only the caller that generated an image may delete it")
+  }
+
+  const deleted = await deleteImage(image)
+  evictCachedImage(deleted.id)
+  return NextResponse.json<ImageDeletedResponse>({
+    imageId: deleted.id,
+    deletedAt: deleted.deletedAt!,
+    restorableUntil: restorableUntil(deleted)!.toISOString(),
+  })
+})
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import { apiRoute } from "@/lib/api"
+import type { ImagesResponse } from "@/lib/api/types"
+import { imageUrl, listImages, listStoredProviders } from "@/lib/store/images"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+export const GET = apiRoute(async (request) => {
+  const { searchParams } = new URL(request.url)
+
+  const result = await listImages({
+    cityId: searchParams.get("city") || undefined,
+    issueId: searchParams.get("issue") || undefined,
+    providerId: searchParams.get("provider") || undefined,
+    page: Number(searchParams.get("page")) || undefined,
+    pageSize: Number(searchParams.get("pageSize")) || undefined,
+  })
+
+  return NextResponse.json<ImagesResponse>({
+    ...result,
+    images: result.images.map((image) => ({ ...image, url: imageUrl(image.id) })),
+    providers: await listStoredProviders(),
+  })
+})
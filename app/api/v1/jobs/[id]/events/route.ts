@@ -0,0 +1,74 @@
+import { apiRoute, notFound } from "@/lib/api"
+import { getJob, subscribe, type JobEvent } from "@/lib/jobs"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+const HEARTBEAT_MS = 15000
+
+// Streams job progress as Server-Sent Events: one "snapshot" with the current
+// state, a "provider" event per finished provider, then "completed".
+export const GET = apiRoute<{ id: string }>(async (request, { params }) => {
+  const job = getJob(params.id)
+  if (!job) {
+    return notFound("Job not found")
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      let closed = false
+      const close = () => {
+        if (closed) return
+        closed = true
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Already closed because the client went away
+        }
+      }
+
+      send("snapshot", job)
+      if (job.status === "completed") {
+        send("completed", job)
+        close()
+        return
+      }
+
+      const unsubscribe = subscribe(job.id, (event: JobEvent) => {
+        if (event.type === "provider") {
+          send("provider", event.job.providers.find((provider) => provider.providerId === event.providerId))
+        } else {
+          send("completed", event.job)
+          close()
+        }
+      })
+      const heartbeat = setInterval(() => controller.enqueue(encoder.encode(": heartbeat\n\n")), HEARTBEAT_MS)
+
+      cleanup = () => {
+        unsubscribe()
+        clearInterval(heartbeat)
+        request.signal.removeEventListener("abort", close)
+      }
+      request.signal.addEventListener("abort", close)
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+})
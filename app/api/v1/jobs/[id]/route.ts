@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server"
+import { apiRoute, notFound } from "@/lib/api"
+import type { JobResponse } from "@/lib/api/types"
+import { getJob } from "@/lib/jobs"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+export const GET = apiRoute<{ id: string }>(async (_request, { params }) => {
+  const job = getJob(params.id)
+  if (!job) {
+    return notFound("Job not found")
+  }
+
+  return NextResponse.json<JobResponse>({ job })
+})
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { apiRoute, notFound } from "@/lib/api"
+import type { LocationResponse } from "@/lib/api/types"
+import { findCity, isCurated } from "@/lib/catalog"
+import { findLocation } from "@/lib/locations"
+
+export const dynamic = "force-dynamic"
+
+export const GET = apiRoute<{ id: string }>(async (_request, { params }) => {
+  const location = findLocation(params.id)
+  const city = location && findCity(location.id)
+  if (!location || !city) {
+    return notFound(`Unknown location "${params.id}"`)
+  }
+
+  return NextResponse.json<LocationResponse>(
+    { location: { ...location, curated: isCurated(location.id) }, city },
+    { headers: { "Cache-Control": "private, max-age=3600" } },
+  )
+})
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { apiError, apiRoute } from "@/lib/api"
+import type { LocationsResponse, LocationSummary } from "@/lib/api/types"
+import { isCurated } from "@/lib/catalog"
+import { nearestLocations, searchLocations, type LocationMatch } from "@/lib/locations"
+
+export const dynamic = "force-dynamic"
+
+const DEFAULT_LIMIT = 8
+const MAX_LIMIT = 20
+
+function coordinate(value: string | null, bound: number) {
+  const parsed = value === null || value === "" ? NaN : Number(value)
+  return Number.isFinite(parsed) && Math.abs(parsed) <= bound ? parsed : undefined
+}
+
+// Autocomplete for ?q=, or the places nearest ?lat=&lng= for the map
+export const GET = apiRoute(async (request) => {
+  const { searchParams } = new URL(request.url)
+  const query = searchParams.get("q")?.trim()
+  const limit = Math.min(Math.max(Number(searchParams.get("limit")) || DEFAULT_LIMIT, 1), MAX_LIMIT)
+
+  let matches: LocationMatch[]
+  let byDistance = false
+  if (query) {
+    matches = searchLocations(query, limit)
+  } else if (searchParams.has("lat") || searchParams.has("lng")) {
+    const lat = coordinate(searchParams.get("lat"), 90)
+    const lng = coordinate(searchParams.get("lng"), 180)
+    if (lat === undefined || lng === undefined) {
+      return apiError(400, "invalid_request", "lat must be within ±90 and lng within ±180")
+    }
+    matches = nearestLocations({ lat, lng }, limit)
+    byDistance = true
+  } else {
+    return apiError(400, "invalid_request", "Either q or lat and lng is required")
+  }
+
+  const locations = matches.map<LocationSummary>(({ entry, score }) => ({
+    ...entry,
+    curated: isCurated(entry.id),
+    ...(byDistance && { distanceKm: score }),
+  }))
+  return NextResponse.json<LocationsResponse>(
+    { locations },
+    // The gazetteer only changes with a deploy
+    { headers: { "Cache-Control": "private, max-age=3600" } },
+  )
+})
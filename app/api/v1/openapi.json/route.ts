@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { buildOpenApiDocument } from "@/lib/api/openapi"
+
+export const dynamic = "force-dynamic"
+
+// Public, so tooling can fetch the spec before it has a key
+export async function GET(request: Request) {
+  const origin = process.env.SITE_URL || new URL(request.url).origin
+  return NextResponse.json(buildOpenApiDocument(origin), {
+    headers: { "Access-Control-Allow-Origin": "*", "Cache-Control": "public, max-age=300" },
+  })
+}
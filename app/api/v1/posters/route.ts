@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server"
+import { apiError, apiRoute, invalidJson, notFound } from "@/lib/api"
+import { findCity } from "@/lib/catalog"
+import { factStatement, getFacts } from "@/lib/facts"
+import { createTranslator, getMessages, localeFromRequest } from "@/lib/i18n"
+import { span } from "@/lib/logger"
+import { moderateFields, moderationIssues } from "@/lib/moderation"
+import {
+  composePoster,
+  DEFAULT_POSTER_ASPECT,
+  DEFAULT_POSTER_LAYOUT,
+  getPosterAspect,
+  getPosterLayout,
+} from "@/lib/poster"
+import { checkRateLimit, rateLimitedResponse } from "@/lib/rate-limit"
+import { getImage, readImageData, readProvenance } from "@/lib/store/images"
+import { checkText, unprocessable, type ValidationIssue } from "@/lib/validation"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+const MAX_TEXT_LENGTH = 200
+
+const optionalString = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined)
+
+export const POST = apiRoute(async (request, { clientId }) => {
+  const rate = await checkRateLimit(clientId)
+  if (!rate.allowed) {
+    return rateLimitedResponse(rate)
+  }
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return invalidJson()
+  }
+  if (!body || typeof body !== "object") {
+    return apiError(400, "invalid_request", "Request body must be a JSON object")
+  }
+  const { imageId } = body
+
+  const image = typeof imageId === "string" ? await getImage(imageId) : null
+  if (!image) {
+    return notFound("Image not found")
+  }
+
+  const layout = getPosterLayout(optionalString(body.layout) || DEFAULT_POSTER_LAYOUT)
+  const aspect = getPosterAspect(optionalString(body.aspect) || DEFAULT_POSTER_ASPECT)
+  if (!layout || !aspect) {
+    return apiError(400, "invalid_request", "Unknown poster layout or aspect ratio")
+  }
+
+  const issues: ValidationIssue[] = []
+  const headline = checkText(issues, "headline", body.headline, { maxLength: MAX_TEXT_LENGTH })
+  const fact = checkText(issues, "fact", body.fact, { maxLength: MAX_TEXT_LENGTH })
+  if (issues.length > 0) {
+    return unprocessable("validation_failed", "Invalid poster request", issues)
+  }
+
+  const flagged = await span("moderation", () => moderateFields({ headline, fact }))
+  if (flagged.length > 0) {
+    return unprocessable(
+      "moderation_flagged",
+      "Poster text was flagged by content moderation",
+      moderationIssues(flagged),
+    )
+  }
+
+  // Captions follow the viewer's language; the stored prompt stays English
+  const t = createTranslator(getMessages(localeFromRequest(request)))
+  const city = findCity(image.cityId)
+  const issue = city?.issues.find((i) => i.id === image.issueId)
+  const cityName = t.city({ id: image.cityId, name: image.cityName })
+  const issueName = t.issue({ id: image.issueId, name: image.issueName })
+  // Prefer a cited data point over the catalog description
+  const [dataFact] = await getFacts(image.cityId, image.issueId)
+  const defaultFact =
+    dataFact && city ? `${factStatement(t, city, dataFact)} ${t("facts.source", { citation: dataFact.source.publisher })}` : ""
+  const origin = process.env.SITE_URL || new URL(request.url).origin
+
+  const [source, provenance] = await Promise.all([readImageData(image), readProvenance(image.id)])
+  const poster = await span(
+    "encoding",
+    () =>
+      composePoster(
+        source,
+        layout.id,
+        aspect,
+        {
+          headline: headline || t("poster.defaultHeadline", { issue: issueName, city: cityName }),
+          caption: city ? `${cityName}, ${t.country(city)}` : cityName,
+          fact: fact || defaultFact || (issue ? t.issueDescription(image.cityId, issue) : ""),
+          footer: `${origin.replace(/^https?:\/\//, "")}/i/${image.id}`,
+          label: t("provenance.label"),
+        },
+        { mark: provenance?.manifest.watermark },
+      ),
+    { layout: layout.id, aspect: aspect.id },
+  )
+
+  return new NextResponse(new Uint8Array(poster), {
+    headers: {
+      "Content-Type": "image/png",
+      "Content-Length": String(poster.length),
+      "Content-Disposition": `attachment; filename="poster-${image.cityId}-${image.issueId}-${aspect.id}.png"`,
+    },
+  })
+})
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { apiRoute } from "@/lib/api"
+import type { ProvidersResponse } from "@/lib/api/types"
+import { getConfiguredProviders } from "@/lib/providers"
+
+export const dynamic = "force-dynamic"
+
+export const GET = apiRoute(async () =>
+  NextResponse.json<ProvidersResponse>({
+    providers: getConfiguredProviders().map(({ id, name, capabilities, vary, edit }) => ({
+      id,
+      name,
+      capabilities,
+      variations: Boolean(vary),
+      edits: Boolean(edit),
+    })),
+  }),
+)
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { apiRoute } from "@/lib/api"
+import type { QuotaResponse } from "@/lib/api/types"
+import { getQuota, rateLimitHeaders } from "@/lib/rate-limit"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+export const GET = apiRoute(async (_request, { clientId }) => {
+  const quota = await getQuota(clientId)
+  return NextResponse.json<QuotaResponse>({ quota }, { headers: rateLimitHeaders(undefined, quota) })
+})
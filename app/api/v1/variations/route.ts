@@ -0,0 +1,52 @@
+import { apiRoute, invalidJson, jobStarted, notFound } from "@/lib/api"
+import { startDerivedJob } from "@/lib/generation"
+import { span } from "@/lib/logger"
+import { checkRateLimit, consumeQuota, quotaExceededResponse, rateLimitedResponse } from "@/lib/rate-limit"
+import { getImage, readImageData } from "@/lib/store/images"
+import { parseVariationRequest, resolveDerivedProvider, unprocessable } from "@/lib/validation"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// "More like this": new images based on a stored one, run as a job like /generate
+export const POST = apiRoute(async (request, { clientId, owner }) => {
+  const rate = await checkRateLimit(clientId)
+  if (!rate.allowed) {
+    return rateLimitedResponse(rate)
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return invalidJson()
+  }
+
+  const parsed = span("validation", () => parseVariationRequest(body))
+  if (!parsed.ok) {
+    return unprocessable("validation_failed", "Invalid variation request", parsed.issues)
+  }
+
+  const source = await getImage(parsed.value.imageId)
+  if (!source) {
+    return notFound("Image not found")
+  }
+
+  const provider = resolveDerivedProvider(source, parsed.value, "variation")
+  if (!provider.ok) {
+    return unprocessable("validation_failed", "Variations are not available for this image", provider.issues)
+  }
+
+  const { count } = parsed.value
+  const quota = await consumeQuota(clientId, count)
+  if (!quota.allowed) {
+    return quotaExceededResponse(rate, quota)
+  }
+
+  const data = await readImageData(source)
+  const job = startDerivedJob(source, provider.value, "variation", source.prompt, count, owner, () =>
+    provider.value.vary!({ image: { data, mimeType: source.mimeType, size: source.size }, prompt: source.prompt, count }),
+  )
+
+  return jobStarted(job, rate, quota)
+})
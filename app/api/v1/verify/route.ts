@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server"
+import { apiError } from "@/lib/api"
+import type { VerifyResponse } from "@/lib/api/types"
+import { span } from "@/lib/logger"
+import { isReadableImage, publicKeyPem, verifyImage } from "@/lib/provenance"
+import { checkRateLimit, identifyClient, rateLimitedResponse } from "@/lib/rate-limit"
+import { getImage, imageUrl } from "@/lib/store/images"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024
+// Decoding and scanning for a watermark is heavy, so uploads get their own limit
+const VERIFY_RATE_LIMIT = { name: "verify", maxRequests: 10 }
+
+// Reads the body as it streams in and gives up once it passes `limit` bytes,
+// whatever Content-Length claimed. Null when it was too large.
+async function readBody(request: Request, limit: number): Promise<Buffer | null> {
+  if (!request.body) {
+    return Buffer.alloc(0)
+  }
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.length
+    if (size > limit) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks)
+}
+
+// Checks whether an uploaded image was generated here: by its exact hash, or
+// by the invisible watermark when it has been re-encoded or resized since.
+// The image is the raw request body, sent with its image/* Content-Type.
+// Public: anyone who comes across an image can check it.
+export async function POST(request: Request) {
+  const rate = await checkRateLimit(identifyClient(request), VERIFY_RATE_LIMIT)
+  if (!rate.allowed) {
+    return rateLimitedResponse(rate)
+  }
+
+  if (!request.headers.get("content-type")?.startsWith("image/")) {
+    return apiError(400, "invalid_request", "Send the image as the request body with an image/* Content-Type")
+  }
+  if (Number(request.headers.get("content-length")) > MAX_UPLOAD_BYTES) {
+    return apiError(413, "invalid_request", "Images must be 20 MB or smaller")
+  }
+
+  const data = await readBody(request, MAX_UPLOAD_BYTES)
+  if (!data) {
+    return apiError(413, "invalid_request", "Images must be 20 MB or smaller")
+  }
+  if (!(await isReadableImage(data))) {
+    return apiError(400, "invalid_request", "The upload could not be read as an image of at most 40 megapixels")
+  }
+
+  const { match, provenance, signatureValid } = await span("verification", () => verifyImage(data))
+  const image = provenance && (await getImage(provenance.manifest.imageId))
+  return NextResponse.json<VerifyResponse>({
+    verified: match !== null && signatureValid,
+    match,
+    provenance,
+    signatureValid,
+    imageUrl: image ? imageUrl(image.id) : null,
+    publicKey: await publicKeyPem(),
+  })
+}
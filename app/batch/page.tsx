@@ -0,0 +1,286 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from "next/link"
+import { Download, Loader2 } from 'lucide-react'
+import { AdvancedOptions } from "@/components/advanced-options"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { toast } from "@/components/ui/use-toast"
+import { api, ApiRequestError } from "@/lib/api/client"
+import type { ProviderInfo } from "@/lib/api/types"
+import type { BatchCampaign } from "@/lib/batch"
+import type { City } from "@/lib/catalog/data"
+import { clientLogger } from "@/lib/logger/client"
+import type { MessageKey } from "@/lib/i18n"
+import { DEFAULT_TEMPLATE_ID, promptTemplates } from "@/lib/prompts/templates"
+import type { GenerationOptionsInput } from "@/lib/validation/options"
+import type { ValidationIssue } from "@/lib/validation/text"
+
+const POLL_INTERVAL_MS = 2000
+
+const STATUS_COLORS = {
+  queued: 'text-muted-foreground',
+  running: 'text-blue-700',
+  succeeded: 'text-green-700',
+  failed: 'text-red-600',
+}
+
+function toggle(list: string[], id: string, checked: boolean) {
+  return checked ? [...list, id] : list.filter((item) => item !== id)
+}
+
+export default function BatchCampaignPage() {
+  const { t } = useI18n()
+  const [cities, setCities] = useState<City[]>([])
+  const [providers, setProviders] = useState<ProviderInfo[]>([])
+  const [selectedCities, setSelectedCities] = useState<string[]>([])
+  const [selectedIssues, setSelectedIssues] = useState<string[]>([])
+  const [selectedTemplates, setSelectedTemplates] = useState<string[]>([DEFAULT_TEMPLATE_ID])
+  const [includeFacts, setIncludeFacts] = useState(false)
+  const [advancedOptions, setAdvancedOptions] = useState<GenerationOptionsInput>({})
+  const [fieldErrors, setFieldErrors] = useState<ValidationIssue[]>([])
+  const [isStarting, setIsStarting] = useState(false)
+  const [batch, setBatch] = useState<BatchCampaign | null>(null)
+
+  const chosenCities = cities.filter((c) => selectedCities.includes(c.id))
+  // Issues offered are those of the ticked cities, each listed once
+  const issues = Array.from(new Map(chosenCities.flatMap((c) => c.issues).map((i) => [i.id, i])).values())
+  const cells =
+    chosenCities.reduce(
+      (total, c) => total + c.issues.filter((i) => selectedIssues.length === 0 || selectedIssues.includes(i.id)).length,
+      0,
+    ) * Math.max(selectedTemplates.length, 1)
+  const providerCount = advancedOptions.providers?.length ?? providers.length
+  const isRunning = batch?.status === 'running'
+
+  const errorFor = (field: string) => {
+    const message = fieldErrors.find((error) => error.field === field)?.message
+    return message && <p className="text-xs text-red-600">{message}</p>
+  }
+
+  useEffect(() => {
+    api.getCatalog()
+      .then((data) => setCities(data.cities))
+      .catch((error) => {
+        clientLogger.error('catalog request failed', { error })
+        toast({
+          title: t('common.error'),
+          description: t('toast.catalogFailed'),
+          variant: "destructive",
+        })
+      })
+  }, [t])
+
+  useEffect(() => {
+    api.getProviders()
+      .then((data) => setProviders(data.providers))
+      .catch((error) => clientLogger.error('providers request failed', { error }))
+  }, [])
+
+  useEffect(() => {
+    if (!batch || batch.status !== 'running') return
+
+    const timer = setTimeout(async () => {
+      try {
+        const data = await api.getBatch(batch.id)
+        setBatch(data.batch)
+        if (data.batch.status === 'completed') {
+          toast({
+            title: t('common.success'),
+            description: t('toast.batchCompleted', {
+              succeeded: data.batch.progress.succeeded,
+              failed: data.batch.progress.failed,
+            }),
+          })
+        }
+      } catch (error: any) {
+        clientLogger.warn('batch polling failed', { error })
+        // Keep polling on transient errors; a missing batch can't recover
+        if (error instanceof ApiRequestError && error.status === 404) setBatch(null)
+        else setBatch({ ...batch })
+      }
+    }, POLL_INTERVAL_MS)
+    return () => clearTimeout(timer)
+  }, [batch, t])
+
+  // Ticking a city off drops issues only it offered
+  const toggleCity = (id: string, checked: boolean) => {
+    const next = toggle(selectedCities, id, checked)
+    const offered = new Set(cities.filter((c) => next.includes(c.id)).flatMap((c) => c.issues.map((i) => i.id)))
+    setSelectedCities(next)
+    setSelectedIssues(selectedIssues.filter((issueId) => offered.has(issueId)))
+  }
+
+  const handleStart = async () => {
+    setIsStarting(true)
+    setFieldErrors([])
+
+    try {
+      const data = await api.createBatch({
+        cities: selectedCities,
+        issues: selectedIssues.length > 0 ? selectedIssues : undefined,
+        templates: selectedTemplates,
+        facts: includeFacts,
+        ...advancedOptions,
+      })
+      clientLogger.info('batch started', { batchId: data.batch.id })
+      setBatch(data.batch)
+    } catch (error: any) {
+      clientLogger.error('batch request failed', { error })
+      const issues = error instanceof ApiRequestError ? error.issues : []
+      setFieldErrors(issues)
+      toast({
+        title: t('common.error'),
+        description: issues.map((issue) => issue.message).join('. ') || error.message || t('toast.batchFailed'),
+        variant: "destructive",
+      })
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  const done = batch ? batch.progress.succeeded + batch.progress.failed : 0
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-green-50 to-green-100 p-4">
+      <Card className="max-w-3xl mx-auto bg-white/80 backdrop-blur">
+        <CardContent className="p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-bold text-green-800">{t('batch.title')}</h1>
+            <Link href="/" className="text-sm text-green-700 hover:underline">{t('batch.back')}</Link>
+          </div>
+
+          <fieldset className="space-y-2" disabled={isRunning}>
+            <legend className="text-sm font-medium">{t('batch.cities')}</legend>
+            <div className="grid grid-cols-2 gap-1">
+              {cities.map((c) => (
+                <label key={c.id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={selectedCities.includes(c.id)}
+                    onChange={(event) => toggleCity(c.id, event.target.checked)}
+                    className="accent-green-600"
+                  />
+                  {t.city(c)}
+                </label>
+              ))}
+            </div>
+            {errorFor('cities')}
+          </fieldset>
+
+          {issues.length > 0 && (
+            <fieldset className="space-y-2" disabled={isRunning}>
+              <legend className="text-sm font-medium">{t('batch.issues')}</legend>
+              <p className="text-xs text-muted-foreground">{t('batch.allIssues')}</p>
+              <div className="grid grid-cols-2 gap-1">
+                {issues.map((i) => (
+                  <label key={i.id} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={selectedIssues.includes(i.id)}
+                      onChange={(event) => setSelectedIssues(toggle(selectedIssues, i.id, event.target.checked))}
+                      className="accent-green-600"
+                    />
+                    {t.issue(i)}
+                  </label>
+                ))}
+              </div>
+              {errorFor('issues')}
+            </fieldset>
+          )}
+
+          <fieldset className="space-y-2" disabled={isRunning}>
+            <legend className="text-sm font-medium">{t('batch.templates')}</legend>
+            <div className="grid grid-cols-2 gap-1">
+              {promptTemplates.map((template) => (
+                <label key={template.id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={selectedTemplates.includes(template.id)}
+                    onChange={(event) => setSelectedTemplates(toggle(selectedTemplates, template.id, event.target.checked))}
+                    className="accent-green-600"
+                  />
+                  {t(`templates.${template.id}` as MessageKey)}
+                </label>
+              ))}
+            </div>
+            {errorFor('templates')}
+          </fieldset>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={includeFacts}
+              onChange={(event) => setIncludeFacts(event.target.checked)}
+              disabled={isRunning}
+              className="accent-green-600"
+            />
+            {t('batch.includeFacts')}
+          </label>
+
+          <AdvancedOptions providers={providers} value={advancedOptions} onChange={setAdvancedOptions} />
+          {['providers', 'model', 'size', 'aspectRatio', 'count', 'quality', 'style', 'negativePrompt', 'seed'].map(errorFor)}
+
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {t('batch.summary', { cells, providers: providerCount })}
+            </p>
+            <Button
+              className="w-full bg-green-600 hover:bg-green-700"
+              onClick={handleStart}
+              disabled={cells === 0 || isStarting || isRunning}
+            >
+              {(isStarting || isRunning) && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {isStarting ? t('batch.starting') : t('batch.start')}
+            </Button>
+          </div>
+
+          {batch && (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <div className="h-2 w-full overflow-hidden rounded bg-green-100">
+                  <div
+                    className="h-full bg-green-600 transition-all"
+                    style={{ width: `${(done / batch.progress.total) * 100}%` }}
+                  />
+                </div>
+                <p className="text-sm">
+                  {t('batch.progress', { done, total: batch.progress.total })}
+                  {batch.progress.failed > 0 && (
+                    <span className="text-red-600"> · {t('batch.failed', { count: batch.progress.failed })}</span>
+                  )}
+                </p>
+              </div>
+
+              {batch.status === 'completed' && (
+                <Button asChild variant="outline" className="w-full">
+                  <a href={api.batchArchiveUrl(batch.id)} download>
+                    <Download className="w-4 h-4 mr-2" />
+                    {t('batch.download')}
+                  </a>
+                </Button>
+              )}
+
+              <ul className="max-h-96 overflow-y-auto divide-y rounded border text-sm">
+                {batch.items.map((item) => (
+                  <li key={item.index} className="flex items-center justify-between gap-2 px-3 py-2">
+                    <span>
+                      {t.city({ id: item.cityId, name: item.cityName })} · {t.issue({ id: item.issueId, name: item.issueName })}
+                      <span className="block text-xs text-muted-foreground">
+                        {t(`templates.${item.templateId}` as MessageKey)} · {item.provider}
+                      </span>
+                      {item.error && <span className="block text-xs text-red-600">{t(`imageErrors.${item.error}`)}</span>}
+                    </span>
+                    <span className={`shrink-0 ${STATUS_COLORS[item.status]}`}>{t(`batch.statuses.${item.status}`)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
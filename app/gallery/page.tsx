@@ -0,0 +1,198 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Image from "next/image"
+import Link from "next/link"
+import { AiLabel } from "@/components/ai-label"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { toast } from "@/components/ui/use-toast"
+import { api } from "@/lib/api/client"
+import type { ImagesResponse } from "@/lib/api/types"
+import type { City } from "@/lib/catalog/data"
+import { clientLogger } from "@/lib/logger/client"
+import type { StoredImage } from "@/lib/store/images"
+
+const ALL = "all"
+
+export default function Gallery() {
+  const { locale, t } = useI18n()
+  const [cities, setCities] = useState<City[]>([])
+  const [cityFilter, setCityFilter] = useState(ALL)
+  const [issueFilter, setIssueFilter] = useState(ALL)
+  const [providerFilter, setProviderFilter] = useState(ALL)
+  const [page, setPage] = useState(1)
+  const [result, setResult] = useState<ImagesResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  // Links such as "View in gallery" open the gallery already filtered
+  const [filtersReady, setFiltersReady] = useState(false)
+
+  const city = cities.find((c) => c.id === cityFilter)
+
+  useEffect(() => {
+    api.getCatalog()
+      .then((data) => setCities(data.cities))
+      .catch((error) => clientLogger.error('catalog request failed', { error }))
+  }, [])
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    setCityFilter(params.get('city') || ALL)
+    setIssueFilter(params.get('issue') || ALL)
+    setFiltersReady(true)
+  }, [])
+
+  useEffect(() => {
+    if (!filtersReady) return
+    const filter = (value: string) => (value === ALL ? undefined : value)
+
+    setIsLoading(true)
+    api.listImages({
+      city: filter(cityFilter),
+      issue: filter(issueFilter),
+      provider: filter(providerFilter),
+      page,
+      pageSize: 12,
+    })
+      .then(setResult)
+      .catch((error) => {
+        clientLogger.error('gallery request failed', { error })
+        toast({
+          title: t('common.error'),
+          description: t('toast.galleryFailed'),
+          variant: "destructive",
+        })
+      })
+      .finally(() => setIsLoading(false))
+  }, [filtersReady, cityFilter, issueFilter, providerFilter, page, t])
+
+  const cityName = (image: StoredImage) => t.city({ id: image.cityId, name: image.cityName })
+  const issueName = (image: StoredImage) => t.issue({ id: image.issueId, name: image.issueName })
+
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value)
+    setPage(1)
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-green-50 to-green-100 p-4">
+      <Card className="max-w-5xl mx-auto bg-white/80 backdrop-blur">
+        <CardContent className="p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-bold text-green-800">{t('gallery.title')}</h1>
+            <Link href="/" className="text-sm text-green-700 hover:underline">{t('gallery.back')}</Link>
+          </div>
+
+          <div className="grid gap-2 sm:grid-cols-3">
+            <Select
+              value={cityFilter}
+              onValueChange={(value) => {
+                updateFilter(setCityFilter)(value)
+                setIssueFilter(ALL)
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={t('gallery.city')} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t('gallery.allCities')}</SelectItem>
+                {cities.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>{t.city(c)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={issueFilter} onValueChange={updateFilter(setIssueFilter)} disabled={!city}>
+              <SelectTrigger>
+                <SelectValue placeholder={t('gallery.issue')} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t('gallery.allIssues')}</SelectItem>
+                {city?.issues.map((i) => (
+                  <SelectItem key={i.id} value={i.id}>{t.issue(i)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={providerFilter} onValueChange={updateFilter(setProviderFilter)}>
+              <SelectTrigger>
+                <SelectValue placeholder={t('gallery.provider')} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t('gallery.allProviders')}</SelectItem>
+                {result?.providers.map((provider) => (
+                  <SelectItem key={provider.id} value={provider.id}>{provider.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {isLoading ? (
+              Array(6).fill(0).map((_, i) => (
+                <Skeleton key={i} className="w-full aspect-square rounded-lg" />
+              ))
+            ) : (
+              result?.images.map((image) => (
+                <figure key={image.id} className="space-y-1">
+                  <Link href={`/i/${image.id}`} className="block relative rounded-lg overflow-hidden">
+                    <Image
+                      src={image.url}
+                      alt={t('permalink.caption', { issue: issueName(image), city: cityName(image) })}
+                      width={400}
+                      height={400}
+                      className="w-full aspect-square object-cover"
+                      unoptimized
+                    />
+                    <AiLabel className="absolute top-2 left-2" />
+                    <div className="absolute top-2 right-2 bg-black/50 text-white px-2 py-1 rounded text-xs">
+                      {image.providerName}
+                    </div>
+                  </Link>
+                  <figcaption className="text-sm">
+                    <span className="font-medium">{cityName(image)}</span> · {issueName(image)}
+                    <span className="block text-xs text-muted-foreground">
+                      {new Date(image.createdAt).toLocaleString(locale)}
+                    </span>
+                  </figcaption>
+                </figure>
+              ))
+            )}
+          </div>
+
+          {!isLoading && result?.total === 0 && (
+            <p className="text-center text-sm text-muted-foreground">{t('gallery.empty')}</p>
+          )}
+
+          {result && result.totalPages > 1 && (
+            <div className="flex items-center justify-center gap-4">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1 || isLoading}>
+                {t('gallery.previous')}
+              </Button>
+              <span className="text-sm">
+                {t('gallery.page', { page: result.page, totalPages: result.totalPages })}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page + 1)}
+                disabled={page >= result.totalPages || isLoading}
+              >
+                {t('gallery.next')}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
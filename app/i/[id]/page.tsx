@@ -0,0 +1,113 @@
+import type { Metadata } from "next"
+import Image from "next/image"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { AiLabel } from "@/components/ai-label"
+import { Card, CardContent } from "@/components/ui/card"
+import { createTranslator, getMessages, type Locale, type Translator } from "@/lib/i18n"
+import { getRequestLocale } from "@/lib/i18n/server"
+import { getShareCrop, shareCropUrl, type ShareCropId } from "@/lib/share"
+import { getImage, imageUrl, type StoredImage } from "@/lib/store/images"
+
+interface PermalinkProps {
+  params: { id: string }
+}
+
+function names(t: Translator, image: StoredImage) {
+  return {
+    city: t.city({ id: image.cityId, name: image.cityName }),
+    issue: t.issue({ id: image.issueId, name: image.issueName }),
+  }
+}
+
+// Link previews get platform-sized crops rather than the square original
+function previewImages(image: StoredImage, cropId: ShareCropId, locale: Locale, alt: string) {
+  const { width, height } = getShareCrop(cropId)!
+  return [{ url: shareCropUrl(image.id, cropId, locale), width, height, alt }]
+}
+
+function caption(t: Translator, image: StoredImage) {
+  return t("permalink.caption", names(t, image))
+}
+
+function description(t: Translator, image: StoredImage) {
+  return t("permalink.description", names(t, image))
+}
+
+export async function generateMetadata({ params }: PermalinkProps): Promise<Metadata> {
+  const locale = getRequestLocale()
+  const t = createTranslator(getMessages(locale))
+  const image = await getImage(params.id)
+  if (!image) {
+    return { title: `${t("permalink.notFound")} - GreenGitch` }
+  }
+
+  const title = caption(t, image)
+
+  return {
+    title: `${title} - GreenGitch`,
+    description: description(t, image),
+    openGraph: {
+      title,
+      description: description(t, image),
+      type: "article",
+      url: `/i/${image.id}`,
+      // 1.91:1 is what Facebook, LinkedIn and WhatsApp lay out
+      images: previewImages(image, "link", locale, title),
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description: description(t, image),
+      images: previewImages(image, "landscape", locale, title),
+    },
+  }
+}
+
+export default async function Permalink({ params }: PermalinkProps) {
+  const image = await getImage(params.id)
+  if (!image) {
+    notFound()
+  }
+
+  const locale = getRequestLocale()
+  const t = createTranslator(getMessages(locale))
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-green-50 to-green-100 p-4">
+      <Card className="max-w-2xl mx-auto bg-white/80 backdrop-blur">
+        <CardContent className="p-6 space-y-4">
+          <figure className="space-y-3">
+            <div className="relative rounded-lg overflow-hidden">
+              <Image
+                src={imageUrl(image.id)}
+                alt={caption(t, image)}
+                width={1024}
+                height={1024}
+                className="w-full object-cover"
+                unoptimized
+                priority
+              />
+              <AiLabel className="absolute top-2 left-2" />
+            </div>
+            <figcaption>
+              <h1 className="text-xl font-bold text-green-800">{caption(t, image)}</h1>
+              <p className="text-sm text-muted-foreground">
+                {t("permalink.generatedBy", {
+                  provider: image.providerName,
+                  date: new Date(image.createdAt).toLocaleDateString(locale),
+                })}
+              </p>
+            </figcaption>
+          </figure>
+
+          <p className="text-sm">
+            <Link href="/" className="text-green-700 hover:underline">{t("permalink.createYourOwn")}</Link>
+            {" · "}
+            <Link href="/verify" className="text-green-700 hover:underline">{t("provenance.verifyLink")}</Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
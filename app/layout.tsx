@@ -1,10 +1,16 @@
 import type { Metadata } from "next"
 import { Inter } from 'next/font/google'
+import { I18nProvider } from "@/components/i18n-provider"
+import { NotificationCenter } from "@/components/notification-center"
+import { Toaster } from "@/components/toaster"
+import { getRequestLocale } from "@/lib/i18n/server"
 import "./globals.css"
 
 const inter = Inter({ subsets: ["latin"] })
 
 export const metadata: Metadata = {
+  // Needed so per-image Open Graph URLs resolve to absolute links
+  metadataBase: new URL(process.env.SITE_URL || "http://localhost:3000"),
   title: "GreenGitch - Climate Change Awareness Images",
   description: "Generate AI-powered climate change awareness images for cities worldwide",
 }
@@ -14,9 +20,17 @@ export default function RootLayout({
 }: Readonly<{
   children: React.ReactNode
 }>) {
+  const locale = getRequestLocale()
+
   return (
-    <html lang="en">
-      <body className={inter.className}>{children}</body>
+    <html lang={locale}>
+      <body className={inter.className}>
+        <I18nProvider locale={locale}>
+          {children}
+          <Toaster />
+          <NotificationCenter />
+        </I18nProvider>
+      </body>
     </html>
   )
 }
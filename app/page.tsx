@@ -1,8 +1,21 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
+import { AdvancedOptions } from "@/components/advanced-options"
+import { AiLabel } from "@/components/ai-label"
+import { CitySearch } from "@/components/city-search"
+import { ComparisonSlider } from "@/components/comparison-slider"
+import { ExportMenu } from "@/components/export-menu"
+import { FactCard } from "@/components/fact-card"
+import { useI18n } from "@/components/i18n-provider"
+import { LocaleSwitcher } from "@/components/locale-switcher"
+import { MaskEditor } from "@/components/mask-editor"
+import { PosterMaker } from "@/components/poster-maker"
+import { ShareMenu } from "@/components/share-menu"
+import { WorldMap } from "@/components/world-map"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
 import {
   Select,
   SelectContent,
@@ -11,285 +24,719 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 import { Skeleton } from "@/components/ui/skeleton"
-import { Download, Facebook, Instagram, Twitter } from 'lucide-react'
+import { AlertTriangle, Brush, ChevronDown, Download, Globe, LayoutTemplate, Share2, Shuffle, Trash2 } from 'lucide-react'
 import Image from "next/image"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { ToastAction } from "@/components/ui/toast"
 import { toast } from "@/components/ui/use-toast"
+import { api, ApiRequestError } from "@/lib/api/client"
+import type { JobStartedResponse, LocationSummary, ProviderInfo } from "@/lib/api/types"
+import type { City } from "@/lib/catalog/data"
+import { comparisonFormats } from "@/lib/comparison/formats"
+import { exportFormats } from "@/lib/export/formats"
+import { factStatement } from "@/lib/facts/statement"
+import type { ClimateFact } from "@/lib/facts/types"
+import type { MessageKey } from "@/lib/i18n"
+import { DEFAULT_TEMPLATE_ID, promptTemplates } from "@/lib/prompts/templates"
+import type { GenerationJob, ProviderJobState } from "@/lib/jobs"
+import { clientLogger } from "@/lib/logger/client"
+import type { GeneratedImage } from "@/lib/providers/types"
+import type { QuotaResult } from "@/lib/rate-limit"
+import type { ShareContent } from "@/lib/share/targets"
+import type { GenerationOptionsInput } from "@/lib/validation/options"
+import type { ValidationIssue } from "@/lib/validation/text"
 
-const climateIssues = {
-  "New York": ["Sea Level Rise", "Urban Heat Island", "Air Pollution"],
-  London: ["Flooding", "Air Quality", "Heat Waves"],
-  Tokyo: ["Typhoons", "Urban Flooding", "Heat Stress"],
-  Mumbai: ["Monsoon Flooding", "Coastal Erosion", "Air Pollution"],
+const JOB_POLL_INTERVAL_MS = 2000
+
+interface ComparisonPair {
+  today: GeneratedImage
+  future: GeneratedImage
 }
 
-interface GeneratedImage {
-  url: string
-  provider: string
-  error?: string
+// Comparison jobs return a provider's "today" images followed by its "future"
+// ones. Pairs are only shown when every image in the set was generated.
+function comparisonPairs(images: GeneratedImage[]): ComparisonPair[] | null {
+  const today = images.filter((image) => image.phase === 'today')
+  const future = images.filter((image) => image.phase === 'future')
+  if (today.length === 0 || today.length !== future.length || images.some((image) => !image.id)) {
+    return null
+  }
+  return today.map((image, index) => ({ today: image, future: future[index] }))
 }
 
 export default function GreenGitch() {
+  const { locale, t } = useI18n()
+  const router = useRouter()
+  const [cities, setCities] = useState<City[]>([])
   const [selectedCity, setSelectedCity] = useState("")
+  // The chosen city with its issues, curated or inferred from the gazetteer
+  const [city, setCity] = useState<City | null>(null)
+  const [location, setLocation] = useState<LocationSummary | null>(null)
+  const [showMap, setShowMap] = useState(false)
   const [selectedIssue, setSelectedIssue] = useState("")
-  const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([])
+  const [selectedTemplate, setSelectedTemplate] = useState(DEFAULT_TEMPLATE_ID)
+  const [landmark, setLandmark] = useState("")
+  const [season, setSeason] = useState("")
+  const [audience, setAudience] = useState("")
+  const [fieldErrors, setFieldErrors] = useState<ValidationIssue[]>([])
+  const [quota, setQuota] = useState<QuotaResult | null>(null)
+  const [forceFresh, setForceFresh] = useState(false)
+  const [comparisonMode, setComparisonMode] = useState(false)
+  const [facts, setFacts] = useState<ClimateFact[]>([])
+  const [includeFact, setIncludeFact] = useState(true)
+  // Facts shown under the current results, fixed when the generation starts
+  const [resultFacts, setResultFacts] = useState<{ city: City; facts: ClimateFact[] } | null>(null)
+  const [promptFact, setPromptFact] = useState<ClimateFact | null>(null)
+  const [providers, setProviders] = useState<ProviderInfo[]>([])
+  const [advancedOptions, setAdvancedOptions] = useState<GenerationOptionsInput>({})
+  const [resolvedPrompt, setResolvedPrompt] = useState<{ prompt: string; templateId: string; version: number } | null>(null)
+  const [jobProviders, setJobProviders] = useState<ProviderJobState[]>([])
   const [isLoading, setIsLoading] = useState(false)
+  const [posterImageId, setPosterImageId] = useState<string | null>(null)
+  const [exportImageId, setExportImageId] = useState<string | null>(null)
+  const [shareImageId, setShareImageId] = useState<string | null>(null)
+  const [editImageId, setEditImageId] = useState<string | null>(null)
+  // Images deleted from the results, hidden until they are restored
+  const [deletedIds, setDeletedIds] = useState<string[]>([])
+  const eventSourceRef = useRef<EventSource | null>(null)
+  // The last job started, for the "Retry" action on failures
+  const lastStartRef = useRef<(() => Promise<JobStartedResponse>) | null>(null)
+  const locationRequestRef = useRef<string | null>(null)
 
-  const handleGenerateImages = async () => {
-    setIsLoading(true)
-    setGeneratedImages([])
+  const issue = city?.issues.find((i) => i.id === selectedIssue)
+
+  const errorFor = (field: string) => {
+    const message = fieldErrors.find((error) => error.field === field)?.message
+    return message && <p className="text-xs text-red-600">{message}</p>
+  }
+
+  useEffect(() => {
+    api.getCatalog()
+      .then((data) => setCities(data.cities))
+      .catch((error) => {
+        clientLogger.error('catalog request failed', { error })
+        toast({
+          title: t('common.error'),
+          description: t('toast.catalogFailed'),
+          variant: "destructive",
+        })
+      })
+  }, [t])
+
+  useEffect(() => {
+    api.getProviders()
+      .then((data) => setProviders(data.providers))
+      .catch((error) => clientLogger.error('providers request failed', { error }))
+  }, [])
+
+  useEffect(() => {
+    api.getQuota()
+      .then((data) => setQuota(data.quota))
+      .catch((error) => clientLogger.warn('quota request failed', { error }))
+  }, [])
+
+  useEffect(() => {
+    setFacts([])
+    if (!selectedCity || !selectedIssue) return
+
+    api.getFacts({ city: selectedCity, issue: selectedIssue })
+      .then((data) => setFacts(data.facts))
+      .catch((error) => clientLogger.warn('facts request failed', { error }))
+  }, [selectedCity, selectedIssue])
+
+  useEffect(() => () => eventSourceRef.current?.close(), [])
+
+  const selectCity = async (cityId: string) => {
+    setSelectedCity(cityId)
+    setSelectedIssue("")
+    setLandmark("")
+    locationRequestRef.current = cityId
 
     try {
-      console.log('Starting image generation...')
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), 60000) // 60 second timeout
-
-      const response = await fetch('/api/generate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          city: selectedCity,
-          issue: selectedIssue,
-        }),
-        signal: controller.signal
+      const data = await api.getLocation(cityId)
+      // A later pick wins over a slow response for an earlier one
+      if (locationRequestRef.current !== cityId) return
+      setCity(data.city)
+      setLocation(data.location)
+    } catch (error) {
+      clientLogger.error('location request failed', { error, cityId })
+      toast({
+        title: t('common.error'),
+        description: t('locations.loadFailed'),
+        variant: "destructive",
       })
+    }
+  }
 
-      clearTimeout(timeoutId)
+  const finishJob = (job: GenerationJob) => {
+    setJobProviders(job.providers)
+    setIsLoading(false)
 
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.error('Server error response:', errorText)
-        throw new Error('Failed to generate images')
-      }
+    const successfulImages = job.providers.filter((provider) => provider.status === 'succeeded')
+    if (successfulImages.length > 0) {
+      const gallery = `/gallery?city=${encodeURIComponent(job.cityId)}&issue=${encodeURIComponent(job.issueId)}`
+      toast({
+        title: t('common.success'),
+        description: t('toast.generated', { count: successfulImages.length }),
+        action: (
+          <ToastAction altText={t('notifications.viewInGallery')} onClick={() => router.push(gallery)}>
+            {t('notifications.viewInGallery')}
+          </ToastAction>
+        ),
+      })
+    } else {
+      toast({
+        title: t('common.warning'),
+        description: t('toast.noImages'),
+        variant: "destructive",
+        action: retryAction(),
+      })
+    }
+  }
 
-      let data
-      try {
-        data = await response.json()
-      } catch (e) {
-        console.error('Failed to parse response:', e)
-        throw new Error('Invalid response from server')
-      }
+  const retryAction = () => {
+    const start = lastStartRef.current
+    return start ? (
+      <ToastAction altText={t('notifications.retry')} onClick={() => startJob(start)}>
+        {t('notifications.retry')}
+      </ToastAction>
+    ) : undefined
+  }
+
+  // Requests the server rejected as invalid fail the same way again, so only
+  // other failures offer a retry
+  const failJob = (message: string, retryable = true) => {
+    setIsLoading(false)
+    toast({
+      title: t('common.error'),
+      description: message,
+      variant: "destructive",
+      action: retryable ? retryAction() : undefined,
+    })
+  }
 
-      if (!data.success) {
-        throw new Error(data.error || 'Failed to generate images')
+  // Fallback for when the event stream can't be kept open (e.g. a proxy
+  // buffering the response): poll the job until it completes
+  const pollJob = async (jobId: string) => {
+    try {
+      const data = await api.getJob(jobId)
+      if (data.job.status === 'completed') {
+        finishJob(data.job)
+      } else {
+        setJobProviders(data.job.providers)
+        setTimeout(() => pollJob(jobId), JOB_POLL_INTERVAL_MS)
       }
+    } catch (error: any) {
+      clientLogger.error('job polling failed', { error })
+      failJob(error.message || t('toast.lostJob'))
+    }
+  }
 
-      console.log('Received images:', data.images)
-      setGeneratedImages(data.images)
+  const watchJob = (jobId: string) => {
+    const source = new EventSource(api.jobEventsUrl(jobId))
+    eventSourceRef.current = source
 
-      const successfulImages = data.images.filter((img: GeneratedImage) => !img.error)
-      if (successfulImages.length > 0) {
-        toast({
-          title: "Success",
-          description: `Generated ${successfulImages.length} image(s) successfully.`,
-        })
-      } else {
-        toast({
-          title: "Warning",
-          description: "Could not generate any images. Please try again.",
-          variant: "destructive",
-        })
+    source.addEventListener('snapshot', (event) => {
+      setJobProviders(JSON.parse(event.data).providers)
+    })
+    source.addEventListener('provider', (event) => {
+      const state: ProviderJobState = JSON.parse(event.data)
+      setJobProviders((providers) =>
+        providers.map((provider) => (provider.providerId === state.providerId ? state : provider)),
+      )
+    })
+    source.addEventListener('completed', (event) => {
+      source.close()
+      finishJob(JSON.parse(event.data))
+    })
+    source.onerror = () => {
+      source.close()
+      pollJob(jobId)
+    }
+  }
+
+  // Starts a generation, variation or edit job and streams its results in
+  // place of the current ones
+  const startJob = async (start: () => Promise<JobStartedResponse>) => {
+    eventSourceRef.current?.close()
+    lastStartRef.current = start
+    setIsLoading(true)
+    setFieldErrors([])
+
+    try {
+      const data = await start()
+      setQuota(data.quota)
+
+      clientLogger.info('generation job started', { jobId: data.jobId })
+      setJobProviders(data.providers)
+      setResolvedPrompt({ prompt: data.prompt, templateId: data.template.id, version: data.template.version })
+      if (data.fact) {
+        setPromptFact(data.fact)
       }
+      setEditImageId(null)
+      watchJob(data.jobId)
     } catch (error: any) {
-      console.error('Error during image generation:', error)
-      if (error.name === 'AbortError') {
-        toast({
-          title: "Timeout",
-          description: "Request took too long. Please try again.",
-          variant: "destructive",
-        })
+      clientLogger.error('generation failed', { error })
+      if (error instanceof ApiRequestError) {
+        if (error.details.quota) {
+          setQuota(error.details.quota)
+        }
+        setFieldErrors(error.issues)
+        const details = error.issues.map((issue) => issue.message).join('. ')
+        failJob(details || error.message || t('toast.generateFailed'), error.status >= 500 || error.status === 429)
       } else {
-        toast({
-          title: "Error",
-          description: error.message || "Failed to generate images",
-          variant: "destructive",
-        })
+        failJob(error instanceof SyntaxError ? t('toast.invalidResponse') : error.message || t('toast.generateFailed'))
       }
-    } finally {
-      setIsLoading(false)
     }
   }
 
+  const handleGenerateImages = () => {
+    setJobProviders([])
+    setResolvedPrompt(null)
+    setPromptFact(null)
+    setResultFacts(city ? { city, facts } : null)
+
+    startJob(() => api.generate({
+      city: selectedCity,
+      issue: selectedIssue,
+      template: comparisonMode ? undefined : selectedTemplate,
+      mode: comparisonMode ? 'comparison' : 'single',
+      landmark: landmark || undefined,
+      season: season || undefined,
+      audience: audience || undefined,
+      cache: forceFresh ? 'bypass' : 'default',
+      fact: includeFact ? facts[0]?.id : undefined,
+      ...advancedOptions,
+    }))
+  }
+
+  const renderComparison = ({ today, future }: ComparisonPair) => (
+    <div key={today.id} className="space-y-2">
+      <ComparisonSlider todayUrl={today.url!} futureUrl={future.url!} />
+      <p className="text-xs text-muted-foreground">
+        {today.provider} · {today.cached ? t('common.cached') : `${(today.durationMs / 1000).toFixed(1)}s`} · {t('provenance.label')}
+      </p>
+      <div className="flex gap-2">
+        {comparisonFormats.map((format) => (
+          <Button key={format.id} asChild variant="outline" size="sm" className="flex-1">
+            <a
+              href={api.comparisonExportUrl({ today: today.id!, future: future.id!, format: format.id, locale })}
+              download
+            >
+              <Download className="w-4 h-4 mr-2" />
+              {t(`comparison.formats.${format.id}`)}
+            </a>
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+
+  const supports = (image: GeneratedImage, operation: 'variations' | 'edits') =>
+    Boolean(image.id) && providers.some((provider) => provider.id === image.providerId && provider[operation])
+
+  // Only for images that weren't stored; stored ones are saved through the export endpoint
   const handleDownload = async (imageUrl: string) => {
-    if (imageUrl.includes('placeholder.svg')) {
-      toast({
-        title: "Cannot Download",
-        description: "This is a placeholder image.",
-        variant: "destructive",
-      })
-      return
+    const save = (href: string, mimeType: string) => {
+      const extension = exportFormats.find((format) => format.mimeType === mimeType)?.extension ?? 'png'
+      const link = document.createElement('a')
+      link.href = href
+      link.download = `climate-awareness-${Date.now()}.${extension}`
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
     }
 
     try {
-      // For base64 images
-      if (imageUrl.startsWith('data:image')) {
-        const link = document.createElement('a')
-        link.href = imageUrl
-        link.download = `climate-awareness-${Date.now()}.png`
-        document.body.appendChild(link)
-        link.click()
-        document.body.removeChild(link)
+      if (imageUrl.startsWith('data:')) {
+        save(imageUrl, imageUrl.slice('data:'.length, imageUrl.indexOf(';')))
       } else {
-        // For regular URLs
         const response = await fetch(imageUrl)
         const blob = await response.blob()
         const url = window.URL.createObjectURL(blob)
-        const link = document.createElement('a')
-        link.href = url
-        link.download = `climate-awareness-${Date.now()}.png`
-        document.body.appendChild(link)
-        link.click()
+        save(url, blob.type)
         window.URL.revokeObjectURL(url)
-        document.body.removeChild(link)
       }
 
       toast({
-        title: "Success",
-        description: "Image downloaded successfully.",
+        title: t('common.success'),
+        description: t('toast.downloaded'),
       })
     } catch (error) {
-      console.error('Download error:', error)
+      clientLogger.error('download failed', { error })
       toast({
-        title: "Error",
-        description: "Failed to download image.",
+        title: t('common.error'),
+        description: t('toast.downloadFailed'),
         variant: "destructive",
       })
     }
   }
 
-  const handleShare = (platform: string, imageUrl: string) => {
-    if (imageUrl.includes('placeholder.svg')) {
+  const handleDelete = async (image: GeneratedImage) => {
+    const imageId = image.id!
+    try {
+      await api.deleteImage(imageId)
+    } catch (error) {
+      clientLogger.error('delete failed', { error, imageId })
       toast({
-        title: "Cannot Share",
-        description: "This is a placeholder image.",
+        title: t('common.error'),
+        description: t(error instanceof ApiRequestError && error.status === 403 ? 'notifications.deleteForbidden' : 'notifications.deleteFailed'),
         variant: "destructive",
       })
       return
     }
 
-    const text = `Check out this climate change awareness image for ${selectedCity}'s ${selectedIssue} issue!`
-    const url = encodeURIComponent(window.location.href)
+    setDeletedIds((ids) => [...ids, imageId])
+    const undo = async () => {
+      try {
+        await api.restoreImage(imageId)
+        setDeletedIds((ids) => ids.filter((id) => id !== imageId))
+        toast({ title: t('common.success'), description: t('notifications.restored') })
+      } catch (error) {
+        clientLogger.error('restore failed', { error, imageId })
+        toast({ title: t('common.error'), description: t('notifications.restoreFailed'), variant: "destructive" })
+      }
+    }
+    toast({
+      description: t('notifications.deleted'),
+      action: (
+        <ToastAction altText={t('notifications.undo')} onClick={undo}>
+          {t('notifications.undo')}
+        </ToastAction>
+      ),
+    })
+  }
 
-    const shareUrls = {
-      twitter: `https://twitter.com/intent/tweet?text=${encodeURIComponent(text)}&url=${url}`,
-      facebook: `https://www.facebook.com/sharer/sharer.php?u=${url}`,
-      instagram: `https://instagram.com`,
+  const toggleShare = (image: GeneratedImage) => {
+    if (!image.id) {
+      toast({
+        title: t('toast.cannotShare'),
+        description: t('toast.notStored'),
+        variant: "destructive",
+      })
+      return
     }
+    setShareImageId(shareImageId === image.id ? null : image.id)
+  }
 
-    window.open(shareUrls[platform as keyof typeof shareUrls], '_blank')
+  const shareContent = (imageId: string): ShareContent => {
+    const names = { city: city ? t.city(city) : '', issue: issue ? t.issue(issue) : '' }
+    const summary = t('share.text', names)
+    const fact = promptFact ?? resultFacts?.facts[0]
+    const text = fact && resultFacts
+      ? t('share.withFact', { text: summary, fact: factStatement(t, resultFacts.city, fact), source: fact.source.publisher })
+      : summary
+    return { title: t('share.subject', names), text, url: `${window.location.origin}/i/${imageId}` }
   }
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-green-50 to-green-100 p-4">
       <Card className="max-w-md mx-auto bg-white/80 backdrop-blur">
         <CardContent className="p-6 space-y-6">
-          <h1 className="text-2xl font-bold text-center text-green-800 mb-6">GreenGitch</h1>
+          <div className="flex justify-end">
+            <LocaleSwitcher />
+          </div>
+          <h1 className="text-2xl font-bold text-center text-green-800">GreenGitch</h1>
+          <p className="text-center text-sm">
+            <Link href="/gallery" className="text-green-700 hover:underline">{t('home.browseGallery')}</Link>
+            {' · '}
+            <Link href="/batch" className="text-green-700 hover:underline">{t('home.batch')}</Link>
+            {' · '}
+            <Link href="/verify" className="text-green-700 hover:underline">{t('provenance.verifyLink')}</Link>
+          </p>
 
           <div className="space-y-4">
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <CitySearch
+                  value={location}
+                  onSelect={(option) => selectCity(option.id)}
+                  featured={cities.map((c) => ({ id: c.id, name: c.name, country: c.country, curated: true }))}
+                />
+              </div>
+              <Button
+                variant={showMap ? "secondary" : "outline"}
+                size="icon"
+                title={t('locations.showMap')}
+                onClick={() => setShowMap(!showMap)}
+              >
+                <Globe className="w-4 h-4" />
+              </Button>
+            </div>
+            {showMap && (
+              <WorldMap
+                selectedId={selectedCity}
+                highlightIds={cities.map((c) => c.id)}
+                onPick={selectCity}
+              />
+            )}
+            {location && !location.curated && (
+              <p className="text-xs text-muted-foreground">
+                {t(location.coastal ? 'locations.inferredCoastal' : 'locations.inferred', {
+                  zone: t(`locations.zones.${location.climateZone}`),
+                })}
+              </p>
+            )}
+
             <Select
-              onValueChange={(value) => {
-                setSelectedCity(value)
-                setSelectedIssue("")
-              }}
+              value={selectedIssue}
+              onValueChange={setSelectedIssue}
+              disabled={!city}
             >
               <SelectTrigger>
-                <SelectValue placeholder="Select a city" />
+                <SelectValue placeholder={t('home.selectIssue')} />
               </SelectTrigger>
               <SelectContent>
-                {Object.keys(climateIssues).map((city) => (
-                  <SelectItem key={city} value={city}>{city}</SelectItem>
+                {city?.issues.map((i) => (
+                  <SelectItem key={i.id} value={i.id}>{t.issue(i)}</SelectItem>
                 ))}
               </SelectContent>
             </Select>
 
-            <Select 
-              onValueChange={setSelectedIssue} 
-              disabled={!selectedCity}
-            >
+            {issue && (
+              <p className="text-sm text-muted-foreground">{t.issueDescription(selectedCity, issue)}</p>
+            )}
+            {errorFor('city')}
+            {errorFor('issue')}
+
+            <Select value={landmark} onValueChange={setLandmark} disabled={!city || city.landmarks.length === 0}>
               <SelectTrigger>
-                <SelectValue placeholder="Select climate issue" />
+                <SelectValue placeholder={t('home.landmark')} />
               </SelectTrigger>
               <SelectContent>
-                {selectedCity && climateIssues[selectedCity as keyof typeof climateIssues].map((issue) => (
-                  <SelectItem key={issue} value={issue}>{issue}</SelectItem>
+                {city?.landmarks.map((l) => (
+                  <SelectItem key={l} value={l}>{l}</SelectItem>
                 ))}
               </SelectContent>
             </Select>
+            {errorFor('landmark')}
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Input
+                  value={season}
+                  onChange={(event) => setSeason(event.target.value)}
+                  maxLength={40}
+                  placeholder={t('home.season')}
+                />
+                {errorFor('season')}
+              </div>
+              <div className="space-y-1">
+                <Input
+                  value={audience}
+                  onChange={(event) => setAudience(event.target.value)}
+                  maxLength={80}
+                  placeholder={t('home.audience')}
+                />
+                {errorFor('audience')}
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={comparisonMode}
+                onChange={(event) => setComparisonMode(event.target.checked)}
+                className="accent-green-600"
+              />
+              {t('home.compare')}
+            </label>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={includeFact}
+                onChange={(event) => setIncludeFact(event.target.checked)}
+                disabled={facts.length === 0}
+                className="accent-green-600"
+              />
+              {t('facts.include')}
+            </label>
+            {errorFor('fact')}
+
+            <Select value={selectedTemplate} onValueChange={setSelectedTemplate} disabled={comparisonMode}>
+              <SelectTrigger>
+                <SelectValue placeholder={t('home.selectStyle')} />
+              </SelectTrigger>
+              <SelectContent>
+                {promptTemplates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>{t(`templates.${template.id}` as MessageKey)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errorFor('template')}
+
+            <AdvancedOptions providers={providers} value={advancedOptions} onChange={setAdvancedOptions} />
+            {['mode', 'providers', 'model', 'size', 'aspectRatio', 'count', 'quality', 'style', 'negativePrompt', 'seed'].map(errorFor)}
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={forceFresh}
+                onChange={(event) => setForceFresh(event.target.checked)}
+                className="accent-green-600"
+              />
+              {t('home.alwaysFresh')}
+            </label>
 
             <Button
               className="w-full bg-green-600 hover:bg-green-700"
               onClick={handleGenerateImages}
               disabled={!selectedCity || !selectedIssue || isLoading}
             >
-              {isLoading ? "Generating..." : "Generate Awareness Images"}
+              {isLoading ? t('home.generating') : t('home.generate')}
             </Button>
+            {quota && (
+              <p className="text-center text-xs text-muted-foreground">
+                {t('home.quota', { remaining: quota.remaining, limit: quota.limit })}
+              </p>
+            )}
           </div>
 
           <div className="space-y-6">
-            {isLoading ? (
+            {resolvedPrompt && (
+              <p className="text-xs text-muted-foreground">
+                {resolvedPrompt.prompt} <span className="whitespace-nowrap">({resolvedPrompt.templateId} v{resolvedPrompt.version})</span>
+              </p>
+            )}
+            {isLoading && jobProviders.length === 0 ? (
               Array(3).fill(0).map((_, i) => (
                 <Skeleton key={i} className="w-full h-[300px] rounded-lg" />
               ))
             ) : (
-              generatedImages.map((image, index) => (
-                <div key={index} className="space-y-2">
+              jobProviders.map(({ providerId, provider, status, images }) => status === 'pending' ? (
+                <div key={providerId} className="relative">
+                  <Skeleton className="w-full h-[300px] rounded-lg" />
+                  <div className="absolute top-2 right-2 bg-black/50 text-white px-2 py-1 rounded text-sm">
+                    {provider}
+                  </div>
+                </div>
+              ) : comparisonPairs(images)?.map(renderComparison) ?? images.map((image, index) => image.id && deletedIds.includes(image.id) ? null : image.error ? (
+                <div
+                  key={`${providerId}-${index}`}
+                  className="flex h-[300px] flex-col items-center justify-center gap-2 rounded-lg border border-red-200 bg-red-50 p-6 text-center"
+                >
+                  <AlertTriangle className="w-6 h-6 text-red-600" />
+                  <p className="font-medium text-red-700">{t('imageErrors.failed', { provider })}</p>
+                  <p className="text-sm text-red-600">{t(`imageErrors.${image.error}`)}</p>
+                </div>
+              ) : (
+                <div key={`${providerId}-${index}`} className="space-y-2">
                   <div className="relative rounded-lg overflow-hidden">
                     <Image
-                      src={image.url || "/placeholder.svg"}
-                      alt={`Climate awareness image by ${image.provider}`}
+                      src={image.url!}
+                      alt={t('home.imageAlt', { provider: image.provider })}
                       width={400}
                       height={300}
                       className="w-full object-cover"
+                      unoptimized
                     />
+                    <AiLabel className="absolute top-2 left-2" />
                     <div className="absolute top-2 right-2 bg-black/50 text-white px-2 py-1 rounded text-sm">
-                      {image.provider}
+                      {image.provider} · {image.cached ? t('common.cached') : `${(image.durationMs / 1000).toFixed(1)}s`}
                     </div>
-                    {image.error && (
-                      <div className="absolute bottom-2 right-2 bg-red-500/50 text-white px-2 py-1 rounded text-sm">
-                        {image.error}
+                    {image.fallbackFrom && (
+                      <div className="absolute bottom-2 right-2 bg-amber-500/70 text-white px-2 py-1 rounded text-sm">
+                        {t('home.fallbackFor', { provider })}
                       </div>
                     )}
                   </div>
 
                   <div className="flex gap-2">
+                    <div className="flex flex-1">
+                      {image.id ? (
+                        <Button asChild variant="outline" size="sm" className="flex-1 rounded-r-none">
+                          <a href={api.imageExportUrl(image.id, { label: true, locale })} download>
+                            <Download className="w-4 h-4 mr-2" />
+                            {t('home.save')}
+                          </a>
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="flex-1 rounded-r-none"
+                          onClick={() => handleDownload(image.url!)}
+                        >
+                          <Download className="w-4 h-4 mr-2" />
+                          {t('home.save')}
+                        </Button>
+                      )}
+                      <Button
+                        variant={exportImageId === image.id ? "secondary" : "outline"}
+                        size="sm"
+                        className="rounded-l-none border-l-0 px-2"
+                        title={t('export.title')}
+                        onClick={() => setExportImageId(exportImageId === image.id ? null : image.id ?? null)}
+                        disabled={!image.id}
+                      >
+                        <ChevronDown className="w-4 h-4" />
+                      </Button>
+                    </div>
                     <Button
-                      variant="outline"
-                      size="sm"
-                      className="flex-1"
-                      onClick={() => handleDownload(image.url)}
-                      disabled={image.url.includes('placeholder.svg')}
+                      variant={shareImageId === image.id ? "secondary" : "outline"}
+                      size="icon"
+                      title={t('share.title')}
+                      onClick={() => toggleShare(image)}
                     >
-                      <Download className="w-4 h-4 mr-2" />
-                      Save
+                      <Share2 className="w-4 h-4" />
                     </Button>
                     <Button
                       variant="outline"
                       size="icon"
-                      onClick={() => handleShare('twitter', image.url)}
-                      disabled={image.url.includes('placeholder.svg')}
+                      title={t('home.moreLikeThis')}
+                      onClick={() => startJob(() => api.createVariations({ imageId: image.id! }))}
+                      disabled={!supports(image, 'variations') || isLoading}
                     >
-                      <Twitter className="w-4 h-4" />
+                      <Shuffle className="w-4 h-4" />
                     </Button>
                     <Button
-                      variant="outline"
+                      variant={editImageId === image.id ? "secondary" : "outline"}
+                      size="icon"
+                      title={t('home.editRegion')}
+                      onClick={() => setEditImageId(editImageId === image.id ? null : image.id ?? null)}
+                      disabled={!supports(image, 'edits')}
+                    >
+                      <Brush className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant={posterImageId === image.id ? "secondary" : "outline"}
                       size="icon"
-                      onClick={() => handleShare('facebook', image.url)}
-                      disabled={image.url.includes('placeholder.svg')}
+                      title={t('home.makePoster')}
+                      onClick={() => setPosterImageId(posterImageId === image.id ? null : image.id ?? null)}
+                      disabled={!image.id}
                     >
-                      <Facebook className="w-4 h-4" />
+                      <LayoutTemplate className="w-4 h-4" />
                     </Button>
                     <Button
                       variant="outline"
                       size="icon"
-                      onClick={() => handleShare('instagram', image.url)}
-                      disabled={image.url.includes('placeholder.svg')}
+                      title={t('home.delete')}
+                      onClick={() => handleDelete(image)}
+                      disabled={!image.id}
                     >
-                      <Instagram className="w-4 h-4" />
+                      <Trash2 className="w-4 h-4" />
                     </Button>
                   </div>
+
+                  {image.id && editImageId === image.id && (
+                    <MaskEditor
+                      imageUrl={image.url!}
+                      isSubmitting={isLoading}
+                      onSubmit={(edit) => startJob(() => api.editImage({ imageId: image.id!, ...edit }))}
+                    />
+                  )}
+                  {image.id && exportImageId === image.id && <ExportMenu imageId={image.id} />}
+                  {image.id && shareImageId === image.id && (
+                    <ShareMenu imageId={image.id} content={shareContent(image.id)} />
+                  )}
+                  {image.id && posterImageId === image.id && <PosterMaker imageId={image.id} />}
                 </div>
-              ))
+              )))
+            )}
+            {resultFacts && jobProviders.length > 0 && (
+              <FactCard city={resultFacts.city} facts={resultFacts.facts} promptFactId={promptFact?.id} />
             )}
           </div>
         </CardContent>
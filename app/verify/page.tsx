@@ -0,0 +1,141 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Image from "next/image"
+import Link from "next/link"
+import { CheckCircle2, Loader2, ShieldAlert, Upload } from 'lucide-react'
+import { useI18n } from "@/components/i18n-provider"
+import { Card, CardContent } from "@/components/ui/card"
+import { toast } from "@/components/ui/use-toast"
+import { api, ApiRequestError } from "@/lib/api/client"
+import type { VerifyResponse } from "@/lib/api/types"
+import { clientLogger } from "@/lib/logger/client"
+import { cn } from "@/lib/utils"
+
+export default function VerifyPage() {
+  const { locale, t } = useI18n()
+  const [preview, setPreview] = useState<string | null>(null)
+  const [result, setResult] = useState<VerifyResponse | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+  const [isDragging, setIsDragging] = useState(false)
+
+  useEffect(() => () => {
+    if (preview) URL.revokeObjectURL(preview)
+  }, [preview])
+
+  const check = async (file: File) => {
+    setPreview(URL.createObjectURL(file))
+    setResult(null)
+    setIsChecking(true)
+    try {
+      setResult(await api.verifyImage(file))
+    } catch (error) {
+      clientLogger.error('verification failed', { error })
+      toast({
+        title: t('common.error'),
+        description: error instanceof ApiRequestError ? error.message : t('verify.failed'),
+        variant: "destructive",
+      })
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  const manifest = result?.provenance?.manifest
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-green-50 to-green-100 p-4">
+      <Card className="max-w-2xl mx-auto bg-white/80 backdrop-blur">
+        <CardContent className="p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-bold text-green-800">{t('verify.title')}</h1>
+            <Link href="/" className="text-sm text-green-700 hover:underline">{t('verify.back')}</Link>
+          </div>
+          <p className="text-sm text-muted-foreground">{t('verify.intro')}</p>
+
+          <label
+            className={cn(
+              "flex cursor-pointer flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-8 text-sm text-green-800",
+              isDragging ? "border-green-600 bg-green-50" : "border-green-200",
+            )}
+            onDragOver={(event) => {
+              event.preventDefault()
+              setIsDragging(true)
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(event) => {
+              event.preventDefault()
+              setIsDragging(false)
+              const file = event.dataTransfer.files[0]
+              if (file) check(file)
+            }}
+          >
+            {isChecking ? <Loader2 className="w-6 h-6 animate-spin" /> : <Upload className="w-6 h-6" />}
+            <span className="font-medium">{isChecking ? t('verify.checking') : t('verify.choose')}</span>
+            <input
+              type="file"
+              accept="image/*"
+              className="sr-only"
+              disabled={isChecking}
+              onChange={(event) => {
+                const file = event.target.files?.[0]
+                if (file) check(file)
+                event.target.value = ''
+              }}
+            />
+          </label>
+
+          {preview && (
+            <Image
+              src={preview}
+              alt=""
+              width={400}
+              height={400}
+              className="mx-auto max-h-64 w-auto rounded-lg object-contain"
+              unoptimized
+            />
+          )}
+
+          {result && (result.verified && manifest ? (
+            <div className="space-y-3 rounded-lg border border-green-200 bg-green-50 p-4">
+              <p className="flex items-center gap-2 font-semibold text-green-800">
+                <CheckCircle2 className="w-5 h-5" />
+                {t('verify.verified')}
+              </p>
+              <p className="text-sm">{result.match === 'exact' ? t('verify.matchExact') : t('verify.matchWatermark')}</p>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                <dt className="text-muted-foreground">{t('verify.place')}</dt>
+                <dd>{t('permalink.caption', { issue: t.issue(manifest.issue), city: t.city(manifest.city) })}</dd>
+                <dt className="text-muted-foreground">{t('verify.provider')}</dt>
+                <dd>{manifest.provider.name} · {manifest.model}</dd>
+                <dt className="text-muted-foreground">{t('verify.created')}</dt>
+                <dd>{new Date(manifest.createdAt).toLocaleString(locale)}</dd>
+                <dt className="text-muted-foreground">{t('verify.prompt')}</dt>
+                <dd className="break-words">{manifest.prompt}</dd>
+              </dl>
+              {result.imageUrl && (
+                <Link href={`/i/${manifest.imageId}`} className="block text-sm text-green-700 hover:underline">
+                  {t('verify.viewOriginal')}
+                </Link>
+              )}
+              <details className="text-sm">
+                <summary className="cursor-pointer text-green-700">{t('verify.manifest')}</summary>
+                <pre className="mt-2 overflow-x-auto rounded bg-white p-2 text-xs">
+                  {JSON.stringify(result.provenance, null, 2)}
+                </pre>
+              </details>
+            </div>
+          ) : (
+            <div className="space-y-1 rounded-lg border border-amber-200 bg-amber-50 p-4">
+              <p className="flex items-center gap-2 font-semibold text-amber-800">
+                <ShieldAlert className="w-5 h-5" />
+                {result.match ? t('verify.invalidSignature') : t('verify.notFound')}
+              </p>
+              {!result.match && <p className="text-sm">{t('verify.notFoundHint')}</p>}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
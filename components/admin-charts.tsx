@@ -0,0 +1,148 @@
+// Dependency-free SVG charts for the admin dashboard. They render on the
+// server: no interactivity beyond native <title> tooltips.
+
+export interface ChartSeries {
+  id: string
+  name: string
+  color: string
+}
+
+export interface ChartPoint {
+  label: string
+  // Missing or null values are gaps, e.g. a failure rate with no requests
+  values: Record<string, number | null | undefined>
+}
+
+interface ChartProps {
+  title: string
+  series: ChartSeries[]
+  points: ChartPoint[]
+  format: (value: number) => string
+  // Fixed top of the y axis, e.g. 1 for rates; otherwise the largest value
+  max?: number
+}
+
+const WIDTH = 640
+const HEIGHT = 200
+const PADDING = { top: 10, right: 10, bottom: 24, left: 56 }
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom
+// Keep x labels from overlapping on long timelines
+const MAX_X_LABELS = 8
+
+export const SERIES_COLORS = ["#16a34a", "#2563eb", "#ea580c", "#9333ea", "#0891b2", "#db2777"]
+
+function Axes({ points, top, format }: { points: ChartPoint[]; top: number; format: (value: number) => string }) {
+  const every = Math.max(Math.ceil(points.length / MAX_X_LABELS), 1)
+  const step = PLOT_WIDTH / Math.max(points.length, 1)
+
+  return (
+    <g className="text-[10px] fill-muted-foreground">
+      <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={HEIGHT - PADDING.bottom} y2={HEIGHT - PADDING.bottom} stroke="#d4d4d4" />
+      <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={PADDING.top} y2={PADDING.top} stroke="#f0f0f0" />
+      <text x={PADDING.left - 6} y={PADDING.top + 4} textAnchor="end">{format(top)}</text>
+      <text x={PADDING.left - 6} y={HEIGHT - PADDING.bottom} textAnchor="end">{format(0)}</text>
+      {points.map((point, index) =>
+        index % every === 0 ? (
+          <text key={index} x={PADDING.left + step * (index + 0.5)} y={HEIGHT - 8} textAnchor="middle">
+            {point.label}
+          </text>
+        ) : null,
+      )}
+    </g>
+  )
+}
+
+function Legend({ series }: { series: ChartSeries[] }) {
+  return (
+    <ul className="flex flex-wrap gap-3 text-xs">
+      {series.map((entry) => (
+        <li key={entry.id} className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: entry.color }} />
+          {entry.name}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export function StackedBarChart({ title, series, points, format, max }: ChartProps) {
+  const totals = points.map((point) => series.reduce((sum, entry) => sum + (point.values[entry.id] ?? 0), 0))
+  const top = max ?? (Math.max(...totals, 0) || 1)
+  const step = PLOT_WIDTH / Math.max(points.length, 1)
+  const barWidth = Math.max(step * 0.7, 1)
+
+  return (
+    <figure className="space-y-2">
+      <figcaption className="text-sm font-medium">{title}</figcaption>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+        <Axes points={points} top={top} format={format} />
+        {points.map((point, index) => {
+          let y = HEIGHT - PADDING.bottom
+          return series.map((entry) => {
+            const value = point.values[entry.id] ?? 0
+            if (value <= 0) return null
+            const height = (value / top) * PLOT_HEIGHT
+            y -= height
+            return (
+              <rect
+                key={`${index}-${entry.id}`}
+                x={PADDING.left + step * index + (step - barWidth) / 2}
+                y={y}
+                width={barWidth}
+                height={height}
+                fill={entry.color}
+              >
+                <title>{`${point.label} · ${entry.name}: ${format(value)}`}</title>
+              </rect>
+            )
+          })
+        })}
+      </svg>
+      <Legend series={series} />
+    </figure>
+  )
+}
+
+export function LineChart({ title, series, points, format, max }: ChartProps) {
+  const values = points.flatMap((point) => series.map((entry) => point.values[entry.id] ?? 0))
+  const top = max ?? (Math.max(...values, 0) || 1)
+  const step = PLOT_WIDTH / Math.max(points.length, 1)
+  const x = (index: number) => PADDING.left + step * (index + 0.5)
+  const y = (value: number) => HEIGHT - PADDING.bottom - (value / top) * PLOT_HEIGHT
+
+  return (
+    <figure className="space-y-2">
+      <figcaption className="text-sm font-medium">{title}</figcaption>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+        <Axes points={points} top={top} format={format} />
+        {series.map((entry) => {
+          // A gap (null) ends the current line segment
+          const path = points
+            .map((point, index) => {
+              const value = point.values[entry.id]
+              if (value === null || value === undefined) return ""
+              const previous = points[index - 1]?.values[entry.id]
+              const command = previous === null || previous === undefined ? "M" : "L"
+              return `${command}${x(index).toFixed(1)},${y(value).toFixed(1)}`
+            })
+            .join(" ")
+          return (
+            <g key={entry.id}>
+              <path d={path} fill="none" stroke={entry.color} strokeWidth={2} />
+              {points.map((point, index) => {
+                const value = point.values[entry.id]
+                return value === null || value === undefined ? null : (
+                  <circle key={index} cx={x(index)} cy={y(value)} r={2.5} fill={entry.color}>
+                    <title>{`${point.label} · ${entry.name}: ${format(value)}`}</title>
+                  </circle>
+                )
+              })}
+            </g>
+          )
+        })}
+      </svg>
+      <Legend series={series} />
+    </figure>
+  )
+}
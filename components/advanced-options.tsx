@@ -0,0 +1,137 @@
+"use client"
+
+import { useState } from "react"
+import { ChevronDown, ChevronUp } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { ProviderInfo } from "@/lib/api/types"
+import type { GenerationOptionsInput } from "@/lib/validation/options"
+
+interface AdvancedOptionsProps {
+  providers: ProviderInfo[]
+  value: GenerationOptionsInput
+  onChange: (value: GenerationOptionsInput) => void
+}
+
+const DEFAULT = "default"
+const ASPECT_RATIOS = ["1:1", "16:9", "9:16", "4:3", "3:4"]
+
+export function AdvancedOptions({ providers, value, onChange }: AdvancedOptionsProps) {
+  const { t } = useI18n()
+  const [isOpen, setIsOpen] = useState(false)
+
+  const selected = providers.filter((provider) => !value.providers || value.providers.includes(provider.id))
+  const models = selected.flatMap((provider) => provider.capabilities.models)
+  const model = models.find((m) => m.id === value.model)
+  const maxImages = Math.min(...(model ? [model.maxImages] : selected.map((p) => p.capabilities.models[0].maxImages)))
+  const supportsSeed = selected.length > 0 && selected.every((provider) => provider.capabilities.supportsSeed)
+  const supportsNegativePrompt =
+    selected.length > 0 && selected.every((provider) => provider.capabilities.supportsNegativePrompt)
+
+  const update = (patch: Partial<GenerationOptionsInput>) => onChange({ ...value, ...patch })
+
+  const toggleProvider = (id: string, checked: boolean) => {
+    const current = value.providers || providers.map((provider) => provider.id)
+    const next = checked ? [...current, id] : current.filter((providerId) => providerId !== id)
+    // Changing providers can invalidate every provider-specific option
+    onChange({
+      providers: next.length === providers.length ? undefined : next,
+      count: value.count,
+      aspectRatio: value.aspectRatio,
+    })
+  }
+
+  const optionalSelect = (
+    label: string,
+    current: string | undefined,
+    choices: string[],
+    onSelect: (choice: string | undefined) => void,
+  ) => (
+    <Select value={current || DEFAULT} onValueChange={(choice) => onSelect(choice === DEFAULT ? undefined : choice)}>
+      <SelectTrigger>
+        <SelectValue placeholder={label} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={DEFAULT}>{t("advanced.defaultChoice", { label })}</SelectItem>
+        {choices.map((choice) => (
+          <SelectItem key={choice} value={choice}>{label}: {choice}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <div className="space-y-3">
+      <Button variant="ghost" size="sm" className="w-full" onClick={() => setIsOpen(!isOpen)}>
+        {t("advanced.title")}
+        {isOpen ? <ChevronUp className="w-4 h-4 ml-2" /> : <ChevronDown className="w-4 h-4 ml-2" />}
+      </Button>
+
+      {isOpen && (
+        <div className="space-y-3 rounded-lg border p-3">
+          <div className="flex flex-wrap gap-3">
+            {providers.map((provider) => (
+              <label key={provider.id} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={!value.providers || value.providers.includes(provider.id)}
+                  onChange={(event) => toggleProvider(provider.id, event.target.checked)}
+                  className="accent-green-600"
+                />
+                {provider.name}
+              </label>
+            ))}
+          </div>
+
+          {optionalSelect(t("advanced.model"), value.model, Array.from(new Set(models.map((m) => m.id))), (choice) =>
+            update({ model: choice, size: undefined, quality: undefined, style: undefined }),
+          )}
+
+          {model
+            ? optionalSelect(t("advanced.size"), value.size, model.sizes, (size) => update({ size, aspectRatio: undefined }))
+            : optionalSelect(t("advanced.aspectRatio"), value.aspectRatio, ASPECT_RATIOS, (aspectRatio) =>
+                update({ aspectRatio, size: undefined }),
+              )}
+
+          {model?.qualities && optionalSelect(t("advanced.quality"), value.quality, model.qualities, (quality) => update({ quality }))}
+          {model?.styles && optionalSelect(t("advanced.style"), value.style, model.styles, (style) => update({ style }))}
+
+          <label className="flex items-center justify-between gap-2 text-sm">
+            {t("advanced.count")}
+            <Input
+              type="number"
+              min={1}
+              max={maxImages}
+              value={value.count ?? 1}
+              onChange={(event) => update({ count: Number(event.target.value) || undefined })}
+              className="w-20"
+            />
+          </label>
+
+          {supportsNegativePrompt && (
+            <Input
+              value={value.negativePrompt || ""}
+              onChange={(event) => update({ negativePrompt: event.target.value || undefined })}
+              maxLength={200}
+              placeholder={t("advanced.negativePrompt")}
+            />
+          )}
+
+          {supportsSeed && (
+            <Input
+              type="number"
+              min={0}
+              value={value.seed ?? ""}
+              onChange={(event) =>
+                update({ seed: event.target.value === "" ? undefined : Number(event.target.value) })
+              }
+              placeholder={t("advanced.seed")}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,16 @@
+"use client"
+
+import { Sparkles } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { cn } from "@/lib/utils"
+
+// Marks an image as synthetic wherever the app shows one
+export function AiLabel({ className }: { className?: string }) {
+  const { t } = useI18n()
+  return (
+    <div className={cn("flex items-center gap-1 bg-black/50 text-white px-2 py-1 rounded text-xs", className)}>
+      <Sparkles className="w-3 h-3" />
+      {t("provenance.label")}
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+"use client"
+
+import { useEffect, useId, useState } from "react"
+import { MapPin, Search } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Input } from "@/components/ui/input"
+import { api } from "@/lib/api/client"
+import type { LocationSummary } from "@/lib/api/types"
+import { clientLogger } from "@/lib/logger/client"
+import { cn } from "@/lib/utils"
+
+// Waits for a pause in typing before searching
+const SEARCH_DELAY_MS = 150
+const MAX_SUGGESTIONS = 8
+
+export interface CityOption {
+  id: string
+  name: string
+  country: string
+  curated?: boolean
+}
+
+interface CitySearchProps {
+  value: CityOption | null
+  onSelect: (city: CityOption) => void
+  // Shown while the box is empty, e.g. the curated cities
+  featured?: CityOption[]
+}
+
+// Combobox replacing the old city dropdown: free text searched against the
+// gazetteer, with the arrow keys, Enter and Escape working as in a select
+export function CitySearch({ value, onSelect, featured = [] }: CitySearchProps) {
+  const { t } = useI18n()
+  const listId = useId()
+  const [query, setQuery] = useState("")
+  const [results, setResults] = useState<LocationSummary[]>([])
+  const [open, setOpen] = useState(false)
+  const [active, setActive] = useState(0)
+  const [shownId, setShownId] = useState<string>()
+
+  const label = (city: CityOption) => `${t.city(city)}, ${t.country(city)}`
+
+  // A selection made elsewhere (e.g. on the map) replaces whatever was typed
+  if (value?.id !== shownId) {
+    setShownId(value?.id)
+    setQuery(value ? label(value) : "")
+  }
+
+  const searching = open && query.trim() !== "" && (!value || query !== label(value))
+
+  useEffect(() => {
+    if (!searching) return
+    let cancelled = false
+    const timer = setTimeout(() => {
+      api.searchLocations({ q: query, limit: MAX_SUGGESTIONS })
+        .then((data) => {
+          if (cancelled) return
+          setResults(data.locations)
+          setActive(0)
+        })
+        .catch((error) => clientLogger.warn("location search failed", { error }))
+    }, SEARCH_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query, searching])
+
+  const options: CityOption[] = searching ? results : featured
+
+  const choose = (city: CityOption) => {
+    onSelect(city)
+    setQuery(label(city))
+    setOpen(false)
+  }
+
+  const onKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault()
+      setOpen(true)
+      const step = event.key === "ArrowDown" ? 1 : -1
+      setActive((index) => (options.length === 0 ? 0 : (index + step + options.length) % options.length))
+    } else if (event.key === "Enter" && open && options[active]) {
+      event.preventDefault()
+      choose(options[active])
+    } else if (event.key === "Escape") {
+      setOpen(false)
+      setQuery(value ? label(value) : "")
+    }
+  }
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground pointer-events-none" />
+      <Input
+        role="combobox"
+        aria-expanded={open}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={open && options[active] ? `${listId}-${options[active].id}` : undefined}
+        className="pl-9"
+        value={query}
+        placeholder={t("locations.search")}
+        onChange={(event) => {
+          setQuery(event.target.value)
+          setOpen(true)
+        }}
+        onFocus={(event) => {
+          event.target.select()
+          setOpen(true)
+        }}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+      />
+      {open && (options.length > 0 || searching) && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-h-72 overflow-y-auto rounded-md border bg-popover p-1 shadow-md"
+        >
+          {options.length === 0 ? (
+            <li className="px-3 py-2 text-sm text-muted-foreground">{t("locations.noMatches")}</li>
+          ) : (
+            options.map((option, index) => (
+              <li
+                key={option.id}
+                id={`${listId}-${option.id}`}
+                role="option"
+                aria-selected={index === active}
+                className={cn(
+                  "flex cursor-pointer items-center gap-2 rounded-sm px-3 py-2 text-sm",
+                  index === active && "bg-accent text-accent-foreground",
+                )}
+                onMouseEnter={() => setActive(index)}
+                // Keeps focus in the input so the list isn't closed by blur before the click
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => choose(option)}
+              >
+                <MapPin className="w-4 h-4 shrink-0 text-green-700" />
+                <span className="flex-1">{label(option)}</span>
+                {option.curated && <span className="text-xs text-green-700">{t("locations.curated")}</span>}
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
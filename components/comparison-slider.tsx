@@ -0,0 +1,78 @@
+"use client"
+
+import { useRef, useState, type KeyboardEvent, type PointerEvent } from "react"
+import { ChevronsLeftRight } from "lucide-react"
+import Image from "next/image"
+import { useI18n } from "@/components/i18n-provider"
+
+interface ComparisonSliderProps {
+  todayUrl: string
+  futureUrl: string
+  todayLabel?: string
+  futureLabel?: string
+}
+
+const KEYBOARD_STEP = 5
+
+// Drag (or use the arrow keys) to reveal the "today" image over the "future" one
+export function ComparisonSlider({ todayUrl, futureUrl, ...labels }: ComparisonSliderProps) {
+  const { t } = useI18n()
+  const todayLabel = labels.todayLabel ?? t("comparison.today")
+  const futureLabel = labels.futureLabel ?? t("comparison.future")
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [position, setPosition] = useState(50)
+  const [isDragging, setIsDragging] = useState(false)
+
+  const moveTo = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect()
+    if (!rect) return
+    setPosition(Math.min(Math.max(((clientX - rect.left) / rect.width) * 100, 0), 100))
+  }
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId)
+    setIsDragging(true)
+    moveTo(event.clientX)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === "ArrowLeft") setPosition((value) => Math.max(value - KEYBOARD_STEP, 0))
+    else if (event.key === "ArrowRight") setPosition((value) => Math.min(value + KEYBOARD_STEP, 100))
+    else return
+    event.preventDefault()
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative rounded-lg overflow-hidden select-none touch-none cursor-ew-resize"
+      onPointerDown={handlePointerDown}
+      onPointerMove={(event) => isDragging && moveTo(event.clientX)}
+      onPointerUp={() => setIsDragging(false)}
+      onPointerCancel={() => setIsDragging(false)}
+    >
+      <Image src={futureUrl} alt={futureLabel} width={400} height={400} className="w-full object-cover" unoptimized draggable={false} />
+      <div className="absolute inset-0" style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}>
+        <Image src={todayUrl} alt={todayLabel} fill className="object-cover" unoptimized draggable={false} />
+      </div>
+
+      <div className="absolute top-2 left-2 bg-black/50 text-white px-2 py-1 rounded text-sm">{todayLabel}</div>
+      <div className="absolute top-2 right-2 bg-black/50 text-white px-2 py-1 rounded text-sm">{futureLabel}</div>
+
+      <div className="absolute inset-y-0 w-0.5 bg-white shadow" style={{ left: `${position}%` }}>
+        <div
+          role="slider"
+          tabIndex={0}
+          aria-label={t("comparison.slider", { today: todayLabel, future: futureLabel })}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(position)}
+          onKeyDown={handleKeyDown}
+          className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 rounded-full bg-white p-1.5 shadow focus:outline-none focus:ring-2 focus:ring-green-600"
+        >
+          <ChevronsLeftRight className="w-4 h-4 text-green-800" />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+"use client"
+
+import { useState } from "react"
+import { Download } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { api } from "@/lib/api/client"
+import {
+  DEFAULT_EXPORT_FORMAT,
+  DEFAULT_EXPORT_QUALITY,
+  exportFormats,
+  exportSizes,
+  getExportFormat,
+} from "@/lib/export/formats"
+
+interface ExportMenuProps {
+  imageId: string
+}
+
+// Format, size and quality for the Save button; the server embeds the
+// generation details and names the file
+export function ExportMenu({ imageId }: ExportMenuProps) {
+  const { locale, t } = useI18n()
+  const [format, setFormat] = useState<string>(DEFAULT_EXPORT_FORMAT)
+  const [size, setSize] = useState<string>("original")
+  const [quality, setQuality] = useState(DEFAULT_EXPORT_QUALITY)
+  const [label, setLabel] = useState(true)
+
+  const lossy = getExportFormat(format)?.lossy ?? false
+  const href = api.imageExportUrl(imageId, {
+    format,
+    width: size === "original" ? undefined : Number(size),
+    quality: lossy ? quality : undefined,
+    label,
+    locale,
+  })
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={format} onValueChange={setFormat}>
+          <SelectTrigger>
+            <SelectValue placeholder={t("export.format")} />
+          </SelectTrigger>
+          <SelectContent>
+            {exportFormats.map((option) => (
+              <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={size} onValueChange={setSize}>
+          <SelectTrigger>
+            <SelectValue placeholder={t("export.size")} />
+          </SelectTrigger>
+          <SelectContent>
+            {exportSizes.map((option) => (
+              <SelectItem key={option} value={String(option)}>
+                {option === "original" ? t("export.original") : t("export.width", { width: option })}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {lossy && (
+        <label className="flex items-center gap-3 text-sm">
+          <span className="w-24 shrink-0">{t("export.quality", { quality })}</span>
+          <input
+            type="range"
+            min={1}
+            max={100}
+            value={quality}
+            onChange={(event) => setQuality(Number(event.target.value))}
+            className="flex-1 accent-green-600"
+          />
+        </label>
+      )}
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={label}
+          onChange={(event) => setLabel(event.target.checked)}
+          className="accent-green-600"
+        />
+        {t("export.label")}
+      </label>
+      <Button asChild className="w-full" size="sm">
+        <a href={href} download>
+          <Download className="w-4 h-4 mr-2" />
+          {t("export.download", { format: getExportFormat(format)?.name ?? format })}
+        </a>
+      </Button>
+      <p className="text-xs text-muted-foreground">{t("export.metadataNote")}</p>
+    </div>
+  )
+}
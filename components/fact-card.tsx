@@ -0,0 +1,51 @@
+"use client"
+
+import { ExternalLink } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import type { City } from "@/lib/catalog/data"
+import { factStatement } from "@/lib/facts/statement"
+import type { ClimateFact } from "@/lib/facts/types"
+
+interface FactCardProps {
+  city: Pick<City, "id" | "name">
+  facts: ClimateFact[]
+  // The fact the prompt was grounded in, shown first and highlighted
+  promptFactId?: string
+}
+
+export function FactCard({ city, facts, promptFactId }: FactCardProps) {
+  const { t } = useI18n()
+  if (facts.length === 0) {
+    return null
+  }
+
+  const ordered = [...facts].sort((a, b) => Number(b.id === promptFactId) - Number(a.id === promptFactId))
+
+  return (
+    <section className="space-y-3 rounded-lg border p-3">
+      <h2 className="text-sm font-semibold">{t("facts.title")}</h2>
+      <ul className="space-y-3">
+        {ordered.map((fact) => (
+          <li
+            key={fact.id}
+            className={`space-y-1 border-l-2 pl-3 ${fact.id === promptFactId ? "border-green-600" : "border-muted"}`}
+          >
+            <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+              {t(`facts.indicators.${fact.indicator}`)}
+            </p>
+            <p className="text-sm">{factStatement(t, city, fact)}</p>
+            <a
+              href={fact.source.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-xs text-muted-foreground underline-offset-2 hover:underline"
+            >
+              {t("facts.source", { citation: fact.citation })}
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
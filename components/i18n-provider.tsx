@@ -0,0 +1,41 @@
+"use client"
+
+import { createContext, useContext, useMemo, type ReactNode } from "react"
+import { useRouter } from "next/navigation"
+import { createTranslator, DEFAULT_LOCALE, getMessages, LOCALE_COOKIE, type Locale } from "@/lib/i18n"
+
+interface I18nContextValue {
+  locale: Locale
+  t: ReturnType<typeof createTranslator>
+  setLocale: (locale: Locale) => void
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null)
+
+const ONE_YEAR_SECONDS = 365 * 24 * 60 * 60
+
+export function I18nProvider({ locale, children }: { locale: Locale; children: ReactNode }) {
+  const router = useRouter()
+
+  const value = useMemo<I18nContextValue>(
+    () => ({
+      locale,
+      t: createTranslator(getMessages(locale)),
+      setLocale: (next) => {
+        document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${ONE_YEAR_SECONDS}; samesite=lax`
+        // Re-render the server layout so <html lang> and server pages follow
+        router.refresh()
+      },
+    }),
+    [locale, router],
+  )
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
+
+export function useI18n() {
+  const context = useContext(I18nContext)
+  if (context) return context
+  // Outside the provider (e.g. in isolation) fall back to English
+  return { locale: DEFAULT_LOCALE, t: createTranslator(getMessages(DEFAULT_LOCALE)), setLocale: () => {} }
+}
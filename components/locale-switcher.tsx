@@ -0,0 +1,24 @@
+"use client"
+
+import { Languages } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { isLocale, localeNames, locales } from "@/lib/i18n"
+
+export function LocaleSwitcher() {
+  const { locale, t, setLocale } = useI18n()
+
+  return (
+    <Select value={locale} onValueChange={(value) => isLocale(value) && setLocale(value)}>
+      <SelectTrigger className="w-auto gap-2 h-8 text-xs" aria-label={t("common.language")}>
+        <Languages className="w-4 h-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {locales.map((option) => (
+          <SelectItem key={option} value={option} lang={option}>{localeNames[option]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,128 @@
+"use client"
+
+import { useEffect, useRef, useState, type PointerEvent } from "react"
+import { Eraser, Loader2 } from "lucide-react"
+import Image from "next/image"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+
+interface MaskEditorProps {
+  imageUrl: string
+  isSubmitting: boolean
+  onSubmit: (edit: { instruction: string; mask: string }) => void
+}
+
+// The mask is painted at a fixed resolution and scaled to the source image on
+// the server, so only its shape matters
+const MASK_SIZE = 512
+const BRUSH_SIZES = [16, 32, 64]
+
+export function MaskEditor({ imageUrl, isSubmitting, onSubmit }: MaskEditorProps) {
+  const { t } = useI18n()
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null)
+  const [aspect, setAspect] = useState(1)
+  const [brushSize, setBrushSize] = useState(BRUSH_SIZES[1])
+  const [hasMask, setHasMask] = useState(false)
+  const [instruction, setInstruction] = useState("")
+
+  useEffect(() => {
+    const image = new window.Image()
+    image.onload = () => setAspect(image.naturalWidth / image.naturalHeight)
+    image.src = imageUrl
+  }, [imageUrl])
+
+  const width = aspect >= 1 ? MASK_SIZE : Math.round(MASK_SIZE * aspect)
+  const height = aspect >= 1 ? Math.round(MASK_SIZE / aspect) : MASK_SIZE
+
+  const pointFor = (event: PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * width,
+      y: ((event.clientY - rect.top) / rect.height) * height,
+    }
+  }
+
+  const paint = (event: PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext("2d")
+    const from = lastPointRef.current
+    if (!context || !from) return
+
+    const to = pointFor(event)
+    context.strokeStyle = "#ef4444"
+    context.lineWidth = brushSize
+    context.lineCap = "round"
+    context.beginPath()
+    context.moveTo(from.x, from.y)
+    context.lineTo(to.x, to.y)
+    context.stroke()
+    lastPointRef.current = to
+    setHasMask(true)
+  }
+
+  const handleClear = () => {
+    canvasRef.current?.getContext("2d")?.clearRect(0, 0, width, height)
+    setHasMask(false)
+  }
+
+  const handleSubmit = () => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    onSubmit({ instruction: instruction.trim(), mask: canvas.toDataURL("image/png") })
+  }
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="relative rounded overflow-hidden" style={{ aspectRatio: `${width} / ${height}` }}>
+        <Image src={imageUrl} alt={t("mask.imageAlt")} fill className="object-cover" unoptimized />
+        <canvas
+          ref={canvasRef}
+          width={width}
+          height={height}
+          className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+          onPointerDown={(event) => {
+            event.currentTarget.setPointerCapture(event.pointerId)
+            lastPointRef.current = pointFor(event)
+            paint(event)
+          }}
+          onPointerMove={paint}
+          onPointerUp={() => (lastPointRef.current = null)}
+          onPointerCancel={() => (lastPointRef.current = null)}
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground">{t("mask.brush")}</span>
+        {BRUSH_SIZES.map((size) => (
+          <Button
+            key={size}
+            variant={brushSize === size ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => setBrushSize(size)}
+          >
+            {size}
+          </Button>
+        ))}
+        <Button variant="outline" size="sm" className="ml-auto" onClick={handleClear} disabled={!hasMask}>
+          <Eraser className="w-4 h-4 mr-2" />
+          {t("mask.clear")}
+        </Button>
+      </div>
+      <Input
+        value={instruction}
+        onChange={(event) => setInstruction(event.target.value)}
+        maxLength={200}
+        placeholder={t("mask.instruction")}
+      />
+      <Button
+        className="w-full"
+        size="sm"
+        onClick={handleSubmit}
+        disabled={!hasMask || !instruction.trim() || isSubmitting}
+      >
+        {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        {hasMask ? t("mask.apply") : t("mask.paintFirst")}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Bell, X } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/components/ui/use-toast"
+import { cn } from "@/lib/utils"
+
+// A bell in the corner that opens a drawer listing this session's
+// notifications, so a toast that closed too soon can still be read
+export function NotificationCenter() {
+  const { locale, t } = useI18n()
+  const { history, unread, markHistoryRead, clearHistory } = useToast()
+  const [open, setOpen] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    markHistoryRead()
+    const onKeyDown = (event: KeyboardEvent) => event.key === "Escape" && setOpen(false)
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+    // Entries arriving while the drawer is open are read as they come in
+  }, [open, unread, markHistoryRead])
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="icon"
+        className="fixed bottom-4 left-4 z-40 rounded-full shadow-md bg-background"
+        onClick={() => setOpen(true)}
+        aria-label={t("notifications.open")}
+      >
+        <Bell className="w-4 h-4" />
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-green-600 text-white text-xs leading-5">
+            {unread > 9 ? "9+" : unread}
+          </span>
+        )}
+      </Button>
+
+      {open && (
+        <div className="fixed inset-0 z-50">
+          <div className="absolute inset-0 bg-black/40" onClick={() => setOpen(false)} />
+          <aside
+            role="dialog"
+            aria-modal="true"
+            aria-label={t("notifications.title")}
+            className="absolute inset-y-0 left-0 w-full max-w-sm bg-background shadow-xl flex flex-col"
+          >
+            <div className="flex items-center justify-between border-b p-4">
+              <h2 className="font-semibold">{t("notifications.title")}</h2>
+              <div className="flex items-center gap-2">
+                {history.length > 0 && (
+                  <Button variant="ghost" size="sm" onClick={clearHistory}>
+                    {t("notifications.clear")}
+                  </Button>
+                )}
+                <Button variant="ghost" size="icon" onClick={() => setOpen(false)} aria-label={t("notifications.close")}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            {history.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground">{t("notifications.empty")}</p>
+            ) : (
+              <ul className="flex-1 overflow-y-auto divide-y">
+                {history.map((entry) => (
+                  <li
+                    key={entry.id}
+                    className={cn("p-4 text-sm", entry.variant === "destructive" && "border-l-4 border-destructive")}
+                  >
+                    <div className="flex items-baseline justify-between gap-2">
+                      <span className="font-medium">
+                        {entry.title}
+                        {entry.count > 1 && <span className="ml-2 text-xs font-normal text-muted-foreground">×{entry.count}</span>}
+                      </span>
+                      <time dateTime={entry.at} className="shrink-0 text-xs text-muted-foreground">
+                        {new Date(entry.at).toLocaleTimeString(locale)}
+                      </time>
+                    </div>
+                    {entry.description && <p className="mt-1 text-muted-foreground">{entry.description}</p>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </aside>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,91 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2 } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "@/components/ui/use-toast"
+import { api, ApiRequestError } from "@/lib/api/client"
+import { clientLogger } from "@/lib/logger/client"
+import {
+  DEFAULT_POSTER_ASPECT,
+  DEFAULT_POSTER_LAYOUT,
+  posterAspects,
+  posterLayouts,
+} from "@/lib/poster/layouts"
+
+interface PosterMakerProps {
+  imageId: string
+}
+
+export function PosterMaker({ imageId }: PosterMakerProps) {
+  const { t } = useI18n()
+  const [layout, setLayout] = useState<string>(DEFAULT_POSTER_LAYOUT)
+  const [aspect, setAspect] = useState<string>(DEFAULT_POSTER_ASPECT)
+  const [headline, setHeadline] = useState("")
+  const [isRendering, setIsRendering] = useState(false)
+
+  const handleMakePoster = async () => {
+    setIsRendering(true)
+    try {
+      const poster = await api.createPoster({ imageId, layout, aspect, headline: headline || undefined })
+      const url = window.URL.createObjectURL(poster)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `climate-poster-${aspect}-${Date.now()}.png`
+      document.body.appendChild(link)
+      link.click()
+      window.URL.revokeObjectURL(url)
+      document.body.removeChild(link)
+    } catch (error: any) {
+      clientLogger.error("poster request failed", { error })
+      const details = error instanceof ApiRequestError && error.issues.map((issue) => issue.message).join(". ")
+      toast({
+        title: t("common.error"),
+        description: details || error.message || t("toast.posterFailed"),
+        variant: "destructive",
+      })
+    } finally {
+      setIsRendering(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={layout} onValueChange={setLayout}>
+          <SelectTrigger>
+            <SelectValue placeholder={t("poster.layout")} />
+          </SelectTrigger>
+          <SelectContent>
+            {posterLayouts.map((option) => (
+              <SelectItem key={option.id} value={option.id}>{t(`poster.layouts.${option.id}`)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={aspect} onValueChange={setAspect}>
+          <SelectTrigger>
+            <SelectValue placeholder={t("poster.aspectRatio")} />
+          </SelectTrigger>
+          <SelectContent>
+            {posterAspects.map((option) => (
+              <SelectItem key={option.id} value={option.id}>{t(`poster.aspects.${option.id}`)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Input
+        value={headline}
+        onChange={(event) => setHeadline(event.target.value)}
+        maxLength={200}
+        placeholder={t("poster.headline")}
+      />
+      <Button className="w-full" size="sm" onClick={handleMakePoster} disabled={isRendering}>
+        {isRendering && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        {isRendering ? t("poster.rendering") : t("poster.download")}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,143 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Facebook, Instagram, Linkedin, Loader2, Mail, MessageCircle, Share2, Twitter, type LucideIcon } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { toast } from "@/components/ui/use-toast"
+import { clientLogger } from "@/lib/logger/client"
+import { SHARE_CROP_MIME_TYPE, shareCropUrl, type ShareCropId } from "@/lib/share/crops"
+import { shareCaption, shareTargets, type ShareContent, type ShareTarget, type ShareTargetId } from "@/lib/share/targets"
+
+const targetIcons: Record<ShareTargetId, LucideIcon> = {
+  device: Share2,
+  x: Twitter,
+  facebook: Facebook,
+  linkedin: Linkedin,
+  whatsapp: MessageCircle,
+  email: Mail,
+  instagram: Instagram,
+  "instagram-story": Instagram,
+}
+
+interface ShareMenuProps {
+  imageId: string
+  content: ShareContent
+}
+
+async function fetchCrop(imageId: string, cropId: ShareCropId, locale: string) {
+  const response = await fetch(shareCropUrl(imageId, cropId, locale))
+  if (!response.ok) {
+    throw new Error(`Crop request failed with status ${response.status}`)
+  }
+  const blob = await response.blob()
+  return new File([blob], `climate-${cropId}-${imageId}.jpg`, { type: SHARE_CROP_MIME_TYPE })
+}
+
+function saveFile(file: File) {
+  const url = window.URL.createObjectURL(file)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = file.name
+  document.body.appendChild(link)
+  link.click()
+  window.URL.revokeObjectURL(url)
+  document.body.removeChild(link)
+}
+
+const canShareFiles = (files: File[]) => typeof navigator.canShare === "function" && navigator.canShare({ files })
+
+export function ShareMenu({ imageId, content }: ShareMenuProps) {
+  const { locale, t } = useI18n()
+  const [webShare, setWebShare] = useState(false)
+  const [busyId, setBusyId] = useState<ShareTargetId | null>(null)
+  // Crops are fetched as soon as the menu opens: Safari only allows
+  // navigator.share() shortly after the click, with no time for a download
+  const crops = useRef(new Map<ShareCropId, Promise<File>>())
+
+  useEffect(() => {
+    setWebShare(typeof navigator.share === "function")
+    const cache = crops.current
+    for (const target of shareTargets) {
+      if (target.crop && !cache.has(target.crop)) {
+        const file = fetchCrop(imageId, target.crop, locale)
+        // Failures surface when the target is used
+        file.catch(() => undefined)
+        cache.set(target.crop, file)
+      }
+    }
+    return () => cache.clear()
+  }, [imageId, locale])
+
+  const cropFile = (cropId: ShareCropId) => {
+    let file = crops.current.get(cropId)
+    if (!file) {
+      file = fetchCrop(imageId, cropId, locale)
+      crops.current.set(cropId, file)
+    }
+    return file
+  }
+
+  const downloadWithCaption = async (file: File) => {
+    saveFile(file)
+    const caption = shareCaption(content)
+    const copied = await navigator.clipboard?.writeText(caption).then(() => true, () => false)
+    toast({
+      title: t("share.saved"),
+      description: copied ? t("share.captionCopied") : caption,
+    })
+  }
+
+  const share = async (target: ShareTarget) => {
+    if (target.intentUrl) {
+      window.open(target.intentUrl(content), "_blank", "noopener")
+      return
+    }
+
+    setBusyId(target.id)
+    try {
+      const file = await cropFile(target.crop!)
+      if (webShare && canShareFiles([file])) {
+        await navigator.share({ files: [file], title: content.title, text: shareCaption(content) })
+      } else if (target.method === "native" && webShare) {
+        await navigator.share({ title: content.title, text: content.text, url: content.url })
+      } else {
+        await downloadWithCaption(file)
+      }
+    } catch (error: any) {
+      // Closing the share sheet rejects with AbortError
+      if (error?.name === "AbortError") return
+      clientLogger.error("share failed", { target: target.id, error })
+      toast({ title: t("common.error"), description: t("share.failed"), variant: "destructive" })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-2 rounded-lg border p-3">
+      {shareTargets
+        .filter((target) => target.method !== "native" || webShare)
+        .map((target) => {
+          const Icon = targetIcons[target.id]
+          return (
+            <Button
+              key={target.id}
+              variant="outline"
+              size="sm"
+              className="justify-start"
+              onClick={() => share(target)}
+              disabled={busyId !== null}
+            >
+              {busyId === target.id ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Icon className="w-4 h-4 mr-2" />
+              )}
+              {t(`share.targets.${target.id}`)}
+            </Button>
+          )
+        })}
+    </div>
+  )
+}
@@ -8,10 +8,15 @@ export function Toaster() {
 
   return (
     <ToastProvider>
-      {toasts.map(({ id, title, description, action, ...props }) => (
+      {toasts.map(({ id, title, description, action, dedupeKey: _dedupeKey, count, ...props }) => (
         <Toast key={id} {...props}>
           <div className="grid gap-1">
-            {title && <ToastTitle>{title}</ToastTitle>}
+            {title && (
+              <ToastTitle>
+                {title}
+                {count && count > 1 && <span className="ml-2 text-xs font-normal opacity-70">×{count}</span>}
+              </ToastTitle>
+            )}
             {description && <ToastDescription>{description}</ToastDescription>}
           </div>
           {action}
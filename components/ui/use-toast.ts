@@ -3,14 +3,38 @@
 import * as React from "react"
 import type { ToastActionElement, ToastProps } from "@/components/ui/toast"
 
-const TOAST_LIMIT = 1
-const TOAST_REMOVE_DELAY = 1000000
+// Visible at once; the rest wait in the queue until one closes
+const TOAST_LIMIT = 3
+// Time for the close animation before a dismissed toast is dropped
+const TOAST_REMOVE_DELAY = 1000
+// How long toasts stay open: errors and toasts with an action get longer to be read or acted on
+const TOAST_DURATION = 5000
+const TOAST_DURATION_DESTRUCTIVE = 8000
+const TOAST_DURATION_ACTION = 10000
+// Past notifications kept for the history drawer, newest first
+const HISTORY_LIMIT = 50
+const HISTORY_STORAGE_KEY = "gg_notifications"
 
 type ToasterToast = ToastProps & {
   id: string
   title?: React.ReactNode
   description?: React.ReactNode
   action?: ToastActionElement
+  // Toasts with the same key replace each other instead of stacking up;
+  // destructive toasts default to a key made of their text
+  dedupeKey?: string
+  // How many times this toast has been raised while it was showing
+  count?: number
+}
+
+export interface NotificationEntry {
+  id: string
+  title?: string
+  description?: string
+  variant?: ToastProps["variant"]
+  at: string
+  count: number
+  dedupeKey?: string
 }
 
 const actionTypes = {
@@ -18,6 +42,9 @@ const actionTypes = {
   UPDATE_TOAST: "UPDATE_TOAST",
   DISMISS_TOAST: "DISMISS_TOAST",
   REMOVE_TOAST: "REMOVE_TOAST",
+  RESTORE_HISTORY: "RESTORE_HISTORY",
+  MARK_HISTORY_READ: "MARK_HISTORY_READ",
+  CLEAR_HISTORY: "CLEAR_HISTORY",
 } as const
 
 let count = 0
@@ -46,9 +73,23 @@ type Action =
       type: ActionType["REMOVE_TOAST"]
       toastId?: ToasterToast["id"]
     }
+  | {
+      type: ActionType["RESTORE_HISTORY"]
+      history: NotificationEntry[]
+    }
+  | {
+      type: ActionType["MARK_HISTORY_READ"]
+    }
+  | {
+      type: ActionType["CLEAR_HISTORY"]
+    }
 
 interface State {
   toasts: ToasterToast[]
+  queue: ToasterToast[]
+  history: NotificationEntry[]
+  // History entries added since the drawer was last opened
+  unread: number
 }
 
 const toastTimeouts = new Map<string, ReturnType<typeof setTimeout>>()
@@ -69,18 +110,68 @@ const addToRemoveQueue = (toastId: string) => {
   toastTimeouts.set(toastId, timeout)
 }
 
+const text = (node: React.ReactNode) => (typeof node === "string" ? node : undefined)
+
+function recordHistory(history: NotificationEntry[], toast: ToasterToast, repeated: boolean): NotificationEntry[] {
+  const at = new Date().toISOString()
+  const [latest, ...rest] = history
+  if (repeated && latest && latest.dedupeKey === toast.dedupeKey) {
+    return [{ ...latest, at, count: latest.count + 1 }, ...rest]
+  }
+  const entry: NotificationEntry = {
+    id: toast.id,
+    title: text(toast.title),
+    description: text(toast.description),
+    variant: toast.variant,
+    at,
+    count: 1,
+    dedupeKey: toast.dedupeKey,
+  }
+  return [entry, ...history].slice(0, HISTORY_LIMIT)
+}
+
+// Moves queued toasts into free slots
+function fill(state: State): State {
+  const open = state.toasts.filter((t) => t.open !== false).length
+  const free = Math.max(TOAST_LIMIT - open, 0)
+  if (free === 0 || state.queue.length === 0) return state
+  return { ...state, toasts: [...state.queue.slice(0, free), ...state.toasts], queue: state.queue.slice(free) }
+}
+
 export const reducer = (state: State, action: Action): State => {
   switch (action.type) {
-    case "ADD_TOAST":
-      return {
-        ...state,
-        toasts: [action.toast, ...state.toasts].slice(0, TOAST_LIMIT),
+    case "ADD_TOAST": {
+      const { toast } = action
+      const sameKey = (t: ToasterToast) => toast.dedupeKey !== undefined && t.dedupeKey === toast.dedupeKey
+      const showing = state.toasts.find((t) => t.open !== false && sameKey(t))
+      const waiting = state.queue.find(sameKey)
+
+      // A repeat takes the place of the toast it duplicates, counting up; the
+      // new id remounts it so its timer starts over
+      if (showing || waiting) {
+        const repeated = { ...toast, count: ((showing ?? waiting)!.count ?? 1) + 1 }
+        return {
+          ...state,
+          toasts: state.toasts.map((t) => (t === showing ? repeated : t)),
+          queue: state.queue.map((t) => (t === waiting ? repeated : t)),
+          history: recordHistory(state.history, toast, true),
+          unread: state.unread + 1,
+        }
       }
 
+      return fill({
+        ...state,
+        queue: [...state.queue, toast],
+        history: recordHistory(state.history, toast, false),
+        unread: state.unread + 1,
+      })
+    }
+
     case "UPDATE_TOAST":
       return {
         ...state,
         toasts: state.toasts.map((t) => (t.id === action.toast.id ? { ...t, ...action.toast } : t)),
+        queue: state.queue.map((t) => (t.id === action.toast.id ? { ...t, ...action.toast } : t)),
       }
 
     case "DISMISS_TOAST": {
@@ -96,7 +187,7 @@ export const reducer = (state: State, action: Action): State => {
         })
       }
 
-      return {
+      return fill({
         ...state,
         toasts: state.toasts.map((t) =>
           t.id === toastId || toastId === undefined
@@ -106,7 +197,9 @@ export const reducer = (state: State, action: Action): State => {
               }
             : t,
         ),
-      }
+        // Dismissing everything also drops what was still waiting
+        queue: toastId === undefined ? [] : state.queue.filter((t) => t.id !== toastId),
+      })
     }
     case "REMOVE_TOAST":
       if (action.toastId === undefined) {
@@ -115,19 +208,57 @@ export const reducer = (state: State, action: Action): State => {
           toasts: [],
         }
       }
-      return {
+      return fill({
         ...state,
         toasts: state.toasts.filter((t) => t.id !== action.toastId),
-      }
+      })
+
+    case "RESTORE_HISTORY":
+      return { ...state, history: [...state.history, ...action.history].slice(0, HISTORY_LIMIT) }
+
+    case "MARK_HISTORY_READ":
+      return state.unread === 0 ? state : { ...state, unread: 0 }
+
+    case "CLEAR_HISTORY":
+      return { ...state, history: [], unread: 0 }
   }
 }
 
 const listeners: Array<(state: State) => void> = []
 
-let memoryState: State = { toasts: [] }
+let memoryState: State = { toasts: [], queue: [], history: [], unread: 0 }
+
+// The history lasts for the browser tab's session, across page loads
+function persistHistory(history: NotificationEntry[]) {
+  try {
+    window.sessionStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history))
+  } catch {
+    // Storage may be full or disabled; the history then lasts for this page only
+  }
+}
+
+let historyRestored = false
+
+function restoreHistory() {
+  if (historyRestored) return
+  historyRestored = true
+  try {
+    const stored = JSON.parse(window.sessionStorage.getItem(HISTORY_STORAGE_KEY) || "[]")
+    if (Array.isArray(stored) && stored.length > 0) {
+      dispatch({ type: "RESTORE_HISTORY", history: stored })
+    }
+  } catch {
+    // Unreadable history is simply not restored
+  }
+}
 
 function dispatch(action: Action) {
+  const previous = memoryState
   memoryState = reducer(memoryState, action)
+  if (memoryState === previous) return
+  if (memoryState.history !== previous.history) {
+    persistHistory(memoryState.history)
+  }
   listeners.forEach((listener) => {
     listener(memoryState)
   })
@@ -135,6 +266,11 @@ function dispatch(action: Action) {
 
 type Toast = Omit<ToasterToast, "id">
 
+function defaultDuration({ variant, action }: Toast) {
+  if (action) return TOAST_DURATION_ACTION
+  return variant === "destructive" ? TOAST_DURATION_DESTRUCTIVE : TOAST_DURATION
+}
+
 function toast({ ...props }: Toast) {
   const id = genId()
 
@@ -145,11 +281,17 @@ function toast({ ...props }: Toast) {
     })
   const dismiss = () => dispatch({ type: "DISMISS_TOAST", toastId: id })
 
+  const dedupeKey =
+    props.dedupeKey ??
+    (props.variant === "destructive" ? `${text(props.title) ?? ""}|${text(props.description) ?? ""}` : undefined)
+
   dispatch({
     type: "ADD_TOAST",
     toast: {
       ...props,
       id,
+      dedupeKey,
+      duration: props.duration ?? defaultDuration(props),
       open: true,
       onOpenChange: (open) => {
         if (!open) dismiss()
@@ -164,11 +306,15 @@ function toast({ ...props }: Toast) {
   }
 }
 
+const markHistoryRead = () => dispatch({ type: "MARK_HISTORY_READ" })
+const clearHistory = () => dispatch({ type: "CLEAR_HISTORY" })
+
 function useToast() {
   const [state, setState] = React.useState<State>(memoryState)
 
   React.useEffect(() => {
     listeners.push(setState)
+    restoreHistory()
     return () => {
       const index = listeners.indexOf(setState)
       if (index > -1) {
@@ -181,8 +327,9 @@ function useToast() {
     ...state,
     toast,
     dismiss: (toastId?: string) => dispatch({ type: "DISMISS_TOAST", toastId }),
+    markHistoryRead,
+    clearHistory,
   }
 }
 
 export { useToast, toast }
-
@@ -0,0 +1,73 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { useI18n } from "@/components/i18n-provider"
+import { gazetteer } from "@/lib/locations/gazetteer"
+import { nearestLocations } from "@/lib/locations/search"
+import { landmasses, MAP_HEIGHT, MAP_WIDTH, projectPoint, ringPath, unprojectPoint } from "@/lib/locations/world-map"
+import { cn } from "@/lib/utils"
+
+interface WorldMapProps {
+  selectedId?: string
+  // Ids of the curated cities, drawn larger
+  highlightIds?: string[]
+  onPick: (locationId: string) => void
+}
+
+// Clicking anywhere picks the nearest gazetteer city; hovering previews it
+export function WorldMap({ selectedId, highlightIds = [], onPick }: WorldMapProps) {
+  const { t } = useI18n()
+  const [hoverId, setHoverId] = useState<string | null>(null)
+  const paths = useMemo(() => landmasses.map(ringPath), [])
+
+  const nearestTo = (event: React.MouseEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect()
+    const x = ((event.clientX - bounds.left) / bounds.width) * MAP_WIDTH
+    const y = ((event.clientY - bounds.top) / bounds.height) * MAP_HEIGHT
+    const [nearest] = nearestLocations(unprojectPoint(x, y), 1)
+    return nearest?.entry
+  }
+
+  const hovered = gazetteer.find((entry) => entry.id === hoverId)
+
+  return (
+    <div className="space-y-1">
+      <svg
+        viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+        className="w-full cursor-crosshair rounded-md border bg-sky-50"
+        role="img"
+        aria-label={t("locations.map")}
+        onMouseMove={(event) => setHoverId(nearestTo(event)?.id ?? null)}
+        onMouseLeave={() => setHoverId(null)}
+        onClick={(event) => {
+          const entry = nearestTo(event)
+          if (entry) onPick(entry.id)
+        }}
+      >
+        {paths.map((path, index) => (
+          <path key={index} d={path} className="fill-green-100 stroke-green-300" strokeWidth={0.3} />
+        ))}
+        {gazetteer.map((entry) => {
+          const { x, y } = projectPoint(entry.coordinates.lng, entry.coordinates.lat)
+          const selected = entry.id === selectedId
+          const highlighted = selected || entry.id === hoverId
+          return (
+            <circle
+              key={entry.id}
+              cx={x}
+              cy={y}
+              r={highlighted ? 2.2 : highlightIds.includes(entry.id) ? 1.6 : 0.9}
+              className={cn(
+                selected ? "fill-green-700" : highlighted ? "fill-amber-500" : "fill-green-600/60",
+                "pointer-events-none",
+              )}
+            />
+          )
+        })}
+      </svg>
+      <p className="text-xs text-muted-foreground h-4">
+        {hovered ? `${t.city(hovered)}, ${t.country(hovered)}` : t("locations.mapHint")}
+      </p>
+    </div>
+  )
+}
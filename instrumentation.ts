@@ -0,0 +1,7 @@
+// Runs once when the production server starts (not in development)
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { assertClientAddressConfig } = await import("@/lib/rate-limit")
+    assertClientAddressConfig()
+  }
+}
@@ -0,0 +1,47 @@
+import type { ApiPrincipal } from "./auth"
+
+// The /admin dashboard sits behind HTTP Basic auth with ADMIN_PASSWORD (any
+// username); without it the dashboard doesn't exist. Web Crypto only, because
+// middleware runs on the edge.
+export const ADMIN_REALM = "GreenGitch admin"
+
+export function isAdminEnabled() {
+  return Boolean(process.env.ADMIN_PASSWORD)
+}
+
+async function sha256(value: string) {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)))
+}
+
+// Compares digests so the time taken doesn't depend on how much of the password matched
+async function sameSecret(given: string, expected: string) {
+  const [a, b] = await Promise.all([sha256(given), sha256(expected)])
+  let difference = 0
+  for (let i = 0; i < a.length; i++) {
+    difference |= a[i] ^ b[i]
+  }
+  return difference === 0
+}
+
+export async function verifyAdminAuthorization(header: string | null | undefined) {
+  const password = process.env.ADMIN_PASSWORD
+  const match = /^Basic\s+(.+)$/i.exec(header || "")
+  if (!password || !match) {
+    return false
+  }
+
+  let credentials: string
+  try {
+    credentials = atob(match[1].trim())
+  } catch {
+    return false
+  }
+  return sameSecret(credentials.slice(credentials.indexOf(":") + 1), password)
+}
+
+// ADMIN_KEYS names the API keys (see API_KEYS) that may read /api/v1/admin
+export function isAdminPrincipal(principal: ApiPrincipal) {
+  if (principal.kind !== "key") return false
+  const names = (process.env.ADMIN_KEYS || "").split(",").map((name) => name.trim())
+  return names.includes(principal.keyId)
+}
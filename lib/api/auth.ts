@@ -0,0 +1,65 @@
+import { createHash, timingSafeEqual } from "crypto"
+import { SESSION_COOKIE, verifySessionToken } from "./session"
+
+export type ApiPrincipal = { kind: "key"; keyId: string } | { kind: "session"; sessionId: string }
+
+interface ConfiguredKey {
+  id: string
+  hash: Buffer
+}
+
+const digest = (value: string) => createHash("sha256").update(value).digest()
+
+// API_KEYS="scripts:<secret>,reporting:<secret>"; the name before the colon
+// identifies the caller in rate limits and logs
+function configuredKeys(): ConfiguredKey[] {
+  return (process.env.API_KEYS || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .flatMap((entry) => {
+      const separator = entry.indexOf(":")
+      const [id, key] = separator > 0 ? [entry.slice(0, separator), entry.slice(separator + 1)] : [entry, entry]
+      return key ? [{ id: id.trim(), hash: digest(key.trim()) }] : []
+    })
+}
+
+export function apiKeyFrom(request: Request) {
+  const header = request.headers.get("x-api-key")
+  if (header) {
+    return header.trim()
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(request.headers.get("authorization") || "")
+  return match?.[1].trim()
+}
+
+function cookieValue(request: Request, name: string) {
+  for (const part of (request.headers.get("cookie") || "").split(";")) {
+    const [key, ...value] = part.trim().split("=")
+    if (key === name) {
+      return decodeURIComponent(value.join("="))
+    }
+  }
+  return undefined
+}
+
+// Stable, opaque id for whoever holds the key or session; stored on the
+// images they generate so that only they can delete them
+export function principalOwner(principal: ApiPrincipal) {
+  const id = principal.kind === "key" ? `key:${principal.keyId}` : `session:${principal.sessionId}`
+  return createHash("sha256").update(id).digest("hex").slice(0, 32)
+}
+
+// An API key wins over a session cookie. A key that was sent but doesn't
+// match fails outright instead of falling back to the cookie.
+export async function authenticate(request: Request): Promise<ApiPrincipal | null> {
+  const apiKey = apiKeyFrom(request)
+  if (apiKey) {
+    const hash = digest(apiKey)
+    const match = configuredKeys().find((key) => timingSafeEqual(key.hash, hash))
+    return match ? { kind: "key", keyId: match.id } : null
+  }
+
+  const sessionId = await verifySessionToken(cookieValue(request, SESSION_COOKIE))
+  return sessionId ? { kind: "session", sessionId } : null
+}
@@ -0,0 +1,148 @@
+// Typed client for /api/v1. Browser-safe: the app's pages use it with their
+// session cookie, scripts pass an API key.
+import type {
+  AdminMetricsResponse,
+  ApiError,
+  ApiErrorCode,
+  BatchBody,
+  BatchResponse,
+  BatchStartedResponse,
+  CatalogResponse,
+  ComparisonExportQuery,
+  EditBody,
+  FactsQuery,
+  FactsResponse,
+  GenerateBody,
+  ImageDeletedResponse,
+  ImageExportQuery,
+  ImageResponse,
+  ImagesQuery,
+  ImagesResponse,
+  JobResponse,
+  JobStartedResponse,
+  LocationResponse,
+  LocationsQuery,
+  LocationsResponse,
+  PosterBody,
+  ProvenanceResponse,
+  ProvidersResponse,
+  QuotaResponse,
+  VariationBody,
+  VerifyResponse,
+} from "./types"
+
+export interface ApiClientOptions {
+  // Defaults to the same origin's /api/v1
+  baseUrl?: string
+  apiKey?: string
+  // Extra headers for every request, e.g. Accept-Language
+  headers?: Record<string, string>
+  fetch?: typeof fetch
+}
+
+export class ApiRequestError extends Error {
+  readonly status: number
+  readonly code: ApiErrorCode
+  readonly details: ApiError
+  // The server's x-request-id, to find the matching server logs
+  readonly requestId?: string
+
+  constructor(status: number, error: ApiError, requestId?: string) {
+    super(error.message)
+    this.name = "ApiRequestError"
+    this.status = status
+    this.code = error.code
+    this.details = error
+    this.requestId = requestId
+  }
+
+  get issues() {
+    return this.details.issues ?? []
+  }
+}
+
+type QueryValues = Record<string, string | number | undefined>
+
+function queryString(values: QueryValues) {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined && value !== "") params.set(key, String(value))
+  }
+  const encoded = params.toString()
+  return encoded ? `?${encoded}` : ""
+}
+
+async function toError(response: Response) {
+  const body = await response.json().catch(() => null)
+  const error: ApiError = body?.error?.code
+    ? body.error
+    : { code: "internal_error", message: `Request failed with status ${response.status}` }
+  return new ApiRequestError(response.status, error, response.headers.get("x-request-id") ?? undefined)
+}
+
+export function createApiClient({ baseUrl = "/api/v1", apiKey, headers = {}, fetch: fetchImpl }: ApiClientOptions = {}) {
+  const send = async (path: string, init: RequestInit = {}) => {
+    const response = await (fetchImpl ?? fetch)(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        ...headers,
+        ...(apiKey && { "x-api-key": apiKey }),
+        // Other bodies, e.g. an uploaded Blob, carry their own type
+        ...(typeof init.body === "string" && { "Content-Type": "application/json" }),
+      },
+    })
+    if (!response.ok) {
+      throw await toError(response)
+    }
+    return response
+  }
+
+  const get = async <T>(path: string) => (await send(path)).json() as Promise<T>
+  const post = async <T>(path: string, body: unknown) =>
+    (await send(path, { method: "POST", body: JSON.stringify(body) })).json() as Promise<T>
+
+  return {
+    // Needs a key named in ADMIN_KEYS
+    getAdminMetrics: (range?: string) => get<AdminMetricsResponse>(`/admin/metrics${queryString({ range })}`),
+    getCatalog: () => get<CatalogResponse>("/catalog"),
+    getProviders: () => get<ProvidersResponse>("/providers"),
+    getQuota: () => get<QuotaResponse>("/quota"),
+    getFacts: ({ city, issue }: FactsQuery) => get<FactsResponse>(`/facts${queryString({ city, issue })}`),
+    searchLocations: (query: LocationsQuery) => get<LocationsResponse>(`/locations${queryString({ ...query })}`),
+    getLocation: (locationId: string) => get<LocationResponse>(`/locations/${encodeURIComponent(locationId)}`),
+
+    generate: (body: GenerateBody) => post<JobStartedResponse>("/generate", body),
+    createVariations: (body: VariationBody) => post<JobStartedResponse>("/variations", body),
+    editImage: (body: EditBody) => post<JobStartedResponse>("/edit", body),
+
+    getJob: (jobId: string) => get<JobResponse>(`/jobs/${encodeURIComponent(jobId)}`),
+    // For EventSource, which can't send headers: only usable with the session cookie
+    jobEventsUrl: (jobId: string) => `${baseUrl}/jobs/${encodeURIComponent(jobId)}/events`,
+
+    createBatch: (body: BatchBody) => post<BatchStartedResponse>("/batches", body),
+    getBatch: (batchId: string) => get<BatchResponse>(`/batches/${encodeURIComponent(batchId)}`),
+    // Download link for a completed batch; like jobEventsUrl it relies on the session cookie
+    batchArchiveUrl: (batchId: string) => `${baseUrl}/batches/${encodeURIComponent(batchId)}/archive`,
+
+    listImages: (query: ImagesQuery = {}) => get<ImagesResponse>(`/images${queryString({ ...query })}`),
+    getImage: (imageId: string) => get<ImageResponse>(`/images/${encodeURIComponent(imageId)}`),
+    deleteImage: async (imageId: string) =>
+      (await send(`/images/${encodeURIComponent(imageId)}`, { method: "DELETE" })).json() as Promise<ImageDeletedResponse>,
+    restoreImage: (imageId: string) => post<ImageResponse>(`/images/${encodeURIComponent(imageId)}/restore`, {}),
+    // Download link with embedded metadata; like batchArchiveUrl it relies on the session cookie
+    imageExportUrl: (imageId: string, { label, ...query }: ImageExportQuery = {}) =>
+      `${baseUrl}/images/${encodeURIComponent(imageId)}/export${queryString({ ...query, label: label ? "true" : undefined })}`,
+    getProvenance: (imageId: string) => get<ProvenanceResponse>(`/images/${encodeURIComponent(imageId)}/provenance`),
+    verifyImage: async (image: Blob) =>
+      (await send("/verify", { method: "POST", body: image })).json() as Promise<VerifyResponse>,
+
+    createPoster: async (body: PosterBody) =>
+      (await send("/posters", { method: "POST", body: JSON.stringify(body) })).blob(),
+    comparisonExportUrl: (query: ComparisonExportQuery) => `${baseUrl}/comparisons/export${queryString({ ...query })}`,
+  }
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>
+
+// Same-origin client for the app's own pages
+export const api = createApiClient()
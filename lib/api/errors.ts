@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server"
+import type { QuotaResult } from "@/lib/rate-limit"
+import type { ValidationIssue } from "@/lib/validation/text"
+
+export const API_ERROR_CODES = [
+  "invalid_json",
+  "invalid_request",
+  "validation_failed",
+  "moderation_flagged",
+  "unauthorized",
+  "forbidden",
+  "not_found",
+  "not_ready",
+  "rate_limited",
+  "quota_exceeded",
+  "no_providers",
+  "internal_error",
+] as const
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number]
+
+// The one error shape every /api/v1 endpoint returns: { error: ApiError }
+export interface ApiError {
+  code: ApiErrorCode
+  message: string
+  // Field-level problems for validation_failed and moderation_flagged
+  issues?: ValidationIssue[]
+  // Seconds to wait before retrying, for rate_limited
+  retryAfter?: number
+  quota?: QuotaResult
+}
+
+export type ApiErrorDetails = Omit<ApiError, "code" | "message">
+
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  details: ApiErrorDetails = {},
+  headers?: HeadersInit,
+) {
+  return NextResponse.json({ error: { code, message, ...details } }, { status, headers })
+}
+
+export const invalidJson = () => apiError(400, "invalid_json", "Request body must be valid JSON")
+
+export const notFound = (message: string) => apiError(404, "not_found", message)
@@ -0,0 +1,62 @@
+import { logger, REQUEST_ID_HEADER, requestIdFrom, withRequestContext } from "@/lib/logger"
+import { authenticate, principalOwner, type ApiPrincipal } from "./auth"
+import { apiError } from "./errors"
+
+export interface ApiContext<P> {
+  params: P
+  principal: ApiPrincipal
+  // Rate-limit and quota identity: the key for API callers, the session for
+  // the app's own pages
+  clientId: string
+  // Recorded on generated images; see principalOwner
+  owner: string
+}
+
+type ApiHandler<P> = (request: Request, context: ApiContext<P>) => Promise<Response>
+
+// Wraps a /api/v1 route: gives the request a correlation id (echoed in the
+// x-request-id header and attached to every log entry it causes),
+// authenticates the caller and turns anything thrown into an internal_error
+// response
+export function apiRoute<P = Record<string, never>>(handler: ApiHandler<P>) {
+  return async (request: Request, { params }: { params: P }) => {
+    const requestId = requestIdFrom(request)
+    const { pathname } = new URL(request.url)
+
+    return withRequestContext({ requestId, method: request.method, path: pathname }, async () => {
+      const started = performance.now()
+      const response = await authorizeAndHandle(handler, request, params)
+      response.headers.set(REQUEST_ID_HEADER, requestId)
+      logger.info("request completed", {
+        method: request.method,
+        path: pathname,
+        status: response.status,
+        durationMs: Math.round(performance.now() - started),
+      })
+      return response
+    })
+  }
+}
+
+async function authorizeAndHandle<P>(handler: ApiHandler<P>, request: Request, params: P) {
+  const principal = await authenticate(request)
+  if (!principal) {
+    return apiError(
+      401,
+      "unauthorized",
+      "Send a valid API key in the x-api-key header or as a Bearer token",
+      {},
+      { "WWW-Authenticate": 'Bearer realm="api"' },
+    )
+  }
+
+  try {
+    const clientId = principal.kind === "key" ? `key:${principal.keyId}` : `session:${principal.sessionId}`
+    return await handler(request, { params, principal, clientId, owner: principalOwner(principal) })
+  } catch (error) {
+    // The message may carry paths, queries or provider details, so it stays in
+    // the log, which the x-request-id header ties to this response
+    logger.error("unhandled API error", { error })
+    return apiError(500, "internal_error", "An unexpected error occurred")
+  }
+}
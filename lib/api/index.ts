@@ -0,0 +1,14 @@
+export { ADMIN_REALM, isAdminEnabled, isAdminPrincipal, verifyAdminAuthorization } from "./admin"
+export { apiKeyFrom, authenticate, principalOwner, type ApiPrincipal } from "./auth"
+export {
+  API_ERROR_CODES,
+  apiError,
+  invalidJson,
+  notFound,
+  type ApiError,
+  type ApiErrorCode,
+  type ApiErrorDetails,
+} from "./errors"
+export { apiRoute, type ApiContext } from "./handler"
+export { jobStarted } from "./jobs"
+export { createSessionToken, SESSION_COOKIE, SESSION_MAX_AGE_SECONDS, verifySessionToken } from "./session"
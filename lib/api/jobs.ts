@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import type { ClimateFact } from "@/lib/facts/types"
+import type { GenerationJob } from "@/lib/jobs"
+import { rateLimitHeaders, type QuotaResult, type RateLimitResult } from "@/lib/rate-limit"
+import type { JobStartedResponse } from "./types"
+
+// The 202 every job-starting endpoint answers with
+export function jobStarted(job: GenerationJob, rate: RateLimitResult, quota: QuotaResult, fact?: ClimateFact) {
+  const body: JobStartedResponse = {
+    jobId: job.id,
+    mode: job.mode,
+    providers: job.providers,
+    prompt: job.prompt,
+    ...(job.prompts && { prompts: job.prompts }),
+    template: job.template,
+    ...(fact && { fact }),
+    quota,
+    createdAt: job.createdAt,
+  }
+  return NextResponse.json(body, {
+    status: 202,
+    headers: { ...rateLimitHeaders(rate, quota), Location: `/api/v1/jobs/${job.id}` },
+  })
+}
@@ -0,0 +1,925 @@
+import { cities } from "@/lib/catalog"
+import { comparisonFormats } from "@/lib/comparison/formats"
+import { exportFormats, MAX_EXPORT_DIMENSION, MIN_EXPORT_DIMENSION } from "@/lib/export/formats"
+import { INDICATORS } from "@/lib/facts/loaders"
+import { locales } from "@/lib/i18n/config"
+import { gazetteer } from "@/lib/locations/gazetteer"
+import { GENERIC_ISSUE_IDS } from "@/lib/locations/issues"
+import { DEFAULT_METRICS_RANGE, METRICS_RANGES } from "@/lib/metrics"
+import { posterAspects, posterLayouts } from "@/lib/poster/layouts"
+import { promptTemplates } from "@/lib/prompts/templates"
+import { PROVIDER_ERROR_CODES } from "@/lib/providers/errors"
+import { MAX_SEED } from "@/lib/validation/options"
+import { API_ERROR_CODES, type ApiErrorCode } from "./errors"
+import { SESSION_COOKIE } from "./session"
+
+// The OpenAPI 3 document for /api/v1, built from the same catalogs the routes
+// validate against so enums never drift from the implementation.
+
+type Schema = Record<string, unknown>
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` })
+const string = (extra: Schema = {}): Schema => ({ type: "string", ...extra })
+const integer = (extra: Schema = {}): Schema => ({ type: "integer", ...extra })
+const array = (items: Schema): Schema => ({ type: "array", items })
+const object = (properties: Record<string, Schema>, required: string[] = []): Schema => ({
+  type: "object",
+  properties,
+  ...(required.length > 0 && { required }),
+})
+const unique = (values: string[]) => Array.from(new Set(values))
+
+const cityIds = unique([...cities, ...gazetteer].map((city) => city.id))
+const issueIds = unique([...cities.flatMap((city) => city.issues.map((issue) => issue.id)), ...GENERIC_ISSUE_IDS])
+const imageErrorCodes = [...PROVIDER_ERROR_CODES, "storage_failed"]
+
+const ERROR_STATUS: Record<ApiErrorCode, { status: number; description: string }> = {
+  invalid_json: { status: 400, description: "The body is not valid JSON" },
+  invalid_request: { status: 400, description: "A query parameter or field has an unknown value" },
+  unauthorized: { status: 401, description: "Missing or invalid API key" },
+  forbidden: { status: 403, description: "The API key may not use this endpoint" },
+  not_found: { status: 404, description: "The referenced resource does not exist" },
+  not_ready: { status: 409, description: "The resource is still being produced; try again later" },
+  validation_failed: { status: 422, description: "One or more fields are invalid; see `issues`" },
+  moderation_flagged: { status: 422, description: "Free text was flagged by content moderation" },
+  rate_limited: { status: 429, description: "Too many requests; see `retryAfter`" },
+  quota_exceeded: { status: 429, description: "The daily image quota is used up; see `quota`" },
+  internal_error: { status: 500, description: "Unexpected server error" },
+  no_providers: { status: 503, description: "No image providers are configured" },
+}
+
+function errorResponses(...codes: ApiErrorCode[]) {
+  const byStatus = new Map<number, ApiErrorCode[]>()
+  for (const code of ["unauthorized", ...codes, "internal_error"] as ApiErrorCode[]) {
+    const { status } = ERROR_STATUS[code]
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code])
+  }
+  return Object.fromEntries(
+    Array.from(byStatus, ([status, grouped]) => [
+      String(status),
+      {
+        description: grouped.map((code) => `\`${code}\`: ${ERROR_STATUS[code].description}`).join("; "),
+        content: { "application/json": { schema: ref("ErrorResponse") } },
+      },
+    ]),
+  )
+}
+
+// For the few endpoints that need no key
+function publicErrorResponses(...codes: ApiErrorCode[]) {
+  return Object.fromEntries(Object.entries(errorResponses(...codes)).filter(([status]) => status !== "401"))
+}
+
+const json = (description: string, schema: Schema) => ({
+  description,
+  content: { "application/json": { schema } },
+})
+
+const jsonBody = (schema: Schema) => ({ required: true, content: { "application/json": { schema } } })
+
+const query = (name: string, schema: Schema, description: string, required = false) => ({
+  name,
+  in: "query",
+  required,
+  description,
+  schema,
+})
+
+const pathId = (description: string) => ({ name: "id", in: "path", required: true, description, schema: string() })
+
+const jobStarted = {
+  "202": {
+    ...json("The job was accepted; follow it at /jobs/{jobId} or /jobs/{jobId}/events", ref("JobStarted")),
+    headers: {
+      Location: { description: "URL of the job", schema: string() },
+      "X-RateLimit-Remaining": { schema: integer() },
+      "X-Quota-Remaining": { schema: integer() },
+    },
+  },
+}
+
+const schemas: Record<string, Schema> = {
+  ValidationIssue: object({ field: string(), code: string(), message: string() }, ["field", "code", "message"]),
+  Quota: object(
+    {
+      allowed: { type: "boolean" },
+      limit: integer(),
+      used: integer(),
+      remaining: integer(),
+      resetAt: integer({ description: "Unix time in milliseconds" }),
+    },
+    ["allowed", "limit", "used", "remaining", "resetAt"],
+  ),
+  ErrorResponse: object(
+    {
+      error: object(
+        {
+          code: string({ enum: [...API_ERROR_CODES] }),
+          message: string(),
+          issues: array(ref("ValidationIssue")),
+          retryAfter: integer({ description: "Seconds to wait before retrying" }),
+          quota: ref("Quota"),
+        },
+        ["code", "message"],
+      ),
+    },
+    ["error"],
+  ),
+  ClimateIssue: object(
+    {
+      id: string({ enum: issueIds }),
+      name: string(),
+      description: string(),
+      severity: string({ enum: ["moderate", "high", "severe"] }),
+      promptHint: string(),
+    },
+    ["id", "name", "description", "severity", "promptHint"],
+  ),
+  Location: object(
+    {
+      id: string({ enum: cityIds }),
+      name: string(),
+      country: string(),
+      coordinates: object({ lat: { type: "number" }, lng: { type: "number" } }, ["lat", "lng"]),
+      population: integer(),
+      climateZone: string({ enum: ["tropical", "arid", "temperate", "continental", "polar"] }),
+      coastal: { type: "boolean" },
+      curated: { type: "boolean", description: "In the curated catalog; other cities get issues inferred from their climate" },
+      distanceKm: integer({ description: "Only when searching by lat and lng" }),
+    },
+    ["id", "name", "country", "coordinates", "population", "climateZone", "coastal", "curated"],
+  ),
+  City: object(
+    {
+      id: string({ enum: cityIds }),
+      name: string(),
+      country: string(),
+      coordinates: object({ lat: { type: "number" }, lng: { type: "number" } }, ["lat", "lng"]),
+      landmarks: array(string()),
+      issues: array(ref("ClimateIssue")),
+    },
+    ["id", "name", "country", "coordinates", "landmarks", "issues"],
+  ),
+  ModelCapabilities: object(
+    {
+      id: string(),
+      sizes: array(string({ example: "1024x1024" })),
+      maxImages: integer(),
+      qualities: array(string()),
+      styles: array(string()),
+    },
+    ["id", "sizes", "maxImages"],
+  ),
+  Provider: object(
+    {
+      id: string(),
+      name: string(),
+      capabilities: object(
+        {
+          models: array(ref("ModelCapabilities")),
+          supportsSeed: { type: "boolean" },
+          supportsNegativePrompt: { type: "boolean" },
+        },
+        ["models", "supportsSeed", "supportsNegativePrompt"],
+      ),
+      variations: { type: "boolean" },
+      edits: { type: "boolean" },
+    },
+    ["id", "name", "capabilities", "variations", "edits"],
+  ),
+  ClimateFact: object(
+    {
+      id: string({ example: "london-flood-frequency" }),
+      cityId: string({ enum: cityIds }),
+      indicator: string({ enum: INDICATORS }),
+      issueIds: array(string({ enum: issueIds })),
+      value: { type: "number" },
+      unit: string(),
+      period: string({ example: "1991–2020" }),
+      qualifier: string(),
+      measure: string(),
+      note: string(),
+      statement: string(),
+      citation: string(),
+      source: object(
+        { id: string(), name: string(), publisher: string(), url: string({ format: "uri" }), published: integer() },
+        ["id", "name", "publisher", "url", "published"],
+      ),
+    },
+    ["id", "cityId", "indicator", "issueIds", "value", "unit", "period", "statement", "citation", "source"],
+  ),
+  GenerationOptions: object({
+    providers: array(string()),
+    model: string(),
+    size: string({ example: "1024x1024" }),
+    aspectRatio: string({ example: "16:9" }),
+    count: integer({ minimum: 1 }),
+    quality: string(),
+    style: string(),
+    negativePrompt: string({ maxLength: 200 }),
+    seed: integer({ minimum: 0, maximum: MAX_SEED }),
+  }),
+  GenerateRequest: {
+    allOf: [
+      object(
+        {
+          city: string({ enum: cityIds }),
+          issue: string({ enum: issueIds }),
+          template: string({ enum: promptTemplates.map((template) => template.id) }),
+          mode: string({ enum: ["single", "comparison"], default: "single" }),
+          landmark: string({ maxLength: 80 }),
+          season: string({ maxLength: 40 }),
+          audience: string({ maxLength: 80 }),
+          cache: string({ enum: ["default", "bypass"], default: "default" }),
+          fact: string({ description: "Id of a fact from /facts for this city and issue" }),
+        },
+        ["city", "issue"],
+      ),
+      ref("GenerationOptions"),
+    ],
+  },
+  VariationRequest: object(
+    { imageId: string({ format: "uuid" }), provider: string(), count: integer({ minimum: 1, maximum: 10 }) },
+    ["imageId"],
+  ),
+  EditRequest: {
+    allOf: [
+      ref("VariationRequest"),
+      object(
+        {
+          instruction: string({ maxLength: 200 }),
+          mask: string({ description: "PNG data URL; painted pixels mark the region to change" }),
+        },
+        ["instruction", "mask"],
+      ),
+    ],
+  },
+  GeneratedImage: object(
+    {
+      id: string({ format: "uuid" }),
+      url: string({ description: "Missing when the image failed" }),
+      provider: string(),
+      providerId: string(),
+      durationMs: integer(),
+      cached: { type: "boolean" },
+      phase: string({ enum: ["today", "future"] }),
+      fallbackFrom: string({ description: "The provider this image stands in for, after it failed" }),
+      error: string({ enum: imageErrorCodes, description: "Why the image failed" }),
+    },
+    ["provider", "providerId", "durationMs"],
+  ),
+  ProviderJobState: object(
+    {
+      providerId: string(),
+      provider: string(),
+      status: string({ enum: ["pending", "succeeded", "failed"] }),
+      images: array(ref("GeneratedImage")),
+    },
+    ["providerId", "provider", "status", "images"],
+  ),
+  Template: object({ id: string(), version: integer() }, ["id", "version"]),
+  JobStarted: object(
+    {
+      jobId: string({ format: "uuid" }),
+      mode: string({ enum: ["single", "comparison"] }),
+      providers: array(ref("ProviderJobState")),
+      prompt: string(),
+      prompts: object({ today: string(), future: string() }, ["today", "future"]),
+      template: ref("Template"),
+      fact: ref("ClimateFact"),
+      quota: ref("Quota"),
+      createdAt: string({ format: "date-time" }),
+    },
+    ["jobId", "mode", "providers", "prompt", "template", "quota", "createdAt"],
+  ),
+  Job: object(
+    {
+      id: string({ format: "uuid" }),
+      status: string({ enum: ["running", "completed"] }),
+      mode: string({ enum: ["single", "comparison"] }),
+      cityId: string(),
+      issueId: string(),
+      prompt: string(),
+      prompts: object({ today: string(), future: string() }, ["today", "future"]),
+      template: ref("Template"),
+      providers: array(ref("ProviderJobState")),
+      createdAt: string({ format: "date-time" }),
+      completedAt: string({ format: "date-time" }),
+    },
+    ["id", "status", "mode", "cityId", "issueId", "prompt", "template", "providers", "createdAt"],
+  ),
+  Image: object(
+    {
+      id: string({ format: "uuid" }),
+      url: string({ description: "Public URL of the image file" }),
+      cityId: string(),
+      cityName: string(),
+      issueId: string(),
+      issueName: string(),
+      providerId: string(),
+      providerName: string(),
+      model: string(),
+      size: string(),
+      seed: integer(),
+      prompt: string(),
+      templateId: string(),
+      templateVersion: integer(),
+      mimeType: string(),
+      parentId: string({ format: "uuid" }),
+      operation: string({ enum: ["variation", "edit"] }),
+      phase: string({ enum: ["today", "future"] }),
+      owner: string({ description: "Opaque id of the key or session that generated the image" }),
+      createdAt: string({ format: "date-time" }),
+    },
+    ["id", "url", "cityId", "issueId", "providerId", "model", "size", "prompt", "mimeType", "createdAt"],
+  ),
+  BatchRequest: {
+    allOf: [
+      object(
+        {
+          cities: array(string({ enum: cityIds })),
+          issues: { ...array(string({ enum: issueIds })), description: "Defaults to every issue of each city" },
+          templates: array(string({ enum: promptTemplates.map((template) => template.id) })),
+          facts: { type: "boolean", default: false, description: "Ground each prompt in its top climate fact" },
+          cache: string({ enum: ["default", "bypass"], default: "default" }),
+        },
+        ["cities"],
+      ),
+      ref("GenerationOptions"),
+    ],
+  },
+  BatchItem: object(
+    {
+      index: integer(),
+      cityId: string(),
+      cityName: string(),
+      issueId: string(),
+      issueName: string(),
+      templateId: string(),
+      templateVersion: integer(),
+      providerId: string(),
+      provider: string(),
+      prompt: string(),
+      factId: string(),
+      status: string({ enum: ["queued", "running", "succeeded", "failed"] }),
+      images: array(ref("GeneratedImage")),
+      error: string({ enum: imageErrorCodes }),
+      startedAt: string({ format: "date-time" }),
+      completedAt: string({ format: "date-time" }),
+    },
+    ["index", "cityId", "issueId", "templateId", "templateVersion", "providerId", "provider", "prompt", "status", "images"],
+  ),
+  Batch: object(
+    {
+      id: string({ format: "uuid" }),
+      status: string({ enum: ["running", "completed"] }),
+      items: array(ref("BatchItem")),
+      progress: object(
+        { total: integer(), queued: integer(), running: integer(), succeeded: integer(), failed: integer() },
+        ["total", "queued", "running", "succeeded", "failed"],
+      ),
+      createdAt: string({ format: "date-time" }),
+      completedAt: string({ format: "date-time" }),
+    },
+    ["id", "status", "items", "progress", "createdAt"],
+  ),
+  ProviderHealth: object(
+    {
+      id: string(),
+      name: string(),
+      configured: { type: "boolean" },
+      ok: { type: "boolean", description: "The provider's API answered a lightweight authenticated call" },
+      latencyMs: integer(),
+      circuit: string({
+        enum: ["closed", "open", "half_open"],
+        description: "An open circuit skips the provider after repeated failures",
+      }),
+      error: string({ description: "Only on /admin/metrics" }),
+    },
+    ["id", "name", "configured", "ok", "circuit"],
+  ),
+  Health: object(
+    {
+      status: string({ enum: ["ok", "degraded", "down"] }),
+      providers: array(ref("ProviderHealth")),
+      checkedAt: string({ format: "date-time" }),
+    },
+    ["status", "providers", "checkedAt"],
+  ),
+  ProviderMetrics: object(
+    {
+      providerId: string(),
+      provider: string(),
+      requests: integer(),
+      failures: integer(),
+      failureRate: { type: "number" },
+      cached: integer(),
+      images: integer(),
+      estimatedCostUsd: { type: "number" },
+      avgLatencyMs: integer(),
+      p95LatencyMs: integer(),
+    },
+    ["requests", "failures", "failureRate", "cached", "images", "estimatedCostUsd", "avgLatencyMs", "p95LatencyMs"],
+  ),
+  RequestRecord: object(
+    {
+      id: string({ format: "uuid" }),
+      at: string({ format: "date-time" }),
+      operation: string({ enum: ["generate", "comparison", "variation", "edit"] }),
+      providerId: string(),
+      provider: string(),
+      model: string(),
+      size: string(),
+      quality: string(),
+      requested: integer(),
+      produced: integer(),
+      success: { type: "boolean" },
+      cached: { type: "boolean" },
+      latencyMs: integer(),
+      estimatedCostUsd: { type: "number" },
+      error: string(),
+    },
+    ["id", "at", "operation", "providerId", "provider", "model", "size", "requested", "produced", "success", "cached", "latencyMs", "estimatedCostUsd"],
+  ),
+  Metrics: object(
+    {
+      from: string({ format: "date-time" }),
+      to: string({ format: "date-time" }),
+      bucketMs: integer(),
+      totals: ref("ProviderMetrics"),
+      providers: array(ref("ProviderMetrics")),
+      timeline: array(
+        object(
+          {
+            start: string({ format: "date-time" }),
+            providers: {
+              type: "object",
+              description: "Counts keyed by provider id",
+              additionalProperties: object(
+                { requests: integer(), failures: integer(), estimatedCostUsd: { type: "number" } },
+                ["requests", "failures", "estimatedCostUsd"],
+              ),
+            },
+          },
+          ["start", "providers"],
+        ),
+      ),
+      recentFailures: array(ref("RequestRecord")),
+    },
+    ["from", "to", "bucketMs", "totals", "providers", "timeline", "recentFailures"],
+  ),
+  PosterRequest: object(
+    {
+      imageId: string({ format: "uuid" }),
+      layout: string({ enum: posterLayouts.map((layout) => layout.id) }),
+      aspect: string({ enum: posterAspects.map((aspect) => aspect.id) }),
+      headline: string({ maxLength: 200 }),
+      fact: string({ maxLength: 200 }),
+    },
+    ["imageId"],
+  ),
+  ProvenanceManifest: object(
+    {
+      version: integer({ enum: [1] }),
+      generator: string(),
+      digitalSourceType: string({ description: "IPTC digital source type: trainedAlgorithmicMedia" }),
+      imageId: string({ format: "uuid" }),
+      createdAt: string({ format: "date-time" }),
+      provider: object({ id: string(), name: string() }, ["id", "name"]),
+      model: string(),
+      prompt: string(),
+      city: object({ id: string(), name: string() }, ["id", "name"]),
+      issue: object({ id: string(), name: string() }, ["id", "name"]),
+      parentId: string({ format: "uuid" }),
+      operation: string({ enum: ["variation", "edit"] }),
+      mimeType: string(),
+      sha256: string({ description: "Hex SHA-256 of the stored file" }),
+      watermark: string({ description: "Payload of the invisible watermark" }),
+    },
+    [
+      "version",
+      "generator",
+      "digitalSourceType",
+      "imageId",
+      "createdAt",
+      "provider",
+      "model",
+      "prompt",
+      "city",
+      "issue",
+      "mimeType",
+      "sha256",
+      "watermark",
+    ],
+  ),
+  SignedManifest: object(
+    {
+      manifest: ref("ProvenanceManifest"),
+      signature: object(
+        {
+          algorithm: string({ enum: ["Ed25519"] }),
+          keyId: string(),
+          value: string({ description: "Base64 signature over the compact JSON of the manifest" }),
+        },
+        ["algorithm", "keyId", "value"],
+      ),
+    },
+    ["manifest", "signature"],
+  ),
+}
+
+const paths = {
+  "/health": {
+    get: {
+      operationId: "getHealth",
+      summary: "Service status from live checks of each provider's API",
+      security: [],
+      responses: {
+        "200": json("At least one configured provider is reachable", ref("Health")),
+        "503": json("No configured provider is reachable", ref("Health")),
+      },
+    },
+  },
+  "/catalog": {
+    get: {
+      operationId: "getCatalog",
+      summary: "Cities and the climate issues available for each",
+      responses: { "200": json("The catalog", object({ cities: array(ref("City")) }, ["cities"])), ...errorResponses() },
+    },
+  },
+  "/providers": {
+    get: {
+      operationId: "getProviders",
+      summary: "Configured image providers and their capabilities",
+      responses: {
+        "200": json("Configured providers", object({ providers: array(ref("Provider")) }, ["providers"])),
+        ...errorResponses(),
+      },
+    },
+  },
+  "/quota": {
+    get: {
+      operationId: "getQuota",
+      summary: "The caller's remaining daily image quota",
+      responses: { "200": json("Quota", object({ quota: ref("Quota") }, ["quota"])), ...errorResponses() },
+    },
+  },
+  "/facts": {
+    get: {
+      operationId: "getFacts",
+      summary: "Cited climate indicators for a city, optionally for one issue",
+      parameters: [
+        query("city", string({ enum: cityIds }), "City id", true),
+        query("issue", string({ enum: issueIds }), "Issue id; returns only relevant facts, best first"),
+      ],
+      responses: {
+        "200": json(
+          "Facts",
+          object(
+            { city: string(), issue: string({ nullable: true }), facts: array(ref("ClimateFact")) },
+            ["city", "issue", "facts"],
+          ),
+        ),
+        ...errorResponses("invalid_request", "not_found"),
+      },
+    },
+  },
+  "/locations": {
+    get: {
+      operationId: "searchLocations",
+      summary: "Search the gazetteer by name, or find the places nearest a point",
+      parameters: [
+        query("q", string(), "Free-text name; tolerates typos and missing accents"),
+        query("lat", { type: "number", minimum: -90, maximum: 90 }, "Latitude, with lng, when q is not given"),
+        query("lng", { type: "number", minimum: -180, maximum: 180 }, "Longitude, with lat, when q is not given"),
+        query("limit", integer({ minimum: 1, maximum: 20, default: 8 }), "Maximum number of results"),
+      ],
+      responses: {
+        "200": json("Matches, best or nearest first", object({ locations: array(ref("Location")) }, ["locations"])),
+        ...errorResponses("invalid_request"),
+      },
+    },
+  },
+  "/locations/{id}": {
+    get: {
+      operationId: "getLocation",
+      summary: "A gazetteer place as a city to generate for",
+      parameters: [pathId("Location id, usable as a city id")],
+      responses: {
+        "200": json("The place", object({ location: ref("Location"), city: ref("City") }, ["location", "city"])),
+        ...errorResponses("not_found"),
+      },
+    },
+  },
+  "/generate": {
+    post: {
+      operationId: "generate",
+      summary: "Start generating awareness images for a city and issue",
+      requestBody: jsonBody(ref("GenerateRequest")),
+      responses: {
+        ...jobStarted,
+        ...errorResponses("invalid_json", "validation_failed", "moderation_flagged", "rate_limited", "quota_exceeded", "no_providers"),
+      },
+    },
+  },
+  "/variations": {
+    post: {
+      operationId: "createVariations",
+      summary: "Start generating variations of a stored image",
+      requestBody: jsonBody(ref("VariationRequest")),
+      responses: {
+        ...jobStarted,
+        ...errorResponses("invalid_json", "validation_failed", "not_found", "rate_limited", "quota_exceeded"),
+      },
+    },
+  },
+  "/edit": {
+    post: {
+      operationId: "editImage",
+      summary: "Start repainting the masked region of a stored image",
+      requestBody: jsonBody(ref("EditRequest")),
+      responses: {
+        ...jobStarted,
+        ...errorResponses("invalid_json", "validation_failed", "moderation_flagged", "not_found", "rate_limited", "quota_exceeded"),
+      },
+    },
+  },
+  "/jobs/{id}": {
+    get: {
+      operationId: "getJob",
+      summary: "Current state of a generation job",
+      parameters: [pathId("Job id")],
+      responses: { "200": json("The job", object({ job: ref("Job") }, ["job"])), ...errorResponses("not_found") },
+    },
+  },
+  "/jobs/{id}/events": {
+    get: {
+      operationId: "streamJob",
+      summary: "Server-Sent Events: `snapshot` (Job), `provider` (ProviderJobState) per provider, then `completed` (Job)",
+      parameters: [pathId("Job id")],
+      responses: {
+        "200": { description: "Event stream", content: { "text/event-stream": { schema: string() } } },
+        ...errorResponses("not_found"),
+      },
+    },
+  },
+  "/batches": {
+    post: {
+      operationId: "createBatch",
+      summary: "Start a campaign over every city × issue × template combination, queued per provider",
+      requestBody: jsonBody(ref("BatchRequest")),
+      responses: {
+        "202": {
+          ...json(
+            "The batch was accepted; poll /batches/{id} for progress",
+            object({ batch: ref("Batch"), quota: ref("Quota") }, ["batch", "quota"]),
+          ),
+          headers: { Location: { description: "URL of the batch", schema: string() } },
+        },
+        ...errorResponses("invalid_json", "validation_failed", "moderation_flagged", "rate_limited", "quota_exceeded", "no_providers"),
+      },
+    },
+  },
+  "/batches/{id}": {
+    get: {
+      operationId: "getBatch",
+      summary: "Progress and results of a batch",
+      parameters: [pathId("Batch id")],
+      responses: { "200": json("The batch", object({ batch: ref("Batch") }, ["batch"])), ...errorResponses("not_found") },
+    },
+  },
+  "/batches/{id}/archive": {
+    get: {
+      operationId: "downloadBatchArchive",
+      summary: "ZIP of a completed batch's images with manifest.json and manifest.csv",
+      parameters: [pathId("Batch id")],
+      responses: {
+        "200": { description: "ZIP archive", content: { "application/zip": { schema: string({ format: "binary" }) } } },
+        ...errorResponses("not_found", "not_ready"),
+      },
+    },
+  },
+  "/admin/metrics": {
+    get: {
+      operationId: "getAdminMetrics",
+      summary: "Usage, failure and estimated spend metrics with provider health; needs a key named in ADMIN_KEYS",
+      parameters: [query("range", string({ enum: METRICS_RANGES.map((range) => range.id), default: DEFAULT_METRICS_RANGE }), "Time range")],
+      responses: {
+        "200": json(
+          "Metrics",
+          object(
+            { range: string(), metrics: ref("Metrics"), health: ref("Health") },
+            ["range", "metrics", "health"],
+          ),
+        ),
+        ...errorResponses("invalid_request", "forbidden"),
+      },
+    },
+  },
+  "/images": {
+    get: {
+      operationId: "listImages",
+      summary: "Stored images, newest first",
+      parameters: [
+        query("city", string(), "Filter by city id"),
+        query("issue", string(), "Filter by issue id"),
+        query("provider", string(), "Filter by provider id"),
+        query("page", integer({ minimum: 1, default: 1 }), "Page number"),
+        query("pageSize", integer({ minimum: 1, maximum: 100, default: 20 }), "Images per page"),
+      ],
+      responses: {
+        "200": json(
+          "A page of images",
+          object(
+            {
+              images: array(ref("Image")),
+              page: integer(),
+              pageSize: integer(),
+              total: integer(),
+              totalPages: integer(),
+              providers: array(object({ id: string(), name: string() }, ["id", "name"])),
+            },
+            ["images", "page", "pageSize", "total", "totalPages", "providers"],
+          ),
+        ),
+        ...errorResponses(),
+      },
+    },
+  },
+  "/images/{id}": {
+    get: {
+      operationId: "getImage",
+      summary: "Metadata of a stored image",
+      parameters: [pathId("Image id")],
+      responses: { "200": json("The image", object({ image: ref("Image") }, ["image"])), ...errorResponses("not_found") },
+    },
+    delete: {
+      operationId: "deleteImage",
+      summary: "Delete an image the caller generated; it can be restored for 24 hours",
+      parameters: [pathId("Image id")],
+      responses: {
+        "200": json(
+          "The image was deleted",
+          object(
+            {
+              imageId: string({ format: "uuid" }),
+              deletedAt: string({ format: "date-time" }),
+              restorableUntil: string({ format: "date-time" }),
+            },
+            ["imageId", "deletedAt", "restorableUntil"],
+          ),
+        ),
+        ...errorResponses("forbidden", "not_found"),
+      },
+    },
+  },
+  "/images/{id}/restore": {
+    post: {
+      operationId: "restoreImage",
+      summary: "Undo a delete while the image is still restorable",
+      parameters: [pathId("Image id")],
+      responses: {
+        "200": json("The restored image", object({ image: ref("Image") }, ["image"])),
+        ...errorResponses("forbidden", "not_found"),
+      },
+    },
+  },
+  "/images/{id}/export": {
+    get: {
+      operationId: "exportImage",
+      summary: "Convert a stored image, with its generation details embedded as XMP and EXIF metadata",
+      parameters: [
+        pathId("Image id"),
+        query("format", string({ enum: exportFormats.map((format) => format.id) }), "Output format"),
+        query(
+          "width",
+          integer({ minimum: MIN_EXPORT_DIMENSION, maximum: MAX_EXPORT_DIMENSION }),
+          "Width in pixels. Alone it scales in proportion; with height the image is cropped to fit.",
+        ),
+        query("height", integer({ minimum: MIN_EXPORT_DIMENSION, maximum: MAX_EXPORT_DIMENSION }), "Height in pixels"),
+        query("quality", integer({ minimum: 1, maximum: 100 }), "Quality for JPEG, WebP and AVIF"),
+        query("label", { type: "boolean" }, 'Stamp a visible "AI-generated illustration" label'),
+        query("locale", string({ enum: [...locales] }), "Language of the label"),
+      ],
+      responses: {
+        "200": {
+          description: "The exported image. AVIF carries EXIF only.",
+          content: Object.fromEntries(
+            exportFormats.map((format) => [format.mimeType, { schema: string({ format: "binary" }) }]),
+          ),
+        },
+        ...errorResponses("invalid_request", "not_found", "rate_limited"),
+      },
+    },
+  },
+  "/images/{id}/provenance": {
+    get: {
+      operationId: "getProvenance",
+      summary: "The signed provenance manifest recorded when the image was generated",
+      parameters: [pathId("Image id")],
+      responses: {
+        "200": json(
+          "The manifest and the public key that verifies it",
+          object({ provenance: ref("SignedManifest"), publicKey: string({ description: "Ed25519 public key, SPKI PEM" }) }, [
+            "provenance",
+            "publicKey",
+          ]),
+        ),
+        ...errorResponses("not_found"),
+      },
+    },
+  },
+  "/verify": {
+    post: {
+      operationId: "verifyImage",
+      summary: "Check whether an image was generated by GreenGitch",
+      description:
+        "Matches the upload by its exact hash, or by its invisible watermark if it was re-encoded or resized. " +
+        "Cropped images lose the watermark. No key is needed; requests are rate-limited per client.",
+      security: [],
+      requestBody: {
+        required: true,
+        content: { "image/*": { schema: string({ format: "binary", description: "At most 20 MB" }) } },
+      },
+      responses: {
+        "200": json(
+          "The verification result",
+          object(
+            {
+              verified: { type: "boolean" },
+              match: string({ enum: ["exact", "watermark"], nullable: true }),
+              provenance: { allOf: [ref("SignedManifest")], nullable: true },
+              signatureValid: { type: "boolean" },
+              imageUrl: string({ nullable: true, description: "The matching image, while it is still stored" }),
+              publicKey: string({ description: "Ed25519 public key, SPKI PEM" }),
+            },
+            ["verified", "match", "provenance", "signatureValid", "imageUrl", "publicKey"],
+          ),
+        ),
+        ...publicErrorResponses("invalid_request", "rate_limited"),
+      },
+    },
+  },
+  "/posters": {
+    post: {
+      operationId: "createPoster",
+      summary: "Render a share poster from a stored image",
+      parameters: [{ name: "Accept-Language", in: "header", schema: string(), description: "Language of the captions" }],
+      requestBody: jsonBody(ref("PosterRequest")),
+      responses: {
+        "200": { description: "The poster", content: { "image/png": { schema: string({ format: "binary" }) } } },
+        ...errorResponses("invalid_json", "invalid_request", "validation_failed", "moderation_flagged", "not_found", "rate_limited"),
+      },
+    },
+  },
+  "/comparisons/export": {
+    get: {
+      operationId: "exportComparison",
+      summary: "Combine a today/future pair into a single downloadable image",
+      parameters: [
+        query("today", string({ format: "uuid" }), "Id of the today image", true),
+        query("future", string({ format: "uuid" }), "Id of the future image", true),
+        query("format", string({ enum: comparisonFormats.map((format) => format.id) }), "Output format"),
+        query("locale", string({ enum: [...locales] }), "Language of the labels"),
+      ],
+      responses: {
+        "200": {
+          description: "The exported comparison",
+          content: Object.fromEntries(
+            comparisonFormats.map((format) => [format.mimeType, { schema: string({ format: "binary" }) }]),
+          ),
+        },
+        ...errorResponses("invalid_request", "not_found", "rate_limited"),
+      },
+    },
+  },
+}
+
+export function buildOpenApiDocument(origin = "") {
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "GreenGitch API",
+      version: "1.0.0",
+      description:
+        "Generate climate awareness images for cities and climate issues. Every endpoint requires an API key, " +
+        "sent as `x-api-key` or as a Bearer token. Errors always have the shape `{ error: { code, message } }`.",
+    },
+    servers: [{ url: `${origin}/api/v1` }],
+    security: [{ apiKey: [] }, { bearer: [] }, { session: [] }],
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        apiKey: { type: "apiKey", in: "header", name: "x-api-key" },
+        bearer: { type: "http", scheme: "bearer" },
+        session: {
+          type: "apiKey",
+          in: "cookie",
+          name: SESSION_COOKIE,
+          description: "Set by the web app for its own pages",
+        },
+      },
+    },
+  }
+}
@@ -0,0 +1,64 @@
+// First-party session cookie so the app's own pages can call /api/v1 without
+// an API key. Uses Web Crypto only, because middleware runs on the edge.
+export const SESSION_COOKIE = "gg_session"
+
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60
+
+const DEV_SECRET = "greengitch-development-session-secret"
+
+function sessionSecret() {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET
+  }
+  // Production without a secret gets no sessions rather than forgeable ones
+  return process.env.NODE_ENV === "production" ? undefined : DEV_SECRET
+}
+
+function base64url(bytes: ArrayBuffer) {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "")
+}
+
+async function sign(payload: string, secret: string) {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  )
+  return base64url(await crypto.subtle.sign("HMAC", key, encoder.encode(payload)))
+}
+
+// "<id>.<issued at, unix seconds>.<signature>"
+export async function createSessionToken(now = Date.now()) {
+  const secret = sessionSecret()
+  if (!secret) {
+    return null
+  }
+  const payload = `${crypto.randomUUID()}.${Math.floor(now / 1000)}`
+  return `${payload}.${await sign(payload, secret)}`
+}
+
+export async function verifySessionToken(token: string | undefined, now = Date.now()) {
+  const secret = sessionSecret()
+  const [id, issuedAt, signature] = token?.split(".") ?? []
+  if (!secret || !id || !issuedAt || !signature) {
+    return null
+  }
+
+  const age = now / 1000 - Number(issuedAt)
+  if (!(age >= 0 && age <= SESSION_MAX_AGE_SECONDS)) {
+    return null
+  }
+
+  const expected = await sign(`${id}.${issuedAt}`, secret)
+  let difference = expected.length ^ signature.length
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ signature.charCodeAt(i % signature.length)
+  }
+  return difference === 0 ? id : null
+}
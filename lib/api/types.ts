@@ -0,0 +1,218 @@
+// Request and response bodies of /api/v1, shared by the route handlers, the
+// OpenAPI document and the typed client. Type-only so the client can import it.
+import type { BatchCampaign } from "@/lib/batch"
+import type { City } from "@/lib/catalog/data"
+import type { ClimateFact } from "@/lib/facts/types"
+import type { GazetteerEntry } from "@/lib/locations/gazetteer"
+import type { GenerationJob, GenerationMode, ProviderJobState } from "@/lib/jobs"
+import type { MetricsSummary } from "@/lib/metrics/types"
+import type { SignedManifest } from "@/lib/provenance/manifest"
+import type { ProvenanceMatch } from "@/lib/provenance/verify"
+import type { HealthReport, HealthStatus, ProviderHealthReport } from "@/lib/providers/health"
+import type { ProviderCapabilities } from "@/lib/providers/types"
+import type { QuotaResult } from "@/lib/rate-limit"
+import type { ImagePage, StoredImage } from "@/lib/store/images"
+import type { GenerationOptionsInput } from "@/lib/validation/options"
+
+export type { ApiError, ApiErrorCode } from "./errors"
+
+export interface CatalogResponse {
+  cities: City[]
+}
+
+// Either a free-text search or the places nearest a point
+export interface LocationsQuery {
+  q?: string
+  lat?: number
+  lng?: number
+  limit?: number
+}
+
+export interface LocationSummary extends GazetteerEntry {
+  // In the curated catalog, with hand-written issues and landmarks
+  curated: boolean
+  // Only for searches by point
+  distanceKm?: number
+}
+
+export interface LocationsResponse {
+  locations: LocationSummary[]
+}
+
+export interface LocationResponse {
+  location: LocationSummary
+  // Ready to generate for; issues are inferred unless the city is curated
+  city: City
+}
+
+export interface ProviderInfo {
+  id: string
+  name: string
+  capabilities: ProviderCapabilities
+  variations: boolean
+  edits: boolean
+}
+
+export interface ProvidersResponse {
+  providers: ProviderInfo[]
+}
+
+export interface QuotaResponse {
+  quota: QuotaResult
+}
+
+export interface FactsQuery {
+  city: string
+  issue?: string
+}
+
+export interface FactsResponse {
+  city: string
+  issue: string | null
+  facts: ClimateFact[]
+}
+
+export interface GenerateBody extends GenerationOptionsInput {
+  city: string
+  issue: string
+  template?: string
+  mode?: GenerationMode
+  landmark?: string
+  season?: string
+  audience?: string
+  cache?: "default" | "bypass"
+  // Id of a fact from /facts to ground the prompt in
+  fact?: string
+}
+
+export interface VariationBody {
+  imageId: string
+  provider?: string
+  count?: number
+}
+
+export interface EditBody extends VariationBody {
+  instruction: string
+  // PNG data URL; painted pixels mark the region to change
+  mask: string
+}
+
+// 202 body of /generate, /variations and /edit; follow the job at /jobs/{jobId}
+export interface JobStartedResponse {
+  jobId: string
+  mode: GenerationMode
+  providers: ProviderJobState[]
+  prompt: string
+  prompts?: { today: string; future: string }
+  template: { id: string; version: number }
+  fact?: ClimateFact
+  quota: QuotaResult
+  createdAt: string
+}
+
+export interface JobResponse {
+  job: GenerationJob
+}
+
+export interface BatchBody extends GenerationOptionsInput {
+  cities: string[]
+  // Defaults to every issue of each city
+  issues?: string[]
+  // Defaults to the default template
+  templates?: string[]
+  // Ground each prompt in the top climate fact for its city and issue
+  facts?: boolean
+  cache?: "default" | "bypass"
+}
+
+export interface BatchStartedResponse {
+  batch: BatchCampaign
+  quota: QuotaResult
+}
+
+export interface BatchResponse {
+  batch: BatchCampaign
+}
+
+export interface ImagesQuery {
+  city?: string
+  issue?: string
+  provider?: string
+  page?: number
+  pageSize?: number
+}
+
+export interface ImageResource extends StoredImage {
+  url: string
+}
+
+export interface ImagesResponse extends Omit<ImagePage, "images"> {
+  images: ImageResource[]
+  providers: { id: string; name: string }[]
+}
+
+export interface ImageResponse {
+  image: ImageResource
+}
+
+export interface ImageDeletedResponse {
+  imageId: string
+  deletedAt: string
+  // POST /images/{id}/restore works until then
+  restorableUntil: string
+}
+
+export interface PosterBody {
+  imageId: string
+  layout?: string
+  aspect?: string
+  headline?: string
+  fact?: string
+}
+
+export interface ComparisonExportQuery {
+  today: string
+  future: string
+  format?: string
+  locale?: string
+}
+
+export interface ImageExportQuery {
+  format?: string
+  // Give one to scale in proportion, or both to crop to that shape
+  width?: number
+  height?: number
+  quality?: number
+  // Stamp a visible "AI-generated illustration" label, in this locale
+  label?: boolean
+  locale?: string
+}
+
+// The public key verifies manifest signatures offline (Ed25519, SPKI PEM)
+export interface ProvenanceResponse {
+  provenance: SignedManifest
+  publicKey: string
+}
+
+export interface VerifyResponse {
+  // A GreenGitch manifest with a valid signature matched the upload
+  verified: boolean
+  match: ProvenanceMatch | null
+  provenance: SignedManifest | null
+  signatureValid: boolean
+  // The matching image, while it is still stored
+  imageUrl: string | null
+  publicKey: string
+}
+
+export interface HealthResponse {
+  status: HealthStatus
+  providers: Pick<ProviderHealthReport, "id" | "name" | "configured" | "ok" | "latencyMs" | "circuit">[]
+  checkedAt: string
+}
+
+export interface AdminMetricsResponse {
+  range: string
+  metrics: MetricsSummary
+  health: HealthReport
+}
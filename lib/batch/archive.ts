@@ -0,0 +1,151 @@
+import { getImage, imageExtension, readImageData } from "@/lib/store/images"
+import type { BatchCampaign, BatchItem } from "./index"
+import { createZip, type ZipEntry } from "./zip"
+
+// One row per image, plus one for each item that produced none
+export interface BatchManifestRow {
+  item: number
+  file: string
+  imageId: string
+  cityId: string
+  city: string
+  issueId: string
+  issue: string
+  templateId: string
+  templateVersion: number
+  providerId: string
+  provider: string
+  model: string
+  size: string
+  seed: string
+  prompt: string
+  factId: string
+  status: BatchItem["status"]
+  error: string
+  cached: boolean
+  startedAt: string
+  completedAt: string
+  createdAt: string
+}
+
+const CSV_COLUMNS: (keyof BatchManifestRow)[] = [
+  "item",
+  "file",
+  "imageId",
+  "cityId",
+  "city",
+  "issueId",
+  "issue",
+  "templateId",
+  "templateVersion",
+  "providerId",
+  "provider",
+  "model",
+  "size",
+  "seed",
+  "prompt",
+  "factId",
+  "status",
+  "error",
+  "cached",
+  "startedAt",
+  "completedAt",
+  "createdAt",
+]
+
+function csvField(value: string | number | boolean) {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsv(rows: BatchManifestRow[]) {
+  const lines = [CSV_COLUMNS.join(","), ...rows.map((row) => CSV_COLUMNS.map((column) => csvField(row[column])).join(","))]
+  return `${lines.join("\r\n")}\r\n`
+}
+
+function fileStem(item: BatchItem) {
+  const index = String(item.index + 1).padStart(3, "0")
+  return `images/${index}-${item.cityId}-${item.issueId}-${item.templateId}-${item.providerId}`
+}
+
+function itemRow(item: BatchItem): BatchManifestRow {
+  return {
+    item: item.index + 1,
+    file: "",
+    imageId: "",
+    cityId: item.cityId,
+    city: item.cityName,
+    issueId: item.issueId,
+    issue: item.issueName,
+    templateId: item.templateId,
+    templateVersion: item.templateVersion,
+    providerId: item.providerId,
+    provider: item.provider,
+    model: "",
+    size: "",
+    seed: "",
+    prompt: item.prompt,
+    factId: item.factId || "",
+    status: item.status,
+    error: item.error || "",
+    cached: false,
+    startedAt: item.startedAt || "",
+    completedAt: item.completedAt || "",
+    createdAt: "",
+  }
+}
+
+// Collects the manifest rows and the image files they name. Images that have
+// since been deleted from the store are listed with an error instead.
+export async function batchManifest(batch: BatchCampaign) {
+  const rows: BatchManifestRow[] = []
+  const files: ZipEntry[] = []
+
+  for (const item of batch.items) {
+    const stored = item.images.filter((image) => image.id && !image.error)
+    if (stored.length === 0) {
+      rows.push(itemRow(item))
+      continue
+    }
+
+    for (const [position, image] of stored.entries()) {
+      const row = { ...itemRow(item), imageId: image.id!, cached: Boolean(image.cached) }
+      const metadata = await getImage(image.id!)
+      if (!metadata) {
+        rows.push({ ...row, status: "failed", error: "Image is no longer stored" })
+        continue
+      }
+
+      const file = `${fileStem(item)}-${position + 1}.${imageExtension(metadata.mimeType)}`
+      files.push({ name: file, data: await readImageData(metadata), modifiedAt: new Date(metadata.createdAt) })
+      rows.push({
+        ...row,
+        file,
+        model: metadata.model,
+        size: metadata.size,
+        seed: metadata.seed === undefined ? "" : String(metadata.seed),
+        createdAt: metadata.createdAt,
+      })
+    }
+  }
+
+  return { rows, files }
+}
+
+// ZIP of every image plus manifest.json and manifest.csv describing them
+export async function buildBatchArchive(batch: BatchCampaign) {
+  const { rows, files } = await batchManifest(batch)
+  const manifest = {
+    batchId: batch.id,
+    createdAt: batch.createdAt,
+    completedAt: batch.completedAt,
+    progress: batch.progress,
+    images: rows,
+  }
+
+  return createZip([
+    { name: "manifest.json", data: Buffer.from(JSON.stringify(manifest, null, 2)) },
+    { name: "manifest.csv", data: Buffer.from(toCsv(rows)) },
+    ...files,
+  ])
+}
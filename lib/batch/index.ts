@@ -0,0 +1,143 @@
+import { randomUUID } from "crypto"
+import { generateWithFallback, type AttemptRunner, type GenerationContext, type GenerationOptions } from "@/lib/generation"
+import type { GeneratedImage, ImageErrorCode, ProviderSelection } from "@/lib/providers"
+import { providerLimiter } from "./limiter"
+
+export { createLimiter, providerLimiter, type Limiter } from "./limiter"
+export { buildBatchArchive, batchManifest, type BatchManifestRow } from "./archive"
+export { createZip, type ZipEntry } from "./zip"
+
+export type BatchItemStatus = "queued" | "running" | "succeeded" | "failed"
+
+// One city × issue × template × provider cell of a campaign
+export interface BatchItem {
+  index: number
+  cityId: string
+  cityName: string
+  issueId: string
+  issueName: string
+  templateId: string
+  templateVersion: number
+  providerId: string
+  provider: string
+  prompt: string
+  factId?: string
+  status: BatchItemStatus
+  images: GeneratedImage[]
+  error?: ImageErrorCode
+  startedAt?: string
+  completedAt?: string
+}
+
+export interface BatchProgress {
+  total: number
+  queued: number
+  running: number
+  succeeded: number
+  failed: number
+}
+
+export interface BatchCampaign {
+  id: string
+  status: "running" | "completed"
+  items: BatchItem[]
+  progress: BatchProgress
+  createdAt: string
+  completedAt?: string
+}
+
+export interface BatchTask {
+  context: GenerationContext
+  selection: ProviderSelection
+  factId?: string
+}
+
+// Campaigns take a while to collect, so they outlive single jobs
+const BATCH_TTL_MS = 6 * 60 * 60 * 1000
+
+// Kept on globalThis so dev-mode module reloads don't orphan running campaigns
+const globalForBatches = globalThis as unknown as { batchCampaigns?: Map<string, BatchCampaign> }
+const batches = (globalForBatches.batchCampaigns ??= new Map())
+
+function progressOf(items: BatchItem[]): BatchProgress {
+  const progress = { total: items.length, queued: 0, running: 0, succeeded: 0, failed: 0 }
+  for (const item of items) {
+    progress[item.status]++
+  }
+  return progress
+}
+
+function update(batch: BatchCampaign) {
+  batch.progress = progressOf(batch.items)
+  if (batch.progress.queued + batch.progress.running > 0) return
+
+  batch.status = "completed"
+  batch.completedAt = new Date().toISOString()
+  setTimeout(() => batches.delete(batch.id), BATCH_TTL_MS).unref?.()
+}
+
+async function runItem(batch: BatchCampaign, item: BatchItem, { context, selection }: BatchTask, options: GenerationOptions) {
+  // Fallback attempts wait for their own provider's limit too. Each slot is
+  // released before the next attempt, so items falling back onto each other's
+  // providers never hold one slot while waiting for another.
+  const limited: AttemptRunner = (providerId, attempt) =>
+    providerLimiter(providerId).run(() => {
+      if (item.status === "queued") {
+        item.status = "running"
+        item.startedAt = new Date().toISOString()
+        update(batch)
+      }
+      return attempt()
+    })
+
+  try {
+    item.images = await generateWithFallback(selection, context, options, [], limited)
+    const failure = item.images.find((image) => image.error)
+    item.status = item.images.some((image) => !image.error) ? "succeeded" : "failed"
+    if (item.status === "failed") item.error = failure?.error
+  } catch {
+    item.status = "failed"
+    item.error = "storage_failed"
+  }
+
+  item.completedAt = new Date().toISOString()
+  update(batch)
+}
+
+// Queues every task behind its provider's concurrency limit and returns the
+// campaign straight away; callers poll getBatch for progress.
+export function startBatch(tasks: BatchTask[], options: GenerationOptions = {}): BatchCampaign {
+  const items = tasks.map<BatchItem>(({ context, selection, factId }, index) => ({
+    index,
+    cityId: context.city.id,
+    cityName: context.city.name,
+    issueId: context.issue.id,
+    issueName: context.issue.name,
+    templateId: context.resolved.templateId,
+    templateVersion: context.resolved.templateVersion,
+    providerId: selection.provider.id,
+    provider: selection.provider.name,
+    prompt: context.resolved.prompt,
+    ...(factId && { factId }),
+    status: "queued",
+    images: [],
+  }))
+  const batch: BatchCampaign = {
+    id: randomUUID(),
+    status: "running",
+    items,
+    progress: progressOf(items),
+    createdAt: new Date().toISOString(),
+  }
+  batches.set(batch.id, batch)
+
+  tasks.forEach((task, index) => {
+    void runItem(batch, items[index], task, options)
+  })
+
+  return batch
+}
+
+export function getBatch(id: string) {
+  return batches.get(id)
+}
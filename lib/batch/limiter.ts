@@ -0,0 +1,72 @@
+import { AsyncResource } from "async_hooks"
+
+// Runs at most `concurrency` tasks at once; the rest wait in FIFO order
+export interface Limiter {
+  run<T>(task: () => Promise<T>): Promise<T>
+  readonly active: number
+  readonly pending: number
+}
+
+export function createLimiter(concurrency: number): Limiter {
+  let active = 0
+  const queue: (() => void)[] = []
+
+  const next = () => {
+    if (active >= concurrency) return
+    const start = queue.shift()
+    if (start) {
+      active++
+      start()
+    }
+  }
+
+  return {
+    run<T>(task: () => Promise<T>) {
+      return new Promise<T>((resolve, reject) => {
+        // Bound so a task started when another finishes still logs under
+        // the request that queued it
+        queue.push(
+          AsyncResource.bind(() => {
+            task()
+              .then(resolve, reject)
+              .finally(() => {
+                active--
+                next()
+              })
+          }),
+        )
+        next()
+      })
+    },
+    get active() {
+      return active
+    },
+    get pending() {
+      return queue.length
+    },
+  }
+}
+
+const DEFAULT_CONCURRENCY = 2
+
+// BATCH_CONCURRENCY is a comma-separated list of "providerId:limit" pairs
+function configuredConcurrency(providerId: string) {
+  for (const entry of (process.env.BATCH_CONCURRENCY || "").split(",")) {
+    const [id, limit] = entry.split(":").map((part) => part.trim())
+    if (id === providerId && Number(limit) >= 1) return Math.floor(Number(limit))
+  }
+  return DEFAULT_CONCURRENCY
+}
+
+// Shared by every batch so concurrent campaigns can't multiply a provider's load
+const globalForLimiters = globalThis as unknown as { providerLimiters?: Map<string, Limiter> }
+const limiters = (globalForLimiters.providerLimiters ??= new Map())
+
+export function providerLimiter(providerId: string) {
+  let limiter = limiters.get(providerId)
+  if (!limiter) {
+    limiter = createLimiter(configuredConcurrency(providerId))
+    limiters.set(providerId, limiter)
+  }
+  return limiter
+}
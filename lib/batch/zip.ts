@@ -0,0 +1,73 @@
+import { crc32 } from "@/lib/crc32"
+
+export interface ZipEntry {
+  name: string
+  data: Buffer
+  modifiedAt?: Date
+}
+
+// Entries are stored uncompressed: images are already compressed and the
+// manifests are tiny, so deflating would only cost CPU.
+const STORED = 0
+// General purpose flag bit 11: names are UTF-8
+const UTF8_NAMES = 0x0800
+
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2)
+  const day = ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  return { time, day }
+}
+
+// Builds a ZIP archive (no ZIP64, so entries and the archive must stay under 4 GB)
+export function createZip(entries: ZipEntry[]): Buffer {
+  const parts: Buffer[] = []
+  const directory: Buffer[] = []
+  let offset = 0
+
+  for (const { name, data, modifiedAt = new Date() } of entries) {
+    const fileName = Buffer.from(name, "utf8")
+    const checksum = crc32(data)
+    const { time, day } = dosDateTime(modifiedAt)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(UTF8_NAMES, 6)
+    local.writeUInt16LE(STORED, 8)
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(day, 12)
+    local.writeUInt32LE(checksum, 14)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(fileName.length, 26)
+    local.writeUInt16LE(0, 28)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(UTF8_NAMES, 8)
+    central.writeUInt16LE(STORED, 10)
+    central.writeUInt16LE(time, 12)
+    central.writeUInt16LE(day, 14)
+    central.writeUInt32LE(checksum, 16)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(fileName.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    parts.push(local, fileName, data)
+    directory.push(central, fileName)
+    offset += local.length + fileName.length + data.length
+  }
+
+  const directorySize = directory.reduce((total, part) => total + part.length, 0)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(directorySize, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...parts, ...directory, end])
+}
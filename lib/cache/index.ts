@@ -0,0 +1,110 @@
+import { createHash } from "crypto"
+
+interface Entry<T> {
+  value: T
+  expiresAt: number
+}
+
+export interface ContentCache<T> {
+  get(key: string): T | undefined
+  set(key: string, value: T): void
+  // Drops every stored value `matches` accepts, returning how many went
+  evict(matches: (value: T) => boolean): number
+  // Returns a cached value, joins an identical in-flight computation, or runs
+  // `produce`. `fromCache` is true whenever `produce` was not called for this
+  // caller. Only values accepted by `shouldCache` are stored.
+  run(
+    key: string,
+    produce: () => Promise<T>,
+    options?: { bypass?: boolean; shouldCache?: (value: T) => boolean },
+  ): Promise<{ value: T; fromCache: boolean }>
+}
+
+// Stable key for any JSON-serialisable tuple of inputs
+export function contentKey(parts: unknown[]) {
+  return createHash("sha256").update(JSON.stringify(parts)).digest("hex")
+}
+
+// Expired entries are otherwise only dropped when their key is read again, so
+// every so often a sweep clears the rest. Past `maxEntries` the least recently
+// used entries go as well.
+const SWEEP_INTERVAL_MS = 60_000
+const DEFAULT_MAX_ENTRIES = 1_000
+
+export function createContentCache<T>(ttlMs: () => number, maxEntries = DEFAULT_MAX_ENTRIES): ContentCache<T> {
+  const entries = new Map<string, Entry<T>>()
+  const inFlight = new Map<string, Promise<T>>()
+  let sweptAt = 0
+
+  const sweep = (now: number) => {
+    if (now - sweptAt >= SWEEP_INTERVAL_MS) {
+      sweptAt = now
+      entries.forEach((entry, key) => {
+        if (entry.expiresAt <= now) entries.delete(key)
+      })
+    }
+    // Maps iterate in insertion order, so the first keys are the least recently used
+    for (const key of entries.keys()) {
+      if (entries.size <= maxEntries) break
+      entries.delete(key)
+    }
+  }
+
+  const get = (key: string) => {
+    const entry = entries.get(key)
+    if (!entry) return undefined
+    entries.delete(key)
+    if (entry.expiresAt <= Date.now()) return undefined
+    // Re-inserted so the entry counts as recently used
+    entries.set(key, entry)
+    return entry.value
+  }
+
+  const set = (key: string, value: T) => {
+    const ttl = ttlMs()
+    if (ttl > 0) {
+      const now = Date.now()
+      entries.delete(key)
+      entries.set(key, { value, expiresAt: now + ttl })
+      sweep(now)
+    }
+  }
+
+  return {
+    get,
+    set,
+    evict(matches) {
+      let evicted = 0
+      entries.forEach((entry, key) => {
+        if (matches(entry.value)) {
+          entries.delete(key)
+          evicted++
+        }
+      })
+      return evicted
+    },
+    async run(key, produce, { bypass = false, shouldCache = () => true } = {}) {
+      if (!bypass) {
+        const cached = get(key)
+        if (cached !== undefined) {
+          return { value: cached, fromCache: true }
+        }
+      }
+
+      // Joining is fine even when bypassing: the in-flight result is fresh too
+      const pending = inFlight.get(key)
+      if (pending) {
+        return { value: await pending, fromCache: true }
+      }
+
+      const promise = produce()
+        .then((value) => {
+          if (shouldCache(value)) set(key, value)
+          return value
+        })
+        .finally(() => inFlight.delete(key))
+      inFlight.set(key, promise)
+      return { value: await promise, fromCache: false }
+    },
+  }
+}
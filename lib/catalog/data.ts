@@ -0,0 +1,142 @@
+export type IssueSeverity = "moderate" | "high" | "severe"
+
+export interface ClimateIssue {
+  id: string
+  name: string
+  description: string
+  severity: IssueSeverity
+  // Visual detail appended to prompts so renders depict the issue specifically
+  promptHint: string
+}
+
+export interface City {
+  id: string
+  name: string
+  country: string
+  coordinates: { lat: number; lng: number }
+  landmarks: string[]
+  issues: ClimateIssue[]
+}
+
+export const cities: City[] = [
+  {
+    id: "new-york",
+    name: "New York",
+    country: "United States",
+    coordinates: { lat: 40.7128, lng: -74.006 },
+    landmarks: ["Statue of Liberty", "Brooklyn Bridge", "Lower Manhattan waterfront", "Central Park"],
+    issues: [
+      {
+        id: "sea-level-rise",
+        name: "Sea Level Rise",
+        description: "Rising tides and storm surge threaten low-lying Lower Manhattan, Brooklyn and Queens shorelines.",
+        severity: "severe",
+        promptHint: "seawater flooding streets and subway entrances, storm surge against the seawall",
+      },
+      {
+        id: "urban-heat-island",
+        name: "Urban Heat Island",
+        description: "Dense asphalt and concrete keep neighbourhoods several degrees hotter than surrounding areas.",
+        severity: "high",
+        promptHint: "shimmering heat haze over asphalt, residents seeking shade, open fire hydrants",
+      },
+      {
+        id: "air-pollution",
+        name: "Air Pollution",
+        description: "Traffic and wildfire smoke episodes push fine particulate levels above health guidelines.",
+        severity: "moderate",
+        promptHint: "orange smoke-filled sky, hazy skyline, people wearing masks",
+      },
+    ],
+  },
+  {
+    id: "london",
+    name: "London",
+    country: "United Kingdom",
+    coordinates: { lat: 51.5074, lng: -0.1278 },
+    landmarks: ["Thames Barrier", "Tower Bridge", "Houses of Parliament", "Canary Wharf"],
+    issues: [
+      {
+        id: "flooding",
+        name: "Flooding",
+        description: "Tidal surges on the Thames and flash flooding from intense rainfall overwhelm drainage.",
+        severity: "high",
+        promptHint: "the Thames overtopping its embankments, flooded underground station entrances",
+      },
+      {
+        id: "air-quality",
+        name: "Air Quality",
+        description: "Nitrogen dioxide from road traffic regularly exceeds legal limits on busy streets.",
+        severity: "moderate",
+        promptHint: "grey smog over congested roads, double-decker buses in haze",
+      },
+      {
+        id: "heat-waves",
+        name: "Heat Waves",
+        description: "Record temperatures above 40°C strain transport, housing and health services.",
+        severity: "high",
+        promptHint: "scorched brown parks, buckled rail tracks, crowds sheltering from the sun",
+      },
+    ],
+  },
+  {
+    id: "tokyo",
+    name: "Tokyo",
+    country: "Japan",
+    coordinates: { lat: 35.6762, lng: 139.6503 },
+    landmarks: ["Tokyo Tower", "Shibuya Crossing", "Sumida River", "Rainbow Bridge"],
+    issues: [
+      {
+        id: "typhoons",
+        name: "Typhoons",
+        description: "Stronger typhoons bring destructive winds and storm surge to Tokyo Bay.",
+        severity: "severe",
+        promptHint: "violent typhoon winds, torrential rain, waves crashing over the bay front",
+      },
+      {
+        id: "urban-flooding",
+        name: "Urban Flooding",
+        description: "Guerrilla rainstorms exceed the capacity of underground drainage channels.",
+        severity: "high",
+        promptHint: "sudden downpour flooding streets and stairways into stations",
+      },
+      {
+        id: "heat-stress",
+        name: "Heat Stress",
+        description: "Hot, humid summers drive a rising number of heatstroke hospitalisations.",
+        severity: "high",
+        promptHint: "humid summer heat, commuters with parasols and cooling towels, heat warnings",
+      },
+    ],
+  },
+  {
+    id: "mumbai",
+    name: "Mumbai",
+    country: "India",
+    coordinates: { lat: 19.076, lng: 72.8777 },
+    landmarks: ["Gateway of India", "Marine Drive", "Bandra-Worli Sea Link", "Chhatrapati Shivaji Terminus"],
+    issues: [
+      {
+        id: "monsoon-flooding",
+        name: "Monsoon Flooding",
+        description: "Extreme monsoon rainfall coinciding with high tides floods low-lying neighbourhoods.",
+        severity: "severe",
+        promptHint: "waist-deep monsoon floodwater in streets, stranded buses and local trains",
+      },
+      {
+        id: "coastal-erosion",
+        name: "Coastal Erosion",
+        description: "Sea level rise and land reclamation wear away beaches and coastal settlements.",
+        severity: "high",
+        promptHint: "waves eating into the shoreline, damaged seawalls and fishing villages",
+      },
+      {
+        id: "air-pollution",
+        name: "Air Pollution",
+        description: "Construction dust and vehicle emissions produce hazardous winter smog.",
+        severity: "high",
+        promptHint: "thick brown smog hiding the skyline, low visibility",
+      },
+    ],
+  },
+]
@@ -0,0 +1,22 @@
+import { findLocation, locationCity } from "@/lib/locations"
+import { cities, type City, type ClimateIssue, type IssueSeverity } from "./data"
+
+export { cities }
+export type { City, ClimateIssue, IssueSeverity }
+
+// Curated cities first; any other gazetteer city resolves with issues inferred
+// from its climate
+export function findCity(cityId: string): City | undefined {
+  const curated = cities.find((city) => city.id === cityId)
+  if (curated) return curated
+  const location = findLocation(cityId)
+  return location && locationCity(location)
+}
+
+export function isCurated(cityId: string) {
+  return cities.some((city) => city.id === cityId)
+}
+
+export function findIssue(city: City, issueId: string) {
+  return city.issues.find((issue) => issue.id === issueId)
+}
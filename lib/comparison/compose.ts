@@ -0,0 +1,79 @@
+import sharp from "sharp"
+import { addVisibleLabel } from "@/lib/provenance/label"
+import { embedWatermark } from "@/lib/provenance/watermark"
+import { escapeXml } from "@/lib/svg"
+import { assembleGif } from "./gif"
+import type { ComparisonFormatId } from "./formats"
+
+export interface ComparisonLabels {
+  today: string
+  future: string
+  // The visible AI label, stamped on each half
+  generated: string
+}
+
+export interface ComparisonOptions {
+  // Side by side, each half's watermark is squeezed out of shape, so this
+  // payload is embedded again over the whole export. Images stored before
+  // watermarking have none.
+  mark?: string
+}
+
+// Each half of a side-by-side export, and each GIF frame, is this size
+const FRAME_WIDTH = 1024
+const GIF_WIDTH = 640
+const GIF_FRAME_DELAY_MS = 1500
+
+function label(text: string, width: number) {
+  const size = Math.round(width / 24)
+  const padding = Math.round(size * 0.5)
+  const boxWidth = Math.round(text.length * size * 0.62 + padding * 2)
+  return Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="${boxWidth + padding}" height="${size * 2 + padding}">
+<rect x="${padding}" y="${padding}" width="${boxWidth}" height="${size * 1.6}" rx="${size * 0.3}" fill="#000" fill-opacity="0.6"/>
+<text x="${padding * 2}" y="${padding + size * 1.15}" font-size="${size}" font-family="sans-serif" font-weight="700" fill="#fff">${escapeXml(text)}</text>
+</svg>`)
+}
+
+// Both images are cropped to the "today" image's shape so the halves line up
+async function labelledFrames(today: Buffer, future: Buffer, labels: ComparisonLabels, width: number) {
+  const { width: sourceWidth = 1, height: sourceHeight = 1 } = await sharp(today).metadata()
+  const height = Math.round((width * sourceHeight) / sourceWidth)
+
+  const frame = async (source: Buffer, text: string) =>
+    addVisibleLabel(
+      await sharp(source)
+        .resize(width, height, { fit: "cover" })
+        .composite([{ input: label(text, width), left: 0, top: 0 }])
+        .png()
+        .toBuffer(),
+      labels.generated,
+    )
+
+  return { width, height, frames: await Promise.all([frame(today, labels.today), frame(future, labels.future)]) }
+}
+
+export async function composeComparison(
+  today: Buffer,
+  future: Buffer,
+  format: ComparisonFormatId,
+  labels: ComparisonLabels,
+  { mark }: ComparisonOptions = {},
+): Promise<Buffer> {
+  if (format === "gif") {
+    // Each frame is a whole image, resized, so it still carries that image's
+    // own mark; another mark on top would cancel it out
+    const { frames } = await labelledFrames(today, future, labels, GIF_WIDTH)
+    const gifFrames = await Promise.all(frames.map((frame) => sharp(frame).gif().toBuffer()))
+    return assembleGif(gifFrames, GIF_FRAME_DELAY_MS)
+  }
+
+  const { width, height, frames } = await labelledFrames(today, future, labels, FRAME_WIDTH)
+  const output = await sharp({ create: { width: width * 2, height, channels: 3, background: "#000000" } })
+    .composite([
+      { input: frames[0], left: 0, top: 0 },
+      { input: frames[1], left: width, top: 0 },
+    ])
+    .png()
+    .toBuffer()
+  return mark ? embedWatermark(output, mark) : output
+}
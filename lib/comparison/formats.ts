@@ -0,0 +1,19 @@
+export type ComparisonFormatId = "side-by-side" | "gif"
+
+export interface ComparisonFormat {
+  id: ComparisonFormatId
+  name: string
+  mimeType: string
+  extension: string
+}
+
+export const comparisonFormats: ComparisonFormat[] = [
+  { id: "side-by-side", name: "Side by side", mimeType: "image/png", extension: "png" },
+  { id: "gif", name: "Animated GIF", mimeType: "image/gif", extension: "gif" },
+]
+
+export const DEFAULT_COMPARISON_FORMAT: ComparisonFormatId = "side-by-side"
+
+export function getComparisonFormat(id: string) {
+  return comparisonFormats.find((format) => format.id === id)
+}
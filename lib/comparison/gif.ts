@@ -0,0 +1,104 @@
+// sharp can quantise and encode a single GIF frame but not assemble an
+// animation from separate images, so this splices single-frame GIFs into one
+// looping animated GIF. Each frame keeps its own palette as a local colour table.
+
+interface GifFrame {
+  width: number
+  height: number
+  colorTable: Buffer
+  // Size bits from the packed field: the table holds 2^(bits + 1) entries
+  colorTableBits: number
+  imageData: Buffer
+}
+
+const TRAILER = 0x3b
+const EXTENSION = 0x21
+const IMAGE_DESCRIPTOR = 0x2c
+
+function skipSubBlocks(data: Buffer, offset: number) {
+  while (data[offset] !== 0) {
+    offset += data[offset] + 1
+  }
+  return offset + 1
+}
+
+function readFrame(data: Buffer): GifFrame {
+  if (data.toString("ascii", 0, 3) !== "GIF") {
+    throw new Error("Frame is not a GIF")
+  }
+
+  let offset = 13
+  const screenPacked = data[10]
+  let globalTable: Buffer | null = null
+  let globalBits = 0
+  if (screenPacked & 0x80) {
+    globalBits = screenPacked & 0x07
+    const length = 3 * 2 ** (globalBits + 1)
+    globalTable = data.subarray(offset, offset + length)
+    offset += length
+  }
+
+  while (offset < data.length && data[offset] !== TRAILER) {
+    if (data[offset] === EXTENSION) {
+      offset = skipSubBlocks(data, offset + 2)
+      continue
+    }
+    if (data[offset] !== IMAGE_DESCRIPTOR) {
+      throw new Error(`Unexpected GIF block 0x${data[offset].toString(16)}`)
+    }
+
+    const width = data.readUInt16LE(offset + 5)
+    const height = data.readUInt16LE(offset + 7)
+    const packed = data[offset + 9]
+    offset += 10
+
+    let colorTable = globalTable
+    let colorTableBits = globalBits
+    if (packed & 0x80) {
+      colorTableBits = packed & 0x07
+      const length = 3 * 2 ** (colorTableBits + 1)
+      colorTable = data.subarray(offset, offset + length)
+      offset += length
+    }
+    if (!colorTable) {
+      throw new Error("GIF frame has no colour table")
+    }
+
+    // LZW minimum code size followed by the compressed sub-blocks
+    const start = offset
+    offset = skipSubBlocks(data, offset + 1)
+    return { width, height, colorTable, colorTableBits, imageData: data.subarray(start, offset) }
+  }
+
+  throw new Error("GIF contains no image")
+}
+
+export function assembleGif(frames: Buffer[], delayMs: number) {
+  const parsed = frames.map(readFrame)
+  const { width, height } = parsed[0]
+
+  const header = Buffer.alloc(13)
+  header.write("GIF89a", 0, "ascii")
+  header.writeUInt16LE(width, 6)
+  header.writeUInt16LE(height, 8)
+
+  // NETSCAPE2.0 application extension with a loop count of 0 (forever)
+  const loop = Buffer.concat([
+    Buffer.from([EXTENSION, 0xff, 0x0b]),
+    Buffer.from("NETSCAPE2.0", "ascii"),
+    Buffer.from([0x03, 0x01, 0x00, 0x00, 0x00]),
+  ])
+
+  const delay = Math.round(delayMs / 10)
+  const blocks = parsed.flatMap((frame) => {
+    const control = Buffer.from([EXTENSION, 0xf9, 0x04, 0x04, delay & 0xff, delay >> 8, 0x00, 0x00])
+    const descriptor = Buffer.alloc(10)
+    descriptor[0] = IMAGE_DESCRIPTOR
+    descriptor.writeUInt16LE(frame.width, 5)
+    descriptor.writeUInt16LE(frame.height, 7)
+    descriptor[9] = 0x80 | frame.colorTableBits
+    return [control, descriptor, frame.colorTable, frame.imageData]
+  })
+
+  return Buffer.concat([header, loop, ...blocks, Buffer.from([TRAILER])])
+}
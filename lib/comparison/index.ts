@@ -0,0 +1,2 @@
+export { composeComparison, type ComparisonLabels, type ComparisonOptions } from "./compose"
+export * from "./formats"
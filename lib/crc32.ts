@@ -0,0 +1,17 @@
+// CRC-32 as used by ZIP and PNG. zlib only exports crc32 from Node 20.15, so
+// it is computed here instead.
+const TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+export function crc32(data: Uint8Array) {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
@@ -0,0 +1,45 @@
+import sharp from "sharp"
+import { addVisibleLabel } from "@/lib/provenance/label"
+import { embedWatermark } from "@/lib/provenance/watermark"
+import type { StoredImage } from "@/lib/store/images"
+import type { ExportFormat } from "./formats"
+import { exifTags, xmpPacket } from "./metadata"
+import { embedXmp } from "./xmp"
+
+export interface ExportOptions {
+  format: ExportFormat
+  // Give one to scale in proportion, or both to crop to that shape
+  width?: number
+  height?: number
+  // 1-100, for lossy formats
+  quality: number
+  // Text of the visible AI label; unlabelled when absent
+  label?: string
+  // The stored image's watermark payload. Resizing or cropping loses the
+  // original mark, so it is embedded again; images stored before watermarking have none.
+  mark?: string
+}
+
+export async function exportImage(
+  source: Buffer,
+  image: StoredImage,
+  { format, width, height, quality, label, mark }: ExportOptions,
+) {
+  let pipeline = sharp(source)
+  if (width || height) {
+    pipeline = pipeline.resize(width, height, { fit: "cover", position: sharp.strategy.attention })
+  }
+  if (label) {
+    pipeline = sharp(await addVisibleLabel(await pipeline.png().toBuffer(), label))
+  }
+  // An untouched export keeps the stored mark as it is
+  if (mark && (width || height || label)) {
+    pipeline = sharp(await embedWatermark(await pipeline.png().toBuffer(), mark))
+  }
+
+  const output = await pipeline
+    .toFormat(format.id, format.lossy ? { quality } : {})
+    .withExif(exifTags(image))
+    .toBuffer()
+  return embedXmp(output, format.id, xmpPacket(image))
+}
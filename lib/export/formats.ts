@@ -0,0 +1,29 @@
+export type ExportFormatId = "png" | "jpeg" | "webp" | "avif"
+
+export interface ExportFormat {
+  id: ExportFormatId
+  name: string
+  mimeType: string
+  extension: string
+  // Lossy formats take a quality setting
+  lossy: boolean
+}
+
+export const exportFormats: ExportFormat[] = [
+  { id: "png", name: "PNG", mimeType: "image/png", extension: "png", lossy: false },
+  { id: "jpeg", name: "JPEG", mimeType: "image/jpeg", extension: "jpg", lossy: true },
+  { id: "webp", name: "WebP", mimeType: "image/webp", extension: "webp", lossy: true },
+  { id: "avif", name: "AVIF", mimeType: "image/avif", extension: "avif", lossy: true },
+]
+
+// Widths offered in the Save menu; "original" keeps the stored size
+export const exportSizes = ["original", 2048, 1024, 512] as const
+
+export const DEFAULT_EXPORT_FORMAT: ExportFormatId = "png"
+export const DEFAULT_EXPORT_QUALITY = 85
+export const MIN_EXPORT_DIMENSION = 16
+export const MAX_EXPORT_DIMENSION = 4096
+
+export function getExportFormat(id: string) {
+  return exportFormats.find((format) => format.id === id)
+}
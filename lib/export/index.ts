@@ -0,0 +1,3 @@
+export { exportImage, type ExportOptions } from "./export"
+export * from "./formats"
+export { exportFilename } from "./metadata"
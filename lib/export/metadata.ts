@@ -0,0 +1,75 @@
+import type { Exif } from "sharp"
+import { slugify } from "@/lib/locations/gazetteer"
+import { DIGITAL_SOURCE_TYPE, GENERATOR } from "@/lib/provenance/manifest"
+import { escapeXml } from "@/lib/svg"
+import type { StoredImage } from "@/lib/store/images"
+import type { ExportFormat } from "./formats"
+
+// mumbai-monsoon-flooding-dalle-2026-10-19.webp
+export function exportFilename(image: StoredImage, format: ExportFormat) {
+  const name = [image.cityId, image.issueId, image.providerId].map(slugify).join("-")
+  return `${name}-${image.createdAt.slice(0, 10)}.${format.extension}`
+}
+
+function title(image: StoredImage) {
+  return `${image.issueName} in ${image.cityName}`
+}
+
+// EXIF strings are ASCII: accents are dropped and anything else left out
+function ascii(text: string) {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7e]/g, "")
+}
+
+// 2026:10:19 08:30:00
+function exifDate(iso: string) {
+  return iso.slice(0, 19).replace("T", " ").replace(/-/g, ":")
+}
+
+export function exifTags(image: StoredImage): Exif {
+  const date = exifDate(image.createdAt)
+  return {
+    IFD0: {
+      ImageDescription: ascii(title(image)),
+      Software: ascii(`${GENERATOR} (${image.providerName} ${image.model})`),
+      DateTime: date,
+    },
+    IFD2: {
+      DateTimeOriginal: date,
+      UserComment: ascii(image.prompt),
+    },
+  }
+}
+
+// Standard Dublin Core, XMP, Photoshop and IPTC properties only, so common
+// photo tools show them without a custom schema
+export function xmpPacket(image: StoredImage) {
+  const alt = (value: string) => `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt>`
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about=""',
+    ' xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    ' xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    ' xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/"',
+    ' xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"',
+    ` xmp:CreateDate="${image.createdAt}"`,
+    ` xmp:CreatorTool="${GENERATOR}"`,
+    ` photoshop:City="${escapeXml(image.cityName)}"`,
+    ` photoshop:Headline="${escapeXml(image.issueName)}"`,
+    ` Iptc4xmpExt:DigitalSourceType="${DIGITAL_SOURCE_TYPE}"`,
+    ` Iptc4xmpExt:AISystemUsed="${escapeXml(image.providerName)}"`,
+    ` Iptc4xmpExt:AISystemVersionUsed="${escapeXml(image.model)}">`,
+    `<dc:title>${alt(title(image))}</dc:title>`,
+    `<dc:description>${alt(image.prompt)}</dc:description>`,
+    `<dc:subject><rdf:Bag><rdf:li>${escapeXml(image.cityName)}</rdf:li><rdf:li>${escapeXml(image.issueName)}</rdf:li></rdf:Bag></dc:subject>`,
+    `<Iptc4xmpExt:AIPromptInformation>${escapeXml(image.prompt)}</Iptc4xmpExt:AIPromptInformation>`,
+    "</rdf:Description>",
+    "</rdf:RDF>",
+    "</x:xmpmeta>",
+    '<?xpacket end="w"?>',
+  ].join("\n")
+}
@@ -0,0 +1,88 @@
+import { crc32 } from "@/lib/crc32"
+import type { ExportFormatId } from "./formats"
+
+// sharp can write EXIF but not XMP, so the packet is spliced into the encoded
+// file here. AVIF keeps its metadata in ISOBMFF item boxes, which would need
+// rewriting throughout, so it only gets the EXIF.
+
+const PNG_SIGNATURE_LENGTH = 8
+const PNG_XMP_KEYWORD = "XML:com.adobe.xmp"
+
+const JPEG_APP0 = 0xe0
+const JPEG_APP15 = 0xef
+const JPEG_APP1 = 0xe1
+const JPEG_XMP_NAMESPACE = "http://ns.adobe.com/xap/1.0/\0"
+const JPEG_MAX_SEGMENT = 0xffff
+
+const WEBP_HEADER_LENGTH = 12
+const WEBP_XMP_FLAG = 0x04
+
+function pngChunk(type: string, data: Buffer) {
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  const body = Buffer.concat([Buffer.from(type, "latin1"), data])
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(body))
+  return Buffer.concat([length, body, crc])
+}
+
+// An uncompressed iTXt chunk straight after IHDR, which must come first
+function embedPng(data: Buffer, packet: string) {
+  const ihdrEnd = PNG_SIGNATURE_LENGTH + 12 + data.readUInt32BE(PNG_SIGNATURE_LENGTH)
+  const text = Buffer.concat([
+    // Keyword, no compression, then empty language and translated keyword
+    Buffer.from(`${PNG_XMP_KEYWORD}\0\0\0\0\0`, "latin1"),
+    Buffer.from(packet, "utf8"),
+  ])
+  return Buffer.concat([data.subarray(0, ihdrEnd), pngChunk("iTXt", text), data.subarray(ihdrEnd)])
+}
+
+// An APP1 segment after the JFIF and EXIF ones at the start of the file
+function embedJpeg(data: Buffer, packet: string) {
+  const payload = Buffer.concat([Buffer.from(JPEG_XMP_NAMESPACE, "latin1"), Buffer.from(packet, "utf8")])
+  if (payload.length + 2 > JPEG_MAX_SEGMENT) {
+    throw new Error("XMP packet is too large for a JPEG segment")
+  }
+
+  let offset = 2
+  while (data[offset] === 0xff && data[offset + 1] >= JPEG_APP0 && data[offset + 1] <= JPEG_APP15) {
+    offset += 2 + data.readUInt16BE(offset + 2)
+  }
+
+  const header = Buffer.from([0xff, JPEG_APP1, 0, 0])
+  header.writeUInt16BE(payload.length + 2, 2)
+  return Buffer.concat([data.subarray(0, offset), header, payload, data.subarray(offset)])
+}
+
+// An "XMP " chunk at the end, flagged in the VP8X header. Writing EXIF always
+// makes sharp use the extended format, so VP8X is already there.
+function embedWebp(data: Buffer, packet: string) {
+  if (data.toString("latin1", WEBP_HEADER_LENGTH, WEBP_HEADER_LENGTH + 4) !== "VP8X") {
+    throw new Error("WebP output is not in the extended format")
+  }
+
+  const xmp = Buffer.from(packet, "utf8")
+  const chunkHeader = Buffer.alloc(8)
+  chunkHeader.write("XMP ", 0, "latin1")
+  chunkHeader.writeUInt32LE(xmp.length, 4)
+  // Chunks are padded to an even length
+  const padding = Buffer.alloc(xmp.length % 2)
+
+  const output = Buffer.concat([data, chunkHeader, xmp, padding])
+  output[WEBP_HEADER_LENGTH + 8] |= WEBP_XMP_FLAG
+  output.writeUInt32LE(output.length - 8, 4)
+  return output
+}
+
+export function embedXmp(data: Buffer, format: ExportFormatId, packet: string) {
+  switch (format) {
+    case "png":
+      return embedPng(data, packet)
+    case "jpeg":
+      return embedJpeg(data, packet)
+    case "webp":
+      return embedWebp(data, packet)
+    case "avif":
+      return data
+  }
+}
@@ -0,0 +1,91 @@
+import { findCity, findIssue } from "@/lib/catalog"
+import { createTranslator, getMessages } from "@/lib/i18n"
+import { csvFactLoader, FactDataError, jsonFactLoader, loadSources } from "./loaders"
+import { factStatement } from "./statement"
+import type { ClimateFact, FactLoader, FactSource, IndicatorId, RawFact } from "./types"
+
+export { csvFactLoader, FactDataError, factStatement, jsonFactLoader }
+export type { ClimateFact, FactLoader, FactSource, IndicatorId }
+
+// Bundled datasets under data/facts; every row must cite an entry in sources.json
+const loaders: FactLoader[] = [
+  csvFactLoader("indicators.csv"),
+  jsonFactLoader("flood-frequency.json", "flood-frequency"),
+]
+
+// Issues each indicator speaks to, most direct first. Facts are ranked for an
+// issue by its position here.
+const INDICATOR_ISSUES: Record<IndicatorId, string[]> = {
+  "sea-level-projection": ["sea-level-rise", "coastal-erosion", "flooding", "typhoons"],
+  "heat-days": ["heat-waves", "heat-stress", "urban-heat-island"],
+  "aqi-average": ["air-pollution", "air-quality"],
+  "flood-frequency": ["flooding", "urban-flooding", "typhoons", "monsoon-flooding", "sea-level-rise"],
+}
+
+export function citationFor(source: FactSource) {
+  return `${source.publisher} (${source.published}). ${source.name}.`
+}
+
+function toFact(raw: RawFact, sources: Record<string, FactSource>): ClimateFact {
+  const city = findCity(raw.cityId)
+  if (!city) {
+    throw new FactDataError(`Fact for unknown city "${raw.cityId}"`)
+  }
+  const source = sources[raw.sourceId]
+  if (!source) {
+    throw new FactDataError(`Fact ${raw.cityId}/${raw.indicator} cites unknown source "${raw.sourceId}"`)
+  }
+
+  const { sourceId, ...fact } = raw
+  return {
+    id: `${raw.cityId}-${raw.indicator}`,
+    ...fact,
+    issueIds: INDICATOR_ISSUES[raw.indicator].filter((issueId) => findIssue(city, issueId)),
+    statement: factStatement(createTranslator(getMessages("en")), city, raw),
+    citation: citationFor(source),
+    source,
+  }
+}
+
+async function buildFacts() {
+  const [sources, ...datasets] = await Promise.all([loadSources(), ...loaders.map((loader) => loader.load())])
+  const facts = datasets.flat().map((raw) => toFact(raw, sources))
+
+  const seen = new Set<string>()
+  for (const fact of facts) {
+    if (seen.has(fact.id)) {
+      throw new FactDataError(`Duplicate fact "${fact.id}"`)
+    }
+    seen.add(fact.id)
+  }
+  return facts
+}
+
+// The datasets are static, so they are parsed once per process. A failed load
+// is not cached so a fixed file is picked up on the next request.
+let loaded: Promise<ClimateFact[]> | undefined
+
+export function loadFacts() {
+  if (!loaded) {
+    loaded = buildFacts().catch((error) => {
+      loaded = undefined
+      throw error
+    })
+  }
+  return loaded
+}
+
+// Facts for a city; with an issue, only the facts relevant to it, best first
+export async function getFacts(cityId: string, issueId?: string) {
+  const facts = (await loadFacts()).filter((fact) => fact.cityId === cityId)
+  if (!issueId) {
+    return facts
+  }
+
+  const rank = (fact: ClimateFact) => INDICATOR_ISSUES[fact.indicator].indexOf(issueId)
+  return facts.filter((fact) => fact.issueIds.includes(issueId)).sort((a, b) => rank(a) - rank(b))
+}
+
+export async function findFact(factId: string) {
+  return (await loadFacts()).find((fact) => fact.id === factId)
+}
@@ -0,0 +1,87 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { parseCsv } from "./csv"
+import type { FactLoader, FactSource, IndicatorId, RawFact } from "./types"
+
+export class FactDataError extends Error {}
+
+export const INDICATORS: IndicatorId[] = ["sea-level-projection", "heat-days", "aqi-average", "flood-frequency"]
+
+function datasetPath(file: string) {
+  return path.join(process.cwd(), "data", "facts", file)
+}
+
+function isIndicator(value: unknown): value is IndicatorId {
+  return INDICATORS.includes(value as IndicatorId)
+}
+
+function checkFact(fact: RawFact, where: string): RawFact {
+  if (!fact.cityId || !fact.sourceId || !fact.unit || !fact.period) {
+    throw new FactDataError(`${where}: city, unit, period and source are required`)
+  }
+  if (!Number.isFinite(fact.value)) {
+    throw new FactDataError(`${where}: value must be a number`)
+  }
+  if (!isIndicator(fact.indicator)) {
+    throw new FactDataError(`${where}: unknown indicator "${fact.indicator}"`)
+  }
+  return fact
+}
+
+export async function loadSources(file = "sources.json"): Promise<Record<string, FactSource>> {
+  const sources = JSON.parse(await fs.readFile(datasetPath(file), "utf8")) as Record<string, Omit<FactSource, "id">>
+  return Object.fromEntries(Object.entries(sources).map(([id, source]) => [id, { id, ...source }]))
+}
+
+// One row per city and indicator:
+// city,indicator,value,unit,period,qualifier,source
+export function csvFactLoader(file: string): FactLoader {
+  return {
+    id: file,
+    async load() {
+      const records = parseCsv(await fs.readFile(datasetPath(file), "utf8"))
+      return records.map((record, index) =>
+        checkFact(
+          {
+            cityId: record.city,
+            indicator: record.indicator as IndicatorId,
+            value: record.value ? Number(record.value) : NaN,
+            unit: record.unit,
+            period: record.period,
+            qualifier: record.qualifier || undefined,
+            sourceId: record.source,
+          },
+          `${file} row ${index + 2}`,
+        ),
+      )
+    },
+  }
+}
+
+interface JsonFactRecord {
+  city: string
+  value: number
+  unit: string
+  period: string
+  qualifier?: string
+  measure?: string
+  note?: string
+  source: string
+}
+
+// An array of records for a single indicator, for datasets that carry more
+// than the CSV columns (what was counted, notes)
+export function jsonFactLoader(file: string, indicator: IndicatorId): FactLoader {
+  return {
+    id: file,
+    async load() {
+      const records = JSON.parse(await fs.readFile(datasetPath(file), "utf8")) as JsonFactRecord[]
+      if (!Array.isArray(records)) {
+        throw new FactDataError(`${file}: expected an array of records`)
+      }
+      return records.map(({ city, source, ...record }, index) =>
+        checkFact({ ...record, cityId: city, indicator, sourceId: source }, `${file} record ${index}`),
+      )
+    },
+  }
+}
@@ -0,0 +1,18 @@
+import type { City } from "@/lib/catalog/data"
+import type { MessageKey, Translator } from "@/lib/i18n"
+import type { ClimateFact } from "./types"
+
+type StatementFact = Pick<ClimateFact, "indicator" | "value" | "unit" | "period" | "qualifier" | "measure">
+
+// Renders a fact as one sentence in the translator's locale. The server uses
+// the English translator for the statement that goes into prompts.
+export function factStatement(t: Translator, city: Pick<City, "id" | "name">, fact: StatementFact) {
+  return t(`facts.statements.${fact.indicator}`, {
+    city: t.city(city),
+    value: fact.value,
+    unit: fact.unit,
+    period: fact.period,
+    qualifier: fact.qualifier ?? "",
+    measure: fact.measure ? t(`facts.measures.${fact.measure}` as MessageKey) : fact.unit,
+  })
+}
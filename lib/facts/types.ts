@@ -0,0 +1,40 @@
+export type IndicatorId = "sea-level-projection" | "heat-days" | "aqi-average" | "flood-frequency"
+
+export interface FactSource {
+  id: string
+  name: string
+  publisher: string
+  url: string
+  published: number
+}
+
+export interface ClimateFact {
+  // Stable "<city>-<indicator>" id, accepted by /api/generate as `fact`
+  id: string
+  cityId: string
+  indicator: IndicatorId
+  // Catalog issues of the city this fact supports, most relevant first
+  issueIds: string[]
+  value: number
+  unit: string
+  // Projection horizon or observation period, e.g. "2100" or "1991–2020"
+  period: string
+  // Scenario or threshold the value depends on, e.g. "SSP2-4.5" or "30°C"
+  qualifier?: string
+  // What a flood-frequency value counts, e.g. "barrier-closures"
+  measure?: string
+  note?: string
+  // English sentence used in prompts; the UI renders a localized one
+  statement: string
+  citation: string
+  source: FactSource
+}
+
+export type RawFact = Omit<ClimateFact, "id" | "issueIds" | "statement" | "citation" | "source"> & { sourceId: string }
+
+// A bundled dataset. Loaders only parse their file; ids, issues, statements
+// and citations are filled in the same way for every dataset.
+export interface FactLoader {
+  id: string
+  load(): Promise<RawFact[]>
+}
@@ -0,0 +1,315 @@
+import { contentKey, createContentCache, type ContentCache } from "@/lib/cache"
+import type { City, ClimateIssue } from "@/lib/catalog"
+import { completeProvider, createJob } from "@/lib/jobs"
+import { logger, span } from "@/lib/logger"
+import { recordCacheHit, recordRun } from "@/lib/metrics"
+import type { ComparisonPrompts, ResolvedPrompt } from "@/lib/prompts"
+import { buildManifest, createMark, embedWatermark, signManifest, WATERMARKED_MIME_TYPE } from "@/lib/provenance"
+import {
+  fallbackSelections,
+  runProvider,
+  runProviderCall,
+  shouldFallBack,
+  type ComparisonPhase,
+  type GeneratedImage,
+  type GenerationRequest,
+  type ImageErrorCode,
+  type ImageProvider,
+  type ProviderImage,
+  type ProviderRun,
+  type ProviderSelection,
+} from "@/lib/providers"
+import { imageUrl, saveImage, saveProvenance, type ImageOperation, type StoredImage } from "@/lib/store/images"
+
+export interface GenerationContext {
+  city: Pick<City, "id" | "name">
+  issue: Pick<ClimateIssue, "id" | "name">
+  resolved: ResolvedPrompt
+  // Present when deriving from another stored image
+  parent?: { id: string; operation: ImageOperation }
+  phase?: ComparisonPhase
+  // The caller the images are stored for, who may later delete them
+  owner?: string
+}
+
+export interface GenerationOptions {
+  // Skip cached results and always call the providers
+  bypassCache?: boolean
+}
+
+export async function storeRun(
+  { provider, images, durationMs, errorCode }: ProviderRun,
+  { city, issue, resolved, parent, phase, owner }: GenerationContext,
+): Promise<GeneratedImage[]> {
+  if (images.length === 0) {
+    return [failedImage(provider, errorCode ?? "unknown", durationMs)]
+  }
+
+  return Promise.all(
+    images.map(async (image) => {
+      // Every stored image carries an invisible watermark and a signed
+      // provenance manifest, so it can later be recognised as generated here
+      const stored = await span(
+        "encoding",
+        async () => {
+          const mark = createMark()
+          const data = await embedWatermark(Buffer.from(image.b64, "base64"), mark)
+          const saved = await saveImage(
+            {
+              cityId: city.id,
+              cityName: city.name,
+              issueId: issue.id,
+              issueName: issue.name,
+              providerId: provider.id,
+              providerName: provider.name,
+              model: image.model,
+              size: image.size,
+              seed: image.seed,
+              prompt: resolved.prompt,
+              templateId: resolved.templateId,
+              templateVersion: resolved.templateVersion,
+              mimeType: WATERMARKED_MIME_TYPE,
+              parentId: parent?.id,
+              operation: parent?.operation,
+              phase,
+              owner,
+            },
+            data,
+          )
+          await saveProvenance(saved.id, await signManifest(buildManifest(saved, data, mark)))
+          return saved
+        },
+        { provider: provider.id, mimeType: image.mimeType },
+      )
+      return {
+        id: stored.id,
+        url: imageUrl(stored.id),
+        provider: provider.name,
+        providerId: provider.id,
+        durationMs,
+        ...(phase && { phase }),
+      }
+    }),
+  )
+}
+
+const DEFAULT_CACHE_TTL_SECONDS = 24 * 60 * 60
+
+const globalForCache = globalThis as unknown as { generationCache?: ContentCache<GeneratedImage[]> }
+const cache = (globalForCache.generationCache ??= createContentCache<GeneratedImage[]>(() => {
+  const seconds = Number(process.env.CACHE_TTL_SECONDS ?? DEFAULT_CACHE_TTL_SECONDS)
+  return (Number.isFinite(seconds) ? seconds : DEFAULT_CACHE_TTL_SECONDS) * 1000
+}))
+
+// Each owner gets their own entries: a hit hands back stored images, which only
+// their owner may delete, and callers are charged quota for what they receive
+export function generationCacheKey(
+  provider: ImageProvider,
+  { prompt, ...params }: GenerationRequest,
+  owner: string | null = null,
+) {
+  return contentKey([
+    owner,
+    provider.id,
+    params.model,
+    params.size,
+    params.count,
+    params.quality ?? null,
+    params.style ?? null,
+    params.negativePrompt ?? null,
+    params.seed ?? null,
+    prompt,
+  ])
+}
+
+// Cached results are shared between an owner's requests, so a deleted image has to leave
+// the cache too or identical requests would keep returning its id
+export function evictCachedImage(imageId: string) {
+  return cache.evict((images) => images.some((image) => image.id === imageId))
+}
+
+// Clients show their own message for the code; the provider's wording stays
+// in the logs and metrics
+function failedImage(provider: ImageProvider, error: ImageErrorCode, durationMs = 0): GeneratedImage {
+  return { provider: provider.name, providerId: provider.id, durationMs, error }
+}
+
+// For images that couldn't be saved; the "encoding" span has logged why
+function storageFailed(provider: ImageProvider) {
+  return [failedImage(provider, "storage_failed")]
+}
+
+export async function generateCached(
+  { provider, params }: ProviderSelection,
+  context: GenerationContext,
+  { bypassCache = false }: GenerationOptions,
+): Promise<GeneratedImage[]> {
+  const request = { ...params, prompt: context.resolved.prompt }
+  const details = {
+    operation: context.phase ? "comparison" : "generate",
+    model: params.model,
+    size: params.size,
+    quality: params.quality,
+    requested: params.count,
+  } as const
+  const { value, fromCache } = await cache.run(
+    generationCacheKey(provider, request, context.owner),
+    () =>
+      runProvider(provider, request).then((run) => {
+        recordRun(run, details)
+        return storeRun(run, context)
+      }),
+    { bypass: bypassCache, shouldCache: (images) => images.every((image) => !image.error) },
+  )
+
+  if (!fromCache) return value
+  // Failures are only ever shared with coalesced callers and were recorded by the run itself
+  if (value.some((image) => !image.error)) {
+    recordCacheHit(provider, { ...details, produced: value.length })
+  }
+  // A failed run shared with a coalesced caller is reported as its own failure
+  return value.map((image) => (image.error ? image : { ...image, cached: true, durationMs: 0 }))
+}
+
+// Runs one provider's attempt, e.g. inside that provider's concurrency limit
+export type AttemptRunner = (providerId: string, attempt: () => Promise<GeneratedImage[]>) => Promise<GeneratedImage[]>
+
+// Like generateCached, but when the provider fails in a way another one might
+// not, the PROVIDER_FALLBACK providers are tried in turn. Their images say
+// which provider they stand in for; the original failure is returned if none
+// of them succeeds either.
+export async function generateWithFallback(
+  selection: ProviderSelection,
+  context: GenerationContext,
+  options: GenerationOptions,
+  exclude: string[] = [],
+  runAttempt: AttemptRunner = (_providerId, attempt) => attempt(),
+): Promise<GeneratedImage[]> {
+  const attempt = (next: ProviderSelection) =>
+    runAttempt(next.provider.id, () => generateCached(next, context, options))
+
+  const images = await attempt(selection)
+  if (images.some((image) => !image.error) || !shouldFallBack(images[0]?.error)) return images
+
+  for (const fallback of fallbackSelections(selection, exclude)) {
+    const replacement = await attempt(fallback)
+    if (replacement.some((image) => !image.error)) {
+      logger.info("provider fell back", { provider: selection.provider.id, fallback: fallback.provider.id })
+      return replacement.map((image) => ({ ...image, fallbackFrom: selection.provider.id }))
+    }
+  }
+  return images
+}
+
+// Creates a job and runs every provider in the background, recording each
+// result on the job as soon as that provider finishes.
+export function startGenerationJob(
+  context: GenerationContext,
+  selections: ProviderSelection[],
+  options: GenerationOptions = {},
+) {
+  const job = createJob({
+    mode: "single",
+    cityId: context.city.id,
+    issueId: context.issue.id,
+    prompt: context.resolved.prompt,
+    template: { id: context.resolved.templateId, version: context.resolved.templateVersion },
+    providers: selections.map(({ provider }) => provider),
+  })
+
+  const providerIds = selections.map(({ provider }) => provider.id)
+  for (const selection of selections) {
+    const { provider } = selection
+    generateWithFallback(selection, context, options, providerIds)
+      .catch(() => storageFailed(provider))
+      .then((images) => completeProvider(job.id, provider.id, images))
+  }
+
+  return job
+}
+
+const PHASES: ComparisonPhase[] = ["today", "future"]
+
+// Both halves of a pair share a seed so providers that honour one draw the
+// same composition twice. It is derived from the prompts rather than random so
+// identical comparison requests still hit the cache.
+function linkedParams({ provider, params }: ProviderSelection, prompts: ComparisonPrompts) {
+  if (!provider.capabilities.supportsSeed || params.seed !== undefined) return params
+  const seed = parseInt(contentKey([prompts.today.prompt, prompts.future.prompt]).slice(0, 8), 16)
+  return { ...params, seed }
+}
+
+// Like startGenerationJob, but every provider renders the linked "today" and
+// "future" prompts; its images come back tagged with their phase, today first.
+export function startComparisonJob(
+  context: Omit<GenerationContext, "resolved">,
+  prompts: ComparisonPrompts,
+  selections: ProviderSelection[],
+  options: GenerationOptions = {},
+) {
+  const job = createJob({
+    mode: "comparison",
+    cityId: context.city.id,
+    issueId: context.issue.id,
+    prompt: prompts.future.prompt,
+    prompts: { today: prompts.today.prompt, future: prompts.future.prompt },
+    template: { id: prompts.future.templateId, version: prompts.future.templateVersion },
+    providers: selections.map(({ provider }) => provider),
+  })
+
+  const providerIds = selections.map(({ provider }) => provider.id)
+  for (const selection of selections) {
+    const { provider } = selection
+    const linked = { provider, params: linkedParams(selection, prompts) }
+    Promise.all(
+      PHASES.map((phase) =>
+        generateWithFallback(linked, { ...context, resolved: prompts[phase], phase }, options, providerIds).then((images) =>
+          images.map((image) => ({ ...image, phase })),
+        ),
+      ),
+    )
+      .then((pairs) => pairs.flat())
+      .catch(() => storageFailed(provider))
+      .then((images) => completeProvider(job.id, provider.id, images))
+  }
+
+  return job
+}
+
+// Runs a variation or edit of a stored image as a single-provider job. Results
+// are never cached: asking again is how users get a different take.
+export function startDerivedJob(
+  source: StoredImage,
+  provider: ImageProvider,
+  operation: ImageOperation,
+  prompt: string,
+  count: number,
+  owner: string,
+  call: () => Promise<ProviderImage[]>,
+) {
+  const context: GenerationContext = {
+    city: { id: source.cityId, name: source.cityName },
+    issue: { id: source.issueId, name: source.issueName },
+    resolved: { prompt, templateId: source.templateId, templateVersion: source.templateVersion },
+    parent: { id: source.id, operation },
+    owner,
+  }
+  const job = createJob({
+    mode: "single",
+    cityId: source.cityId,
+    issueId: source.issueId,
+    prompt,
+    template: { id: source.templateId, version: source.templateVersion },
+    providers: [provider],
+  })
+
+  runProviderCall(provider, call)
+    .then((run) => {
+      recordRun(run, { operation, requested: count })
+      return storeRun(run, context)
+    })
+    .catch(() => storageFailed(provider))
+    .then((images) => completeProvider(job.id, provider.id, images))
+
+  return job
+}
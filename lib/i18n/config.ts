@@ -0,0 +1,20 @@
+export const locales = ["en", "hi", "ja", "es"] as const
+
+export type Locale = (typeof locales)[number]
+
+export const DEFAULT_LOCALE: Locale = "en"
+
+// Set by the locale switcher; takes precedence over Accept-Language
+export const LOCALE_COOKIE = "locale"
+
+// Each language names itself in the switcher
+export const localeNames: Record<Locale, string> = {
+  en: "English",
+  hi: "हिन्दी",
+  ja: "日本語",
+  es: "Español",
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && (locales as readonly string[]).includes(value)
+}
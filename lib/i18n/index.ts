@@ -0,0 +1,55 @@
+import type { City, ClimateIssue } from "@/lib/catalog/data"
+import { DEFAULT_LOCALE, type Locale } from "./config"
+import en, { type Messages } from "./messages/en"
+import es from "./messages/es"
+import hi from "./messages/hi"
+import ja from "./messages/ja"
+
+export * from "./config"
+export { localeFromRequest, negotiateLocale } from "./negotiate"
+export type { Messages }
+
+const catalogs: Record<Locale, Messages> = { en, hi, ja, es }
+
+// Dotted paths to every string in the catalog, e.g. "home.generate". The
+// per-id catalog records are looked up with the helpers below instead.
+type Paths<T> = {
+  [K in keyof T & string]: T[K] extends string ? K : `${K}.${Paths<T[K]>}`
+}[keyof T & string]
+
+export type MessageKey = Paths<Omit<Messages, "catalog">>
+
+export type MessageValues = Record<string, string | number>
+
+export type Translator = ReturnType<typeof createTranslator>
+
+export function getMessages(locale: Locale) {
+  return catalogs[locale] || catalogs[DEFAULT_LOCALE]
+}
+
+function lookup(messages: Messages, key: string) {
+  const value = key.split(".").reduce<unknown>((node, part) => (node as Record<string, unknown>)?.[part], messages)
+  return typeof value === "string" ? value : undefined
+}
+
+export function format(template: string, values: MessageValues = {}) {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? String(values[name]) : match))
+}
+
+// Display names come from the catalog in the chosen locale; prompts keep
+// using the English names stored in lib/catalog so provider input is stable.
+export function createTranslator(messages: Messages) {
+  const t = (key: MessageKey, values?: MessageValues) => format(lookup(messages, key) ?? lookup(en, key) ?? key, values)
+
+  return Object.assign(t, {
+    city: (city: Pick<City, "id" | "name">) => messages.catalog.cities[city.id]?.name ?? city.name,
+    country: (city: Pick<City, "id" | "country">) => messages.catalog.cities[city.id]?.country ?? city.country,
+    issue: (issue: Pick<ClimateIssue, "id" | "name">) => messages.catalog.issues[issue.id] ?? issue.name,
+    issueDescription: (cityId: string, issue: Pick<ClimateIssue, "id" | "description">) =>
+      messages.catalog.descriptions[`${cityId}/${issue.id}`] ??
+      // Cities outside the curated list (which the catalog names) share one
+      // description per issue
+      (cityId in en.catalog.cities ? undefined : messages.catalog.generic[issue.id]) ??
+      issue.description,
+  })
+}
@@ -0,0 +1,373 @@
+// Source catalog: every other locale must provide the same keys. Values may
+// contain {placeholders} filled in by the translator.
+const en = {
+  common: {
+    error: "Error",
+    success: "Success",
+    warning: "Warning",
+    cached: "cached",
+    language: "Language",
+  },
+  home: {
+    browseGallery: "Browse the gallery",
+    selectIssue: "Select climate issue",
+    landmark: "Landmark (optional)",
+    season: "Season (optional)",
+    audience: "Audience (optional)",
+    compare: "Compare today with 2050",
+    selectStyle: "Select a style",
+    alwaysFresh: "Always generate fresh images",
+    generate: "Generate Awareness Images",
+    generating: "Generating...",
+    quota: "{remaining} of {limit} images left today",
+    imageAlt: "Climate awareness image by {provider}",
+    save: "Save",
+    moreLikeThis: "More like this",
+    editRegion: "Edit a region",
+    makePoster: "Make poster",
+    batch: "Run a batch campaign",
+    fallbackFor: "instead of {provider}",
+    delete: "Delete",
+  },
+  toast: {
+    catalogFailed: "Could not load the list of cities.",
+    generated: "Generated {count} image(s) successfully.",
+    noImages: "Could not generate any images. Please try again.",
+    generateFailed: "Failed to generate images",
+    lostJob: "Lost track of the generation job",
+    invalidResponse: "Invalid response from server",
+    cannotShare: "Cannot Share",
+    notStored: "This image was not saved.",
+    downloaded: "Image downloaded successfully.",
+    downloadFailed: "Failed to download image.",
+    posterFailed: "Failed to create poster.",
+    galleryFailed: "Could not load the gallery.",
+    batchFailed: "Could not start the batch.",
+    batchCompleted: "Batch finished: {succeeded} succeeded, {failed} failed.",
+  },
+  share: {
+    text: "Check out this climate change awareness image about {issue} in {city}!",
+    withFact: "{text} {fact} (Source: {source})",
+    title: "Share",
+    subject: "{issue} in {city}: a climate change illustration",
+    saved: "Image saved",
+    captionCopied: "Caption copied. Paste it in when you post the image.",
+    failed: "Couldn't share the image. Please try again.",
+    targets: {
+      device: "More apps",
+      x: "X",
+      facebook: "Facebook",
+      linkedin: "LinkedIn",
+      whatsapp: "WhatsApp",
+      email: "Email",
+      instagram: "Instagram post",
+      "instagram-story": "Instagram story",
+    },
+  },
+  templates: {
+    realistic: "Realistic",
+    poster: "Poster",
+    infographic: "Infographic illustration",
+    "before-after": "Before / after",
+    photojournalism: "Photojournalism",
+  },
+  advanced: {
+    title: "Advanced",
+    model: "Model",
+    size: "Size",
+    aspectRatio: "Aspect ratio",
+    quality: "Quality",
+    style: "Style",
+    defaultChoice: "{label}: default",
+    count: "Images per provider",
+    negativePrompt: "Negative prompt (optional)",
+    seed: "Seed (optional)",
+  },
+  poster: {
+    layout: "Layout",
+    aspectRatio: "Aspect ratio",
+    headline: "Headline (optional)",
+    rendering: "Rendering...",
+    download: "Download poster",
+    defaultHeadline: "{issue} is changing {city}",
+    layouts: {
+      overlay: "Overlay",
+      stacked: "Stacked",
+      framed: "Framed",
+    },
+    aspects: {
+      square: "Square (1:1)",
+      story: "Story (4:5)",
+      banner: "Banner (16:9)",
+    },
+  },
+  mask: {
+    imageAlt: "Image being edited",
+    brush: "Brush",
+    clear: "Clear",
+    instruction: "What should change? e.g. add flood water to the street",
+    apply: "Apply edit",
+    paintFirst: "Paint over the area to change",
+  },
+  comparison: {
+    today: "Today",
+    future: "2050",
+    slider: "{today} / {future} comparison",
+    formats: {
+      "side-by-side": "Side by side",
+      gif: "Animated GIF",
+    },
+  },
+  facts: {
+    title: "Climate facts",
+    include: "Add a climate fact to the prompt",
+    source: "Source: {citation}",
+    indicators: {
+      "sea-level-projection": "Sea-level projection",
+      "heat-days": "Hot days",
+      "aqi-average": "Air pollution",
+      "flood-frequency": "Flood frequency",
+    },
+    statements: {
+      "sea-level-projection": "Sea level around {city} is projected to rise about {value} {unit} by {period} ({qualifier}).",
+      "heat-days": "{city} sees about {value} days a year at or above {qualifier} ({period}).",
+      "aqi-average": "Average air pollution in {city} is {value} {unit} ({period}).",
+      "flood-frequency": "{city} averages about {value} {measure} a year ({period}).",
+    },
+    measures: {
+      "high-tide-flood-days": "high-tide flood days",
+      "barrier-closures": "Thames Barrier flood-defence closures",
+      "typhoon-approaches": "typhoon approaches",
+      "extreme-rain-days": "days of extremely heavy rain",
+    } as Record<string, string>,
+  },
+  batch: {
+    title: "Batch campaign",
+    back: "Back to generator",
+    cities: "Cities",
+    issues: "Issues",
+    allIssues: "With none ticked, every issue of each city is included.",
+    templates: "Styles",
+    includeFacts: "Ground each prompt in a climate fact",
+    summary: "{cells} combination(s) × {providers} provider(s)",
+    start: "Start batch",
+    starting: "Starting...",
+    progress: "{done} of {total} done",
+    failed: "{count} failed",
+    download: "Download ZIP",
+    statuses: {
+      queued: "Queued",
+      running: "Running",
+      succeeded: "Done",
+      failed: "Failed",
+    },
+  },
+  admin: {
+    title: "Admin dashboard",
+    back: "Back to generator",
+    ranges: {
+      "24h": "Last 24 hours",
+      "7d": "Last 7 days",
+      "30d": "Last 30 days",
+    },
+    requests: "Requests",
+    failureRate: "Failure rate",
+    images: "Images",
+    spend: "Estimated spend",
+    latency: "p95 latency",
+    avgLatency: "Avg latency",
+    cachedCount: "{count} served from cache",
+    health: "Provider health",
+    provider: "Provider",
+    status: "Status",
+    reachable: "Reachable",
+    unreachable: "Unreachable",
+    circuit: {
+      open: "Paused after repeated failures",
+      half_open: "Trial call pending",
+    },
+    notConfigured: "Not configured",
+    checkedAt: "Checked at {time}",
+    overall: {
+      ok: "All configured providers are reachable",
+      degraded: "Some configured providers are unreachable",
+      down: "No configured provider is reachable",
+    },
+    volumeChart: "Requests per provider",
+    failureChart: "Failure rate per provider",
+    spendChart: "Estimated spend per provider",
+    byProvider: "By provider",
+    recentFailures: "Recent failures",
+    noData: "No requests in this period.",
+    costNote: "Spend is estimated from list prices per model, size and quality.",
+  },
+  imageErrors: {
+    failed: "{provider} could not create this image",
+    auth: "The provider rejected our credentials; an administrator needs to check its API key.",
+    rate_limited: "The provider is receiving too many requests. Try again in a minute.",
+    content_policy: "The provider's content policy blocked this image. Try different wording.",
+    invalid_request: "The provider could not handle these options.",
+    transient: "The provider had a temporary problem. Try again.",
+    circuit_open: "The provider is paused after repeated failures. Try again shortly.",
+    unknown: "Something went wrong at the provider.",
+    storage_failed: "The image was created but could not be saved.",
+  },
+  notifications: {
+    title: "Notifications",
+    open: "Show notifications",
+    close: "Close notifications",
+    empty: "No notifications yet.",
+    clear: "Clear",
+    retry: "Retry generation",
+    viewInGallery: "View in gallery",
+    undo: "Undo delete",
+    deleted: "Image deleted.",
+    restored: "Image restored.",
+    deleteFailed: "Could not delete the image.",
+    deleteForbidden: "Only the person who generated this image can delete it.",
+    restoreFailed: "Could not restore the image.",
+  },
+  locations: {
+    search: "Search for a city",
+    noMatches: "No matching cities.",
+    curated: "curated",
+    showMap: "Pick on a map",
+    map: "World map of available cities",
+    mapHint: "Click the map to pick the nearest city.",
+    loadFailed: "Could not load that city.",
+    inferred: "Issues suggested from its {zone} climate.",
+    inferredCoastal: "Issues suggested from its {zone} climate and coastline.",
+    zones: {
+      tropical: "tropical",
+      arid: "arid",
+      temperate: "temperate",
+      continental: "continental",
+      polar: "polar",
+    },
+  },
+  export: {
+    title: "Save options",
+    format: "Format",
+    size: "Size",
+    original: "Original size",
+    width: "{width} px wide",
+    quality: "Quality {quality}",
+    download: "Download {format}",
+    metadataNote: "The file records the city, issue, AI model, prompt and date it was made.",
+    label: 'Add an "AI-generated illustration" label',
+  },
+  provenance: {
+    label: "AI-generated illustration",
+    verifyLink: "Verify an image",
+  },
+  verify: {
+    title: "Verify an image",
+    intro:
+      "Upload an image to check whether GreenGitch generated it. Re-encoded or resized copies are still recognised by their invisible watermark; cropped ones are not.",
+    choose: "Choose an image",
+    checking: "Checking...",
+    verified: "Generated by GreenGitch",
+    notFound: "No GreenGitch record found",
+    notFoundHint: "This image doesn't match anything GreenGitch generated. It may have been cropped or heavily edited, or made elsewhere.",
+    invalidSignature: "A record matched, but its signature is not valid. Treat it as unverified.",
+    matchExact: "Exact match: the file is unchanged.",
+    matchWatermark: "Matched by its watermark: the file was re-encoded or resized since.",
+    place: "Subject",
+    provider: "AI provider",
+    prompt: "Prompt",
+    created: "Created",
+    viewOriginal: "View the original",
+    manifest: "Signed manifest",
+    failed: "Could not check the image.",
+    back: "Back to the generator",
+  },
+  gallery: {
+    title: "Gallery",
+    back: "Back to generator",
+    city: "City",
+    allCities: "All cities",
+    issue: "Issue",
+    allIssues: "All issues",
+    provider: "Provider",
+    allProviders: "All providers",
+    empty: "No images match these filters yet.",
+    previous: "Previous",
+    next: "Next",
+    page: "Page {page} of {totalPages}",
+  },
+  permalink: {
+    caption: "{issue} in {city}",
+    description:
+      "A climate change awareness image showing the impact of {issue} in {city}, generated with GreenGitch.",
+    generatedBy: "Generated by {provider} on {date}",
+    createYourOwn: "Create your own awareness image",
+    notFound: "Image not found",
+  },
+  catalog: {
+    cities: {
+      "new-york": { name: "New York", country: "United States" },
+      london: { name: "London", country: "United Kingdom" },
+      tokyo: { name: "Tokyo", country: "Japan" },
+      mumbai: { name: "Mumbai", country: "India" },
+    } as Record<string, { name: string; country: string }>,
+    // Issue names are shared between cities; descriptions are per city
+    issues: {
+      "sea-level-rise": "Sea Level Rise",
+      "urban-heat-island": "Urban Heat Island",
+      "air-pollution": "Air Pollution",
+      flooding: "Flooding",
+      "air-quality": "Air Quality",
+      "heat-waves": "Heat Waves",
+      typhoons: "Typhoons",
+      "urban-flooding": "Urban Flooding",
+      "heat-stress": "Heat Stress",
+      "monsoon-flooding": "Monsoon Flooding",
+      "coastal-erosion": "Coastal Erosion",
+      "tropical-cyclones": "Tropical Cyclones",
+      drought: "Drought",
+      wildfires: "Wildfires",
+      "water-scarcity": "Water Scarcity",
+      "dust-storms": "Dust Storms",
+      "permafrost-thaw": "Permafrost Thaw",
+      "sea-ice-loss": "Sea Ice Loss",
+    } as Record<string, string>,
+    descriptions: {
+      "new-york/sea-level-rise":
+        "Rising tides and storm surge threaten low-lying Lower Manhattan, Brooklyn and Queens shorelines.",
+      "new-york/urban-heat-island":
+        "Dense asphalt and concrete keep neighbourhoods several degrees hotter than surrounding areas.",
+      "new-york/air-pollution":
+        "Traffic and wildfire smoke episodes push fine particulate levels above health guidelines.",
+      "london/flooding": "Tidal surges on the Thames and flash flooding from intense rainfall overwhelm drainage.",
+      "london/air-quality": "Nitrogen dioxide from road traffic regularly exceeds legal limits on busy streets.",
+      "london/heat-waves": "Record temperatures above 40°C strain transport, housing and health services.",
+      "tokyo/typhoons": "Stronger typhoons bring destructive winds and storm surge to Tokyo Bay.",
+      "tokyo/urban-flooding": "Guerrilla rainstorms exceed the capacity of underground drainage channels.",
+      "tokyo/heat-stress": "Hot, humid summers drive a rising number of heatstroke hospitalisations.",
+      "mumbai/monsoon-flooding": "Extreme monsoon rainfall coinciding with high tides floods low-lying neighbourhoods.",
+      "mumbai/coastal-erosion": "Sea level rise and land reclamation wear away beaches and coastal settlements.",
+      "mumbai/air-pollution": "Construction dust and vehicle emissions produce hazardous winter smog.",
+    } as Record<string, string>,
+    // For issues inferred for cities outside the curated list
+    generic: {
+      "sea-level-rise": "Higher seas and storm surge threaten low-lying coastal districts.",
+      "coastal-erosion": "Rising seas and stronger waves wear away beaches and the coastline.",
+      "tropical-cyclones": "Stronger cyclones bring destructive winds, torrential rain and storm surge.",
+      flooding: "Heavier downpours overwhelm rivers and drainage, flooding streets and homes.",
+      "heat-waves": "Longer, hotter heat waves strain health services, power and water supplies.",
+      "heat-stress": "Rising heat and humidity push more days past safe limits for outdoor work.",
+      drought: "Longer dry spells shrink reservoirs and harm crops around the city.",
+      wildfires: "Hotter, drier summers lengthen the fire season on the city's outskirts.",
+      "water-scarcity": "Falling groundwater and rising demand leave taps running dry.",
+      "dust-storms": "Drier soils feed more frequent and intense dust and sand storms.",
+      "permafrost-thaw": "Thawing ground buckles roads, pipelines and building foundations.",
+      "sea-ice-loss": "Shrinking sea ice leaves the coast open to storms and cuts off travel over the ice.",
+      "urban-heat-island": "Dense concrete and asphalt keep the city several degrees hotter than its surroundings.",
+      "air-pollution": "Traffic, industry and smoke push fine particulate levels above health guidelines.",
+    } as Record<string, string>,
+  },
+}
+
+export type Messages = typeof en
+
+export default en
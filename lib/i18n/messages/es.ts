@@ -0,0 +1,377 @@
+import type { Messages } from "./en"
+
+const es: Messages = {
+  common: {
+    error: "Error",
+    success: "Listo",
+    warning: "Aviso",
+    cached: "en caché",
+    language: "Idioma",
+  },
+  home: {
+    browseGallery: "Ver la galería",
+    selectIssue: "Elige un problema climático",
+    landmark: "Lugar emblemático (opcional)",
+    season: "Estación (opcional)",
+    audience: "Público (opcional)",
+    compare: "Comparar hoy con 2050",
+    selectStyle: "Elige un estilo",
+    alwaysFresh: "Generar siempre imágenes nuevas",
+    generate: "Generar imágenes de concienciación",
+    generating: "Generando...",
+    quota: "Te quedan {remaining} de {limit} imágenes hoy",
+    imageAlt: "Imagen de concienciación climática de {provider}",
+    save: "Guardar",
+    moreLikeThis: "Más como esta",
+    editRegion: "Editar una zona",
+    makePoster: "Crear póster",
+    batch: "Lanzar una campaña por lotes",
+    fallbackFor: "en lugar de {provider}",
+    delete: "Eliminar",
+  },
+  toast: {
+    catalogFailed: "No se pudo cargar la lista de ciudades.",
+    generated: "Se generaron {count} imagen(es) correctamente.",
+    noImages: "No se pudo generar ninguna imagen. Inténtalo de nuevo.",
+    generateFailed: "No se pudieron generar las imágenes",
+    lostJob: "Se perdió el seguimiento de la generación",
+    invalidResponse: "Respuesta no válida del servidor",
+    cannotShare: "No se puede compartir",
+    notStored: "Esta imagen no se guardó.",
+    downloaded: "Imagen descargada correctamente.",
+    downloadFailed: "No se pudo descargar la imagen.",
+    posterFailed: "No se pudo crear el póster.",
+    galleryFailed: "No se pudo cargar la galería.",
+    batchFailed: "No se pudo iniciar el lote.",
+    batchCompleted: "Lote terminado: {succeeded} correctas, {failed} fallidas.",
+  },
+  share: {
+    text: "¡Mira esta imagen de concienciación sobre el cambio climático: {issue} en {city}!",
+    withFact: "{text} {fact} (Fuente: {source})",
+    title: "Compartir",
+    subject: "{issue} en {city}: una ilustración sobre el cambio climático",
+    saved: "Imagen guardada",
+    captionCopied: "Texto copiado. Pégalo al publicar la imagen.",
+    failed: "No se pudo compartir la imagen. Inténtalo de nuevo.",
+    targets: {
+      device: "Más apps",
+      x: "X",
+      facebook: "Facebook",
+      linkedin: "LinkedIn",
+      whatsapp: "WhatsApp",
+      email: "Correo",
+      instagram: "Publicación de Instagram",
+      "instagram-story": "Historia de Instagram",
+    },
+  },
+  templates: {
+    realistic: "Realista",
+    poster: "Póster",
+    infographic: "Ilustración infográfica",
+    "before-after": "Antes / después",
+    photojournalism: "Fotoperiodismo",
+  },
+  advanced: {
+    title: "Avanzado",
+    model: "Modelo",
+    size: "Tamaño",
+    aspectRatio: "Relación de aspecto",
+    quality: "Calidad",
+    style: "Estilo",
+    defaultChoice: "{label}: predeterminado",
+    count: "Imágenes por proveedor",
+    negativePrompt: "Prompt negativo (opcional)",
+    seed: "Semilla (opcional)",
+  },
+  poster: {
+    layout: "Diseño",
+    aspectRatio: "Relación de aspecto",
+    headline: "Titular (opcional)",
+    rendering: "Generando...",
+    download: "Descargar póster",
+    defaultHeadline: "{issue}: así está cambiando {city}",
+    layouts: {
+      overlay: "Superpuesto",
+      stacked: "Apilado",
+      framed: "Enmarcado",
+    },
+    aspects: {
+      square: "Cuadrado (1:1)",
+      story: "Historia (4:5)",
+      banner: "Banner (16:9)",
+    },
+  },
+  mask: {
+    imageAlt: "Imagen en edición",
+    brush: "Pincel",
+    clear: "Borrar",
+    instruction: "¿Qué debe cambiar? p. ej. añade agua de inundación a la calle",
+    apply: "Aplicar edición",
+    paintFirst: "Pinta sobre la zona que quieres cambiar",
+  },
+  comparison: {
+    today: "Hoy",
+    future: "2050",
+    slider: "Comparación {today} / {future}",
+    formats: {
+      "side-by-side": "Lado a lado",
+      gif: "GIF animado",
+    },
+  },
+  facts: {
+    title: "Datos climáticos",
+    include: "Añadir un dato climático al prompt",
+    source: "Fuente: {citation}",
+    indicators: {
+      "sea-level-projection": "Proyección del nivel del mar",
+      "heat-days": "Días de calor",
+      "aqi-average": "Contaminación del aire",
+      "flood-frequency": "Frecuencia de inundaciones",
+    },
+    statements: {
+      "sea-level-projection": "Se prevé que el nivel del mar en {city} suba unos {value} {unit} para {period} ({qualifier}).",
+      "heat-days": "{city} tiene unos {value} días al año a {qualifier} o más ({period}).",
+      "aqi-average": "La contaminación media del aire en {city} es de {value} {unit} ({period}).",
+      "flood-frequency": "{city} registra de media unos {value} {measure} al año ({period}).",
+    },
+    measures: {
+      "high-tide-flood-days": "días de inundación por marea alta",
+      "barrier-closures": "cierres de la barrera del Támesis",
+      "typhoon-approaches": "aproximaciones de tifones",
+      "extreme-rain-days": "días de lluvia extremadamente intensa",
+    },
+  },
+  batch: {
+    title: "Campaña por lotes",
+    back: "Volver al generador",
+    cities: "Ciudades",
+    issues: "Problemas",
+    allIssues: "Si no marcas ninguno, se incluyen todos los problemas de cada ciudad.",
+    templates: "Estilos",
+    includeFacts: "Basar cada prompt en un dato climático",
+    summary: "{cells} combinación(es) × {providers} proveedor(es)",
+    start: "Iniciar lote",
+    starting: "Iniciando...",
+    progress: "{done} de {total} terminadas",
+    failed: "{count} fallidas",
+    download: "Descargar ZIP",
+    statuses: {
+      queued: "En cola",
+      running: "En curso",
+      succeeded: "Lista",
+      failed: "Fallida",
+    },
+  },
+  admin: {
+    title: "Panel de administración",
+    back: "Volver al generador",
+    ranges: {
+      "24h": "Últimas 24 horas",
+      "7d": "Últimos 7 días",
+      "30d": "Últimos 30 días",
+    },
+    requests: "Solicitudes",
+    failureRate: "Tasa de fallos",
+    images: "Imágenes",
+    spend: "Gasto estimado",
+    latency: "Latencia p95",
+    avgLatency: "Latencia media",
+    cachedCount: "{count} servidas desde caché",
+    health: "Estado de los proveedores",
+    provider: "Proveedor",
+    status: "Estado",
+    reachable: "Disponible",
+    unreachable: "No disponible",
+    circuit: {
+      open: "En pausa tras varios fallos",
+      half_open: "Llamada de prueba pendiente",
+    },
+    notConfigured: "Sin configurar",
+    checkedAt: "Comprobado a las {time}",
+    overall: {
+      ok: "Todos los proveedores configurados están disponibles",
+      degraded: "Algunos proveedores configurados no están disponibles",
+      down: "Ningún proveedor configurado está disponible",
+    },
+    volumeChart: "Solicitudes por proveedor",
+    failureChart: "Tasa de fallos por proveedor",
+    spendChart: "Gasto estimado por proveedor",
+    byProvider: "Por proveedor",
+    recentFailures: "Fallos recientes",
+    noData: "No hay solicitudes en este periodo.",
+    costNote: "El gasto se estima con los precios de lista por modelo, tamaño y calidad.",
+  },
+  imageErrors: {
+    failed: "{provider} no pudo crear esta imagen",
+    auth: "El proveedor rechazó nuestras credenciales; un administrador debe revisar su clave de API.",
+    rate_limited: "El proveedor está recibiendo demasiadas solicitudes. Inténtalo de nuevo en un minuto.",
+    content_policy: "La política de contenido del proveedor bloqueó esta imagen. Prueba con otras palabras.",
+    invalid_request: "El proveedor no pudo procesar estas opciones.",
+    transient: "El proveedor tuvo un problema temporal. Inténtalo de nuevo.",
+    circuit_open: "El proveedor está en pausa tras varios fallos. Inténtalo de nuevo en breve.",
+    unknown: "Algo salió mal en el proveedor.",
+    storage_failed: "La imagen se creó pero no se pudo guardar.",
+  },
+  notifications: {
+    title: "Notificaciones",
+    open: "Mostrar notificaciones",
+    close: "Cerrar notificaciones",
+    empty: "Todavía no hay notificaciones.",
+    clear: "Borrar",
+    retry: "Reintentar generación",
+    viewInGallery: "Ver en la galería",
+    undo: "Deshacer eliminación",
+    deleted: "Imagen eliminada.",
+    restored: "Imagen restaurada.",
+    deleteFailed: "No se pudo eliminar la imagen.",
+    deleteForbidden: "Solo quien generó esta imagen puede eliminarla.",
+    restoreFailed: "No se pudo restaurar la imagen.",
+  },
+  locations: {
+    search: "Busca una ciudad",
+    noMatches: "No hay ciudades que coincidan.",
+    curated: "destacada",
+    showMap: "Elegir en un mapa",
+    map: "Mapa mundial de las ciudades disponibles",
+    mapHint: "Haz clic en el mapa para elegir la ciudad más cercana.",
+    loadFailed: "No se pudo cargar esa ciudad.",
+    inferred: "Problemas sugeridos a partir de su clima {zone}.",
+    inferredCoastal: "Problemas sugeridos a partir de su clima {zone} y su costa.",
+    zones: {
+      tropical: "tropical",
+      arid: "árido",
+      temperate: "templado",
+      continental: "continental",
+      polar: "polar",
+    },
+  },
+  export: {
+    title: "Opciones de guardado",
+    format: "Formato",
+    size: "Tamaño",
+    original: "Tamaño original",
+    width: "{width} px de ancho",
+    quality: "Calidad {quality}",
+    download: "Descargar {format}",
+    metadataNote: "El archivo registra la ciudad, el problema, el modelo de IA, el prompt y la fecha de creación.",
+    label: 'Añadir la etiqueta "Ilustración generada por IA"',
+  },
+  provenance: {
+    label: "Ilustración generada por IA",
+    verifyLink: "Verificar una imagen",
+  },
+  verify: {
+    title: "Verificar una imagen",
+    intro:
+      "Sube una imagen para comprobar si la generó GreenGitch. Las copias recodificadas o redimensionadas se reconocen por su marca de agua invisible; las recortadas, no.",
+    choose: "Elegir una imagen",
+    checking: "Comprobando...",
+    verified: "Generada por GreenGitch",
+    notFound: "No hay ningún registro de GreenGitch",
+    notFoundHint: "Esta imagen no coincide con nada generado por GreenGitch. Puede haber sido recortada o muy editada, o creada en otro lugar.",
+    invalidSignature: "Se encontró un registro, pero su firma no es válida. Considérala no verificada.",
+    matchExact: "Coincidencia exacta: el archivo no ha cambiado.",
+    matchWatermark: "Coincidencia por marca de agua: el archivo se recodificó o redimensionó después.",
+    place: "Tema",
+    provider: "Proveedor de IA",
+    prompt: "Prompt",
+    created: "Creada",
+    viewOriginal: "Ver el original",
+    manifest: "Manifiesto firmado",
+    failed: "No se pudo comprobar la imagen.",
+    back: "Volver al generador",
+  },
+  gallery: {
+    title: "Galería",
+    back: "Volver al generador",
+    city: "Ciudad",
+    allCities: "Todas las ciudades",
+    issue: "Problema",
+    allIssues: "Todos los problemas",
+    provider: "Proveedor",
+    allProviders: "Todos los proveedores",
+    empty: "Todavía no hay imágenes con estos filtros.",
+    previous: "Anterior",
+    next: "Siguiente",
+    page: "Página {page} de {totalPages}",
+  },
+  permalink: {
+    caption: "{issue} en {city}",
+    description:
+      "Una imagen de concienciación sobre el cambio climático que muestra el impacto de {issue} en {city}, generada con GreenGitch.",
+    generatedBy: "Generada por {provider} el {date}",
+    createYourOwn: "Crea tu propia imagen de concienciación",
+    notFound: "Imagen no encontrada",
+  },
+  catalog: {
+    cities: {
+      "new-york": { name: "Nueva York", country: "Estados Unidos" },
+      london: { name: "Londres", country: "Reino Unido" },
+      tokyo: { name: "Tokio", country: "Japón" },
+      mumbai: { name: "Bombay", country: "India" },
+    },
+    issues: {
+      "sea-level-rise": "Subida del nivel del mar",
+      "urban-heat-island": "Isla de calor urbana",
+      "air-pollution": "Contaminación del aire",
+      flooding: "Inundaciones",
+      "air-quality": "Calidad del aire",
+      "heat-waves": "Olas de calor",
+      typhoons: "Tifones",
+      "urban-flooding": "Inundaciones urbanas",
+      "heat-stress": "Estrés térmico",
+      "monsoon-flooding": "Inundaciones del monzón",
+      "coastal-erosion": "Erosión costera",
+      "tropical-cyclones": "Ciclones tropicales",
+      drought: "Sequía",
+      wildfires: "Incendios forestales",
+      "water-scarcity": "Escasez de agua",
+      "dust-storms": "Tormentas de polvo",
+      "permafrost-thaw": "Deshielo del permafrost",
+      "sea-ice-loss": "Pérdida de hielo marino",
+    },
+    descriptions: {
+      "new-york/sea-level-rise":
+        "La subida de las mareas y las marejadas ciclónicas amenazan las costas bajas de Lower Manhattan, Brooklyn y Queens.",
+      "new-york/urban-heat-island":
+        "El asfalto y el hormigón mantienen los barrios varios grados más calientes que las zonas de alrededor.",
+      "new-york/air-pollution":
+        "El tráfico y el humo de los incendios forestales elevan las partículas finas por encima de las pautas sanitarias.",
+      "london/flooding":
+        "Las mareas del Támesis y las inundaciones repentinas por lluvias intensas desbordan el drenaje.",
+      "london/air-quality":
+        "El dióxido de nitrógeno del tráfico supera con frecuencia los límites legales en las calles más concurridas.",
+      "london/heat-waves":
+        "Las temperaturas récord de más de 40 °C ponen a prueba el transporte, la vivienda y la sanidad.",
+      "tokyo/typhoons": "Tifones más fuertes traen vientos destructivos y marejadas a la bahía de Tokio.",
+      "tokyo/urban-flooding":
+        "Las tormentas repentinas superan la capacidad de los canales de drenaje subterráneos.",
+      "tokyo/heat-stress":
+        "Los veranos cálidos y húmedos aumentan las hospitalizaciones por golpe de calor.",
+      "mumbai/monsoon-flooding":
+        "Las lluvias extremas del monzón, unidas a las mareas altas, inundan los barrios bajos.",
+      "mumbai/coastal-erosion":
+        "La subida del nivel del mar y la recuperación de tierras desgastan playas y poblados costeros.",
+      "mumbai/air-pollution":
+        "El polvo de las obras y las emisiones de los vehículos producen un smog invernal peligroso.",
+    },
+    generic: {
+      "sea-level-rise": "La subida del mar y las marejadas amenazan los barrios costeros bajos.",
+      "coastal-erosion": "La subida del mar y un oleaje más fuerte desgastan las playas y la costa.",
+      "tropical-cyclones": "Ciclones más intensos traen vientos destructivos, lluvias torrenciales y marejadas.",
+      flooding: "Lluvias más intensas desbordan ríos y drenajes e inundan calles y viviendas.",
+      "heat-waves": "Olas de calor más largas e intensas ponen a prueba la sanidad y el suministro de luz y agua.",
+      "heat-stress": "El aumento del calor y la humedad hace que más días superen los límites seguros para trabajar al aire libre.",
+      drought: "Periodos secos más largos reducen los embalses y dañan los cultivos alrededor de la ciudad.",
+      wildfires: "Veranos más cálidos y secos alargan la temporada de incendios en las afueras de la ciudad.",
+      "water-scarcity": "El descenso de los acuíferos y el aumento de la demanda dejan los grifos secos.",
+      "dust-storms": "Suelos más secos alimentan tormentas de polvo y arena más frecuentes e intensas.",
+      "permafrost-thaw": "El deshielo del suelo deforma carreteras, tuberías y cimientos.",
+      "sea-ice-loss": "La reducción del hielo marino deja la costa expuesta a tormentas e impide viajar sobre el hielo.",
+      "urban-heat-island": "El hormigón y el asfalto mantienen la ciudad varios grados más caliente que su entorno.",
+      "air-pollution": "El tráfico, la industria y el humo elevan las partículas finas por encima de los límites sanitarios.",
+    },
+  },
+}
+
+export default es
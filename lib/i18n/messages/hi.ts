@@ -0,0 +1,368 @@
+import type { Messages } from "./en"
+
+const hi: Messages = {
+  common: {
+    error: "त्रुटि",
+    success: "सफल",
+    warning: "चेतावनी",
+    cached: "कैश से",
+    language: "भाषा",
+  },
+  home: {
+    browseGallery: "गैलरी देखें",
+    selectIssue: "जलवायु समस्या चुनें",
+    landmark: "प्रमुख स्थल (वैकल्पिक)",
+    season: "मौसम (वैकल्पिक)",
+    audience: "दर्शक (वैकल्पिक)",
+    compare: "आज की तुलना 2050 से करें",
+    selectStyle: "शैली चुनें",
+    alwaysFresh: "हमेशा नई छवियाँ बनाएँ",
+    generate: "जागरूकता छवियाँ बनाएँ",
+    generating: "बनाई जा रही हैं...",
+    quota: "आज {limit} में से {remaining} छवियाँ बाकी हैं",
+    imageAlt: "{provider} द्वारा जलवायु जागरूकता छवि",
+    save: "सहेजें",
+    moreLikeThis: "ऐसी और",
+    editRegion: "हिस्सा संपादित करें",
+    makePoster: "पोस्टर बनाएँ",
+    batch: "बैच अभियान चलाएँ",
+    fallbackFor: "{provider} के स्थान पर",
+    delete: "हटाएँ",
+  },
+  toast: {
+    catalogFailed: "शहरों की सूची लोड नहीं हो सकी।",
+    generated: "{count} छवि(याँ) सफलतापूर्वक बनाई गईं।",
+    noImages: "कोई छवि नहीं बन सकी। कृपया फिर से प्रयास करें।",
+    generateFailed: "छवियाँ नहीं बन सकीं",
+    lostJob: "जनरेशन की स्थिति का पता नहीं चल सका",
+    invalidResponse: "सर्वर से अमान्य जवाब मिला",
+    cannotShare: "साझा नहीं हो सकता",
+    notStored: "यह छवि सहेजी नहीं गई।",
+    downloaded: "छवि सफलतापूर्वक डाउनलोड हुई।",
+    downloadFailed: "छवि डाउनलोड नहीं हो सकी।",
+    posterFailed: "पोस्टर नहीं बन सका।",
+    galleryFailed: "गैलरी लोड नहीं हो सकी।",
+    batchFailed: "बैच शुरू नहीं हो सका।",
+    batchCompleted: "बैच पूरा हुआ: {succeeded} सफल, {failed} विफल।",
+  },
+  share: {
+    text: "{city} में {issue} पर यह जलवायु परिवर्तन जागरूकता छवि देखें!",
+    withFact: "{text} {fact} (स्रोत: {source})",
+    title: "साझा करें",
+    subject: "{city} में {issue}: जलवायु परिवर्तन पर एक चित्रण",
+    saved: "छवि सहेजी गई",
+    captionCopied: "कैप्शन कॉपी हो गया। छवि पोस्ट करते समय इसे पेस्ट करें।",
+    failed: "छवि साझा नहीं हो सकी। कृपया फिर से प्रयास करें।",
+    targets: {
+      device: "अन्य ऐप",
+      x: "X",
+      facebook: "Facebook",
+      linkedin: "LinkedIn",
+      whatsapp: "WhatsApp",
+      email: "ईमेल",
+      instagram: "Instagram पोस्ट",
+      "instagram-story": "Instagram स्टोरी",
+    },
+  },
+  templates: {
+    realistic: "यथार्थवादी",
+    poster: "पोस्टर",
+    infographic: "इन्फोग्राफिक चित्रण",
+    "before-after": "पहले / बाद में",
+    photojournalism: "फोटो पत्रकारिता",
+  },
+  advanced: {
+    title: "उन्नत",
+    model: "मॉडल",
+    size: "आकार",
+    aspectRatio: "आस्पेक्ट रेशियो",
+    quality: "गुणवत्ता",
+    style: "शैली",
+    defaultChoice: "{label}: डिफ़ॉल्ट",
+    count: "प्रति प्रदाता छवियाँ",
+    negativePrompt: "नेगेटिव प्रॉम्प्ट (वैकल्पिक)",
+    seed: "सीड (वैकल्पिक)",
+  },
+  poster: {
+    layout: "लेआउट",
+    aspectRatio: "आस्पेक्ट रेशियो",
+    headline: "शीर्षक (वैकल्पिक)",
+    rendering: "बनाया जा रहा है...",
+    download: "पोस्टर डाउनलोड करें",
+    defaultHeadline: "{issue} {city} को बदल रहा है",
+    layouts: {
+      overlay: "ओवरले",
+      stacked: "स्टैक्ड",
+      framed: "फ़्रेम्ड",
+    },
+    aspects: {
+      square: "वर्गाकार (1:1)",
+      story: "स्टोरी (4:5)",
+      banner: "बैनर (16:9)",
+    },
+  },
+  mask: {
+    imageAlt: "संपादित की जा रही छवि",
+    brush: "ब्रश",
+    clear: "साफ़ करें",
+    instruction: "क्या बदलना है? जैसे: सड़क पर बाढ़ का पानी जोड़ें",
+    apply: "बदलाव लागू करें",
+    paintFirst: "बदलने वाले हिस्से पर पेंट करें",
+  },
+  comparison: {
+    today: "आज",
+    future: "2050",
+    slider: "{today} / {future} तुलना",
+    formats: {
+      "side-by-side": "साथ-साथ",
+      gif: "एनिमेटेड GIF",
+    },
+  },
+  facts: {
+    title: "जलवायु तथ्य",
+    include: "प्रॉम्प्ट में जलवायु तथ्य जोड़ें",
+    source: "स्रोत: {citation}",
+    indicators: {
+      "sea-level-projection": "समुद्र स्तर का अनुमान",
+      "heat-days": "गर्म दिन",
+      "aqi-average": "वायु प्रदूषण",
+      "flood-frequency": "बाढ़ की आवृत्ति",
+    },
+    statements: {
+      "sea-level-projection": "{period} तक {city} के आसपास समुद्र स्तर लगभग {value} {unit} बढ़ने का अनुमान है ({qualifier})।",
+      "heat-days": "{city} में साल में लगभग {value} दिन तापमान {qualifier} या उससे अधिक रहता है ({period})।",
+      "aqi-average": "{city} में औसत वायु प्रदूषण {value} {unit} है ({period})।",
+      "flood-frequency": "{city} में हर साल औसतन लगभग {value} {measure} होते हैं ({period})।",
+    },
+    measures: {
+      "high-tide-flood-days": "ऊँचे ज्वार से बाढ़ के दिन",
+      "barrier-closures": "टेम्स बैरियर बंद होने की घटनाएँ",
+      "typhoon-approaches": "टाइफ़ून के नज़दीक आने की घटनाएँ",
+      "extreme-rain-days": "अत्यधिक भारी बारिश के दिन",
+    },
+  },
+  batch: {
+    title: "बैच अभियान",
+    back: "जनरेटर पर वापस जाएँ",
+    cities: "शहर",
+    issues: "समस्याएँ",
+    allIssues: "कुछ न चुनने पर हर शहर की सभी समस्याएँ शामिल होंगी।",
+    templates: "शैलियाँ",
+    includeFacts: "हर प्रॉम्प्ट में एक जलवायु तथ्य जोड़ें",
+    summary: "{cells} संयोजन × {providers} प्रदाता",
+    start: "बैच शुरू करें",
+    starting: "शुरू हो रहा है...",
+    progress: "{total} में से {done} पूरे",
+    failed: "{count} विफल",
+    download: "ZIP डाउनलोड करें",
+    statuses: {
+      queued: "कतार में",
+      running: "चल रहा है",
+      succeeded: "पूरा",
+      failed: "विफल",
+    },
+  },
+  admin: {
+    title: "एडमिन डैशबोर्ड",
+    back: "जनरेटर पर वापस जाएँ",
+    ranges: {
+      "24h": "पिछले 24 घंटे",
+      "7d": "पिछले 7 दिन",
+      "30d": "पिछले 30 दिन",
+    },
+    requests: "अनुरोध",
+    failureRate: "विफलता दर",
+    images: "छवियाँ",
+    spend: "अनुमानित खर्च",
+    latency: "p95 विलंब",
+    avgLatency: "औसत विलंब",
+    cachedCount: "{count} कैश से",
+    health: "प्रदाताओं की स्थिति",
+    provider: "प्रदाता",
+    status: "स्थिति",
+    reachable: "उपलब्ध",
+    unreachable: "अनुपलब्ध",
+    circuit: {
+      open: "बार-बार विफलता के बाद रोका गया",
+      half_open: "परीक्षण कॉल लंबित",
+    },
+    notConfigured: "कॉन्फ़िगर नहीं",
+    checkedAt: "{time} पर जाँचा गया",
+    overall: {
+      ok: "सभी कॉन्फ़िगर किए गए प्रदाता उपलब्ध हैं",
+      degraded: "कुछ कॉन्फ़िगर किए गए प्रदाता उपलब्ध नहीं हैं",
+      down: "कोई भी कॉन्फ़िगर किया गया प्रदाता उपलब्ध नहीं है",
+    },
+    volumeChart: "प्रदाता के अनुसार अनुरोध",
+    failureChart: "प्रदाता के अनुसार विफलता दर",
+    spendChart: "प्रदाता के अनुसार अनुमानित खर्च",
+    byProvider: "प्रदाता के अनुसार",
+    recentFailures: "हाल की विफलताएँ",
+    noData: "इस अवधि में कोई अनुरोध नहीं।",
+    costNote: "खर्च का अनुमान मॉडल, आकार और गुणवत्ता की सूची कीमतों से लगाया गया है।",
+  },
+  imageErrors: {
+    failed: "{provider} यह छवि नहीं बना सका",
+    auth: "प्रदाता ने हमारे क्रेडेंशियल अस्वीकार कर दिए; किसी व्यवस्थापक को उसकी API कुंजी जाँचनी होगी।",
+    rate_limited: "प्रदाता को बहुत अधिक अनुरोध मिल रहे हैं। एक मिनट बाद फिर से प्रयास करें।",
+    content_policy: "प्रदाता की सामग्री नीति ने इस छवि को रोक दिया। अलग शब्दों से प्रयास करें।",
+    invalid_request: "प्रदाता इन विकल्पों को संभाल नहीं सका।",
+    transient: "प्रदाता में अस्थायी समस्या आई। फिर से प्रयास करें।",
+    circuit_open: "बार-बार विफलताओं के बाद प्रदाता रोका गया है। थोड़ी देर बाद प्रयास करें।",
+    unknown: "प्रदाता में कुछ गड़बड़ हो गई।",
+    storage_failed: "छवि बन गई लेकिन सहेजी नहीं जा सकी।",
+  },
+  notifications: {
+    title: "सूचनाएँ",
+    open: "सूचनाएँ दिखाएँ",
+    close: "सूचनाएँ बंद करें",
+    empty: "अभी कोई सूचना नहीं है।",
+    clear: "साफ़ करें",
+    retry: "फिर से बनाएँ",
+    viewInGallery: "गैलरी में देखें",
+    undo: "हटाना रद्द करें",
+    deleted: "चित्र हटा दिया गया।",
+    restored: "चित्र वापस लाया गया।",
+    deleteFailed: "चित्र हटाया नहीं जा सका।",
+    deleteForbidden: "इस चित्र को केवल वही हटा सकता है जिसने इसे बनाया है।",
+    restoreFailed: "चित्र वापस नहीं लाया जा सका।",
+  },
+  locations: {
+    search: "शहर खोजें",
+    noMatches: "कोई मिलता-जुलता शहर नहीं मिला।",
+    curated: "चुनिंदा",
+    showMap: "नक्शे पर चुनें",
+    map: "उपलब्ध शहरों का विश्व नक्शा",
+    mapHint: "सबसे नज़दीकी शहर चुनने के लिए नक्शे पर क्लिक करें।",
+    loadFailed: "वह शहर लोड नहीं हो सका।",
+    inferred: "इसकी {zone} जलवायु के आधार पर सुझाई गई समस्याएँ।",
+    inferredCoastal: "इसकी {zone} जलवायु और तटीय स्थिति के आधार पर सुझाई गई समस्याएँ।",
+    zones: {
+      tropical: "उष्णकटिबंधीय",
+      arid: "शुष्क",
+      temperate: "समशीतोष्ण",
+      continental: "महाद्वीपीय",
+      polar: "ध्रुवीय",
+    },
+  },
+  export: {
+    title: "सहेजने के विकल्प",
+    format: "फ़ॉर्मेट",
+    size: "आकार",
+    original: "मूल आकार",
+    width: "{width} px चौड़ा",
+    quality: "गुणवत्ता {quality}",
+    download: "{format} डाउनलोड करें",
+    metadataNote: "फ़ाइल में शहर, समस्या, AI मॉडल, प्रॉम्प्ट और बनने की तारीख दर्ज रहती है।",
+    label: '"AI से बना चित्रण" लेबल जोड़ें',
+  },
+  provenance: {
+    label: "AI से बना चित्रण",
+    verifyLink: "छवि सत्यापित करें",
+  },
+  verify: {
+    title: "छवि सत्यापित करें",
+    intro:
+      "यह जाँचने के लिए छवि अपलोड करें कि क्या इसे GreenGitch ने बनाया है। दोबारा एन्कोड या आकार बदली गई प्रतियाँ अदृश्य वॉटरमार्क से पहचानी जाती हैं; क्रॉप की गई नहीं।",
+    choose: "छवि चुनें",
+    checking: "जाँच हो रही है...",
+    verified: "GreenGitch द्वारा बनाई गई",
+    notFound: "GreenGitch का कोई रिकॉर्ड नहीं मिला",
+    notFoundHint: "यह छवि GreenGitch द्वारा बनाई गई किसी छवि से मेल नहीं खाती। हो सकता है इसे क्रॉप या बहुत संपादित किया गया हो, या कहीं और बनाया गया हो।",
+    invalidSignature: "एक रिकॉर्ड मिला, लेकिन उसका हस्ताक्षर मान्य नहीं है। इसे असत्यापित मानें।",
+    matchExact: "सटीक मेल: फ़ाइल में कोई बदलाव नहीं हुआ है।",
+    matchWatermark: "वॉटरमार्क से मेल: फ़ाइल बाद में दोबारा एन्कोड या आकार बदली गई।",
+    place: "विषय",
+    provider: "AI प्रदाता",
+    prompt: "प्रॉम्प्ट",
+    created: "बनाई गई",
+    viewOriginal: "मूल छवि देखें",
+    manifest: "हस्ताक्षरित मैनिफ़ेस्ट",
+    failed: "छवि की जाँच नहीं हो सकी।",
+    back: "जनरेटर पर वापस जाएँ",
+  },
+  gallery: {
+    title: "गैलरी",
+    back: "जनरेटर पर वापस जाएँ",
+    city: "शहर",
+    allCities: "सभी शहर",
+    issue: "समस्या",
+    allIssues: "सभी समस्याएँ",
+    provider: "प्रदाता",
+    allProviders: "सभी प्रदाता",
+    empty: "इन फ़िल्टरों से मेल खाती कोई छवि अभी नहीं है।",
+    previous: "पिछला",
+    next: "अगला",
+    page: "पृष्ठ {page} / {totalPages}",
+  },
+  permalink: {
+    caption: "{city} में {issue}",
+    description: "{city} में {issue} के प्रभाव को दिखाती जलवायु परिवर्तन जागरूकता छवि, GreenGitch से बनाई गई।",
+    generatedBy: "{provider} द्वारा {date} को बनाई गई",
+    createYourOwn: "अपनी जागरूकता छवि बनाएँ",
+    notFound: "छवि नहीं मिली",
+  },
+  catalog: {
+    cities: {
+      "new-york": { name: "न्यूयॉर्क", country: "संयुक्त राज्य अमेरिका" },
+      london: { name: "लंदन", country: "यूनाइटेड किंगडम" },
+      tokyo: { name: "टोक्यो", country: "जापान" },
+      mumbai: { name: "मुंबई", country: "भारत" },
+    },
+    issues: {
+      "sea-level-rise": "समुद्र स्तर में वृद्धि",
+      "urban-heat-island": "शहरी ऊष्मा द्वीप",
+      "air-pollution": "वायु प्रदूषण",
+      flooding: "बाढ़",
+      "air-quality": "वायु गुणवत्ता",
+      "heat-waves": "लू",
+      typhoons: "टाइफ़ून",
+      "urban-flooding": "शहरी बाढ़",
+      "heat-stress": "गर्मी का तनाव",
+      "monsoon-flooding": "मानसूनी बाढ़",
+      "coastal-erosion": "तटीय कटाव",
+      "tropical-cyclones": "उष्णकटिबंधीय चक्रवात",
+      drought: "सूखा",
+      wildfires: "जंगल की आग",
+      "water-scarcity": "पानी की कमी",
+      "dust-storms": "धूल भरी आँधियाँ",
+      "permafrost-thaw": "पर्माफ्रॉस्ट का पिघलना",
+      "sea-ice-loss": "समुद्री बर्फ़ का घटना",
+    },
+    descriptions: {
+      "new-york/sea-level-rise":
+        "बढ़ते ज्वार और तूफ़ानी लहरें लोअर मैनहट्टन, ब्रुकलिन और क्वींस के निचले तटों के लिए खतरा हैं।",
+      "new-york/urban-heat-island":
+        "घना डामर और कंक्रीट मोहल्लों को आसपास के इलाकों से कई डिग्री ज़्यादा गर्म रखते हैं।",
+      "new-york/air-pollution":
+        "यातायात और जंगल की आग का धुआँ सूक्ष्म कणों को स्वास्थ्य दिशानिर्देशों से ऊपर ले जाता है।",
+      "london/flooding": "टेम्स में ज्वारीय उछाल और तेज़ बारिश से अचानक आई बाढ़ जल निकासी पर भारी पड़ती है।",
+      "london/air-quality": "व्यस्त सड़कों पर वाहनों से निकली नाइट्रोजन डाइऑक्साइड अक्सर कानूनी सीमा पार कर जाती है।",
+      "london/heat-waves": "40°C से ऊपर के रिकॉर्ड तापमान परिवहन, आवास और स्वास्थ्य सेवाओं पर दबाव डालते हैं।",
+      "tokyo/typhoons": "ज़्यादा शक्तिशाली टाइफ़ून टोक्यो खाड़ी में विनाशकारी हवाएँ और तूफ़ानी लहरें लाते हैं।",
+      "tokyo/urban-flooding": "अचानक होने वाली मूसलाधार बारिश भूमिगत जल निकासी नहरों की क्षमता से ज़्यादा होती है।",
+      "tokyo/heat-stress": "गर्म और उमस भरी गर्मियों में लू लगने से अस्पताल जाने वालों की संख्या बढ़ रही है।",
+      "mumbai/monsoon-flooding": "ऊँचे ज्वार के साथ होने वाली भारी मानसूनी बारिश निचली बस्तियों में बाढ़ लाती है।",
+      "mumbai/coastal-erosion": "समुद्र स्तर में वृद्धि और भूमि सुधार समुद्र तटों और तटीय बस्तियों को काट रहे हैं।",
+      "mumbai/air-pollution": "निर्माण की धूल और वाहनों का धुआँ सर्दियों में खतरनाक स्मॉग पैदा करते हैं।",
+    },
+    generic: {
+      "sea-level-rise": "ऊँचा समुद्र और तूफ़ानी लहरें निचले तटीय इलाकों के लिए ख़तरा हैं।",
+      "coastal-erosion": "बढ़ता समुद्र और तेज़ लहरें समुद्र तटों और तटरेखा को काट रही हैं।",
+      "tropical-cyclones": "अधिक शक्तिशाली चक्रवात विनाशकारी हवाएँ, मूसलाधार बारिश और तूफ़ानी लहरें लाते हैं।",
+      flooding: "भारी बारिश नदियों और नालों को उफना देती है, जिससे सड़कें और घर डूब जाते हैं।",
+      "heat-waves": "लंबी और अधिक गर्म लू स्वास्थ्य सेवाओं, बिजली और पानी की आपूर्ति पर दबाव डालती है।",
+      "heat-stress": "बढ़ती गर्मी और उमस के कारण अधिक दिन बाहर काम करने की सुरक्षित सीमा पार कर जाते हैं।",
+      drought: "लंबे सूखे दौर जलाशयों को घटाते हैं और शहर के आसपास की फ़सलों को नुकसान पहुँचाते हैं।",
+      wildfires: "अधिक गर्म और सूखी गर्मियाँ शहर के बाहरी इलाकों में आग का मौसम लंबा कर रही हैं।",
+      "water-scarcity": "गिरता भूजल और बढ़ती माँग नलों को सूखा छोड़ रहे हैं।",
+      "dust-storms": "सूखी मिट्टी अधिक बार और अधिक तीव्र धूल व रेत की आँधियों को जन्म देती है।",
+      "permafrost-thaw": "पिघलती ज़मीन सड़कों, पाइपलाइनों और इमारतों की नींव को टेढ़ा कर रही है।",
+      "sea-ice-loss": "घटती समुद्री बर्फ़ तट को तूफ़ानों के सामने खुला छोड़ देती है और बर्फ़ पर आवाजाही रोक देती है।",
+      "urban-heat-island": "घना कंक्रीट और डामर शहर को आसपास के इलाकों से कई डिग्री अधिक गर्म रखते हैं।",
+      "air-pollution": "यातायात, उद्योग और धुआँ सूक्ष्म कणों को स्वास्थ्य मानकों से ऊपर ले जाते हैं।",
+    },
+  },
+}
+
+export default hi
@@ -0,0 +1,365 @@
+import type { Messages } from "./en"
+
+const ja: Messages = {
+  common: {
+    error: "エラー",
+    success: "完了",
+    warning: "注意",
+    cached: "キャッシュ",
+    language: "言語",
+  },
+  home: {
+    browseGallery: "ギャラリーを見る",
+    selectIssue: "気候問題を選択",
+    landmark: "ランドマーク（任意）",
+    season: "季節（任意）",
+    audience: "対象者（任意）",
+    compare: "現在と2050年を比較",
+    selectStyle: "スタイルを選択",
+    alwaysFresh: "常に新しい画像を生成する",
+    generate: "啓発画像を生成",
+    generating: "生成中...",
+    quota: "本日の残り: {remaining} / {limit} 枚",
+    imageAlt: "{provider} による気候啓発画像",
+    save: "保存",
+    moreLikeThis: "類似画像",
+    editRegion: "部分を編集",
+    makePoster: "ポスターを作成",
+    batch: "一括キャンペーンを実行",
+    fallbackFor: "{provider} の代わり",
+    delete: "削除",
+  },
+  toast: {
+    catalogFailed: "都市の一覧を読み込めませんでした。",
+    generated: "{count} 枚の画像を生成しました。",
+    noImages: "画像を生成できませんでした。もう一度お試しください。",
+    generateFailed: "画像を生成できませんでした",
+    lostJob: "生成ジョブの状態を取得できなくなりました",
+    invalidResponse: "サーバーからの応答が無効です",
+    cannotShare: "共有できません",
+    notStored: "この画像は保存されていません。",
+    downloaded: "画像をダウンロードしました。",
+    downloadFailed: "画像をダウンロードできませんでした。",
+    posterFailed: "ポスターを作成できませんでした。",
+    galleryFailed: "ギャラリーを読み込めませんでした。",
+    batchFailed: "一括生成を開始できませんでした。",
+    batchCompleted: "一括生成が完了しました: 成功 {succeeded} 件、失敗 {failed} 件。",
+  },
+  share: {
+    text: "{city}の{issue}をテーマにした気候変動啓発画像をご覧ください！",
+    withFact: "{text} {fact}（出典: {source}）",
+    title: "共有",
+    subject: "{city}の{issue}：気候変動のイラスト",
+    saved: "画像を保存しました",
+    captionCopied: "キャプションをコピーしました。画像を投稿するときに貼り付けてください。",
+    failed: "画像を共有できませんでした。もう一度お試しください。",
+    targets: {
+      device: "その他のアプリ",
+      x: "X",
+      facebook: "Facebook",
+      linkedin: "LinkedIn",
+      whatsapp: "WhatsApp",
+      email: "メール",
+      instagram: "Instagram 投稿",
+      "instagram-story": "Instagram ストーリー",
+    },
+  },
+  templates: {
+    realistic: "リアル",
+    poster: "ポスター",
+    infographic: "インフォグラフィック",
+    "before-after": "ビフォー / アフター",
+    photojournalism: "フォトジャーナリズム",
+  },
+  advanced: {
+    title: "詳細設定",
+    model: "モデル",
+    size: "サイズ",
+    aspectRatio: "アスペクト比",
+    quality: "品質",
+    style: "スタイル",
+    defaultChoice: "{label}: デフォルト",
+    count: "プロバイダーごとの枚数",
+    negativePrompt: "ネガティブプロンプト（任意）",
+    seed: "シード（任意）",
+  },
+  poster: {
+    layout: "レイアウト",
+    aspectRatio: "アスペクト比",
+    headline: "見出し（任意）",
+    rendering: "作成中...",
+    download: "ポスターをダウンロード",
+    defaultHeadline: "{issue}が{city}を変えている",
+    layouts: {
+      overlay: "オーバーレイ",
+      stacked: "スタック",
+      framed: "フレーム",
+    },
+    aspects: {
+      square: "正方形 (1:1)",
+      story: "ストーリー (4:5)",
+      banner: "バナー (16:9)",
+    },
+  },
+  mask: {
+    imageAlt: "編集中の画像",
+    brush: "ブラシ",
+    clear: "クリア",
+    instruction: "何を変えますか？ 例: 通りに洪水の水を加える",
+    apply: "編集を適用",
+    paintFirst: "変更したい部分を塗ってください",
+  },
+  comparison: {
+    today: "現在",
+    future: "2050年",
+    slider: "{today} / {future} の比較",
+    formats: {
+      "side-by-side": "横並び",
+      gif: "アニメーション GIF",
+    },
+  },
+  facts: {
+    title: "気候データ",
+    include: "プロンプトに気候データを加える",
+    source: "出典: {citation}",
+    indicators: {
+      "sea-level-projection": "海面上昇の予測",
+      "heat-days": "暑い日の日数",
+      "aqi-average": "大気汚染",
+      "flood-frequency": "水害の頻度",
+    },
+    statements: {
+      "sea-level-projection": "{city}周辺の海面は{period}年までに約{value}{unit}上昇すると予測されています（{qualifier}）。",
+      "heat-days": "{city}では{qualifier}以上の日が年間約{value}日あります（{period}）。",
+      "aqi-average": "{city}の大気汚染の平均値は{value} {unit}です（{period}）。",
+      "flood-frequency": "{city}の{measure}は年間平均約{value}です（{period}）。",
+    },
+    measures: {
+      "high-tide-flood-days": "高潮による浸水日数",
+      "barrier-closures": "テムズ・バリアの閉鎖回数",
+      "typhoon-approaches": "台風の接近数",
+      "extreme-rain-days": "記録的な豪雨の日数",
+    },
+  },
+  batch: {
+    title: "一括キャンペーン",
+    back: "ジェネレーターに戻る",
+    cities: "都市",
+    issues: "問題",
+    allIssues: "何も選ばない場合は、各都市のすべての問題が対象になります。",
+    templates: "スタイル",
+    includeFacts: "各プロンプトに気候データを加える",
+    summary: "{cells} 通りの組み合わせ × {providers} プロバイダー",
+    start: "一括生成を開始",
+    starting: "開始中...",
+    progress: "{total} 件中 {done} 件完了",
+    failed: "失敗 {count} 件",
+    download: "ZIP をダウンロード",
+    statuses: {
+      queued: "待機中",
+      running: "実行中",
+      succeeded: "完了",
+      failed: "失敗",
+    },
+  },
+  admin: {
+    title: "管理ダッシュボード",
+    back: "ジェネレーターに戻る",
+    ranges: {
+      "24h": "過去 24 時間",
+      "7d": "過去 7 日間",
+      "30d": "過去 30 日間",
+    },
+    requests: "リクエスト",
+    failureRate: "失敗率",
+    images: "画像",
+    spend: "推定コスト",
+    latency: "p95 レイテンシ",
+    avgLatency: "平均レイテンシ",
+    cachedCount: "キャッシュから {count} 件",
+    health: "プロバイダーの状態",
+    provider: "プロバイダー",
+    status: "状態",
+    reachable: "接続可能",
+    unreachable: "接続不可",
+    circuit: {
+      open: "失敗が続いたため一時停止中",
+      half_open: "試行呼び出し待ち",
+    },
+    notConfigured: "未設定",
+    checkedAt: "{time} に確認",
+    overall: {
+      ok: "設定済みのすべてのプロバイダーに接続できます",
+      degraded: "一部のプロバイダーに接続できません",
+      down: "設定済みのプロバイダーに接続できません",
+    },
+    volumeChart: "プロバイダー別リクエスト数",
+    failureChart: "プロバイダー別失敗率",
+    spendChart: "プロバイダー別推定コスト",
+    byProvider: "プロバイダー別",
+    recentFailures: "最近の失敗",
+    noData: "この期間のリクエストはありません。",
+    costNote: "コストはモデル・サイズ・品質ごとの定価から推定しています。",
+  },
+  imageErrors: {
+    failed: "{provider} はこの画像を作成できませんでした",
+    auth: "プロバイダーが認証情報を拒否しました。管理者が API キーを確認する必要があります。",
+    rate_limited: "プロバイダーへのリクエストが多すぎます。1 分後にもう一度お試しください。",
+    content_policy: "プロバイダーのコンテンツポリシーによりこの画像はブロックされました。別の表現をお試しください。",
+    invalid_request: "プロバイダーはこれらのオプションを処理できませんでした。",
+    transient: "プロバイダーで一時的な問題が発生しました。もう一度お試しください。",
+    circuit_open: "失敗が続いたため、プロバイダーは一時停止中です。しばらくしてからお試しください。",
+    unknown: "プロバイダーで問題が発生しました。",
+    storage_failed: "画像は作成されましたが、保存できませんでした。",
+  },
+  notifications: {
+    title: "通知",
+    open: "通知を表示",
+    close: "通知を閉じる",
+    empty: "通知はまだありません。",
+    clear: "クリア",
+    retry: "もう一度生成",
+    viewInGallery: "ギャラリーで見る",
+    undo: "削除を取り消す",
+    deleted: "画像を削除しました。",
+    restored: "画像を復元しました。",
+    deleteFailed: "画像を削除できませんでした。",
+    deleteForbidden: "この画像を削除できるのは生成した本人だけです。",
+    restoreFailed: "画像を復元できませんでした。",
+  },
+  locations: {
+    search: "都市を検索",
+    noMatches: "一致する都市がありません。",
+    curated: "厳選",
+    showMap: "地図から選ぶ",
+    map: "選択できる都市の世界地図",
+    mapHint: "地図をクリックすると最寄りの都市を選択します。",
+    loadFailed: "その都市を読み込めませんでした。",
+    inferred: "{zone}気候から推定した課題です。",
+    inferredCoastal: "{zone}気候と沿岸部であることから推定した課題です。",
+    zones: {
+      tropical: "熱帯",
+      arid: "乾燥帯",
+      temperate: "温帯",
+      continental: "大陸性",
+      polar: "寒帯",
+    },
+  },
+  export: {
+    title: "保存オプション",
+    format: "形式",
+    size: "サイズ",
+    original: "元のサイズ",
+    width: "幅 {width} px",
+    quality: "品質 {quality}",
+    download: "{format} をダウンロード",
+    metadataNote: "ファイルには都市、課題、AI モデル、プロンプト、作成日が記録されます。",
+    label: "「AI 生成イラスト」ラベルを付ける",
+  },
+  provenance: {
+    label: "AI 生成イラスト",
+    verifyLink: "画像を検証",
+  },
+  verify: {
+    title: "画像を検証",
+    intro:
+      "画像をアップロードして、GreenGitch が生成したものか確認できます。再エンコードやリサイズされたコピーも不可視の透かしで識別できますが、切り抜かれた画像は識別できません。",
+    choose: "画像を選択",
+    checking: "確認中...",
+    verified: "GreenGitch が生成した画像です",
+    notFound: "GreenGitch の記録は見つかりませんでした",
+    notFoundHint: "この画像は GreenGitch が生成したどの画像とも一致しません。切り抜きや大幅な編集をされたか、別の場所で作られた可能性があります。",
+    invalidSignature: "記録は見つかりましたが、署名が無効です。未検証として扱ってください。",
+    matchExact: "完全一致：ファイルは変更されていません。",
+    matchWatermark: "透かしで一致：ファイルはその後再エンコードまたはリサイズされています。",
+    place: "テーマ",
+    provider: "AI プロバイダー",
+    prompt: "プロンプト",
+    created: "作成日",
+    viewOriginal: "元の画像を見る",
+    manifest: "署名付きマニフェスト",
+    failed: "画像を確認できませんでした。",
+    back: "ジェネレーターに戻る",
+  },
+  gallery: {
+    title: "ギャラリー",
+    back: "ジェネレーターに戻る",
+    city: "都市",
+    allCities: "すべての都市",
+    issue: "問題",
+    allIssues: "すべての問題",
+    provider: "プロバイダー",
+    allProviders: "すべてのプロバイダー",
+    empty: "この条件に一致する画像はまだありません。",
+    previous: "前へ",
+    next: "次へ",
+    page: "{page} / {totalPages} ページ",
+  },
+  permalink: {
+    caption: "{city}の{issue}",
+    description: "{city}における{issue}の影響を描いた気候変動啓発画像。GreenGitch で生成。",
+    generatedBy: "{provider} により {date} に生成",
+    createYourOwn: "自分の啓発画像を作成する",
+    notFound: "画像が見つかりません",
+  },
+  catalog: {
+    cities: {
+      "new-york": { name: "ニューヨーク", country: "アメリカ合衆国" },
+      london: { name: "ロンドン", country: "イギリス" },
+      tokyo: { name: "東京", country: "日本" },
+      mumbai: { name: "ムンバイ", country: "インド" },
+    },
+    issues: {
+      "sea-level-rise": "海面上昇",
+      "urban-heat-island": "ヒートアイランド現象",
+      "air-pollution": "大気汚染",
+      flooding: "洪水",
+      "air-quality": "大気質",
+      "heat-waves": "熱波",
+      typhoons: "台風",
+      "urban-flooding": "都市型水害",
+      "heat-stress": "暑熱ストレス",
+      "monsoon-flooding": "モンスーンによる洪水",
+      "coastal-erosion": "海岸侵食",
+      "tropical-cyclones": "熱帯低気圧",
+      drought: "干ばつ",
+      wildfires: "山火事",
+      "water-scarcity": "水不足",
+      "dust-storms": "砂塵嵐",
+      "permafrost-thaw": "永久凍土の融解",
+      "sea-ice-loss": "海氷の減少",
+    },
+    descriptions: {
+      "new-york/sea-level-rise": "潮位の上昇と高潮が、ロウアー・マンハッタン、ブルックリン、クイーンズの低地の海岸を脅かしています。",
+      "new-york/urban-heat-island": "密集したアスファルトとコンクリートにより、市街地は周辺より数度高い気温が続きます。",
+      "new-york/air-pollution": "交通や山火事の煙により、微小粒子状物質が健康指針を超える日があります。",
+      "london/flooding": "テムズ川の高潮と集中豪雨による鉄砲水が排水能力を超えています。",
+      "london/air-quality": "交通量の多い道路では、自動車由来の二酸化窒素がたびたび法定基準を超えています。",
+      "london/heat-waves": "40°Cを超える記録的な高温が、交通・住宅・医療に負担をかけています。",
+      "tokyo/typhoons": "勢力を増した台風が、東京湾に猛烈な風と高潮をもたらします。",
+      "tokyo/urban-flooding": "ゲリラ豪雨が地下の排水路の処理能力を上回ります。",
+      "tokyo/heat-stress": "高温多湿の夏により、熱中症による入院が増えています。",
+      "mumbai/monsoon-flooding": "記録的なモンスーンの豪雨と満潮が重なり、低地の住宅地が浸水します。",
+      "mumbai/coastal-erosion": "海面上昇と埋め立てにより、砂浜や沿岸の集落が削られています。",
+      "mumbai/air-pollution": "工事の粉じんや車の排気ガスが、冬に危険なスモッグを生み出します。",
+    },
+    generic: {
+      "sea-level-rise": "海面上昇と高潮が低地の沿岸地区を脅かしています。",
+      "coastal-erosion": "海面上昇と強まる波が砂浜や海岸線を削っています。",
+      "tropical-cyclones": "勢力を増した熱帯低気圧が暴風、豪雨、高潮をもたらします。",
+      flooding: "激しさを増す豪雨が河川や排水設備をあふれさせ、道路や住宅を浸水させます。",
+      "heat-waves": "長く厳しくなる熱波が医療、電力、水の供給を圧迫します。",
+      "heat-stress": "気温と湿度の上昇で、屋外作業の安全限界を超える日が増えています。",
+      drought: "長引く乾燥で貯水池が縮小し、周辺の農作物が被害を受けています。",
+      wildfires: "暑く乾燥した夏が続き、市の周辺で山火事の季節が長くなっています。",
+      "water-scarcity": "地下水位の低下と需要の増加で、蛇口から水が出なくなっています。",
+      "dust-storms": "乾燥した土壌が、より頻繁で激しい砂塵嵐を引き起こしています。",
+      "permafrost-thaw": "地盤の融解で道路、パイプライン、建物の基礎がゆがんでいます。",
+      "sea-ice-loss": "海氷の減少で海岸が嵐にさらされ、氷上の移動ができなくなっています。",
+      "urban-heat-island": "密集したコンクリートとアスファルトで、市街地は周辺より数度高温になっています。",
+      "air-pollution": "交通、産業、煙により微小粒子状物質が健康上の基準を超えています。",
+    },
+  },
+}
+
+export default ja
@@ -0,0 +1,38 @@
+import { DEFAULT_LOCALE, isLocale, LOCALE_COOKIE, locales, type Locale } from "./config"
+
+// Picks the best supported locale from an Accept-Language header such as
+// "hi-IN,hi;q=0.9,en;q=0.8". Region subtags fall back to their language.
+export function negotiateLocale(acceptLanguage: string | null | undefined): Locale {
+  if (!acceptLanguage) return DEFAULT_LOCALE
+
+  const ranges = acceptLanguage
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";")
+      const q = params.find((param) => param.trim().startsWith("q="))
+      return { tag: tag.toLowerCase(), quality: q ? Number(q.trim().slice(2)) : 1 }
+    })
+    .filter(({ tag, quality }) => tag && Number.isFinite(quality) && quality > 0)
+    .sort((a, b) => b.quality - a.quality)
+
+  for (const { tag } of ranges) {
+    const language = tag.split("-")[0]
+    const match = locales.find((locale) => locale === tag || locale === language)
+    if (match) return match
+  }
+  return DEFAULT_LOCALE
+}
+
+function readCookie(cookieHeader: string | null, name: string) {
+  for (const part of (cookieHeader || "").split(";")) {
+    const [key, ...value] = part.trim().split("=")
+    if (key === name) return decodeURIComponent(value.join("="))
+  }
+  return undefined
+}
+
+// For route handlers: the switcher's cookie wins, then Accept-Language
+export function localeFromRequest(request: Request): Locale {
+  const cookie = readCookie(request.headers.get("cookie"), LOCALE_COOKIE)
+  return isLocale(cookie) ? cookie : negotiateLocale(request.headers.get("accept-language"))
+}
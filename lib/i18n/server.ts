@@ -0,0 +1,9 @@
+import { cookies, headers } from "next/headers"
+import { isLocale, LOCALE_COOKIE, type Locale } from "./config"
+import { negotiateLocale } from "./negotiate"
+
+// For server components, which don't get a Request object
+export function getRequestLocale(): Locale {
+  const cookie = cookies().get(LOCALE_COOKIE)?.value
+  return isLocale(cookie) ? cookie : negotiateLocale(headers().get("accept-language"))
+}
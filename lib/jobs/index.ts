@@ -0,0 +1,101 @@
+import { randomUUID } from "crypto"
+import { EventEmitter } from "events"
+import type { GeneratedImage } from "@/lib/providers/types"
+
+export type GenerationMode = "single" | "comparison"
+
+export type ProviderJobStatus = "pending" | "succeeded" | "failed"
+
+export interface ProviderJobState {
+  providerId: string
+  provider: string
+  status: ProviderJobStatus
+  images: GeneratedImage[]
+}
+
+export interface GenerationJob {
+  id: string
+  status: "running" | "completed"
+  mode: GenerationMode
+  cityId: string
+  issueId: string
+  prompt: string
+  // Comparison jobs have a linked prompt per phase; prompt holds the future one
+  prompts?: { today: string; future: string }
+  template: { id: string; version: number }
+  providers: ProviderJobState[]
+  createdAt: string
+  completedAt?: string
+}
+
+export type NewJob = Pick<GenerationJob, "mode" | "cityId" | "issueId" | "prompt" | "prompts" | "template"> & {
+  providers: { id: string; name: string }[]
+}
+
+export type JobEvent =
+  | { type: "provider"; job: GenerationJob; providerId: string }
+  | { type: "completed"; job: GenerationJob }
+
+// Completed jobs are only kept around long enough for clients to collect them
+const JOB_TTL_MS = 60 * 60 * 1000
+
+interface JobRegistry {
+  jobs: Map<string, GenerationJob>
+  events: EventEmitter
+}
+
+// Kept on globalThis so dev-mode module reloads don't orphan running jobs
+const globalForJobs = globalThis as unknown as { generationJobs?: JobRegistry }
+const registry: JobRegistry = (globalForJobs.generationJobs ??= {
+  jobs: new Map(),
+  events: new EventEmitter().setMaxListeners(0),
+})
+
+function emit(event: JobEvent) {
+  registry.events.emit(event.job.id, event)
+}
+
+export function createJob({ providers, ...job }: NewJob): GenerationJob {
+  const created: GenerationJob = {
+    ...job,
+    id: randomUUID(),
+    status: "running",
+    providers: providers.map((provider) => ({
+      providerId: provider.id,
+      provider: provider.name,
+      status: "pending",
+      images: [],
+    })),
+    createdAt: new Date().toISOString(),
+  }
+  registry.jobs.set(created.id, created)
+  return created
+}
+
+export function getJob(id: string) {
+  return registry.jobs.get(id)
+}
+
+export function completeProvider(jobId: string, providerId: string, images: GeneratedImage[]) {
+  const job = registry.jobs.get(jobId)
+  const state = job?.providers.find((provider) => provider.providerId === providerId)
+  if (!job || !state) return
+
+  state.status = images.some((image) => !image.error) ? "succeeded" : "failed"
+  state.images = images
+  emit({ type: "provider", job, providerId })
+
+  if (job.providers.every((provider) => provider.status !== "pending")) {
+    job.status = "completed"
+    job.completedAt = new Date().toISOString()
+    emit({ type: "completed", job })
+    setTimeout(() => registry.jobs.delete(jobId), JOB_TTL_MS).unref?.()
+  }
+}
+
+export function subscribe(jobId: string, listener: (event: JobEvent) => void) {
+  registry.events.on(jobId, listener)
+  return () => {
+    registry.events.off(jobId, listener)
+  }
+}
@@ -0,0 +1,261 @@
+// Köppen main climate groups, which are enough to tell which hazards a place
+// is exposed to
+export type ClimateZone = "tropical" | "arid" | "temperate" | "continental" | "polar"
+
+export interface GazetteerEntry {
+  id: string
+  name: string
+  country: string
+  coordinates: { lat: number; lng: number }
+  // Urban area, rounded
+  population: number
+  climateZone: ClimateZone
+  // On a sea or ocean coast; river and lake cities are not coastal
+  coastal: boolean
+}
+
+type Row = [name: string, country: string, lat: number, lng: number, population: number, zone: ClimateZone, coastal: boolean]
+
+// Ids are the slugged names; the curated cities in lib/catalog use the same
+// ids, so their entries here resolve to the curated versions
+const rows: Row[] = [
+  // North America and the Caribbean
+  ["New York", "United States", 40.7128, -74.006, 18800000, "temperate", true],
+  ["Los Angeles", "United States", 34.0522, -118.2437, 12500000, "temperate", true],
+  ["Chicago", "United States", 41.8781, -87.6298, 8900000, "continental", false],
+  ["Houston", "United States", 29.7604, -95.3698, 6300000, "temperate", true],
+  ["Phoenix", "United States", 33.4484, -112.074, 4800000, "arid", false],
+  ["Philadelphia", "United States", 39.9526, -75.1652, 5700000, "temperate", false],
+  ["San Antonio", "United States", 29.4241, -98.4936, 2500000, "temperate", false],
+  ["San Diego", "United States", 32.7157, -117.1611, 3300000, "arid", true],
+  ["Dallas", "United States", 32.7767, -96.797, 6500000, "temperate", false],
+  ["San Francisco", "United States", 37.7749, -122.4194, 4700000, "temperate", true],
+  ["Seattle", "United States", 47.6062, -122.3321, 4000000, "temperate", true],
+  ["Miami", "United States", 25.7617, -80.1918, 6100000, "tropical", true],
+  ["Atlanta", "United States", 33.749, -84.388, 6100000, "temperate", false],
+  ["Boston", "United States", 42.3601, -71.0589, 4900000, "continental", true],
+  ["Denver", "United States", 39.7392, -104.9903, 2900000, "arid", false],
+  ["Las Vegas", "United States", 36.1699, -115.1398, 2300000, "arid", false],
+  ["New Orleans", "United States", 29.9511, -90.0715, 1300000, "temperate", true],
+  ["Washington", "United States", 38.9072, -77.0369, 6300000, "temperate", false],
+  ["Anchorage", "United States", 61.2181, -149.9003, 290000, "continental", true],
+  ["Fairbanks", "United States", 64.8378, -147.7164, 32000, "continental", false],
+  ["Utqiagvik", "United States", 71.2906, -156.7886, 4900, "polar", true],
+  ["Honolulu", "United States", 21.3069, -157.8583, 1000000, "tropical", true],
+  ["Toronto", "Canada", 43.6532, -79.3832, 6200000, "continental", false],
+  ["Montreal", "Canada", 45.5017, -73.5673, 4300000, "continental", false],
+  ["Vancouver", "Canada", 49.2827, -123.1207, 2600000, "temperate", true],
+  ["Calgary", "Canada", 51.0447, -114.0719, 1500000, "continental", false],
+  ["Yellowknife", "Canada", 62.454, -114.3718, 20000, "continental", false],
+  ["Iqaluit", "Canada", 63.7467, -68.517, 7700, "polar", true],
+  ["Nuuk", "Greenland", 64.1814, -51.6941, 19000, "polar", true],
+  ["Mexico City", "Mexico", 19.4326, -99.1332, 21800000, "temperate", false],
+  ["Guadalajara", "Mexico", 20.6597, -103.3496, 5200000, "temperate", false],
+  ["Monterrey", "Mexico", 25.6866, -100.3161, 5300000, "arid", false],
+  ["Cancún", "Mexico", 21.1619, -86.8515, 900000, "tropical", true],
+  ["Guatemala City", "Guatemala", 14.6349, -90.5069, 3000000, "temperate", false],
+  ["Panama City", "Panama", 8.9824, -79.5199, 1900000, "tropical", true],
+  ["Havana", "Cuba", 23.1136, -82.3666, 2100000, "tropical", true],
+  ["Santo Domingo", "Dominican Republic", 18.4861, -69.9312, 3500000, "tropical", true],
+  ["Port-au-Prince", "Haiti", 18.5944, -72.3074, 2800000, "tropical", true],
+  ["Kingston", "Jamaica", 17.9712, -76.7936, 1200000, "tropical", true],
+  ["San Juan", "Puerto Rico", 18.4655, -66.1057, 2300000, "tropical", true],
+
+  // South America
+  ["São Paulo", "Brazil", -23.5505, -46.6333, 22400000, "temperate", false],
+  ["Rio de Janeiro", "Brazil", -22.9068, -43.1729, 13600000, "tropical", true],
+  ["Brasília", "Brazil", -15.7939, -47.8828, 4800000, "tropical", false],
+  ["Salvador", "Brazil", -12.9777, -38.5016, 3900000, "tropical", true],
+  ["Recife", "Brazil", -8.0476, -34.877, 4100000, "tropical", true],
+  ["Fortaleza", "Brazil", -3.7319, -38.5267, 4100000, "tropical", true],
+  ["Manaus", "Brazil", -3.119, -60.0217, 2300000, "tropical", false],
+  ["Porto Alegre", "Brazil", -30.0346, -51.2177, 4300000, "temperate", false],
+  ["Buenos Aires", "Argentina", -34.6037, -58.3816, 15500000, "temperate", true],
+  ["Córdoba", "Argentina", -31.4201, -64.1888, 1600000, "temperate", false],
+  ["Ushuaia", "Argentina", -54.8019, -68.303, 80000, "temperate", true],
+  ["Santiago", "Chile", -33.4489, -70.6693, 6900000, "temperate", false],
+  ["Valparaíso", "Chile", -33.0472, -71.6127, 1000000, "temperate", true],
+  ["Lima", "Peru", -12.0464, -77.0428, 11200000, "arid", true],
+  ["Bogotá", "Colombia", 4.711, -74.0721, 11300000, "temperate", false],
+  ["Medellín", "Colombia", 6.2442, -75.5812, 4100000, "tropical", false],
+  ["Cartagena", "Colombia", 10.391, -75.4794, 1100000, "tropical", true],
+  ["Quito", "Ecuador", -0.1807, -78.4678, 2000000, "temperate", false],
+  ["Guayaquil", "Ecuador", -2.1894, -79.8891, 3100000, "tropical", true],
+  ["Caracas", "Venezuela", 10.4806, -66.9036, 2900000, "tropical", false],
+  ["La Paz", "Bolivia", -16.4897, -68.1193, 1900000, "temperate", false],
+  ["Montevideo", "Uruguay", -34.9011, -56.1645, 1800000, "temperate", true],
+  ["Asunción", "Paraguay", -25.2637, -57.5759, 3200000, "temperate", false],
+
+  // Europe
+  ["London", "United Kingdom", 51.5074, -0.1278, 14800000, "temperate", false],
+  ["Manchester", "United Kingdom", 53.4808, -2.2426, 2800000, "temperate", false],
+  ["Edinburgh", "United Kingdom", 55.9533, -3.1883, 900000, "temperate", true],
+  ["Dublin", "Ireland", 53.3498, -6.2603, 2000000, "temperate", true],
+  ["Reykjavík", "Iceland", 64.1466, -21.9426, 240000, "temperate", true],
+  ["Paris", "France", 48.8566, 2.3522, 12300000, "temperate", false],
+  ["Lyon", "France", 45.764, 4.8357, 2300000, "temperate", false],
+  ["Marseille", "France", 43.2965, 5.3698, 1900000, "temperate", true],
+  ["Madrid", "Spain", 40.4168, -3.7038, 6700000, "temperate", false],
+  ["Barcelona", "Spain", 41.3874, 2.1686, 5600000, "temperate", true],
+  ["Seville", "Spain", 37.3891, -5.9845, 1500000, "temperate", false],
+  ["Valencia", "Spain", 39.4699, -0.3763, 1600000, "arid", true],
+  ["Lisbon", "Portugal", 38.7223, -9.1393, 2900000, "temperate", true],
+  ["Rome", "Italy", 41.9028, 12.4964, 4300000, "temperate", false],
+  ["Milan", "Italy", 45.4642, 9.19, 4300000, "temperate", false],
+  ["Naples", "Italy", 40.8518, 14.2681, 3100000, "temperate", true],
+  ["Venice", "Italy", 45.4408, 12.3155, 260000, "temperate", true],
+  ["Athens", "Greece", 37.9838, 23.7275, 3600000, "temperate", true],
+  ["Berlin", "Germany", 52.52, 13.405, 4500000, "temperate", false],
+  ["Hamburg", "Germany", 53.5511, 9.9937, 3300000, "temperate", false],
+  ["Munich", "Germany", 48.1351, 11.582, 2900000, "temperate", false],
+  ["Amsterdam", "Netherlands", 52.3676, 4.9041, 2500000, "temperate", true],
+  ["Rotterdam", "Netherlands", 51.9244, 4.4777, 1800000, "temperate", true],
+  ["Brussels", "Belgium", 50.8503, 4.3517, 2100000, "temperate", false],
+  ["Copenhagen", "Denmark", 55.6761, 12.5683, 2100000, "temperate", true],
+  ["Stockholm", "Sweden", 59.3293, 18.0686, 2400000, "continental", true],
+  ["Oslo", "Norway", 59.9139, 10.7522, 1600000, "continental", true],
+  ["Tromsø", "Norway", 69.6492, 18.9553, 77000, "continental", true],
+  ["Longyearbyen", "Norway", 78.2232, 15.6267, 2500, "polar", true],
+  ["Helsinki", "Finland", 60.1699, 24.9384, 1500000, "continental", true],
+  ["Vienna", "Austria", 48.2082, 16.3738, 2900000, "temperate", false],
+  ["Zurich", "Switzerland", 47.3769, 8.5417, 1400000, "temperate", false],
+  ["Prague", "Czechia", 50.0755, 14.4378, 2200000, "temperate", false],
+  ["Warsaw", "Poland", 52.2297, 21.0122, 3100000, "continental", false],
+  ["Budapest", "Hungary", 47.4979, 19.0402, 3000000, "continental", false],
+  ["Bucharest", "Romania", 44.4268, 26.1025, 2300000, "continental", false],
+  ["Belgrade", "Serbia", 44.7866, 20.4489, 1700000, "temperate", false],
+  ["Kyiv", "Ukraine", 50.4501, 30.5234, 3500000, "continental", false],
+  ["Moscow", "Russia", 55.7558, 37.6173, 17100000, "continental", false],
+  ["Saint Petersburg", "Russia", 59.9311, 30.3609, 5600000, "continental", true],
+  ["Murmansk", "Russia", 68.9585, 33.0827, 270000, "continental", true],
+  ["Istanbul", "Turkey", 41.0082, 28.9784, 15600000, "temperate", true],
+  ["Ankara", "Turkey", 39.9334, 32.8597, 5700000, "arid", false],
+
+  // Africa
+  ["Cairo", "Egypt", 30.0444, 31.2357, 22000000, "arid", false],
+  ["Alexandria", "Egypt", 31.2001, 29.9187, 5500000, "arid", true],
+  ["Casablanca", "Morocco", 33.5731, -7.5898, 3800000, "temperate", true],
+  ["Marrakesh", "Morocco", 31.6295, -7.9811, 1000000, "arid", false],
+  ["Algiers", "Algeria", 36.7538, 3.0588, 3000000, "temperate", true],
+  ["Tunis", "Tunisia", 36.8065, 10.1815, 2700000, "temperate", true],
+  ["Khartoum", "Sudan", 15.5007, 32.5599, 6300000, "arid", false],
+  ["Niamey", "Niger", 13.5116, 2.1254, 1400000, "arid", false],
+  ["Dakar", "Senegal", 14.7167, -17.4677, 3300000, "arid", true],
+  ["Abidjan", "Côte d'Ivoire", 5.36, -4.0083, 5600000, "tropical", true],
+  ["Accra", "Ghana", 5.6037, -0.187, 2600000, "tropical", true],
+  ["Lagos", "Nigeria", 6.5244, 3.3792, 15900000, "tropical", true],
+  ["Abuja", "Nigeria", 9.0765, 7.3986, 3800000, "tropical", false],
+  ["Kinshasa", "DR Congo", -4.4419, 15.2663, 17000000, "tropical", false],
+  ["Luanda", "Angola", -8.839, 13.2894, 9300000, "arid", true],
+  ["Addis Ababa", "Ethiopia", 9.03, 38.74, 5500000, "temperate", false],
+  ["Kampala", "Uganda", 0.3476, 32.5825, 3800000, "tropical", false],
+  ["Nairobi", "Kenya", -1.2921, 36.8219, 5100000, "temperate", false],
+  ["Mombasa", "Kenya", -4.0435, 39.6682, 1300000, "tropical", true],
+  ["Dar es Salaam", "Tanzania", -6.7924, 39.2083, 7400000, "tropical", true],
+  ["Maputo", "Mozambique", -25.9692, 32.5732, 1800000, "tropical", true],
+  ["Antananarivo", "Madagascar", -18.8792, 47.5079, 3800000, "temperate", false],
+  ["Harare", "Zimbabwe", -17.8252, 31.0335, 2200000, "temperate", false],
+  ["Windhoek", "Namibia", -22.5609, 17.0658, 450000, "arid", false],
+  ["Johannesburg", "South Africa", -26.2041, 28.0473, 6200000, "temperate", false],
+  ["Durban", "South Africa", -29.8587, 31.0218, 3900000, "temperate", true],
+  ["Cape Town", "South Africa", -33.9249, 18.4241, 4800000, "temperate", true],
+
+  // Middle East and Central Asia
+  ["Tel Aviv", "Israel", 32.0853, 34.7818, 4200000, "temperate", true],
+  ["Beirut", "Lebanon", 33.8938, 35.5018, 2400000, "temperate", true],
+  ["Amman", "Jordan", 31.9454, 35.9284, 2200000, "arid", false],
+  ["Baghdad", "Iraq", 33.3152, 44.3661, 7700000, "arid", false],
+  ["Tehran", "Iran", 35.6892, 51.389, 9500000, "arid", false],
+  ["Riyadh", "Saudi Arabia", 24.7136, 46.6753, 7700000, "arid", false],
+  ["Jeddah", "Saudi Arabia", 21.4858, 39.1925, 4700000, "arid", true],
+  ["Kuwait City", "Kuwait", 29.3759, 47.9774, 3200000, "arid", true],
+  ["Doha", "Qatar", 25.2854, 51.531, 2400000, "arid", true],
+  ["Dubai", "United Arab Emirates", 25.2048, 55.2708, 3600000, "arid", true],
+  ["Muscat", "Oman", 23.588, 58.3829, 1600000, "arid", true],
+  ["Kabul", "Afghanistan", 34.5553, 69.2075, 4600000, "arid", false],
+
+  // South Asia
+  ["Mumbai", "India", 19.076, 72.8777, 21700000, "tropical", true],
+  ["Delhi", "India", 28.7041, 77.1025, 32900000, "temperate", false],
+  ["Kolkata", "India", 22.5726, 88.3639, 15300000, "tropical", false],
+  ["Chennai", "India", 13.0827, 80.2707, 11800000, "tropical", true],
+  ["Bengaluru", "India", 12.9716, 77.5946, 13600000, "tropical", false],
+  ["Hyderabad", "India", 17.385, 78.4867, 10800000, "arid", false],
+  ["Ahmedabad", "India", 23.0225, 72.5714, 8600000, "arid", false],
+  ["Pune", "India", 18.5204, 73.8567, 7100000, "tropical", false],
+  ["Jaipur", "India", 26.9124, 75.7873, 4100000, "arid", false],
+  ["Kochi", "India", 9.9312, 76.2673, 2200000, "tropical", true],
+  ["Karachi", "Pakistan", 24.8607, 67.0011, 17200000, "arid", true],
+  ["Lahore", "Pakistan", 31.5204, 74.3587, 13500000, "arid", false],
+  ["Dhaka", "Bangladesh", 23.8103, 90.4125, 23200000, "tropical", false],
+  ["Chittagong", "Bangladesh", 22.3569, 91.7832, 5300000, "tropical", true],
+  ["Kathmandu", "Nepal", 27.7172, 85.324, 1500000, "temperate", false],
+  ["Colombo", "Sri Lanka", 6.9271, 79.8612, 2500000, "tropical", true],
+  ["Malé", "Maldives", 4.1755, 73.5093, 250000, "tropical", true],
+
+  // East and Southeast Asia
+  ["Tokyo", "Japan", 35.6762, 139.6503, 37100000, "temperate", true],
+  ["Osaka", "Japan", 34.6937, 135.5023, 19000000, "temperate", true],
+  ["Sapporo", "Japan", 43.0618, 141.3545, 2600000, "continental", true],
+  ["Seoul", "South Korea", 37.5665, 126.978, 25500000, "continental", false],
+  ["Busan", "South Korea", 35.1796, 129.0756, 3400000, "temperate", true],
+  ["Beijing", "China", 39.9042, 116.4074, 21800000, "continental", false],
+  ["Shanghai", "China", 31.2304, 121.4737, 29200000, "temperate", true],
+  ["Guangzhou", "China", 23.1291, 113.2644, 19000000, "temperate", false],
+  ["Shenzhen", "China", 22.5431, 114.0579, 17600000, "temperate", true],
+  ["Hong Kong", "China", 22.3193, 114.1694, 7500000, "temperate", true],
+  ["Chongqing", "China", 29.563, 106.5516, 17300000, "temperate", false],
+  ["Wuhan", "China", 30.5928, 114.3055, 8900000, "temperate", false],
+  ["Chengdu", "China", 30.5728, 104.0668, 9500000, "temperate", false],
+  ["Harbin", "China", 45.8038, 126.535, 6000000, "continental", false],
+  ["Ürümqi", "China", 43.8256, 87.6168, 4000000, "arid", false],
+  ["Ulaanbaatar", "Mongolia", 47.8864, 106.9057, 1600000, "continental", false],
+  ["Taipei", "Taiwan", 25.033, 121.5654, 7000000, "temperate", false],
+  ["Manila", "Philippines", 14.5995, 120.9842, 14700000, "tropical", true],
+  ["Hanoi", "Vietnam", 21.0278, 105.8342, 8400000, "temperate", false],
+  ["Ho Chi Minh City", "Vietnam", 10.8231, 106.6297, 9300000, "tropical", true],
+  ["Phnom Penh", "Cambodia", 11.5564, 104.9282, 2200000, "tropical", false],
+  ["Bangkok", "Thailand", 13.7563, 100.5018, 11200000, "tropical", true],
+  ["Yangon", "Myanmar", 16.8409, 96.1735, 5700000, "tropical", true],
+  ["Kuala Lumpur", "Malaysia", 3.139, 101.6869, 8600000, "tropical", false],
+  ["Singapore", "Singapore", 1.3521, 103.8198, 6000000, "tropical", true],
+  ["Jakarta", "Indonesia", -6.2088, 106.8456, 33400000, "tropical", true],
+  ["Surabaya", "Indonesia", -7.2575, 112.7521, 3000000, "tropical", true],
+  ["Novosibirsk", "Russia", 55.0084, 82.9357, 1600000, "continental", false],
+  ["Yakutsk", "Russia", 62.0355, 129.6755, 355000, "continental", false],
+  ["Vladivostok", "Russia", 43.1332, 131.9113, 600000, "continental", true],
+
+  // Oceania and the Pacific
+  ["Sydney", "Australia", -33.8688, 151.2093, 5300000, "temperate", true],
+  ["Melbourne", "Australia", -37.8136, 144.9631, 5200000, "temperate", true],
+  ["Brisbane", "Australia", -27.4698, 153.0251, 2600000, "temperate", true],
+  ["Perth", "Australia", -31.9505, 115.8605, 2200000, "temperate", true],
+  ["Adelaide", "Australia", -34.9285, 138.6007, 1400000, "temperate", true],
+  ["Darwin", "Australia", -12.4634, 130.8456, 150000, "tropical", true],
+  ["Alice Springs", "Australia", -23.698, 133.8807, 26000, "arid", false],
+  ["Auckland", "New Zealand", -36.8485, 174.7633, 1700000, "temperate", true],
+  ["Wellington", "New Zealand", -41.2865, 174.7762, 440000, "temperate", true],
+  ["Port Moresby", "Papua New Guinea", -9.4438, 147.1803, 400000, "tropical", true],
+  ["Suva", "Fiji", -18.1248, 178.4501, 180000, "tropical", true],
+  ["Majuro", "Marshall Islands", 7.1164, 171.1858, 30000, "tropical", true],
+  ["Funafuti", "Tuvalu", -8.5211, 179.1983, 7000, "tropical", true],
+]
+
+export function slugify(name: string) {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+}
+
+export const gazetteer: GazetteerEntry[] = rows.map(([name, country, lat, lng, population, climateZone, coastal]) => ({
+  id: slugify(name),
+  name,
+  country,
+  coordinates: { lat, lng },
+  population,
+  climateZone,
+  coastal,
+}))
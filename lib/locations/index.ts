@@ -0,0 +1,24 @@
+import type { City } from "@/lib/catalog/data"
+import { gazetteer, type ClimateZone, type GazetteerEntry } from "./gazetteer"
+import { GENERIC_ISSUE_IDS, inferIssues } from "./issues"
+import { distanceKm, nearestLocations, normalizeName, searchLocations, type LocationMatch } from "./search"
+
+export { distanceKm, GENERIC_ISSUE_IDS, inferIssues, nearestLocations, normalizeName, searchLocations }
+export type { ClimateZone, GazetteerEntry, LocationMatch }
+
+export function findLocation(locationId: string) {
+  return gazetteer.find((entry) => entry.id === locationId)
+}
+
+// A gazetteer city in the catalog's shape, with issues inferred from its
+// climate. There are no landmarks to suggest for it.
+export function locationCity(entry: GazetteerEntry): City {
+  return {
+    id: entry.id,
+    name: entry.name,
+    country: entry.country,
+    coordinates: entry.coordinates,
+    landmarks: [],
+    issues: inferIssues(entry),
+  }
+}
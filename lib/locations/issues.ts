@@ -0,0 +1,142 @@
+import type { ClimateIssue, IssueSeverity } from "@/lib/catalog/data"
+import type { GazetteerEntry } from "./gazetteer"
+
+// Generic issues for cities outside the curated catalog. Where an issue also
+// appears there it keeps the same id, so its translations and facts carry over.
+const GENERIC_ISSUES = {
+  "sea-level-rise": {
+    name: "Sea Level Rise",
+    description: "Higher seas and storm surge threaten low-lying coastal districts.",
+    promptHint: "seawater flooding low-lying streets, storm surge against the seafront",
+  },
+  "coastal-erosion": {
+    name: "Coastal Erosion",
+    description: "Rising seas and stronger waves wear away beaches and the coastline.",
+    promptHint: "waves eating into the shoreline, damaged seawalls and beachfront homes",
+  },
+  "tropical-cyclones": {
+    name: "Tropical Cyclones",
+    description: "Stronger cyclones bring destructive winds, torrential rain and storm surge.",
+    promptHint: "violent cyclone winds, torrential rain, waves crashing over the seafront",
+  },
+  flooding: {
+    name: "Flooding",
+    description: "Heavier downpours overwhelm rivers and drainage, flooding streets and homes.",
+    promptHint: "flooded streets and homes after torrential rain, overflowing drains",
+  },
+  "heat-waves": {
+    name: "Heat Waves",
+    description: "Longer, hotter heat waves strain health services, power and water supplies.",
+    promptHint: "scorching sun, heat haze over the streets, people sheltering in the shade",
+  },
+  "heat-stress": {
+    name: "Heat Stress",
+    description: "Rising heat and humidity push more days past safe limits for outdoor work.",
+    promptHint: "oppressive humid heat, exhausted outdoor workers, people cooling off with water",
+  },
+  drought: {
+    name: "Drought",
+    description: "Longer dry spells shrink reservoirs and harm crops around the city.",
+    promptHint: "cracked dry reservoir bed, withered crops, queues for rationed water",
+  },
+  wildfires: {
+    name: "Wildfires",
+    description: "Hotter, drier summers lengthen the fire season on the city's outskirts.",
+    promptHint: "wildfire smoke filling the sky, flames on the hills at the edge of the city",
+  },
+  "water-scarcity": {
+    name: "Water Scarcity",
+    description: "Falling groundwater and rising demand leave taps running dry.",
+    promptHint: "people queuing with containers at a water tanker, dry taps",
+  },
+  "dust-storms": {
+    name: "Dust Storms",
+    description: "Drier soils feed more frequent and intense dust and sand storms.",
+    promptHint: "towering wall of dust engulfing the skyline, orange sky",
+  },
+  "permafrost-thaw": {
+    name: "Permafrost Thaw",
+    description: "Thawing ground buckles roads, pipelines and building foundations.",
+    promptHint: "buckled roads and tilting buildings on thawing ground",
+  },
+  "sea-ice-loss": {
+    name: "Sea Ice Loss",
+    description: "Shrinking sea ice leaves the coast open to storms and cuts off travel over the ice.",
+    promptHint: "open dark water where sea ice used to be, boats stranded on a thawing shore",
+  },
+  "urban-heat-island": {
+    name: "Urban Heat Island",
+    description: "Dense concrete and asphalt keep the city several degrees hotter than its surroundings.",
+    promptHint: "shimmering heat haze over asphalt and concrete, residents seeking shade",
+  },
+  "air-pollution": {
+    name: "Air Pollution",
+    description: "Traffic, industry and smoke push fine particulate levels above health guidelines.",
+    promptHint: "thick smog hiding the skyline, people wearing masks",
+  },
+} satisfies Record<string, Omit<ClimateIssue, "id" | "severity">>
+
+type GenericIssueId = keyof typeof GENERIC_ISSUES
+
+export const GENERIC_ISSUE_IDS = Object.keys(GENERIC_ISSUES) as GenericIssueId[]
+
+const SEVERITY_RANK: Record<IssueSeverity, number> = { severe: 0, high: 1, moderate: 2 }
+
+// A curated city lists three issues; inferred ones get at most this many
+const MAX_INFERRED_ISSUES = 4
+const LARGE_CITY = 1_000_000
+const MEGACITY = 5_000_000
+// Above this latitude continental climates sit on permafrost
+const SUBARCTIC_LATITUDE = 60
+
+// Plausible issues for a place from its climate zone, coast and size, most
+// severe first. These are generalisations, not local assessments.
+export function inferIssues({ climateZone, coastal, population, coordinates }: GazetteerEntry): ClimateIssue[] {
+  const found: [GenericIssueId, IssueSeverity][] = []
+  const add = (id: GenericIssueId, severity: IssueSeverity) => found.push([id, severity])
+
+  switch (climateZone) {
+    case "tropical":
+      add("flooding", "severe")
+      add("heat-stress", "high")
+      if (coastal) add("tropical-cyclones", "high")
+      break
+    case "arid":
+      add("water-scarcity", "severe")
+      add("heat-waves", "severe")
+      add("dust-storms", "high")
+      break
+    case "temperate":
+      add("heat-waves", "high")
+      add("flooding", "high")
+      add("drought", "moderate")
+      break
+    case "continental":
+      if (Math.abs(coordinates.lat) >= SUBARCTIC_LATITUDE) {
+        add("permafrost-thaw", "high")
+        add("wildfires", "high")
+      } else {
+        add("heat-waves", "high")
+        add("wildfires", "moderate")
+      }
+      add("flooding", "moderate")
+      break
+    case "polar":
+      add("permafrost-thaw", "severe")
+      if (coastal) add("sea-ice-loss", "severe")
+      break
+  }
+
+  if (coastal) {
+    add("sea-level-rise", climateZone === "tropical" || population >= MEGACITY ? "severe" : "high")
+    add("coastal-erosion", "moderate")
+  }
+  if (population >= MEGACITY) add("air-pollution", "high")
+  if (population >= LARGE_CITY) add("urban-heat-island", "moderate")
+
+  return found
+    .map(([id, severity], order) => ({ id, severity, order }))
+    .sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || a.order - b.order)
+    .slice(0, MAX_INFERRED_ISSUES)
+    .map(({ id, severity }) => ({ id, severity, ...GENERIC_ISSUES[id] }))
+}
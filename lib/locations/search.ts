@@ -0,0 +1,98 @@
+import { gazetteer, type GazetteerEntry } from "./gazetteer"
+
+export interface LocationMatch {
+  entry: GazetteerEntry
+  // Lower is better; only meaningful within one search
+  score: number
+}
+
+const EARTH_RADIUS_KM = 6371
+
+// Case, accents and punctuation don't matter: "sao paulo" finds "São Paulo"
+export function normalizeName(text: string) {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+}
+
+// Optimal string alignment distance, giving up once it exceeds `max`
+function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  let previous2: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previous2[j - 2] + 1)
+      }
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > max) return max + 1
+    previous2 = previous
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Typos allowed for a query of this length
+function tolerance(length: number) {
+  return length >= 7 ? 2 : length >= 4 ? 1 : 0
+}
+
+// Exact names first, then prefixes, then words inside the name, then the
+// name with its country ("paris france"), then near misses of the name or its
+// start ("bangkock")
+function matchScore(query: string, entry: GazetteerEntry) {
+  const name = normalizeName(entry.name)
+  if (name === query) return 0
+  if (name.startsWith(query)) return 1
+  if (name.split(" ").some((word) => word.startsWith(query))) return 2
+  if (`${name} ${normalizeName(entry.country)}`.startsWith(query)) return 3
+  if (name.includes(query)) return 4
+
+  const allowed = tolerance(query.length)
+  if (allowed === 0) return undefined
+  const distance = Math.min(
+    editDistance(query, name, allowed),
+    editDistance(query, name.slice(0, query.length), allowed),
+  )
+  return distance <= allowed ? 4 + distance : undefined
+}
+
+// Gazetteer entries matching a free-text query, best first; equally good
+// matches go to the bigger city
+export function searchLocations(query: string, limit: number): LocationMatch[] {
+  const normalized = normalizeName(query)
+  if (!normalized) return []
+
+  const matches: LocationMatch[] = []
+  for (const entry of gazetteer) {
+    const score = matchScore(normalized, entry)
+    if (score !== undefined) matches.push({ entry, score })
+  }
+  return matches.sort((a, b) => a.score - b.score || b.entry.population - a.entry.population).slice(0, limit)
+}
+
+export function distanceKm(from: { lat: number; lng: number }, to: { lat: number; lng: number }) {
+  const rad = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = rad(to.lat - from.lat)
+  const dLng = rad(to.lng - from.lng)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(from.lat)) * Math.cos(rad(to.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+// Gazetteer entries closest to a point, e.g. where the map was clicked; the
+// score is the distance in kilometres
+export function nearestLocations(point: { lat: number; lng: number }, limit: number): LocationMatch[] {
+  return gazetteer
+    .map((entry) => ({ entry, score: Math.round(distanceKm(point, entry.coordinates)) }))
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+}
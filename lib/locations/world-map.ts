@@ -0,0 +1,162 @@
+// Coarse coastlines for the picker map as [lng, lat] rings, drawn in an
+// equirectangular projection. Accurate enough to recognise the continents and
+// click near a city; not for anything that needs real borders.
+type Ring = [lng: number, lat: number][]
+
+export const MAP_WIDTH = 360
+export const MAP_HEIGHT = 180
+
+export function projectPoint(lng: number, lat: number) {
+  return { x: lng + 180, y: 90 - lat }
+}
+
+export function unprojectPoint(x: number, y: number) {
+  return { lng: Math.min(Math.max(x - 180, -180), 180), lat: Math.min(Math.max(90 - y, -90), 90) }
+}
+
+export function ringPath(ring: Ring) {
+  return ring
+    .map(([lng, lat], index) => {
+      const { x, y } = projectPoint(lng, lat)
+      return `${index === 0 ? "M" : "L"}${x.toFixed(1)} ${y.toFixed(1)}`
+    })
+    .join("") + "Z"
+}
+
+export const landmasses: Ring[] = [
+  // North and Central America
+  [
+    [-168, 66], [-162, 70], [-156, 71.3], [-141, 69.6], [-128, 70], [-115, 68.5], [-95, 72], [-82, 73], [-80, 69],
+    [-86, 66], [-94, 60], [-93, 57], [-85, 55], [-79, 52], [-78, 58], [-77, 62], [-70, 60], [-64, 60], [-61, 56],
+    [-56, 52], [-60, 47], [-66, 45], [-70, 43], [-70, 41.5], [-74, 40.5], [-76, 37], [-75.5, 35], [-81, 31], [-80, 27],
+    [-80, 25.2], [-81.8, 26], [-83, 29], [-85, 30], [-89, 30], [-94, 29.5], [-97.2, 27.5], [-97.5, 24], [-97.4, 21],
+    [-95, 18.5], [-91, 19], [-90.4, 21], [-87, 21.5], [-88, 16], [-84, 15.5], [-83.5, 11], [-81.5, 9], [-79, 9.5],
+    [-77.4, 8.7], [-78, 7.3], [-80, 7.5], [-82, 8.2], [-85.7, 10], [-86, 12], [-87.6, 13.2], [-91.4, 13.9], [-94, 16],
+    [-96.5, 15.7], [-101, 17.2], [-105.5, 20], [-105.5, 22.5], [-108, 25.5], [-112.5, 31], [-114.7, 31.7], [-112.5, 28],
+    [-110, 24], [-110, 23], [-112, 24.8], [-114.5, 27.8], [-116.8, 32], [-117.2, 32.7], [-120.6, 34.5], [-122.5, 37.5],
+    [-124, 40], [-124.5, 43], [-124, 46.5], [-124.7, 48.4], [-123, 49], [-127, 50.5], [-130, 54], [-133, 57.5],
+    [-137, 58.5], [-140, 59.8], [-146, 60.5], [-151, 59], [-154, 57.5], [-158, 56.5], [-163, 54.8], [-158.5, 58.5],
+    [-162, 59.8], [-165, 61], [-166, 63], [-161, 64.5], [-165, 64.5],
+  ],
+  // Greenland
+  [[-73, 78.5], [-66, 81], [-40, 83.5], [-20, 82], [-18, 77], [-20, 72], [-22, 70], [-32, 68], [-40, 65], [-43, 60], [-48, 61], [-52, 64], [-54, 67], [-55, 71], [-60, 76]],
+  // Baffin and Victoria islands
+  [[-80, 73.7], [-68, 70.5], [-61.5, 66.5], [-65, 62.5], [-72.5, 64], [-78, 64.5], [-81, 68], [-88, 70]],
+  [[-118, 72.5], [-102, 73], [-101, 69], [-112, 68], [-118, 69.5]],
+  // Cuba and Hispaniola
+  [[-85, 21.9], [-81.8, 22.6], [-79, 22.7], [-75.6, 21], [-74.2, 20.2], [-77.3, 19.9], [-78.5, 21.5], [-81, 21.9]],
+  [[-74.4, 18.4], [-72.8, 19.9], [-70, 19.7], [-68.4, 18.6], [-70, 18.2], [-71.4, 17.6]],
+  // South America
+  [
+    [-77.4, 8.7], [-72, 12], [-66, 10.6], [-61, 10.5], [-57, 6], [-52, 5], [-50, 1.8], [-48.5, -1], [-44.5, -2.5],
+    [-39, -3.5], [-35, -5.5], [-35, -9], [-38.5, -13], [-39, -17.5], [-40.5, -21], [-42, -23], [-45, -23.8], [-48.5, -26],
+    [-48.8, -28.5], [-51, -31], [-53.5, -34], [-55, -35], [-58, -34.5], [-57.5, -38], [-62, -39], [-62.2, -41], [-65, -41],
+    [-64, -42.5], [-65.5, -45], [-67.5, -46.5], [-65.8, -48], [-68.5, -51], [-68.4, -52.3], [-68.3, -54.9], [-71, -53.9],
+    [-74.5, -52], [-75.5, -48], [-74, -44], [-73.5, -39], [-71.5, -32], [-71.5, -28], [-70.2, -20], [-70.3, -18.3],
+    [-75, -15.5], [-77, -12], [-79.5, -7.5], [-81.2, -5.5], [-80, -2.5], [-80.4, -0.5], [-79, 1.5], [-77.5, 4],
+  ],
+  // Eurasia
+  [
+    [-9.5, 43], [-9, 39], [-8.9, 37], [-6, 36.2], [-5.3, 36], [-2, 36.7], [0, 38.7], [0.2, 40], [3.2, 41.9], [3, 43.3],
+    [4.8, 43.4], [6.5, 43.1], [8.5, 44.4], [10.5, 43], [12.5, 41.5], [15.5, 40], [16, 38], [17, 39], [18.5, 40.2],
+    [17, 41], [14, 42], [12.3, 44.5], [12.5, 45.5], [13.7, 45.6], [15, 44.5], [17.5, 43], [19.5, 41.8], [19.3, 40.5],
+    [21, 38.5], [22.5, 36.5], [23.5, 38], [24, 40], [26, 40.8], [28.9, 41], [27.5, 42.5], [28.6, 44], [29.7, 45.3],
+    [31, 46.6], [33.5, 44.5], [36, 45.3], [38.3, 47], [37.5, 44.8], [40, 43.4], [41.6, 41.6], [36, 41.3], [33, 42],
+    [29, 41.2], [26.5, 40], [26.2, 38.5], [27.3, 37], [28.3, 36.7], [30.5, 36.3], [32, 36.2], [34.5, 36.8], [36, 36.5],
+    [35.8, 35], [34.9, 32.5], [34.2, 31.3], [34.9, 29.5], [35.2, 28], [37, 25], [39, 21.5], [41, 18], [42.8, 15],
+    [43.4, 12.7], [45, 12.8], [48.5, 14], [52, 15.8], [55, 17.5], [57, 18.8], [58.5, 20.5], [59.8, 22.5], [58.5, 23.6],
+    [56.4, 24.8], [56.3, 26.3], [55.5, 25.5], [54, 24.1], [51.6, 24.3], [51.3, 26.1], [50.2, 26.2], [48.5, 28.5],
+    [48, 30], [50, 30.2], [51.5, 27.8], [54.5, 26.5], [56.5, 27.1], [58, 25.7], [61.5, 25.2], [66.5, 25.4], [67.5, 24],
+    [68.8, 22.5], [70.5, 20.8], [72.8, 21], [72.9, 19], [73.5, 15.8], [74.8, 12.8], [76.5, 8.8], [77.5, 8], [78.2, 8.9],
+    [79.8, 10.3], [80.3, 13.3], [80.2, 15.5], [82.2, 16.6], [85, 19.3], [86.9, 21], [88.5, 21.7], [90.5, 22.5],
+    [91.8, 22.3], [92.3, 20.7], [94.3, 18.3], [94.5, 16], [95.3, 15.8], [97.6, 16.5], [98.5, 13], [98.4, 9.5], [98.3, 8],
+    [100.3, 5], [101.3, 2.9], [103.5, 1.3], [104.2, 1.4], [103.5, 4.5], [102.5, 6.2], [101, 6.9], [100, 9.3],
+    [99.2, 10.3], [100, 13.4], [100.9, 13.4], [100.9, 12.6], [102.6, 12.2], [103.5, 10.6], [104.8, 8.6], [106.5, 9.5],
+    [107.5, 10.5], [109.2, 11.7], [109.3, 13.5], [108.3, 16], [106.5, 17.8], [105.7, 19], [106.7, 20.7], [108, 21.5],
+    [110, 21], [110.5, 20.3], [111.7, 21.6], [113.5, 22.3], [114.2, 22.3], [116.5, 22.9], [118.5, 24.5], [119.6, 25.7],
+    [120.5, 27.2], [121.9, 29.5], [121.9, 30.9], [120.9, 32], [120.5, 33.5], [119.2, 34.8], [120.3, 36], [122.5, 37],
+    [121, 37.8], [118.9, 37.4], [118, 38.2], [117.6, 39], [119.5, 40], [121.1, 40.8], [122.3, 40.5], [121.3, 39],
+    [123, 39.5], [124.4, 40], [125.3, 39.5], [125.3, 37.7], [126.5, 37], [126.3, 34.6], [127.5, 34.6], [129.4, 35.5],
+    [129.4, 36.8], [128.4, 38.6], [127.5, 39.8], [129.7, 40.9], [129.7, 42.4], [131.2, 42.6], [133, 42.8], [135.5, 43.9],
+    [138.2, 46.5], [140.3, 48.5], [140.5, 51], [141.4, 52.2], [141.2, 53.3], [137.5, 54], [135.2, 54.8], [137.5, 56.2],
+    [140.5, 57.8], [143, 59.3], [148.5, 59.4], [152.5, 59], [155, 59.3], [154.2, 61], [156.7, 61.5], [160, 61.9],
+    [159.8, 60.5], [163, 59.9], [162.5, 58], [160, 56.2], [156.5, 52], [156.7, 51], [158.5, 52.9], [161.8, 54.9],
+    [162, 55.5], [163.3, 57.8], [166, 59.8], [170.3, 60], [174, 61.8], [177.5, 62.5], [179.5, 62.5], [180, 64.9],
+    [180, 68.9], [175, 69.8], [170, 70.1], [160, 69.7], [150.5, 71.3], [141, 72.8], [130, 71], [128.5, 72.5], [122, 73],
+    [113.4, 73.5], [110, 74], [113, 76], [104.5, 77.7], [98.5, 76.5], [89, 75.5], [86.5, 74.5], [80.5, 73.6],
+    [80.2, 72.4], [75, 72.9], [72.8, 72.3], [72.5, 71], [71, 69.3], [73.5, 68.4], [69, 66.8], [66.5, 69.2], [60.5, 69.8],
+    [56, 68.5], [53.5, 68.5], [54.5, 68], [44, 68.5], [43.5, 66], [40, 64.5], [37, 65.3], [35, 66.5], [40.5, 66.5],
+    [41, 67.5], [36.5, 69], [33, 69.5], [28.5, 71], [23, 71], [15, 68.8], [12.5, 66], [10.5, 64.5], [5.5, 62.5], [5, 60.5],
+    [5.6, 58.8], [7, 58], [8.5, 58.2], [10.5, 59.5], [11.2, 58.3], [12.5, 56.3], [14.3, 55.5], [16, 56.2], [16.8, 57.7],
+    [18.5, 59.5], [17.5, 61.5], [17.8, 62.7], [21, 64.5], [21.5, 65.6], [25.3, 65.5], [24.5, 64.8], [21.4, 63], [21.3, 61],
+    [23, 59.8], [25.5, 60.4], [28.8, 60.5], [29.7, 59.9], [27.9, 59.4], [23.5, 59.2], [23.5, 58.2], [24.3, 57.2],
+    [21.6, 57.5], [21, 56.6], [21.3, 55.2], [19.6, 54.4], [18.6, 54.7], [16.3, 54.3], [14, 54], [11, 54], [10.9, 55],
+    [10.7, 56.1], [10.5, 57.6], [8.6, 57.1], [8.2, 55.5], [8.7, 54], [7, 53.6], [5, 53.3], [4, 51.8], [2.5, 51.1],
+    [1.6, 50.2], [0.2, 49.7], [-1.3, 49.6], [-1.7, 48.6], [-4.8, 48.5], [-4.2, 47.8], [-2.5, 47.3], [-1.2, 46],
+    [-1.4, 44.4], [-1.8, 43.4], [-4.5, 43.4], [-8, 43.7],
+  ],
+  // Great Britain, Ireland and Iceland
+  [
+    [-5.7, 50], [-3, 50.6], [1.4, 51.2], [1.7, 52.7], [0.2, 53.4], [-0.5, 54.5], [-1.6, 55.6], [-2.1, 57], [-1.8, 57.6],
+    [-3.2, 58.6], [-5, 58.6], [-6.2, 57.5], [-5.5, 56], [-4.9, 55], [-3.1, 54.9], [-3.3, 54.2], [-3, 53.4], [-4.6, 53.3],
+    [-4.2, 52.3], [-5.3, 51.7], [-3.2, 51.4], [-4.2, 51.2],
+  ],
+  [[-6, 52.1], [-6, 53.9], [-5.9, 55.2], [-7.3, 55.4], [-8.5, 54.5], [-10, 54.2], [-9.9, 53.2], [-10.4, 51.8], [-9.5, 51.5]],
+  [[-22, 63.8], [-24, 64.9], [-22.4, 66.4], [-16, 66.5], [-13.6, 65.2], [-14.5, 64.4], [-18.8, 63.4]],
+  // Svalbard, Novaya Zemlya and Sakhalin
+  [[11, 78.5], [16, 76.6], [22, 77.5], [27, 79.5], [20, 80.5], [11, 79.8]],
+  [[52, 71.5], [56, 70.6], [58.5, 71.5], [56, 73.5], [60, 75.5], [68, 76.8], [63, 77], [55.5, 75.3]],
+  [[142, 46], [143.5, 46.8], [143.2, 49.4], [144.6, 49], [143, 51.8], [143.2, 54.3], [142.2, 54.2], [142.5, 51.8], [141.7, 48.5]],
+  // Japan
+  [
+    [130, 31.3], [131.4, 31.4], [132, 33.2], [134.7, 33.8], [135.8, 33.5], [136.9, 34.3], [138.8, 34.6], [140, 35.2],
+    [140.8, 36.3], [141, 38.3], [142, 39.5], [141.5, 41.4], [140, 40.8], [139.8, 39], [138.6, 37.8], [137.3, 36.9],
+    [136.7, 37.3], [136, 35.7], [133.2, 35.5], [130.9, 34.4], [129.7, 33.2],
+  ],
+  [[140, 41.5], [141.1, 41.8], [143.2, 42], [145.5, 43.3], [144.8, 44.1], [141.8, 45.4], [141.6, 43.9], [140.4, 43.3]],
+  // Taiwan, Sri Lanka and the Philippines
+  [[120.1, 23], [120.8, 22], [121.9, 24.5], [121.5, 25.3], [120.7, 24.5]],
+  [[79.9, 6], [81.3, 6.2], [81.9, 7.5], [80.3, 9.8], [79.8, 8]],
+  [[120.5, 18.5], [122.3, 18.4], [122, 16.5], [121.5, 15], [124, 12.7], [123, 13.3], [120.6, 14.3], [120, 16]],
+  [[122, 7], [123.5, 7.8], [125.5, 9.5], [126.5, 7.2], [125.5, 5.6], [124, 6.3]],
+  // Borneo, Sumatra, Java, Sulawesi and New Guinea
+  [[109, 1.5], [109.6, -1], [110.3, -3], [114.5, -4], [116.3, -3.5], [116.5, -1.5], [117.8, 1], [118.5, 5], [117, 7], [115.5, 5.3], [113.2, 3.2], [111, 1.7]],
+  [[95.3, 5.6], [97.5, 5.2], [100.3, 2.3], [103.8, -1], [106, -3], [105.8, -5.8], [104.5, -5.9], [102.3, -4], [100.8, -2], [98.7, 1.7]],
+  [[105.2, -6.8], [106.8, -6], [108.3, -6.3], [111, -6.4], [112.6, -6.9], [114.5, -7.8], [114.4, -8.7], [111, -8.2], [108, -7.8], [106.3, -7.4]],
+  [[119.5, -5.5], [120.5, -2.5], [121.5, -4.8], [123.2, -5.5], [121.3, -1], [123.3, -0.9], [125, 1.4], [120.8, 1.3], [119.8, 0]],
+  [[131, -1.2], [134, -0.9], [136, -1.9], [141, -2.6], [145.7, -4.8], [147.5, -6], [148, -8], [150, -10.3], [147, -10], [145, -7.9], [142.6, -9.3], [141, -9.1], [139, -8.1], [137.7, -5.3], [135, -4.4], [132.7, -4]],
+  // Africa and Madagascar
+  [
+    [-5.9, 35.8], [-2, 35.1], [1, 36.5], [5, 36.9], [8.6, 36.9], [10.5, 37.2], [11, 35.5], [10.3, 34], [11, 33.2],
+    [13, 32.9], [15.2, 32.3], [17, 31], [19.8, 30.6], [20.1, 32.2], [22, 32.9], [25, 32], [29, 30.9], [32.3, 31.2],
+    [34.2, 31.3], [34.9, 29.5], [33.8, 27.5], [35.5, 23.9], [36.9, 22], [37.4, 18.6], [38.6, 18], [39.7, 15.2],
+    [41.2, 14.5], [43.3, 12.5], [44.6, 10.4], [47.5, 11.2], [51.2, 11.8], [51, 10.4], [49.5, 6.8], [47.7, 4.2], [44, 1],
+    [41.6, -1.7], [40.2, -2.8], [39.2, -4.7], [38.8, -6.5], [39.5, -10], [40.5, -10.8], [40.4, -14.5], [39.5, -16.8],
+    [37, -17.8], [35.2, -22], [35.5, -24], [32.6, -26], [32.5, -28.5], [30.5, -31], [27.5, -33.6], [25.8, -33.7],
+    [22.6, -34], [20, -34.8], [18.4, -34.2], [18.2, -31.7], [16.4, -28.6], [14.8, -26], [14.4, -22.9], [11.8, -17.3],
+    [11.8, -15.8], [13.6, -12], [13.2, -9], [12, -6], [12.3, -5], [11, -3.6], [9.4, -0.5], [9.8, 2], [9.7, 3.6],
+    [8.5, 4.5], [6.5, 4.3], [4.8, 6.3], [1.5, 6.2], [-2, 4.7], [-4.6, 5.2], [-7.5, 4.4], [-9.1, 5.5], [-12.5, 7.4],
+    [-13.3, 9], [-15, 10.9], [-16.7, 12.4], [-17.5, 14.7], [-16.5, 16.2], [-16, 18.5], [-16.9, 21.3], [-15.5, 24],
+    [-14.4, 26.2], [-13, 27.7], [-11.4, 28.1], [-9.8, 29.7], [-9.7, 32], [-8.4, 33.3], [-6.8, 34],
+  ],
+  [[49.3, -12], [50.5, -15.5], [49.5, -17.5], [48.2, -22], [47, -25], [45.1, -25.5], [43.7, -22.5], [44.3, -20], [44, -17], [46.3, -15.8], [48, -13.5]],
+  // Australia, Tasmania and New Zealand
+  [
+    [113.5, -22], [114.2, -26], [115, -30], [115, -34], [117.9, -35.1], [121.5, -33.8], [124, -33], [126, -32.3],
+    [131, -31.5], [134, -32.8], [135.5, -34.8], [137.5, -33], [138, -35.5], [140, -37.5], [143.5, -38.8], [146.3, -39.1],
+    [148, -37.8], [150, -37.5], [150.7, -35], [153, -31], [153.6, -28], [153, -25], [150.8, -22.5], [149, -20.5],
+    [146.3, -19], [145.3, -15], [143.5, -14], [142.5, -10.7], [141.6, -12.7], [141.5, -16.5], [140, -17.7], [137.5, -16],
+    [136, -15.5], [136.8, -12.2], [133, -11.4], [131.5, -11.3], [130, -13], [129.3, -15], [127.5, -14], [125.5, -14.5],
+    [123.5, -17], [122.2, -18.2], [119, -20], [116.7, -20.6],
+  ],
+  [[144.6, -40.7], [148.3, -40.9], [148, -43.2], [146, -43.6]],
+  [[172.7, -34.5], [174.3, -35.5], [175.8, -37], [178.5, -37.7], [177, -39.3], [176, -41.3], [174.6, -41.3], [175, -39.9], [173.8, -39.2], [174.6, -38]],
+  [[172.8, -40.5], [174.3, -41.7], [173.2, -43], [171.2, -44.5], [170.5, -46], [168.3, -46.6], [166.5, -46], [166.8, -45.2], [168.4, -44], [170.8, -42.7], [172.1, -41]],
+  // Antarctica
+  [
+    [-180, -84], [-180, -78], [-160, -77], [-150, -76], [-130, -74], [-110, -74], [-100, -73], [-80, -73], [-70, -72],
+    [-62, -64.5], [-57, -63.3], [-60, -68], [-62, -74], [-40, -78], [-25, -75], [-10, -71], [0, -70], [20, -70],
+    [40, -69], [60, -67], [80, -67], [90, -66], [100, -66], [120, -66.5], [140, -66.5], [160, -70], [170, -72],
+    [168, -78], [180, -78], [180, -84],
+  ],
+]
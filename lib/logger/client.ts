@@ -0,0 +1,29 @@
+import { isEnabled, parseLevel, type LogFields, type Logger, type LogLevel } from "./levels"
+import { redact } from "./redact"
+
+// Browser counterpart of lib/logger for the app's pages: same levels and
+// redaction, written to the devtools console as structured entries.
+// NEXT_PUBLIC_LOG_LEVEL sets the threshold (default "warn" in production).
+const threshold = parseLevel(
+  process.env.NEXT_PUBLIC_LOG_LEVEL,
+  process.env.NODE_ENV === "production" ? "warn" : "debug",
+)
+
+function write(level: LogLevel, message: string, fields: LogFields) {
+  if (!isEnabled(level, threshold)) return
+  const entry = { time: new Date().toISOString(), level, msg: message, ...(redact(fields) as LogFields) }
+  // The one place the app talks to the console directly
+  console[level](entry)
+}
+
+function createClientLogger(bound: LogFields = {}): Logger {
+  return {
+    debug: (message, fields) => write("debug", message, { ...bound, ...fields }),
+    info: (message, fields) => write("info", message, { ...bound, ...fields }),
+    warn: (message, fields) => write("warn", message, { ...bound, ...fields }),
+    error: (message, fields) => write("error", message, { ...bound, ...fields }),
+    child: (fields) => createClientLogger({ ...bound, ...fields }),
+  }
+}
+
+export const clientLogger = createClientLogger()
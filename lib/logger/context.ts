@@ -0,0 +1,38 @@
+import { AsyncLocalStorage } from "async_hooks"
+import { randomUUID } from "crypto"
+
+export interface RequestContext {
+  requestId: string
+  method?: string
+  path?: string
+}
+
+// Carries the request's correlation id through everything it starts,
+// including jobs that keep running after the response is sent
+const storage = new AsyncLocalStorage<RequestContext>()
+
+export const REQUEST_ID_HEADER = "x-request-id"
+// Sent to providers; OpenAI echoes it in its own logs and support tooling
+export const PROVIDER_REQUEST_ID_HEADER = "X-Client-Request-Id"
+
+// Callers may pass their own id to correlate with their logs, as long as it
+// can't be used to inject anything into ours
+const INCOMING_ID = /^[A-Za-z0-9._:-]{8,128}$/
+
+export function requestIdFrom(request: Request) {
+  const incoming = request.headers.get(REQUEST_ID_HEADER)?.trim()
+  return incoming && INCOMING_ID.test(incoming) ? incoming : randomUUID()
+}
+
+export function withRequestContext<T>(context: RequestContext, run: () => T): T {
+  return storage.run(context, run)
+}
+
+export function currentContext() {
+  return storage.getStore()
+}
+
+export function correlationHeaders(): Record<string, string> {
+  const requestId = storage.getStore()?.requestId
+  return requestId ? { [PROVIDER_REQUEST_ID_HEADER]: requestId } : {}
+}
@@ -0,0 +1,83 @@
+import { currentContext } from "./context"
+import { isEnabled, parseLevel, type LogFields, type Logger, type LogLevel } from "./levels"
+import { redact } from "./redact"
+
+export {
+  correlationHeaders,
+  currentContext,
+  REQUEST_ID_HEADER,
+  requestIdFrom,
+  withRequestContext,
+  type RequestContext,
+} from "./context"
+export { LOG_LEVELS, type LogFields, type Logger, type LogLevel } from "./levels"
+export { redact, serializeError } from "./redact"
+
+// LOG_LEVEL sets the threshold (default "info"). Entries are one JSON object
+// per line; LOG_FORMAT=pretty prints a readable line instead for local work.
+function threshold() {
+  return parseLevel(process.env.LOG_LEVEL, "info")
+}
+
+function write(level: LogLevel, message: string, fields: LogFields) {
+  if (!isEnabled(level, threshold())) return
+
+  const context = currentContext()
+  const time = new Date().toISOString()
+  const details = { ...(context && { requestId: context.requestId }), ...(redact(fields) as LogFields) }
+  const stream = level === "error" || level === "warn" ? process.stderr : process.stdout
+
+  if (process.env.LOG_FORMAT === "pretty") {
+    const extra = Object.keys(details).length > 0 ? ` ${JSON.stringify(details)}` : ""
+    stream.write(`${time} ${level.toUpperCase().padEnd(5)} ${message}${extra}\n`)
+  } else {
+    stream.write(`${JSON.stringify({ time, level, msg: message, ...details })}\n`)
+  }
+}
+
+function createLogger(bound: LogFields = {}): Logger {
+  return {
+    debug: (message, fields) => write("debug", message, { ...bound, ...fields }),
+    info: (message, fields) => write("info", message, { ...bound, ...fields }),
+    warn: (message, fields) => write("warn", message, { ...bound, ...fields }),
+    error: (message, fields) => write("error", message, { ...bound, ...fields }),
+    child: (fields) => createLogger({ ...bound, ...fields }),
+  }
+}
+
+export const logger = createLogger()
+
+// Times one stage of a request and logs it as a "span" entry. Works with
+// synchronous and async work; a thrown error is logged and rethrown.
+export function span<T>(name: string, run: () => T, fields: LogFields = {}): T {
+  const started = performance.now()
+  const finish = (error?: unknown) => {
+    const durationMs = Math.round((performance.now() - started) * 10) / 10
+    if (error === undefined) {
+      logger.info("span", { span: name, durationMs, ...fields })
+    } else {
+      logger.warn("span failed", { span: name, durationMs, ...fields, error })
+    }
+  }
+
+  try {
+    const result = run()
+    if (result instanceof Promise) {
+      return result.then(
+        (value) => {
+          finish()
+          return value
+        },
+        (error) => {
+          finish(error)
+          throw error
+        },
+      ) as T
+    }
+    finish()
+    return result
+  } catch (error) {
+    finish(error)
+    throw error
+  }
+}
@@ -0,0 +1,22 @@
+export type LogLevel = "debug" | "info" | "warn" | "error"
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"]
+
+export type LogFields = Record<string, unknown>
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+  // A logger that adds these fields to every entry
+  child(fields: LogFields): Logger
+}
+
+export function parseLevel(value: string | undefined, fallback: LogLevel): LogLevel {
+  return LOG_LEVELS.includes(value as LogLevel) ? (value as LogLevel) : fallback
+}
+
+export function isEnabled(level: LogLevel, threshold: LogLevel) {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold)
+}
@@ -0,0 +1,68 @@
+// Shared by the server and browser loggers, so no Node imports here.
+
+// Values under these keys are secrets and never logged
+const SECRET_KEY = /api[-_]?key|authorization|cookie|password|secret|token/i
+
+// Free text typed by users: logged only as its length, which is usually
+// enough to debug with and never leaks what someone asked for
+const USER_INPUT_KEYS = new Set([
+  "prompt",
+  "prompts",
+  "negativePrompt",
+  "landmark",
+  "season",
+  "audience",
+  "instruction",
+  "headline",
+  "fact",
+  "mask",
+])
+
+// Credentials that end up inside strings, such as SDK error messages
+const SECRET_PATTERNS: [RegExp, string][] = [
+  [/\bsk-[A-Za-z0-9_*-]{8,}/g, "sk-[redacted]"],
+  [/\bBearer\s+[A-Za-z0-9._~+/=-]+/gi, "Bearer [redacted]"],
+]
+
+const MAX_DEPTH = 6
+
+function scrub(text: string) {
+  return SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text)
+}
+
+function describeInput(value: unknown) {
+  if (typeof value === "string") return `[redacted: ${value.length} chars]`
+  return "[redacted]"
+}
+
+export function serializeError(error: Error): Record<string, unknown> {
+  const { name, message, stack } = error
+  const extra = error as Error & { code?: unknown; status?: unknown; requestId?: unknown; cause?: unknown }
+  return {
+    name,
+    message,
+    ...(extra.code !== undefined && { code: extra.code }),
+    ...(extra.status !== undefined && { status: extra.status }),
+    ...(extra.requestId !== undefined && { requestId: extra.requestId }),
+    ...(stack && { stack }),
+    ...(extra.cause instanceof Error && { cause: serializeError(extra.cause) }),
+  }
+}
+
+// Deep copy of a log field value with secrets removed and user input reduced
+// to its length. Errors become plain objects so they survive JSON.stringify.
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") return scrub(value)
+  if (value === null || typeof value !== "object") return value
+  if (depth >= MAX_DEPTH) return "[truncated]"
+  if (value instanceof Error) return redact(serializeError(value), depth + 1)
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1))
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => {
+      if (SECRET_KEY.test(key)) return [key, "[redacted]"]
+      if (USER_INPUT_KEYS.has(key) && field !== undefined && field !== null) return [key, describeInput(field)]
+      return [key, redact(field, depth + 1)]
+    }),
+  )
+}
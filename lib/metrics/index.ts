@@ -0,0 +1,85 @@
+import { randomUUID } from "crypto"
+import { logger } from "@/lib/logger"
+import type { GenerationParams, ProviderRun } from "@/lib/providers/types"
+import { estimateImageCost } from "./pricing"
+import { appendRecord, readRecords, RETENTION_DAYS } from "./store"
+import { summarize } from "./summary"
+import type { MetricsOperation, MetricsSummary, RequestRecord } from "./types"
+
+export { estimateImageCost, RETENTION_DAYS, summarize }
+export type { MetricsBucket, MetricsOperation, MetricsSummary, ProviderMetrics, RequestRecord } from "./types"
+
+export interface MetricsRange {
+  id: string
+  durationMs: number
+  bucketMs: number
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+export const METRICS_RANGES: MetricsRange[] = [
+  { id: "24h", durationMs: 24 * HOUR_MS, bucketMs: HOUR_MS },
+  { id: "7d", durationMs: 7 * 24 * HOUR_MS, bucketMs: 6 * HOUR_MS },
+  { id: "30d", durationMs: RETENTION_DAYS * 24 * HOUR_MS, bucketMs: 24 * HOUR_MS },
+]
+
+export const DEFAULT_METRICS_RANGE = "24h"
+
+export function getMetricsRange(id: string) {
+  return METRICS_RANGES.find((range) => range.id === id)
+}
+
+type RunDetails = Pick<GenerationParams, "quality"> &
+  Partial<Pick<GenerationParams, "model" | "size">> & { operation: MetricsOperation; requested: number }
+
+// Losing a metric must never fail the generation it describes
+function save(record: Omit<RequestRecord, "id" | "at">) {
+  appendRecord({ id: randomUUID(), at: new Date().toISOString(), ...record }).catch((error) =>
+    logger.error("failed to record request metrics", { error }),
+  )
+}
+
+export function recordRun({ provider, images, durationMs, error }: ProviderRun, details: RunDetails) {
+  save({
+    operation: details.operation,
+    providerId: provider.id,
+    provider: provider.name,
+    // Variations and edits don't know the model and size until the images arrive
+    model: details.model ?? images[0]?.model ?? "unknown",
+    size: details.size ?? images[0]?.size ?? "unknown",
+    ...(details.quality && { quality: details.quality }),
+    requested: details.requested,
+    produced: images.length,
+    success: images.length > 0,
+    cached: false,
+    latencyMs: durationMs,
+    estimatedCostUsd: images.reduce(
+      (total, image) => total + estimateImageCost(provider.id, image.model, image.size, details.quality),
+      0,
+    ),
+    ...(error && { error }),
+  })
+}
+
+// A generation answered from the cache: no latency and nothing spent
+export function recordCacheHit(provider: { id: string; name: string }, details: RunDetails & { produced: number }) {
+  save({
+    operation: details.operation,
+    providerId: provider.id,
+    provider: provider.name,
+    model: details.model ?? "unknown",
+    size: details.size ?? "unknown",
+    ...(details.quality && { quality: details.quality }),
+    requested: details.requested,
+    produced: details.produced,
+    success: details.produced > 0,
+    cached: true,
+    latencyMs: 0,
+    estimatedCostUsd: 0,
+  })
+}
+
+export async function getMetricsSummary(range: MetricsRange, now = Date.now()): Promise<MetricsSummary> {
+  const from = now - range.durationMs
+  return summarize(await readRecords(from), from, now, range.bucketMs)
+}
@@ -0,0 +1,26 @@
+// Estimated USD per image by provider and model, then quality ("standard" when
+// the request sets none), then size ("*" matches any). These are list prices
+// at the time of writing and only feed the admin dashboard's spend estimates.
+const PRICES: Record<string, Record<string, Record<string, Record<string, number>>>> = {
+  dalle: {
+    "dall-e-2": {
+      standard: { "1024x1024": 0.02, "512x512": 0.018, "256x256": 0.016 },
+    },
+    "dall-e-3": {
+      standard: { "1024x1024": 0.04, "1792x1024": 0.08, "1024x1792": 0.08 },
+      hd: { "1024x1024": 0.08, "1792x1024": 0.12, "1024x1792": 0.12 },
+    },
+  },
+  stability: {
+    // 0.6 credits per 30-step SDXL image at $0.01 a credit
+    "stable-diffusion-xl-1024-v1-0": { standard: { "*": 0.006 } },
+  },
+}
+
+// Unknown providers and models (the mock, or anything added later without a
+// price) are counted as free rather than guessed at
+export function estimateImageCost(providerId: string, model: string, size: string, quality?: string) {
+  const byQuality = PRICES[providerId]?.[model]
+  const bySize = byQuality?.[quality || "standard"] ?? byQuality?.standard
+  return bySize?.[size] ?? bySize?.["*"] ?? 0
+}
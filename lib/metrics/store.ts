@@ -0,0 +1,82 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type { RequestRecord } from "./types"
+
+// Records are appended to one JSON-lines file per UTC day and kept in memory
+// for the retention period. Older files are deleted when the store loads.
+export const RETENTION_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+const FILE = /^requests-(\d{4}-\d{2}-\d{2})\.jsonl$/
+
+interface MetricsState {
+  records: RequestRecord[]
+  loading?: Promise<void>
+}
+
+// Kept on globalThis so dev-mode module reloads don't drop recent records
+const globalForMetrics = globalThis as unknown as { requestMetrics?: MetricsState }
+const state: MetricsState = (globalForMetrics.requestMetrics ??= { records: [] })
+
+function metricsDir() {
+  return path.join(process.env.DATA_DIR || path.join(process.cwd(), ".data"), "metrics")
+}
+
+function fileFor(at: string) {
+  return path.join(metricsDir(), `requests-${at.slice(0, 10)}.jsonl`)
+}
+
+async function load() {
+  let files: string[]
+  try {
+    files = await fs.readdir(metricsDir())
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return
+    throw error
+  }
+
+  const oldest = new Date(Date.now() - RETENTION_DAYS * DAY_MS).toISOString().slice(0, 10)
+  const loaded: RequestRecord[] = []
+  for (const file of files.sort()) {
+    const day = FILE.exec(file)?.[1]
+    if (!day) continue
+    if (day < oldest) {
+      await fs.rm(path.join(metricsDir(), file), { force: true })
+      continue
+    }
+
+    const text = await fs.readFile(path.join(metricsDir(), file), "utf8")
+    for (const line of text.split("\n")) {
+      // A torn last line from a crash is skipped rather than failing the load
+      try {
+        if (line.trim()) loaded.push(JSON.parse(line))
+      } catch {}
+    }
+  }
+  state.records = loaded
+}
+
+function ready() {
+  state.loading ??= load().catch((error) => {
+    state.loading = undefined
+    throw error
+  })
+  return state.loading
+}
+
+export async function appendRecord(record: RequestRecord) {
+  // Loading first keeps the record from being read back from disk a second time
+  await ready()
+  state.records.push(record)
+  await fs.mkdir(metricsDir(), { recursive: true })
+  await fs.appendFile(fileFor(record.at), `${JSON.stringify(record)}\n`)
+}
+
+export async function readRecords(since: number) {
+  await ready()
+  // Dropping expired records here keeps a long-running server from growing without bound
+  const expired = new Date(Date.now() - RETENTION_DAYS * DAY_MS).toISOString()
+  state.records = state.records.filter((record) => record.at >= expired)
+
+  const cutoff = new Date(since).toISOString()
+  return state.records.filter((record) => record.at >= cutoff)
+}
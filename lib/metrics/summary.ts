@@ -0,0 +1,69 @@
+import type { MetricsBucket, MetricsSummary, ProviderMetrics, RequestRecord } from "./types"
+
+const RECENT_FAILURES = 10
+
+function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) return 0
+  return sorted[Math.min(Math.ceil((p / 100) * sorted.length) - 1, sorted.length - 1)]
+}
+
+// Money is summed in floating point, so round once at the end
+const cents = (usd: number) => Math.round(usd * 10000) / 10000
+
+function aggregate(records: RequestRecord[]): Omit<ProviderMetrics, "providerId" | "provider"> {
+  const latencies = records
+    .filter((record) => !record.cached)
+    .map((record) => record.latencyMs)
+    .sort((a, b) => a - b)
+  const failures = records.filter((record) => !record.success).length
+
+  return {
+    requests: records.length,
+    failures,
+    failureRate: records.length ? failures / records.length : 0,
+    cached: records.filter((record) => record.cached).length,
+    images: records.reduce((total, record) => total + record.produced, 0),
+    estimatedCostUsd: cents(records.reduce((total, record) => total + record.estimatedCostUsd, 0)),
+    avgLatencyMs: latencies.length ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length) : 0,
+    p95LatencyMs: percentile(latencies, 95),
+  }
+}
+
+// Totals, per-provider figures and a timeline of equal buckets from `from` to `to`
+export function summarize(records: RequestRecord[], from: number, to: number, bucketMs: number): MetricsSummary {
+  const byProvider = new Map<string, RequestRecord[]>()
+  for (const record of records) {
+    byProvider.set(record.providerId, [...(byProvider.get(record.providerId) ?? []), record])
+  }
+
+  const start = Math.floor(from / bucketMs) * bucketMs
+  const timeline: MetricsBucket[] = []
+  for (let bucket = start; bucket < to; bucket += bucketMs) {
+    timeline.push({ start: new Date(bucket).toISOString(), providers: {} })
+  }
+  for (const record of records) {
+    const bucket = timeline[Math.floor((Date.parse(record.at) - start) / bucketMs)]
+    if (!bucket) continue
+    const counts = (bucket.providers[record.providerId] ??= { requests: 0, failures: 0, estimatedCostUsd: 0 })
+    counts.requests++
+    if (!record.success) counts.failures++
+    counts.estimatedCostUsd = cents(counts.estimatedCostUsd + record.estimatedCostUsd)
+  }
+
+  return {
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    bucketMs,
+    totals: aggregate(records),
+    providers: Array.from(byProvider, ([providerId, providerRecords]) => ({
+      providerId,
+      provider: providerRecords[providerRecords.length - 1].provider,
+      ...aggregate(providerRecords),
+    })).sort((a, b) => b.requests - a.requests),
+    timeline,
+    recentFailures: records
+      .filter((record) => !record.success)
+      .slice(-RECENT_FAILURES)
+      .reverse(),
+  }
+}
@@ -0,0 +1,50 @@
+export type MetricsOperation = "generate" | "comparison" | "variation" | "edit"
+
+// One provider call, or one generation served from the cache instead
+export interface RequestRecord {
+  id: string
+  at: string
+  operation: MetricsOperation
+  providerId: string
+  provider: string
+  model: string
+  size: string
+  quality?: string
+  requested: number
+  produced: number
+  success: boolean
+  cached: boolean
+  latencyMs: number
+  estimatedCostUsd: number
+  error?: string
+}
+
+export interface ProviderMetrics {
+  providerId: string
+  provider: string
+  requests: number
+  failures: number
+  failureRate: number
+  cached: number
+  images: number
+  estimatedCostUsd: number
+  // Over provider calls only; cache hits would drag both towards zero
+  avgLatencyMs: number
+  p95LatencyMs: number
+}
+
+export interface MetricsBucket {
+  start: string
+  providers: Record<string, { requests: number; failures: number; estimatedCostUsd: number }>
+}
+
+export interface MetricsSummary {
+  from: string
+  to: string
+  bucketMs: number
+  totals: Omit<ProviderMetrics, "providerId" | "provider">
+  providers: ProviderMetrics[]
+  timeline: MetricsBucket[]
+  // Newest first
+  recentFailures: RequestRecord[]
+}
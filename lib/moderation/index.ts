@@ -0,0 +1,45 @@
+import type { ValidationIssue } from "@/lib/validation/text"
+import { openAIModerationClassifier } from "./openai"
+import { ruleBasedClassifier } from "./rules"
+import type { ModerationClassifier, ModerationResult } from "./types"
+
+export type { ModerationClassifier, ModerationResult }
+
+const classifiers: Record<string, ModerationClassifier> = {
+  [ruleBasedClassifier.id]: ruleBasedClassifier,
+  [openAIModerationClassifier.id]: openAIModerationClassifier,
+}
+
+// MODERATION_PROVIDER picks the classifier: "rules" (default, offline),
+// "openai", or "off" to skip moderation entirely
+export function getClassifier(): ModerationClassifier | null {
+  const id = process.env.MODERATION_PROVIDER || ruleBasedClassifier.id
+  if (id === "off") return null
+
+  const classifier = classifiers[id]
+  if (!classifier) {
+    throw new Error(`Unknown moderation provider "${id}"`)
+  }
+  return classifier
+}
+
+// Classifies each non-empty field separately so flags can point at a field
+export async function moderateFields(fields: Record<string, string | undefined>) {
+  const classifier = getClassifier()
+  if (!classifier) return []
+
+  const results = await Promise.all(
+    Object.entries(fields)
+      .filter((entry): entry is [string, string] => Boolean(entry[1]))
+      .map(async ([field, text]) => ({ field, result: await classifier.classify(text) })),
+  )
+  return results.filter(({ result }) => result.flagged)
+}
+
+export function moderationIssues(flagged: Awaited<ReturnType<typeof moderateFields>>): ValidationIssue[] {
+  return flagged.map(({ field, result }) => ({
+    field,
+    code: "flagged",
+    message: `${field} was flagged for ${result.categories.join(", ")}`,
+  }))
+}
@@ -0,0 +1,22 @@
+import OpenAI from "openai"
+import type { ModerationClassifier } from "./types"
+
+let client: OpenAI | null = null
+
+export const openAIModerationClassifier: ModerationClassifier = {
+  id: "openai",
+
+  async classify(text) {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error("OPENAI_API_KEY is not configured")
+    }
+    client ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+
+    const response = await client.moderations.create({ input: text })
+    const result = response.results[0]
+    const categories = Object.entries(result?.categories || {})
+      .filter(([, flagged]) => flagged)
+      .map(([category]) => category)
+    return { flagged: Boolean(result?.flagged), categories }
+  },
+}
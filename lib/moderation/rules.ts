@@ -0,0 +1,22 @@
+import type { ModerationClassifier } from "./types"
+
+// Deliberately small word lists: inputs are short scene descriptors, and the
+// image providers run their own content filters on the final prompt
+const RULES: Record<string, RegExp> = {
+  violence: /\b(gore|gory|blood(y|shed)?|corpses?|dead bod(y|ies)|massacre|behead\w*|dismember\w*|mutilat\w*)\b/i,
+  sexual: /\b(nude|nudity|naked|sexual|porn\w*|explicit|nsfw)\b/i,
+  hate: /\b(nazi|swastika|ethnic cleansing|subhuman|white power)\b/i,
+  "self-harm": /\b(suicide|self[- ]harm|hang(ing)? (himself|herself|themselves))\b/i,
+  misinformation: /\b(hoax|fake (news|disaster)|staged|real (photo|footage)|breaking news)\b/i,
+}
+
+export const ruleBasedClassifier: ModerationClassifier = {
+  id: "rules",
+
+  async classify(text) {
+    const categories = Object.entries(RULES)
+      .filter(([, pattern]) => pattern.test(text))
+      .map(([category]) => category)
+    return { flagged: categories.length > 0, categories }
+  },
+}
@@ -0,0 +1,9 @@
+export interface ModerationResult {
+  flagged: boolean
+  categories: string[]
+}
+
+export interface ModerationClassifier {
+  id: string
+  classify(text: string): Promise<ModerationResult>
+}
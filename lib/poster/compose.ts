@@ -0,0 +1,177 @@
+import sharp from "sharp"
+import { addVisibleLabel } from "@/lib/provenance/label"
+import { embedWatermark } from "@/lib/provenance/watermark"
+import { escapeXml, wrapText } from "@/lib/svg"
+import type { PosterAspect, PosterLayoutId } from "./layouts"
+
+export interface PosterContent {
+  headline: string
+  caption: string
+  fact: string
+  footer: string
+  // Text of the visible AI label
+  label: string
+}
+
+export interface PosterOptions {
+  // The source image's watermark payload, embedded again over the finished
+  // poster; images stored before watermarking have none
+  mark?: string
+}
+
+interface Box {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+interface Geometry {
+  image: Box
+  text: Box
+  background: string
+  gradient: boolean
+}
+
+const CAMPAIGN_GREEN = "#14532d"
+const ACCENT_GREEN = "#86efac"
+
+function geometry(layout: PosterLayoutId, { width, height }: PosterAspect): Geometry {
+  const landscape = width > height
+  const margin = Math.round(Math.min(width, height) * 0.05)
+
+  switch (layout) {
+    case "overlay": {
+      const textHeight = Math.round(height * (landscape ? 0.5 : 0.42))
+      return {
+        image: { left: 0, top: 0, width, height },
+        text: { left: margin, top: height - textHeight, width: width - margin * 2, height: textHeight - margin },
+        background: "#000000",
+        gradient: true,
+      }
+    }
+    case "stacked": {
+      if (landscape) {
+        const imageWidth = Math.round(width * 0.58)
+        return {
+          image: { left: 0, top: 0, width: imageWidth, height },
+          text: { left: imageWidth + margin, top: margin, width: width - imageWidth - margin * 2, height: height - margin * 2 },
+          background: "#ffffff",
+          gradient: false,
+        }
+      }
+      const imageHeight = Math.round(height * 0.62)
+      return {
+        image: { left: 0, top: 0, width, height: imageHeight },
+        text: { left: margin, top: imageHeight + margin, width: width - margin * 2, height: height - imageHeight - margin * 2 },
+        background: "#ffffff",
+        gradient: false,
+      }
+    }
+    case "framed": {
+      if (landscape) {
+        const imageWidth = Math.round(width * 0.55)
+        return {
+          image: { left: margin, top: margin, width: imageWidth - margin, height: height - margin * 2 },
+          text: { left: imageWidth + margin, top: margin, width: width - imageWidth - margin * 2, height: height - margin * 2 },
+          background: CAMPAIGN_GREEN,
+          gradient: false,
+        }
+      }
+      const imageHeight = Math.round(height * 0.6)
+      return {
+        image: { left: margin, top: margin, width: width - margin * 2, height: imageHeight - margin },
+        text: { left: margin, top: imageHeight + margin, width: width - margin * 2, height: height - imageHeight - margin * 2 },
+        background: CAMPAIGN_GREEN,
+        gradient: false,
+      }
+    }
+  }
+}
+
+function textLines(lines: string[], x: number, y: number, size: number, lineHeight: number, attributes: string) {
+  return lines
+    .map((line, i) => `<text x="${x}" y="${y + i * lineHeight}" font-size="${size}" ${attributes}>${escapeXml(line)}</text>`)
+    .join("")
+}
+
+// The watermark is drawn in SVG so the poster has no asset dependencies
+function logo(x: number, y: number, size: number, color: string) {
+  const r = size / 2
+  return `<g transform="translate(${x},${y})" opacity="0.9">
+<circle cx="${r}" cy="${r}" r="${r}" fill="${ACCENT_GREEN}"/>
+<path d="M${r * 0.55},${r * 1.45} C${r * 0.5},${r * 0.7} ${r * 1.1},${r * 0.45} ${r * 1.5},${r * 0.5} C${r * 1.55},${r * 1.1} ${r * 1.2},${r * 1.5} ${r * 0.55},${r * 1.45} Z" fill="${CAMPAIGN_GREEN}"/>
+<text x="${size * 1.25}" y="${r + size * 0.18}" font-size="${size * 0.5}" font-weight="700" font-family="sans-serif" fill="${color}">GreenGitch</text>
+</g>`
+}
+
+function overlaySvg(aspect: PosterAspect, geo: Geometry, content: PosterContent) {
+  const { width, height } = aspect
+  const { text } = geo
+  const light = geo.background !== "#ffffff"
+  const color = light ? "#ffffff" : "#111827"
+  const muted = light ? "#e5e7eb" : "#4b5563"
+  const accent = light ? ACCENT_GREEN : CAMPAIGN_GREEN
+
+  const unit = Math.min(width, height) / 1080
+  const headlineSize = Math.round(64 * unit)
+  const bodySize = Math.round(30 * unit)
+  // Monospace glyphs are ~0.6em wide; shrink long URLs to fit the text column
+  const footerSize = Math.round(Math.min(24 * unit, text.width / (content.footer.length * 0.6)))
+  const charsPerLine = (size: number) => Math.max(Math.floor(text.width / (size * 0.55)), 10)
+
+  const headline = wrapText(content.headline, charsPerLine(headlineSize)).slice(0, 3)
+  const fact = wrapText(content.fact, charsPerLine(bodySize)).slice(0, 4)
+
+  let y = text.top + headlineSize
+  const parts: string[] = []
+
+  parts.push(
+    `<text x="${text.left}" y="${y}" font-size="${bodySize}" font-family="sans-serif" font-weight="600" fill="${accent}" letter-spacing="2">${escapeXml(content.caption.toUpperCase())}</text>`,
+  )
+  y += Math.round(headlineSize * 1.2)
+  parts.push(textLines(headline, text.left, y, headlineSize, headlineSize * 1.1, `font-family="sans-serif" font-weight="800" fill="${color}"`))
+  y += headline.length * headlineSize * 1.1 + bodySize * 0.6
+  parts.push(textLines(fact, text.left, y, bodySize, bodySize * 1.35, `font-family="sans-serif" fill="${muted}"`))
+
+  const footerY = text.top + text.height
+  parts.push(
+    `<text x="${text.left}" y="${footerY}" font-size="${footerSize}" font-family="monospace" fill="${muted}">${escapeXml(content.footer)}</text>`,
+  )
+
+  const logoSize = Math.round(56 * unit)
+  const gradient = geo.gradient
+    ? `<defs><linearGradient id="fade" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="#000" stop-opacity="0"/><stop offset="0.45" stop-color="#000" stop-opacity="0.7"/><stop offset="1" stop-color="#000" stop-opacity="0.9"/></linearGradient></defs>
+<rect x="0" y="${text.top - headlineSize * 2}" width="${width}" height="${height - text.top + headlineSize * 2}" fill="url(#fade)"/>`
+    : ""
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+${gradient}
+${logo(geo.image.left + Math.round(24 * unit), geo.image.top + Math.round(24 * unit), logoSize, "#ffffff")}
+${parts.join("\n")}
+</svg>`
+}
+
+// The AI label sits in the image's top-right corner, clear of the logo and
+// of the text, which the overlay layout puts along the bottom
+export async function composePoster(
+  source: Buffer,
+  layout: PosterLayoutId,
+  aspect: PosterAspect,
+  content: PosterContent,
+  { mark }: PosterOptions = {},
+): Promise<Buffer> {
+  const geo = geometry(layout, aspect)
+  const image = await sharp(source).resize(geo.image.width, geo.image.height, { fit: "cover" }).png().toBuffer()
+
+  const poster = await sharp({
+    create: { width: aspect.width, height: aspect.height, channels: 3, background: geo.background },
+  })
+    .composite([
+      { input: await addVisibleLabel(image, content.label, "top-right"), left: geo.image.left, top: geo.image.top },
+      { input: Buffer.from(overlaySvg(aspect, geo, content)), left: 0, top: 0 },
+    ])
+    .png()
+    .toBuffer()
+  return mark ? embedWatermark(poster, mark) : poster
+}
@@ -0,0 +1,2 @@
+export { composePoster, type PosterContent, type PosterOptions } from "./compose"
+export * from "./layouts"
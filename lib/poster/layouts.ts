@@ -0,0 +1,38 @@
+export type PosterAspectId = "square" | "story" | "banner"
+export type PosterLayoutId = "overlay" | "stacked" | "framed"
+
+export interface PosterAspect {
+  id: PosterAspectId
+  name: string
+  width: number
+  height: number
+}
+
+export interface PosterLayout {
+  id: PosterLayoutId
+  name: string
+  description: string
+}
+
+export const posterAspects: PosterAspect[] = [
+  { id: "square", name: "Square (1:1)", width: 1080, height: 1080 },
+  { id: "story", name: "Story (4:5)", width: 1080, height: 1350 },
+  { id: "banner", name: "Banner (16:9)", width: 1920, height: 1080 },
+]
+
+export const posterLayouts: PosterLayout[] = [
+  { id: "overlay", name: "Overlay", description: "Full-bleed image with text over a dark gradient" },
+  { id: "stacked", name: "Stacked", description: "Image and text panel side by side or one above the other" },
+  { id: "framed", name: "Framed", description: "Image inset on a campaign-green frame" },
+]
+
+export const DEFAULT_POSTER_ASPECT: PosterAspectId = "square"
+export const DEFAULT_POSTER_LAYOUT: PosterLayoutId = "overlay"
+
+export function getPosterAspect(id: string) {
+  return posterAspects.find((aspect) => aspect.id === id)
+}
+
+export function getPosterLayout(id: string) {
+  return posterLayouts.find((layout) => layout.id === id)
+}
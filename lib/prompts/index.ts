@@ -0,0 +1,81 @@
+import {
+  comparisonTemplate,
+  DEFAULT_TEMPLATE_ID,
+  promptTemplates,
+  type ComparisonTemplate,
+  type PromptTemplate,
+} from "./templates"
+
+export { comparisonTemplate, DEFAULT_TEMPLATE_ID, promptTemplates }
+export type { ComparisonTemplate, PromptTemplate }
+
+export interface PromptVariables {
+  city: string
+  issue: string
+  landmark?: string
+  season?: string
+  audience?: string
+  details?: string
+  // English statement of a climate fact from lib/facts
+  fact?: string
+}
+
+export interface ResolvedPrompt {
+  prompt: string
+  templateId: string
+  templateVersion: number
+}
+
+export class PromptTemplateError extends Error {}
+
+const VARIABLES: (keyof PromptVariables)[] = ["city", "issue", "landmark", "season", "audience", "details", "fact"]
+
+export function getTemplate(id: string) {
+  return promptTemplates.find((template) => template.id === id)
+}
+
+export function renderTemplate(body: string, variables: PromptVariables) {
+  const lookup = (name: string) => {
+    if (!VARIABLES.includes(name as keyof PromptVariables)) {
+      throw new PromptTemplateError(`Unknown template variable "${name}"`)
+    }
+    return variables[name as keyof PromptVariables]?.trim() || ""
+  }
+
+  const withSections = body.replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name: string, inner: string) =>
+    lookup(name) ? inner : "",
+  )
+  return withSections.replace(/\{\{(\w+)\}\}/g, (_, name: string) => lookup(name))
+}
+
+export function resolvePrompt(variables: PromptVariables, templateId = DEFAULT_TEMPLATE_ID): ResolvedPrompt {
+  const template = getTemplate(templateId)
+  if (!template) {
+    throw new PromptTemplateError(`Unknown template "${templateId}"`)
+  }
+
+  return {
+    prompt: renderTemplate(template.body, variables),
+    templateId: template.id,
+    templateVersion: template.version,
+  }
+}
+
+export interface ComparisonPrompts {
+  today: ResolvedPrompt
+  future: ResolvedPrompt
+}
+
+export function resolveComparisonPrompts(variables: PromptVariables): ComparisonPrompts {
+  const { id, version, today, future } = comparisonTemplate
+  return {
+    today: { prompt: renderTemplate(today, variables), templateId: id, templateVersion: version },
+    future: { prompt: renderTemplate(future, variables), templateId: id, templateVersion: version },
+  }
+}
+
+// Inpainting prompts lead with the requested change and keep the original
+// prompt as context so the rest of the scene stays consistent
+export function editPrompt(original: string, instruction: string) {
+  return `${instruction.replace(/[.\s]+$/, "")}. ${original}`
+}
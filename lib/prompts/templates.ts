@@ -0,0 +1,104 @@
+export interface PromptTemplate {
+  id: string
+  name: string
+  version: number
+  description: string
+  // Mustache-style body: {{var}} is substituted, {{#var}}...{{/var}} is only
+  // kept when var is set
+  body: string
+}
+
+export const DEFAULT_TEMPLATE_ID = "realistic"
+
+// Closes every body so a cited data point, when chosen, informs the scene
+const FACT_CONTEXT = "{{#fact}}. Grounded in this data: {{fact}}{{/fact}}"
+
+export const promptTemplates: PromptTemplate[] = [
+  {
+    id: "realistic",
+    name: "Realistic",
+    version: 3,
+    description: "Photorealistic scene with dramatic lighting",
+    body:
+      "Create a climate change awareness image showing the impact of {{issue}} in {{city}}" +
+      "{{#landmark}}, near {{landmark}}{{/landmark}}{{#season}}, during {{season}}{{/season}}{{#details}}, {{details}}{{/details}}. " +
+      "Style: realistic, dramatic lighting, emotional impact" +
+      "{{#audience}}. Intended for {{audience}}{{/audience}}" +
+      FACT_CONTEXT,
+  },
+  {
+    id: "poster",
+    name: "Poster",
+    version: 3,
+    description: "Bold campaign poster with strong composition and negative space for text",
+    body:
+      "A bold climate awareness campaign poster about {{issue}} in {{city}}" +
+      "{{#landmark}}, featuring {{landmark}} as the focal point{{/landmark}}{{#season}} in {{season}}{{/season}}{{#details}}, {{details}}{{/details}}. " +
+      "Style: graphic design, limited colour palette, strong silhouettes, clean negative space at the top for a headline, no text" +
+      "{{#audience}}. Designed to resonate with {{audience}}{{/audience}}" +
+      FACT_CONTEXT,
+  },
+  {
+    id: "infographic",
+    name: "Infographic illustration",
+    version: 3,
+    description: "Flat illustrated explainer in an infographic style",
+    body:
+      "A flat vector infographic-style illustration explaining how {{issue}} affects {{city}}" +
+      "{{#landmark}}, with {{landmark}} drawn as a recognisable landmark{{/landmark}}{{#season}} during {{season}}{{/season}}{{#details}}, {{details}}{{/details}}. " +
+      "Style: isometric city cutaway, clear visual hierarchy, icons and arrows, muted earth tones, no text labels" +
+      "{{#audience}}. Easy to understand for {{audience}}{{/audience}}" +
+      FACT_CONTEXT,
+  },
+  {
+    id: "before-after",
+    name: "Before / after",
+    version: 3,
+    description: "Split composition contrasting the city today with the projected impact",
+    body:
+      "A split-screen image of {{city}}{{#landmark}} around {{landmark}}{{/landmark}}: " +
+      "the left half shows the scene today, the right half shows the same scene transformed by {{issue}}" +
+      "{{#season}} in {{season}}{{/season}}{{#details}}, {{details}}{{/details}}. Identical viewpoint and framing on both halves, realistic lighting" +
+      "{{#audience}}. Intended for {{audience}}{{/audience}}" +
+      FACT_CONTEXT,
+  },
+  {
+    id: "photojournalism",
+    name: "Photojournalism",
+    version: 3,
+    description: "Documentary news photograph with a human element",
+    body:
+      "A documentary news photograph of residents of {{city}} living through {{issue}}" +
+      "{{#landmark}}, with {{landmark}} visible in the background{{/landmark}}{{#season}}, {{season}}{{/season}}{{#details}}, {{details}}{{/details}}. " +
+      "Style: 35mm photojournalism, natural light, candid, shallow depth of field, authentic and respectful" +
+      "{{#audience}}. For a story aimed at {{audience}}{{/audience}}" +
+      FACT_CONTEXT,
+  },
+]
+
+// Linked prompts for comparison mode. Both phases describe the same scene and
+// viewpoint so the pair lines up in the before/after slider; only the era changes.
+export interface ComparisonTemplate {
+  id: string
+  name: string
+  version: number
+  today: string
+  future: string
+}
+
+const COMPARISON_SCENE =
+  "{{city}}{{#landmark}} around {{landmark}}{{/landmark}}{{#season}} during {{season}}{{/season}}"
+const COMPARISON_STYLE =
+  "Fixed eye-level viewpoint, wide-angle street view, natural light, photorealistic" +
+  "{{#audience}}. Intended for {{audience}}{{/audience}}"
+
+export const comparisonTemplate: ComparisonTemplate = {
+  id: "comparison",
+  name: "Today / future",
+  version: 2,
+  today: `A photograph of ${COMPARISON_SCENE} as it looks today, ordinary conditions, no visible climate damage. ${COMPARISON_STYLE}`,
+  future:
+    `A photograph of ${COMPARISON_SCENE} in 2050, transformed by {{issue}}{{#details}}, {{details}}{{/details}}. ` +
+    COMPARISON_STYLE +
+    FACT_CONTEXT,
+}
@@ -0,0 +1,5 @@
+export { addVisibleLabel, type LabelCorner } from "./label"
+export * from "./manifest"
+export { publicKeyPem } from "./signing"
+export { isReadableImage, verifyImage, type ProvenanceMatch, type VerificationResult } from "./verify"
+export { createMark, embedWatermark, readWatermark, WATERMARKED_MIME_TYPE } from "./watermark"
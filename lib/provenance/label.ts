@@ -0,0 +1,33 @@
+import sharp from "sharp"
+import { escapeXml } from "@/lib/svg"
+
+// Sans-serif glyphs average ~0.55em wide
+const CHAR_WIDTH_EM = 0.55
+
+// Bottom-left unless something else already sits there, e.g. poster text
+export type LabelCorner = "bottom-left" | "top-right"
+
+function labelSvg(width: number, height: number, text: string, corner: LabelCorner) {
+  const size = Math.max(Math.round(Math.min(width, height) * 0.028), 11)
+  const padding = Math.round(size * 0.6)
+  const margin = Math.round(size * 0.8)
+  const boxWidth = Math.min(Math.round(text.length * size * CHAR_WIDTH_EM) + padding * 2, width - margin * 2)
+  const boxHeight = size + padding * 2
+  const left = corner === "top-right" ? width - margin - boxWidth : margin
+  const top = corner === "top-right" ? margin : height - margin - boxHeight
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <rect x="${left}" y="${top}" width="${boxWidth}" height="${boxHeight}" rx="${size * 0.4}" fill="#000000" fill-opacity="0.65"/>
+  <text x="${left + padding}" y="${top + padding + size * 0.85}" font-size="${size}" font-family="sans-serif" font-weight="600" fill="#ffffff">${escapeXml(text)}</text>
+</svg>`
+}
+
+// Stamps a visible "AI-generated illustration" badge in a corner. Returns
+// PNG so the caller picks the final format.
+export async function addVisibleLabel(source: Buffer, text: string, corner: LabelCorner = "bottom-left"): Promise<Buffer> {
+  const { width = 1, height = 1 } = await sharp(source).metadata()
+  return sharp(source)
+    .composite([{ input: Buffer.from(labelSvg(width, height, text, corner)), left: 0, top: 0 }])
+    .png()
+    .toBuffer()
+}
@@ -0,0 +1,73 @@
+import { createHash } from "crypto"
+import type { ImageOperation, StoredImage } from "@/lib/store/images"
+import { signPayload, SIGNATURE_ALGORITHM, verifyPayload } from "./signing"
+
+export const GENERATOR = "GreenGitch"
+// IPTC's term for images made by a generative model
+export const DIGITAL_SOURCE_TYPE = "http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia"
+
+export interface ProvenanceManifest {
+  version: 1
+  generator: string
+  digitalSourceType: string
+  imageId: string
+  createdAt: string
+  provider: { id: string; name: string }
+  model: string
+  prompt: string
+  city: { id: string; name: string }
+  issue: { id: string; name: string }
+  parentId?: string
+  operation?: ImageOperation
+  mimeType: string
+  // Of the stored file, watermark included
+  sha256: string
+  // The payload of the invisible watermark
+  watermark: string
+}
+
+export interface ManifestSignature {
+  algorithm: typeof SIGNATURE_ALGORITHM
+  keyId: string
+  // Base64, over the compact JSON of the manifest as stored
+  value: string
+}
+
+export interface SignedManifest {
+  manifest: ProvenanceManifest
+  signature: ManifestSignature
+}
+
+export function sha256(data: Buffer) {
+  return createHash("sha256").update(data).digest("hex")
+}
+
+export function buildManifest(image: StoredImage, data: Buffer, watermark: string): ProvenanceManifest {
+  return {
+    version: 1,
+    generator: GENERATOR,
+    digitalSourceType: DIGITAL_SOURCE_TYPE,
+    imageId: image.id,
+    createdAt: image.createdAt,
+    provider: { id: image.providerId, name: image.providerName },
+    model: image.model,
+    prompt: image.prompt,
+    city: { id: image.cityId, name: image.cityName },
+    issue: { id: image.issueId, name: image.issueName },
+    ...(image.parentId && { parentId: image.parentId, operation: image.operation }),
+    mimeType: image.mimeType,
+    sha256: sha256(data),
+    watermark,
+  }
+}
+
+// JSON.parse keeps key order, so a manifest read back from disk serialises to
+// the same bytes that were signed
+export async function signManifest(manifest: ProvenanceManifest): Promise<SignedManifest> {
+  const { keyId, value } = await signPayload(JSON.stringify(manifest))
+  return { manifest, signature: { algorithm: SIGNATURE_ALGORITHM, keyId, value } }
+}
+
+export function verifyManifest({ manifest, signature }: SignedManifest) {
+  return verifyPayload(JSON.stringify(manifest), signature)
+}
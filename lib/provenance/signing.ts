@@ -0,0 +1,84 @@
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify, type KeyObject } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+
+// Manifests are signed with Ed25519 so anyone holding the public key can
+// check one offline. The key comes from PROVENANCE_SIGNING_KEY (a PKCS#8 PEM);
+// without it one is generated on first use and kept in the data directory,
+// so signatures stay valid across restarts.
+
+export const SIGNATURE_ALGORITHM = "Ed25519"
+
+interface SigningKeys {
+  privateKey: KeyObject
+  publicKey: KeyObject
+  publicKeyPem: string
+  // First 16 hex characters of the SHA-256 of the public key
+  keyId: string
+}
+
+let keys: Promise<SigningKeys> | undefined
+
+function keyPath() {
+  return path.join(process.env.DATA_DIR || path.join(process.cwd(), ".data"), "provenance", "signing-key.pem")
+}
+
+async function loadPrivateKey() {
+  if (process.env.PROVENANCE_SIGNING_KEY) {
+    // Environments often store the PEM with escaped newlines
+    return createPrivateKey(process.env.PROVENANCE_SIGNING_KEY.replace(/\\n/g, "\n"))
+  }
+
+  const file = keyPath()
+  try {
+    return createPrivateKey(await fs.readFile(file, "utf8"))
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") throw error
+  }
+
+  const pem = generateKeyPairSync("ed25519").privateKey.export({ type: "pkcs8", format: "pem" }).toString()
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  try {
+    await fs.writeFile(file, pem, { flag: "wx", mode: 0o600 })
+    return createPrivateKey(pem)
+  } catch (error: any) {
+    // Another process got there first; use its key
+    if (error?.code !== "EEXIST") throw error
+    return createPrivateKey(await fs.readFile(file, "utf8"))
+  }
+}
+
+async function loadKeys(): Promise<SigningKeys> {
+  const privateKey = await loadPrivateKey()
+  const publicKey = createPublicKey(privateKey)
+  const der = publicKey.export({ type: "spki", format: "der" })
+  return {
+    privateKey,
+    publicKey,
+    publicKeyPem: publicKey.export({ type: "spki", format: "pem" }).toString(),
+    keyId: createHash("sha256").update(der).digest("hex").slice(0, 16),
+  }
+}
+
+function signingKeys() {
+  keys ??= loadKeys().catch((error) => {
+    keys = undefined
+    throw error
+  })
+  return keys
+}
+
+export async function signPayload(payload: string) {
+  const { privateKey, keyId } = await signingKeys()
+  return { keyId, value: sign(null, Buffer.from(payload), privateKey).toString("base64") }
+}
+
+// Only signatures made with the current key verify
+export async function verifyPayload(payload: string, { keyId, value }: { keyId: string; value: string }) {
+  const { publicKey, keyId: currentKeyId } = await signingKeys()
+  return keyId === currentKeyId && verify(null, Buffer.from(payload), publicKey, Buffer.from(value, "base64"))
+}
+
+export async function publicKeyPem() {
+  return (await signingKeys()).publicKeyPem
+}
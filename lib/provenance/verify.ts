@@ -0,0 +1,39 @@
+import sharp from "sharp"
+import { findProvenance } from "@/lib/store/images"
+import { sha256, verifyManifest, type SignedManifest } from "./manifest"
+import { MAX_READ_PIXELS, readWatermark } from "./watermark"
+
+// "exact": the upload is byte-for-byte the stored file. "watermark": it was
+// re-encoded or resized on the way, but still carries the image's mark.
+export type ProvenanceMatch = "exact" | "watermark"
+
+export interface VerificationResult {
+  match: ProvenanceMatch | null
+  provenance: SignedManifest | null
+  signatureValid: boolean
+}
+
+// Reads only the header, so oversized images are turned away before decoding
+export async function isReadableImage(data: Buffer) {
+  return sharp(data, { limitInputPixels: MAX_READ_PIXELS })
+    .metadata()
+    .then(({ width, height }) => Boolean(width && height && width * height <= MAX_READ_PIXELS))
+    .catch(() => false)
+}
+
+export async function verifyImage(data: Buffer): Promise<VerificationResult> {
+  const hash = sha256(data)
+  let match: ProvenanceMatch = "exact"
+  let provenance = await findProvenance((manifest) => manifest.sha256 === hash)
+
+  if (!provenance) {
+    const mark = await readWatermark(data)
+    match = "watermark"
+    provenance = mark ? await findProvenance((manifest) => manifest.watermark === mark) : null
+  }
+
+  if (!provenance) {
+    return { match: null, provenance: null, signatureValid: false }
+  }
+  return { match, provenance, signatureValid: await verifyManifest(provenance) }
+}
@@ -0,0 +1,142 @@
+import { createHash, randomBytes } from "crypto"
+import sharp from "sharp"
+
+// An invisible spread-spectrum watermark. The image is divided into a
+// GRID x GRID lattice of cells, and each payload bit adds or subtracts its own
+// fixed pseudo-random ±1 pattern over the cells. The patterns sum to a faint
+// noise of about WATERMARK_STRENGTH grey levels. Reading resizes any upload
+// back to the lattice, filters out the picture itself and correlates what is
+// left with each pattern, so the mark survives re-encoding and rescaling. It
+// does not survive cropping.
+//
+// The payload is a random 48-bit mark, which is recorded in the image's
+// provenance manifest, followed by a 16-bit check. The check keeps stray
+// correlations in unmarked images from reading as a mark.
+
+const GRID = 128
+const CELLS = GRID * GRID
+const MARK_BYTES = 6
+const CHECK_BYTES = 2
+const PAYLOAD_BITS = (MARK_BYTES + CHECK_BYTES) * 8
+const PATTERN_SEED = 0x67726e00
+const WATERMARK_STRENGTH = 3
+// Edges (text on a poster, say) leave residuals far larger than the mark;
+// clamping them keeps a few strong edges from outvoting it
+const RESIDUAL_CLIP = 4
+
+export const WATERMARKED_MIME_TYPE = "image/png"
+
+// readWatermark decodes untrusted uploads, so anything larger than this is
+// refused before sharp allocates its pixels. An 8K image is 33 megapixels.
+export const MAX_READ_PIXELS = 40_000_000
+
+let patterns: Int8Array | undefined
+
+// mulberry32: small and deterministic, so embedding and reading always agree
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function bitPatterns() {
+  if (!patterns) {
+    patterns = new Int8Array(PAYLOAD_BITS * CELLS)
+    for (let bit = 0; bit < PAYLOAD_BITS; bit++) {
+      const next = random(PATTERN_SEED + bit)
+      for (let cell = 0; cell < CELLS; cell++) {
+        patterns[bit * CELLS + cell] = next() < 0.5 ? -1 : 1
+      }
+    }
+  }
+  return patterns
+}
+
+function check(mark: Buffer) {
+  return createHash("sha256").update(mark).digest().subarray(0, CHECK_BYTES)
+}
+
+// 12 hex characters
+export function createMark() {
+  return randomBytes(MARK_BYTES).toString("hex")
+}
+
+function payloadBits(mark: string) {
+  const markBytes = Buffer.from(mark, "hex")
+  const payload = Buffer.concat([markBytes, check(markBytes)])
+  return Array.from({ length: PAYLOAD_BITS }, (_, bit) => (payload[bit >> 3] >> (7 - (bit & 7))) & 1)
+}
+
+// Re-encodes as PNG, since lossy formats would blur the mark before it is
+// ever shared. Transparency is flattened onto white.
+export async function embedWatermark(source: Buffer, mark: string): Promise<Buffer> {
+  const { data, info } = await sharp(source).flatten({ background: "#ffffff" }).raw().toBuffer({ resolveWithObject: true })
+  const { width, height, channels } = info
+
+  const all = bitPatterns()
+  const offsets = new Float32Array(CELLS)
+  payloadBits(mark).forEach((value, bit) => {
+    const sign = value ? 1 : -1
+    for (let cell = 0; cell < CELLS; cell++) {
+      offsets[cell] += sign * all[bit * CELLS + cell]
+    }
+  })
+  // The sum of PAYLOAD_BITS ±1 terms has a standard deviation of sqrt(PAYLOAD_BITS)
+  const scale = WATERMARK_STRENGTH / Math.sqrt(PAYLOAD_BITS)
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor((y * GRID) / height) * GRID
+    for (let x = 0; x < width; x++) {
+      const offset = offsets[row + Math.floor((x * GRID) / width)] * scale
+      const pixel = (y * width + x) * channels
+      for (let channel = 0; channel < 3; channel++) {
+        data[pixel + channel] = Math.max(0, Math.min(255, Math.round(data[pixel + channel] + offset)))
+      }
+    }
+  }
+
+  return sharp(data, { raw: info }).png().toBuffer()
+}
+
+// The mark, or null when the image carries none (or it was cropped away)
+export async function readWatermark(source: Buffer): Promise<string | null> {
+  const { data } = await sharp(source, { limitInputPixels: MAX_READ_PIXELS })
+    .flatten({ background: "#ffffff" })
+    .greyscale()
+    .resize(GRID, GRID, { fit: "fill" })
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  // Subtracting each cell's 3x3 neighbourhood mean leaves mostly the pattern
+  const residual = new Float32Array(CELLS)
+  for (let y = 0; y < GRID; y++) {
+    for (let x = 0; x < GRID; x++) {
+      let sum = 0
+      let count = 0
+      for (let dy = Math.max(y - 1, 0); dy <= Math.min(y + 1, GRID - 1); dy++) {
+        for (let dx = Math.max(x - 1, 0); dx <= Math.min(x + 1, GRID - 1); dx++) {
+          sum += data[dy * GRID + dx]
+          count++
+        }
+      }
+      const value = data[y * GRID + x] - sum / count
+      residual[y * GRID + x] = Math.max(-RESIDUAL_CLIP, Math.min(RESIDUAL_CLIP, value))
+    }
+  }
+
+  const all = bitPatterns()
+  const payload = Buffer.alloc(MARK_BYTES + CHECK_BYTES)
+  for (let bit = 0; bit < PAYLOAD_BITS; bit++) {
+    let correlation = 0
+    for (let cell = 0; cell < CELLS; cell++) {
+      correlation += residual[cell] * all[bit * CELLS + cell]
+    }
+    if (correlation > 0) payload[bit >> 3] |= 1 << (7 - (bit & 7))
+  }
+
+  const mark = payload.subarray(0, MARK_BYTES)
+  return check(mark).equals(payload.subarray(MARK_BYTES)) ? mark.toString("hex") : null
+}
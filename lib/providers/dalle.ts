@@ -0,0 +1,144 @@
+import OpenAI, { toFile } from "openai"
+import type { ImageGenerateParams, ImagesResponse } from "openai/resources/images"
+import { correlationHeaders, logger } from "@/lib/logger"
+import { classifyProviderError, ProviderError } from "./errors"
+import { sourceToPng, transparentMask } from "./raster"
+import type { ImageProvider, ProviderImage } from "./types"
+
+// Variations and edits are dall-e-2 only, and need square PNGs
+const EDIT_MODEL = "dall-e-2"
+const EDIT_SIZE = "1024x1024"
+
+let client: OpenAI | null = null
+
+function getClient() {
+  if (!client) {
+    client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+  }
+  return client
+}
+
+function requireKey() {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new ProviderError("auth", "OPENAI_API_KEY is not configured")
+  }
+}
+
+// Lets OpenAI's request logs be matched with ours
+function requestOptions() {
+  return { headers: correlationHeaders() }
+}
+
+function pngFile(data: Buffer, name: string) {
+  return toFile(data, name, { type: "image/png" })
+}
+
+// Shared by generate, vary and edit: unwraps the base64 images and rethrows
+// SDK errors as classified ProviderErrors
+async function callDalle(model: string, size: string, request: () => Promise<ImagesResponse>): Promise<ProviderImage[]> {
+  try {
+    const response = await request()
+    const images = (response.data || []).filter((image) => image.b64_json)
+    if (images.length === 0) {
+      throw new ProviderError("unknown", "No image data received from DALL-E")
+    }
+
+    return images.map((image) => ({ b64: image.b64_json!, mimeType: "image/png", model, size }))
+  } catch (error: any) {
+    // The SDK's details are for debugging; callers only need the classification
+    logger.debug("DALL-E error", { model, error })
+    throw classifyProviderError(error)
+  }
+}
+
+export const dalleProvider: ImageProvider = {
+  id: "dalle",
+  name: "DALL-E",
+  capabilities: {
+    models: [
+      { id: "dall-e-2", sizes: ["1024x1024", "512x512", "256x256"], maxImages: 4 },
+      {
+        id: "dall-e-3",
+        sizes: ["1024x1024", "1792x1024", "1024x1792"],
+        maxImages: 1,
+        qualities: ["standard", "hd"],
+        styles: ["vivid", "natural"],
+      },
+    ],
+    supportsSeed: false,
+    supportsNegativePrompt: false,
+  },
+
+  isConfigured() {
+    return Boolean(process.env.OPENAI_API_KEY)
+  },
+
+  async generate({ prompt, model, size, count, quality, style }) {
+    requireKey()
+    return callDalle(model, size, () =>
+      getClient().images.generate(
+        {
+          model,
+          prompt,
+          n: count,
+          size: size as ImageGenerateParams["size"],
+          // Quality and style are dall-e-3 only; capability checks keep them unset otherwise
+          quality: quality as ImageGenerateParams["quality"],
+          style: style as ImageGenerateParams["style"],
+          response_format: "b64_json",
+        },
+        requestOptions(),
+      ),
+    )
+  },
+
+  async vary({ image, count }) {
+    requireKey()
+    const source = await sourceToPng(image, EDIT_SIZE)
+    return callDalle(EDIT_MODEL, EDIT_SIZE, async () =>
+      getClient().images.createVariation(
+        {
+          model: EDIT_MODEL,
+          image: await pngFile(source, "image.png"),
+          n: count,
+          size: EDIT_SIZE,
+          response_format: "b64_json",
+        },
+        requestOptions(),
+      ),
+    )
+  },
+
+  async edit({ image, prompt, mask, count }) {
+    requireKey()
+    const [source, editMask] = await Promise.all([sourceToPng(image, EDIT_SIZE), transparentMask(mask, EDIT_SIZE)])
+    return callDalle(EDIT_MODEL, EDIT_SIZE, async () =>
+      getClient().images.edit(
+        {
+          model: EDIT_MODEL,
+          image: await pngFile(source, "image.png"),
+          mask: await pngFile(editMask, "mask.png"),
+          prompt,
+          n: count,
+          size: EDIT_SIZE,
+          response_format: "b64_json",
+        },
+        requestOptions(),
+      ),
+    )
+  },
+
+  async health() {
+    if (!this.isConfigured()) {
+      return { configured: false, ok: false, error: "OPENAI_API_KEY is not configured" }
+    }
+
+    const started = Date.now()
+    try {
+      await getClient().models.retrieve("dall-e-2")
+      return { configured: true, ok: true, latencyMs: Date.now() - started }
+    } catch (error: any) {
+      return { configured: true, ok: false, latencyMs: Date.now() - started, error: error?.message }
+    }
+  },
+}
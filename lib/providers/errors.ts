@@ -0,0 +1,90 @@
+// Why a provider call failed, in terms callers can act on. Only transient
+// failures are retried; content_policy and invalid_request are the request's
+// fault, so they neither trip the circuit breaker nor fall back elsewhere.
+export const PROVIDER_ERROR_CODES = [
+  "auth",
+  "rate_limited",
+  "content_policy",
+  "invalid_request",
+  "transient",
+  "circuit_open",
+  "unknown",
+] as const
+
+export type ProviderErrorCode = (typeof PROVIDER_ERROR_CODES)[number]
+
+// Per-image failure codes sent to clients: a provider error, or an image the
+// provider returned that couldn't be stored
+export type ImageErrorCode = ProviderErrorCode | "storage_failed"
+
+export class ProviderError extends Error {
+  readonly code: ProviderErrorCode
+  readonly status?: number
+  // From the provider's Retry-After header, when it sent one
+  readonly retryAfterMs?: number
+
+  constructor(code: ProviderErrorCode, message: string, details: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message, { cause: details.cause })
+    this.name = "ProviderError"
+    this.code = code
+    this.status = details.status
+    this.retryAfterMs = details.retryAfterMs
+  }
+}
+
+const CONTENT_POLICY = /content[ _-]?(policy|filter|moderation)|safety system|moderation/i
+const NETWORK_ERROR_NAMES = ["APIConnectionError", "APIConnectionTimeoutError", "AbortError", "TimeoutError"]
+const NETWORK_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE", "UND_ERR_SOCKET"]
+
+function codeForStatus(status: number, message: string): ProviderErrorCode {
+  if (status === 401 || status === 403) return "auth"
+  if (status === 429) return "rate_limited"
+  if (status === 408 || status === 409 || status >= 500) return "transient"
+  if (CONTENT_POLICY.test(message)) return "content_policy"
+  return "invalid_request"
+}
+
+// Retry-After is either seconds or an HTTP date
+function parseRetryAfter(value: string | null | undefined) {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(seconds, 0) * 1000
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0)
+}
+
+// For providers that call their API with fetch and read the status themselves
+export function providerHttpError(status: number, message: string, retryAfter?: string | null) {
+  return new ProviderError(codeForStatus(status, message), message, { status, retryAfterMs: parseRetryAfter(retryAfter) })
+}
+
+// Turns anything a provider threw into a ProviderError: SDK errors carry an
+// HTTP status, network failures surface as connection errors or a TypeError
+// from fetch, and everything else is "unknown"
+export function classifyProviderError(error: unknown): ProviderError {
+  if (error instanceof ProviderError) return error
+
+  const details = (error ?? {}) as {
+    message?: string
+    name?: string
+    status?: number
+    code?: string
+    headers?: Record<string, string | null | undefined>
+    cause?: { code?: string }
+  }
+  const message = details.message || "Provider call failed"
+
+  if (typeof details.status === "number") {
+    return new ProviderError(
+      details.code === "content_policy_violation" ? "content_policy" : codeForStatus(details.status, message),
+      message,
+      { status: details.status, retryAfterMs: parseRetryAfter(details.headers?.["retry-after"]), cause: error },
+    )
+  }
+
+  const network =
+    NETWORK_ERROR_NAMES.includes(details.name ?? "") ||
+    NETWORK_ERROR_CODES.includes(details.code ?? details.cause?.code ?? "") ||
+    (error instanceof TypeError && /fetch failed|network/i.test(message))
+  return new ProviderError(network ? "transient" : "unknown", message, { cause: error })
+}
@@ -0,0 +1,49 @@
+import type { ImageErrorCode } from "./errors"
+import { getModel, sizeForAspectRatio } from "./params"
+import { getProvider } from "./registry"
+import { circuitStatus } from "./resilience"
+import type { GenerationParams, ImageProvider, ProviderSelection } from "./types"
+
+// Failures another provider could plausibly get past. Content the first
+// provider refused is not shopped around to the others.
+const FALLBACK_CODES: ImageErrorCode[] = ["auth", "rate_limited", "transient", "circuit_open", "unknown"]
+
+export function shouldFallBack(code: ImageErrorCode | undefined) {
+  return code !== undefined && FALLBACK_CODES.includes(code)
+}
+
+// PROVIDER_FALLBACK lists provider ids in the order to try when one fails,
+// e.g. "dalle,stability". Unset means no fallback.
+export function fallbackOrder() {
+  return (process.env.PROVIDER_FALLBACK || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+}
+
+// The same request translated to another provider: its default model, the
+// closest size in shape, and only the options it supports
+export function fallbackParams(provider: ImageProvider, params: GenerationParams): GenerationParams {
+  const model = getModel(provider)!
+  const [width, height] = params.size.split("x")
+  return {
+    model: model.id,
+    size: sizeForAspectRatio(model, `${width}:${height}`),
+    count: Math.min(params.count, model.maxImages),
+    quality: params.quality && model.qualities?.includes(params.quality) ? params.quality : undefined,
+    style: params.style && model.styles?.includes(params.style) ? params.style : undefined,
+    negativePrompt: provider.capabilities.supportsNegativePrompt ? params.negativePrompt : undefined,
+    seed: provider.capabilities.supportsSeed ? params.seed : undefined,
+  }
+}
+
+// Configured providers to try after `failed`, in PROVIDER_FALLBACK order.
+// Providers in `exclude` (usually the others already in the job) and those
+// whose circuit is open are skipped.
+export function fallbackSelections({ provider, params }: ProviderSelection, exclude: string[] = []): ProviderSelection[] {
+  return fallbackOrder()
+    .filter((id) => id !== provider.id && !exclude.includes(id) && circuitStatus(id) !== "open")
+    .map((id) => getProvider(id))
+    .filter((candidate): candidate is ImageProvider => Boolean(candidate?.isConfigured()))
+    .map((candidate) => ({ provider: candidate, params: fallbackParams(candidate, params) }))
+}
@@ -0,0 +1,74 @@
+import { listProviders } from "./registry"
+import { circuitStatus, type CircuitStatus } from "./resilience"
+import type { ProviderHealth } from "./types"
+
+export interface ProviderHealthReport extends ProviderHealth {
+  id: string
+  name: string
+  // Whether generation calls are currently being let through
+  circuit: CircuitStatus
+}
+
+export type HealthStatus = "ok" | "degraded" | "down"
+
+export interface HealthReport {
+  status: HealthStatus
+  providers: ProviderHealthReport[]
+  checkedAt: string
+}
+
+// Checks call the providers' APIs, so results are reused for a short while
+// to keep load balancer probes from turning into a stream of upstream calls
+const HEALTH_TTL_MS = 30_000
+const HEALTH_TIMEOUT_MS = 5_000
+
+const globalForHealth = globalThis as unknown as {
+  providerHealth?: { report: Promise<HealthReport>; expiresAt: number }
+}
+
+async function probe(check: () => Promise<ProviderHealth>): Promise<ProviderHealth> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<ProviderHealth>((resolve) => {
+    timer = setTimeout(
+      () => resolve({ configured: true, ok: false, latencyMs: HEALTH_TIMEOUT_MS, error: "Health check timed out" }),
+      HEALTH_TIMEOUT_MS,
+    )
+  })
+  try {
+    return await Promise.race([check(), timeout])
+  } catch (error: any) {
+    return { configured: true, ok: false, error: error?.message || "Health check failed" }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+async function runChecks(): Promise<HealthReport> {
+  const providers = await Promise.all(
+    listProviders().map(async (provider) => ({
+      id: provider.id,
+      name: provider.name,
+      circuit: circuitStatus(provider.id),
+      ...(await probe(() => provider.health())),
+    })),
+  )
+
+  // Unconfigured providers are reported but don't count against the service
+  const configured = providers.filter((provider) => provider.configured)
+  const reachable = configured.filter((provider) => provider.ok).length
+  const status: HealthStatus =
+    reachable === 0 ? "down" : reachable === configured.length ? "ok" : "degraded"
+
+  return { status, providers, checkedAt: new Date().toISOString() }
+}
+
+export function checkHealth({ fresh = false } = {}): Promise<HealthReport> {
+  const cached = globalForHealth.providerHealth
+  if (!fresh && cached && cached.expiresAt > Date.now()) {
+    return cached.report
+  }
+
+  const report = runChecks()
+  globalForHealth.providerHealth = { report, expiresAt: Date.now() + HEALTH_TTL_MS }
+  return report
+}
@@ -0,0 +1,48 @@
+import { span } from "@/lib/logger"
+import { classifyProviderError } from "./errors"
+import { callProvider } from "./resilience"
+import type { GenerationRequest, ImageProvider, ProviderImage, ProviderRun } from "./types"
+
+export * from "./errors"
+export * from "./fallback"
+export * from "./health"
+export * from "./params"
+export * from "./registry"
+export { circuitStatus, type CircuitStatus } from "./resilience"
+export type {
+  ComparisonPhase,
+  EditRequest,
+  GeneratedImage,
+  GenerationParams,
+  GenerationRequest,
+  ImageProvider,
+  ModelCapabilities,
+  ProviderCapabilities,
+  ProviderHealth,
+  ProviderImage,
+  ProviderRun,
+  ProviderSelection,
+  SourceImage,
+  VariationRequest,
+} from "./types"
+
+export function runProvider(provider: ImageProvider, request: GenerationRequest): Promise<ProviderRun> {
+  return runProviderCall(provider, () => provider.generate(request))
+}
+
+// Times one provider call, with retries and the circuit breaker, turning a
+// thrown error into a failed run. The "provider" span logs the failure, so it
+// isn't logged again here.
+export async function runProviderCall(
+  provider: ImageProvider,
+  call: () => Promise<ProviderImage[]>,
+): Promise<ProviderRun> {
+  const started = Date.now()
+  try {
+    const images = await span("provider", () => callProvider(provider, call), { provider: provider.id })
+    return { provider, images, durationMs: Date.now() - started }
+  } catch (thrown) {
+    const error = classifyProviderError(thrown)
+    return { provider, durationMs: Date.now() - started, images: [], error: error.message, errorCode: error.code }
+  }
+}
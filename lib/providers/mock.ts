@@ -0,0 +1,80 @@
+import { createHash } from "crypto"
+import { escapeXml, wrapText } from "@/lib/svg"
+import { parseSize } from "./params"
+import type { GenerationRequest, ImageProvider, ProviderImage } from "./types"
+
+const MODEL = "mock-1"
+
+type RenderRequest = Pick<GenerationRequest, "prompt" | "size" | "negativePrompt" | "seed">
+
+// Renders an SVG whose colours are derived from a hash of the request, so the
+// same request always produces byte-identical output without any network access.
+// Variations and edits pass a hash of their source image as the salt.
+function renderSvg({ prompt, size, negativePrompt, seed }: RenderRequest, index: number, salt?: string) {
+  const { width, height } = parseSize(size)
+  const hash = createHash("sha256")
+    .update(JSON.stringify([prompt, negativePrompt ?? null, seed ?? null, index, ...(salt ? [salt] : [])]))
+    .digest()
+  const hueA = hash[0] * (360 / 256)
+  const hueB = (hueA + 60 + hash[1]) % 360
+  const lines = wrapText(prompt, Math.floor((width - 128) / 19)).slice(0, 8)
+  const text = lines
+    .map((line, i) => `<tspan x="64" dy="${i === 0 ? 0 : 44}">${escapeXml(line)}</tspan>`)
+    .join("")
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+<stop offset="0" stop-color="hsl(${hueA.toFixed(0)},60%,45%)"/>
+<stop offset="1" stop-color="hsl(${hueB.toFixed(0)},60%,25%)"/>
+</linearGradient></defs>
+<rect width="100%" height="100%" fill="url(#g)"/>
+<text x="64" y="${height / 2 - lines.length * 22}" font-family="sans-serif" font-size="34" fill="#fff">${text}</text>
+<text x="64" y="${height - 64}" font-family="monospace" font-size="24" fill="#ffffffaa">mock ${hash.toString("hex", 0, 6)}</text>
+</svg>`
+}
+
+function renderImages(request: RenderRequest, count: number, salt?: string): ProviderImage[] {
+  return Array.from({ length: count }, (_, index) => ({
+    b64: Buffer.from(renderSvg(request, index, salt)).toString("base64"),
+    mimeType: "image/svg+xml",
+    model: MODEL,
+    size: request.size,
+    seed: request.seed,
+  }))
+}
+
+function hashOf(...parts: (string | Buffer)[]) {
+  const hash = createHash("sha256")
+  parts.forEach((part) => hash.update(part))
+  return hash.digest("hex")
+}
+
+export const mockProvider: ImageProvider = {
+  id: "mock",
+  name: "Mock",
+  capabilities: {
+    models: [{ id: MODEL, sizes: ["1024x1024", "1792x1024", "1024x1792"], maxImages: 4 }],
+    supportsSeed: true,
+    supportsNegativePrompt: true,
+  },
+
+  isConfigured() {
+    return process.env.MOCK_PROVIDER === "true"
+  },
+
+  async generate(request) {
+    return renderImages(request, request.count)
+  },
+
+  async vary({ image, prompt, count }) {
+    return renderImages({ prompt, size: image.size }, count, hashOf("variation", image.data))
+  },
+
+  async edit({ image, prompt, mask, count }) {
+    return renderImages({ prompt, size: image.size }, count, hashOf("edit", image.data, mask))
+  },
+
+  async health() {
+    return { configured: this.isConfigured(), ok: true, latencyMs: 0 }
+  },
+}
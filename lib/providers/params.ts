@@ -0,0 +1,23 @@
+import type { ImageProvider, ModelCapabilities } from "./types"
+
+export function getModel(provider: ImageProvider, modelId?: string): ModelCapabilities | undefined {
+  return modelId ? provider.capabilities.models.find((model) => model.id === modelId) : provider.capabilities.models[0]
+}
+
+export function parseSize(size: string) {
+  const [width, height] = size.split("x").map(Number)
+  return { width, height }
+}
+
+// Picks the supported size whose shape is closest to "W:H"
+export function sizeForAspectRatio(model: ModelCapabilities, aspectRatio: string) {
+  const [w, h] = aspectRatio.split(":").map(Number)
+  const target = Math.log(w / h)
+  return model.sizes.reduce((best, size) => {
+    const { width, height } = parseSize(size)
+    const current = parseSize(best)
+    return Math.abs(Math.log(width / height) - target) < Math.abs(Math.log(current.width / current.height) - target)
+      ? size
+      : best
+  })
+}
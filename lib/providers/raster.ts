@@ -0,0 +1,34 @@
+import sharp from "sharp"
+import { parseSize } from "./params"
+import type { SourceImage } from "./types"
+
+// Rasterises a stored image (SVGs included) to a PNG of exactly the given size,
+// cropping from the centre when the aspect ratio differs
+export async function sourceToPng({ data }: SourceImage, size: string) {
+  const { width, height } = parseSize(size)
+  return sharp(data).resize(width, height, { fit: "cover", position: "centre" }).png().toBuffer()
+}
+
+// Single-channel PNG at the given size, white where the mask was painted. The
+// mask is drawn over the whole source image, so it is cropped exactly as
+// sourceToPng crops the source; paint outside that crop has nothing to edit.
+export async function maskRegion(mask: Buffer, size: string) {
+  const { width, height } = parseSize(size)
+  return sharp(mask)
+    .resize(width, height, { fit: "cover", position: "centre" })
+    .ensureAlpha()
+    .extractChannel("alpha")
+    .png()
+    .toBuffer()
+}
+
+// RGBA PNG that is transparent where the mask was painted, the convention
+// OpenAI's edit endpoint expects
+export async function transparentMask(mask: Buffer, size: string) {
+  const { width, height } = parseSize(size)
+  const alpha = await sharp(await maskRegion(mask, size)).negate().png().toBuffer()
+  return sharp({ create: { width, height, channels: 3, background: "#000" } })
+    .joinChannel(alpha)
+    .png()
+    .toBuffer()
+}
@@ -0,0 +1,29 @@
+import { dalleProvider } from "./dalle"
+import { mockProvider } from "./mock"
+import { stabilityProvider } from "./stability"
+import type { ImageProvider } from "./types"
+
+const providers = new Map<string, ImageProvider>()
+
+export function registerProvider(provider: ImageProvider) {
+  if (providers.has(provider.id)) {
+    throw new Error(`Provider "${provider.id}" is already registered`)
+  }
+  providers.set(provider.id, provider)
+}
+
+export function getProvider(id: string) {
+  return providers.get(id)
+}
+
+export function listProviders() {
+  return Array.from(providers.values())
+}
+
+export function getConfiguredProviders() {
+  return listProviders().filter((provider) => provider.isConfigured())
+}
+
+registerProvider(dalleProvider)
+registerProvider(stabilityProvider)
+registerProvider(mockProvider)
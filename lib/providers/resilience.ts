@@ -0,0 +1,120 @@
+import { logger } from "@/lib/logger"
+import { classifyProviderError, ProviderError, type ProviderErrorCode } from "./errors"
+import type { ImageProvider } from "./types"
+
+// Transient failures are retried PROVIDER_RETRIES times (default 2), waiting
+// PROVIDER_RETRY_BASE_MS (default 500) doubled on every attempt, with jitter
+const DEFAULT_RETRIES = 2
+const DEFAULT_RETRY_BASE_MS = 500
+const MAX_RETRY_DELAY_MS = 10_000
+
+// CIRCUIT_FAILURE_THRESHOLD consecutive failures (default 5) open a provider's
+// circuit for CIRCUIT_COOLDOWN_MS (default 60000); after that a single trial
+// call decides whether it closes again
+const DEFAULT_FAILURE_THRESHOLD = 5
+const DEFAULT_COOLDOWN_MS = 60_000
+
+// Failures that say something about the provider rather than the request
+const COUNTED: ProviderErrorCode[] = ["auth", "rate_limited", "transient", "unknown"]
+
+export type CircuitStatus = "closed" | "open" | "half_open"
+
+interface CircuitState {
+  failures: number
+  openedAt?: number
+  // A half-open circuit lets one call through at a time
+  trialInFlight: boolean
+}
+
+function envNumber(value: string | undefined, fallback: number, min = 0) {
+  const parsed = Number(value)
+  return value !== undefined && value !== "" && Number.isFinite(parsed) && parsed >= min ? parsed : fallback
+}
+
+const globalForCircuits = globalThis as unknown as { providerCircuits?: Map<string, CircuitState> }
+const circuits = (globalForCircuits.providerCircuits ??= new Map())
+
+function circuitFor(providerId: string): CircuitState {
+  let circuit = circuits.get(providerId)
+  if (!circuit) {
+    circuit = { failures: 0, trialInFlight: false }
+    circuits.set(providerId, circuit)
+  }
+  return circuit
+}
+
+export function circuitStatus(providerId: string): CircuitStatus {
+  const circuit = circuits.get(providerId)
+  if (!circuit?.openedAt) return "closed"
+  return Date.now() - circuit.openedAt < envNumber(process.env.CIRCUIT_COOLDOWN_MS, DEFAULT_COOLDOWN_MS)
+    ? "open"
+    : "half_open"
+}
+
+function enterCircuit(provider: ImageProvider) {
+  const status = circuitStatus(provider.id)
+  const circuit = circuitFor(provider.id)
+  if (status === "open" || (status === "half_open" && circuit.trialInFlight)) {
+    throw new ProviderError("circuit_open", `${provider.name} is temporarily unavailable after repeated failures`)
+  }
+  if (status === "half_open") circuit.trialInFlight = true
+}
+
+function leaveCircuit(provider: ImageProvider, error?: ProviderError) {
+  const circuit = circuitFor(provider.id)
+  circuit.trialInFlight = false
+
+  if (!error || !COUNTED.includes(error.code)) {
+    if (circuit.openedAt) logger.info("provider circuit closed", { provider: provider.id })
+    circuit.failures = 0
+    circuit.openedAt = undefined
+    return
+  }
+
+  circuit.failures++
+  const threshold = envNumber(process.env.CIRCUIT_FAILURE_THRESHOLD, DEFAULT_FAILURE_THRESHOLD, 1)
+  // A failed trial reopens straight away
+  if (circuit.openedAt || circuit.failures >= threshold) {
+    circuit.openedAt = Date.now()
+    logger.warn("provider circuit opened", { provider: provider.id, failures: circuit.failures, code: error.code })
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+function retryDelay(attempt: number, error: ProviderError) {
+  const base = envNumber(process.env.PROVIDER_RETRY_BASE_MS, DEFAULT_RETRY_BASE_MS)
+  const backoff = base * 2 ** attempt * (0.5 + Math.random() / 2)
+  return Math.round(Math.min(Math.max(backoff, error.retryAfterMs ?? 0), MAX_RETRY_DELAY_MS))
+}
+
+async function withRetries<T>(provider: ImageProvider, call: () => Promise<T>): Promise<T> {
+  const retries = Math.floor(envNumber(process.env.PROVIDER_RETRIES, DEFAULT_RETRIES))
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call()
+    } catch (thrown) {
+      const error = classifyProviderError(thrown)
+      if (error.code !== "transient" || attempt >= retries) throw error
+
+      const delayMs = retryDelay(attempt, error)
+      logger.warn("provider call failed, retrying", { provider: provider.id, attempt: attempt + 1, delayMs, error })
+      await sleep(delayMs)
+    }
+  }
+}
+
+// Runs one provider call behind the provider's circuit breaker, retrying
+// transient failures. Whatever it throws is a ProviderError.
+export async function callProvider<T>(provider: ImageProvider, call: () => Promise<T>): Promise<T> {
+  enterCircuit(provider)
+  try {
+    const result = await withRetries(provider, call)
+    leaveCircuit(provider)
+    return result
+  } catch (thrown) {
+    const error = classifyProviderError(thrown)
+    leaveCircuit(provider, error)
+    throw error
+  }
+}
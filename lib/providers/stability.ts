@@ -0,0 +1,174 @@
+import { correlationHeaders } from "@/lib/logger"
+import { ProviderError, providerHttpError } from "./errors"
+import { parseSize } from "./params"
+import { maskRegion, sourceToPng } from "./raster"
+import type { ImageProvider, ProviderImage, SourceImage, VariationRequest } from "./types"
+
+const API_HOST = "https://api.stability.ai"
+const ENGINE = "stable-diffusion-xl-1024-v1-0"
+// SDXL only accepts these dimension pairs
+const SIZES = ["1024x1024", "1152x896", "896x1152", "1216x832", "832x1216", "1344x768", "768x1344", "1536x640", "640x1536"]
+// How closely a variation sticks to its source image, from 0 to 1
+const VARIATION_STRENGTH = 0.35
+
+interface StabilityArtifact {
+  base64: string
+  seed: number
+  finishReason: "SUCCESS" | "ERROR" | "CONTENT_FILTERED"
+}
+
+function authHeaders() {
+  return {
+    Authorization: `Bearer ${process.env.STABILITY_API_KEY}`,
+    Accept: "application/json",
+    ...correlationHeaders(),
+  }
+}
+
+async function readError(response: Response) {
+  try {
+    const body = await response.json()
+    return body?.message || `Stability API returned ${response.status}`
+  } catch {
+    return `Stability API returned ${response.status}`
+  }
+}
+
+function requireKey() {
+  if (!process.env.STABILITY_API_KEY) {
+    throw new ProviderError("auth", "STABILITY_API_KEY is not configured")
+  }
+}
+
+async function readArtifacts(response: Response, model: string, size: string): Promise<ProviderImage[]> {
+  if (!response.ok) {
+    throw providerHttpError(response.status, await readError(response), response.headers.get("retry-after"))
+  }
+
+  const body: { artifacts?: StabilityArtifact[] } = await response.json()
+  const artifacts = (body.artifacts || []).filter((artifact) => artifact.base64)
+  if (artifacts.length === 0) {
+    throw new ProviderError("unknown", "No image data received from Stability AI")
+  }
+  if (artifacts.every((artifact) => artifact.finishReason === "CONTENT_FILTERED")) {
+    throw new ProviderError("content_policy", "Image was blocked by the Stability AI content filter")
+  }
+
+  return artifacts
+    .filter((artifact) => artifact.finishReason !== "CONTENT_FILTERED")
+    .map((artifact) => ({ b64: artifact.base64, mimeType: "image/png", model, size, seed: artifact.seed }))
+}
+
+function pngBlob(data: Buffer) {
+  return new Blob([new Uint8Array(data)], { type: "image/png" })
+}
+
+// The image-to-image endpoints take multipart forms; sources from other
+// providers are resized to the closest size SDXL accepts
+async function imageForm({ image, prompt, count }: VariationRequest, size: string) {
+  const form = new FormData()
+  form.append("init_image", pngBlob(await sourceToPng(image, size)), "init.png")
+  form.append("text_prompts[0][text]", prompt)
+  form.append("text_prompts[0][weight]", "1")
+  form.append("samples", String(count))
+  form.append("steps", "30")
+  form.append("cfg_scale", "7")
+  return form
+}
+
+function sourceSize(image: SourceImage) {
+  return SIZES.includes(image.size) ? image.size : SIZES[0]
+}
+
+export const stabilityProvider: ImageProvider = {
+  id: "stability",
+  name: "Stability AI",
+  capabilities: {
+    models: [
+      {
+        id: ENGINE,
+        sizes: SIZES,
+        maxImages: 4,
+      },
+    ],
+    supportsSeed: true,
+    supportsNegativePrompt: true,
+  },
+
+  isConfigured() {
+    return Boolean(process.env.STABILITY_API_KEY)
+  },
+
+  async generate({ prompt, model, size, count, negativePrompt, seed }) {
+    requireKey()
+
+    const { width, height } = parseSize(size)
+    const textPrompts = [{ text: prompt, weight: 1 }]
+    if (negativePrompt) {
+      textPrompts.push({ text: negativePrompt, weight: -1 })
+    }
+
+    const response = await fetch(`${API_HOST}/v1/generation/${model}/text-to-image`, {
+      method: "POST",
+      headers: { ...authHeaders(), "Content-Type": "application/json" },
+      body: JSON.stringify({
+        text_prompts: textPrompts,
+        width,
+        height,
+        samples: count,
+        steps: 30,
+        cfg_scale: 7,
+        ...(seed !== undefined && { seed }),
+      }),
+    })
+
+    return readArtifacts(response, model, size)
+  },
+
+  async vary(request) {
+    requireKey()
+    const size = sourceSize(request.image)
+    const form = await imageForm(request, size)
+    form.append("init_image_mode", "IMAGE_STRENGTH")
+    form.append("image_strength", String(VARIATION_STRENGTH))
+
+    const response = await fetch(`${API_HOST}/v1/generation/${ENGINE}/image-to-image`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: form,
+    })
+    return readArtifacts(response, ENGINE, size)
+  },
+
+  async edit(request) {
+    requireKey()
+    const size = sourceSize(request.image)
+    const form = await imageForm(request, size)
+    form.append("mask_source", "MASK_IMAGE_WHITE")
+    form.append("mask_image", pngBlob(await maskRegion(request.mask, size)), "mask.png")
+
+    const response = await fetch(`${API_HOST}/v1/generation/${ENGINE}/image-to-image/masking`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: form,
+    })
+    return readArtifacts(response, ENGINE, size)
+  },
+
+  async health() {
+    if (!this.isConfigured()) {
+      return { configured: false, ok: false, error: "STABILITY_API_KEY is not configured" }
+    }
+
+    const started = Date.now()
+    try {
+      const response = await fetch(`${API_HOST}/v1/user/account`, { headers: authHeaders() })
+      if (!response.ok) {
+        return { configured: true, ok: false, latencyMs: Date.now() - started, error: await readError(response) }
+      }
+      return { configured: true, ok: true, latencyMs: Date.now() - started }
+    } catch (error: any) {
+      return { configured: true, ok: false, latencyMs: Date.now() - started, error: error?.message }
+    }
+  },
+}
@@ -0,0 +1,114 @@
+import type { ImageErrorCode, ProviderErrorCode } from "./errors"
+
+// Fully resolved options for one provider; defaults are filled in from the
+// provider's capabilities before a request reaches generate()
+export interface GenerationParams {
+  model: string
+  size: string
+  count: number
+  quality?: string
+  style?: string
+  negativePrompt?: string
+  seed?: number
+}
+
+export interface GenerationRequest extends GenerationParams {
+  prompt: string
+}
+
+// A stored image handed back to a provider as the starting point
+export interface SourceImage {
+  data: Buffer
+  mimeType: string
+  size: string
+}
+
+export interface VariationRequest {
+  image: SourceImage
+  // The prompt the source image was made from
+  prompt: string
+  count: number
+}
+
+export interface EditRequest extends VariationRequest {
+  // PNG the same shape as the source; painted (non-transparent) pixels mark
+  // the region to change
+  mask: Buffer
+}
+
+export interface ModelCapabilities {
+  id: string
+  // "WIDTHxHEIGHT", first entry is the default
+  sizes: string[]
+  maxImages: number
+  qualities?: string[]
+  styles?: string[]
+}
+
+export interface ProviderCapabilities {
+  // First entry is the default model
+  models: ModelCapabilities[]
+  supportsSeed: boolean
+  supportsNegativePrompt: boolean
+}
+
+export interface ProviderImage {
+  b64: string
+  mimeType: string
+  model: string
+  size: string
+  seed?: number
+}
+
+export interface ProviderHealth {
+  configured: boolean
+  ok: boolean
+  latencyMs?: number
+  error?: string
+}
+
+export interface ImageProvider {
+  id: string
+  name: string
+  capabilities: ProviderCapabilities
+  isConfigured(): boolean
+  generate(request: GenerationRequest): Promise<ProviderImage[]>
+  // Optional; providers without them can't make variations or edits
+  vary?(request: VariationRequest): Promise<ProviderImage[]>
+  edit?(request: EditRequest): Promise<ProviderImage[]>
+  health(): Promise<ProviderHealth>
+}
+
+export interface ProviderSelection {
+  provider: ImageProvider
+  params: GenerationParams
+}
+
+export interface ProviderRun {
+  provider: ImageProvider
+  durationMs: number
+  images: ProviderImage[]
+  // The provider's own message, for logs and metrics only
+  error?: string
+  errorCode?: ProviderErrorCode
+}
+
+// Which half of a comparison pair an image belongs to
+export type ComparisonPhase = "today" | "future"
+
+// Shape returned to the client, one per provider that was asked to generate
+export interface GeneratedImage {
+  id?: string
+  // Missing when the image failed; see error
+  url?: string
+  provider: string
+  providerId: string
+  durationMs: number
+  // Served from the generation cache rather than a fresh provider call
+  cached?: boolean
+  // Only set in comparison mode
+  phase?: ComparisonPhase
+  // Set when another provider stood in for the one that was asked
+  fallbackFrom?: string
+  error?: ImageErrorCode
+}
@@ -0,0 +1,168 @@
+import type { NextRequest } from "next/server"
+import { createMemoryStore } from "./memory"
+import type { RateLimitStore } from "./types"
+
+export { createMemoryStore }
+export type { RateLimitStore, WindowResult } from "./types"
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetAt: number
+  retryAfterSeconds: number
+}
+
+export interface QuotaResult {
+  allowed: boolean
+  limit: number
+  used: number
+  remaining: number
+  resetAt: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const globalForRateLimit = globalThis as unknown as { rateLimitStore?: RateLimitStore }
+
+function store() {
+  return (globalForRateLimit.rateLimitStore ??= createMemoryStore())
+}
+
+// Swap in a shared store (Redis, a database...) when running more than one instance
+export function setRateLimitStore(next: RateLimitStore) {
+  globalForRateLimit.rateLimitStore = next
+}
+
+function config() {
+  return {
+    windowMs: Number(process.env.RATE_LIMIT_WINDOW_MS) || 60_000,
+    maxRequests: Number(process.env.RATE_LIMIT_MAX_REQUESTS) || 5,
+    dailyImages: Number(process.env.DAILY_IMAGE_QUOTA) || 30,
+  }
+}
+
+export type ClientAddressSource = "platform" | "forwarded"
+
+// Route handlers never see the socket, so the caller's address comes from
+// either the host (request.ip, e.g. on Vercel) or X-Forwarded-For. Production
+// must say which in CLIENT_ADDRESS_SOURCE; without it every caller would share
+// one bucket. In development Next fills X-Forwarded-For with the socket
+// address itself when the header is missing.
+export function clientAddressSource(): ClientAddressSource | undefined {
+  const source = process.env.CLIENT_ADDRESS_SOURCE
+  if (source === "platform" || source === "forwarded") return source
+  return process.env.NODE_ENV === "production" ? undefined : "forwarded"
+}
+
+// Each trusted proxy appends the address it was connected from, so the
+// client's is that many entries from the end; anything before it may be forged
+function trustedProxyHops() {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1)
+  return Number.isInteger(hops) && hops >= 1 ? hops : undefined
+}
+
+// Called at startup (see instrumentation.ts) so a misconfigured server fails
+// to start rather than rate-limiting everyone together
+export function assertClientAddressConfig() {
+  const source = clientAddressSource()
+  if (!source) {
+    throw new Error('Set CLIENT_ADDRESS_SOURCE to "platform" or "forwarded" so callers can be told apart')
+  }
+  if (source === "forwarded" && !trustedProxyHops()) {
+    throw new Error("TRUSTED_PROXY_HOPS must be a whole number of at least 1")
+  }
+}
+
+// Identifies callers without an API key or session (public routes) by network
+// address. Throws rather than falling back to a bucket everyone would share.
+export function identifyClient(request: Request) {
+  const source = clientAddressSource()
+  let address: string | undefined
+  if (source === "platform") {
+    address = (request as NextRequest).ip
+  } else if (source === "forwarded") {
+    const hops = trustedProxyHops() ?? 1
+    const forwarded = (request.headers.get("x-forwarded-for") || "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+    address = forwarded[forwarded.length - hops]
+  }
+  if (!address) {
+    throw new Error("Could not determine the client address; check CLIENT_ADDRESS_SOURCE and TRUSTED_PROXY_HOPS")
+  }
+  return `ip:${address}`
+}
+
+// A window counted apart from the generation limit, for public routes whose
+// requests are cheaper and more frequent
+export interface RateLimitBucket {
+  name: string
+  maxRequests: number
+}
+
+export async function checkRateLimit(clientId: string, bucket?: RateLimitBucket, now = Date.now()): Promise<RateLimitResult> {
+  const { windowMs } = config()
+  const maxRequests = bucket?.maxRequests ?? config().maxRequests
+  const key = bucket ? `rate:${bucket.name}:${clientId}` : `rate:${clientId}`
+  const { allowed, hits } = await store().takeWindow(key, now, windowMs, maxRequests)
+
+  // The window frees up a slot when its oldest hit expires
+  const resetAt = (hits[0] ?? now) + windowMs
+  return {
+    allowed,
+    limit: maxRequests,
+    remaining: Math.max(maxRequests - hits.length, 0),
+    resetAt,
+    retryAfterSeconds: allowed ? 0 : Math.max(Math.ceil((resetAt - now) / 1000), 1),
+  }
+}
+
+function quotaWindow(clientId: string, now: number) {
+  const day = new Date(now).toISOString().slice(0, 10)
+  return { key: `quota:${clientId}:${day}`, resetAt: Math.floor(now / DAY_MS) * DAY_MS + DAY_MS }
+}
+
+export async function getQuota(clientId: string, now = Date.now()): Promise<QuotaResult> {
+  const limit = config().dailyImages
+  const { key, resetAt } = quotaWindow(clientId, now)
+  const used = await store().getCounter(key)
+  return { allowed: used < limit, limit, used, remaining: Math.max(limit - used, 0), resetAt }
+}
+
+// Reserves `images` from today's quota, or reserves nothing if that would exceed it
+export async function consumeQuota(clientId: string, images: number, now = Date.now()): Promise<QuotaResult> {
+  const limit = config().dailyImages
+  const { key, resetAt } = quotaWindow(clientId, now)
+
+  let used = await store().incrementCounter(key, images, resetAt)
+  const allowed = used <= limit
+  if (!allowed) {
+    used = await store().incrementCounter(key, -images, resetAt)
+  }
+  return { allowed, limit, used, remaining: Math.max(limit - used, 0), resetAt }
+}
+
+export function rateLimitHeaders(rate?: RateLimitResult, quota?: QuotaResult): Record<string, string> {
+  const headers: Record<string, string> = {}
+  if (rate) {
+    headers["X-RateLimit-Limit"] = String(rate.limit)
+    headers["X-RateLimit-Remaining"] = String(rate.remaining)
+    headers["X-RateLimit-Reset"] = String(Math.ceil(rate.resetAt / 1000))
+    if (!rate.allowed) {
+      headers["Retry-After"] = String(rate.retryAfterSeconds)
+    }
+  }
+  if (quota) {
+    headers["X-Quota-Limit"] = String(quota.limit)
+    headers["X-Quota-Remaining"] = String(quota.remaining)
+    headers["X-Quota-Reset"] = String(Math.ceil(quota.resetAt / 1000))
+    if (!quota.allowed) {
+      headers["Retry-After"] = String(Math.ceil((quota.resetAt - Date.now()) / 1000))
+    }
+  }
+  return headers
+}
+
+export { quotaExceededResponse, rateLimitedResponse } from "./responses"
@@ -0,0 +1,85 @@
+import type { RateLimitStore } from "./types"
+
+interface Window {
+  hits: number[]
+  expiresAt: number
+}
+
+interface Counter {
+  value: number
+  expiresAt: number
+}
+
+// Expired entries are otherwise only dropped when their key comes up again,
+// so every so often a sweep clears the rest. Past MAX_KEYS the oldest keys are
+// dropped too, down to TRIMMED_KEYS so a flood of new clients neither grows
+// the store nor forces a sweep on every request.
+const SWEEP_INTERVAL_MS = 60_000
+const MAX_KEYS = 50_000
+const TRIMMED_KEYS = 40_000
+
+// Single-process store; fine for one server, but each instance keeps its own
+// counts, so deployments with several instances need a shared store
+export function createMemoryStore(): RateLimitStore {
+  const windows = new Map<string, Window>()
+  const counters = new Map<string, Counter>()
+  let sweptAt = 0
+
+  const sweep = (now: number) => {
+    if (now - sweptAt < SWEEP_INTERVAL_MS && windows.size + counters.size <= MAX_KEYS) {
+      return
+    }
+    sweptAt = now
+    for (const entries of [windows, counters]) {
+      entries.forEach((entry, key) => {
+        if (entry.expiresAt <= now) entries.delete(key)
+      })
+    }
+    // Maps iterate in insertion order, so the first keys are the oldest
+    for (const entries of [windows, counters]) {
+      for (const key of entries.keys()) {
+        if (windows.size + counters.size <= TRIMMED_KEYS) break
+        entries.delete(key)
+      }
+    }
+  }
+
+  const liveCounter = (key: string, now = Date.now()) => {
+    const counter = counters.get(key)
+    if (counter && counter.expiresAt <= now) {
+      counters.delete(key)
+      return undefined
+    }
+    return counter
+  }
+
+  return {
+    async takeWindow(key, now, windowMs, limit) {
+      sweep(now)
+      const hits = (windows.get(key)?.hits || []).filter((hit) => hit > now - windowMs)
+      const allowed = hits.length < limit
+      if (allowed) {
+        hits.push(now)
+      }
+
+      // Re-inserted so the key counts as recent
+      windows.delete(key)
+      if (hits.length > 0) {
+        windows.set(key, { hits, expiresAt: hits[hits.length - 1] + windowMs })
+      }
+      return { allowed, hits: [...hits] }
+    },
+
+    async incrementCounter(key, amount, expiresAt) {
+      sweep(Date.now())
+      const counter = liveCounter(key) || { value: 0, expiresAt }
+      counter.value += amount
+      counters.set(key, counter)
+      return counter.value
+    },
+
+    async getCounter(key) {
+      return liveCounter(key)?.value || 0
+    },
+  }
+}
@@ -0,0 +1,22 @@
+import { apiError } from "@/lib/api/errors"
+import { rateLimitHeaders, type QuotaResult, type RateLimitResult } from "./index"
+
+export function rateLimitedResponse(rate: RateLimitResult) {
+  return apiError(
+    429,
+    "rate_limited",
+    `Too many requests. Try again in ${rate.retryAfterSeconds} seconds.`,
+    { retryAfter: rate.retryAfterSeconds },
+    rateLimitHeaders(rate),
+  )
+}
+
+export function quotaExceededResponse(rate: RateLimitResult, quota: QuotaResult) {
+  return apiError(
+    429,
+    "quota_exceeded",
+    `Daily limit of ${quota.limit} images reached. It resets at ${new Date(quota.resetAt).toISOString()}.`,
+    { quota },
+    rateLimitHeaders(rate, quota),
+  )
+}
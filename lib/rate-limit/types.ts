@@ -0,0 +1,18 @@
+export interface WindowResult {
+  allowed: boolean
+  // Timestamps of the hits still inside the window, oldest first
+  hits: number[]
+}
+
+// Backing storage for limits and quotas. Both operations must be atomic in a
+// shared implementation (e.g. a Redis script) so concurrent requests can't
+// overshoot a limit.
+export interface RateLimitStore {
+  // Drops hits older than the window, then records a hit at `now` only if
+  // fewer than `limit` remain
+  takeWindow(key: string, now: number, windowMs: number, limit: number): Promise<WindowResult>
+  // Adds `amount` (which may be negative) and returns the new total. The
+  // counter resets once `expiresAt` has passed.
+  incrementCounter(key: string, amount: number, expiresAt: number): Promise<number>
+  getCounter(key: string): Promise<number>
+}
@@ -0,0 +1,46 @@
+import sharp from "sharp"
+import { addVisibleLabel } from "@/lib/provenance/label"
+import { embedWatermark } from "@/lib/provenance/watermark"
+import type { ShareCrop } from "./crops"
+
+const BACKDROP_BLUR = 40
+const JPEG_QUALITY = 88
+
+export interface CropOptions {
+  // Text of the visible AI label
+  label: string
+  // The stored image's watermark payload. Cropping loses the original mark,
+  // so it is embedded again; images stored before watermarking have none.
+  mark?: string
+}
+
+async function fitToCrop(source: Buffer, { width, height, fit }: ShareCrop): Promise<Buffer> {
+  if (fit === "cover") {
+    return sharp(source).resize(width, height, { fit: "cover", position: sharp.strategy.attention }).png().toBuffer()
+  }
+
+  const [backdrop, image] = await Promise.all([
+    sharp(source).resize(width, height, { fit: "cover" }).blur(BACKDROP_BLUR).modulate({ brightness: 0.7 }).toBuffer(),
+    sharp(source).resize(width, height, { fit: "inside" }).toBuffer({ resolveWithObject: true }),
+  ])
+  return sharp(backdrop)
+    .composite([
+      {
+        input: image.data,
+        left: Math.round((width - image.info.width) / 2),
+        top: Math.round((height - image.info.height) / 2),
+      },
+    ])
+    .png()
+    .toBuffer()
+}
+
+// JPEG keeps the files small enough for every platform's upload limit. Crops
+// leave the app, so they are always labelled.
+export async function cropForShare(source: Buffer, crop: ShareCrop, { label, mark }: CropOptions): Promise<Buffer> {
+  let output = await addVisibleLabel(await fitToCrop(source, crop), label)
+  if (mark) {
+    output = await embedWatermark(output, mark)
+  }
+  return sharp(output).jpeg({ quality: JPEG_QUALITY }).toBuffer()
+}
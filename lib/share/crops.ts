@@ -0,0 +1,30 @@
+export type ShareCropId = "square" | "story" | "landscape" | "link"
+
+export interface ShareCrop {
+  id: ShareCropId
+  name: string
+  width: number
+  height: number
+  // "cover" crops the image to fill the frame; "backdrop" keeps all of it and
+  // fills the rest with a blurred copy, for frames far from the image's shape
+  fit: "cover" | "backdrop"
+}
+
+export const shareCrops: ShareCrop[] = [
+  { id: "square", name: "Square (1:1)", width: 1080, height: 1080, fit: "cover" },
+  { id: "story", name: "Story (9:16)", width: 1080, height: 1920, fit: "backdrop" },
+  { id: "landscape", name: "Landscape (16:9)", width: 1600, height: 900, fit: "cover" },
+  { id: "link", name: "Link preview (1.91:1)", width: 1200, height: 627, fit: "cover" },
+]
+
+export const SHARE_CROP_MIME_TYPE = "image/jpeg"
+
+export function getShareCrop(id: string) {
+  return shareCrops.find((crop) => crop.id === id)
+}
+
+// Public like the image itself, so link previews can fetch it. The locale
+// picks the language of the AI label.
+export function shareCropUrl(imageId: string, cropId: ShareCropId, locale?: string) {
+  return `/api/images/${imageId}/crops/${cropId}${locale ? `?locale=${locale}` : ""}`
+}
@@ -0,0 +1,3 @@
+export { cropForShare, type CropOptions } from "./crop"
+export * from "./crops"
+export * from "./targets"
@@ -0,0 +1,72 @@
+import type { ShareCropId } from "./crops"
+
+export type ShareTargetId = "device" | "x" | "facebook" | "linkedin" | "whatsapp" | "email" | "instagram" | "instagram-story"
+
+// "intent" opens the platform's share link in a new tab. "native" hands the
+// crop to the Web Share API and is only offered where the browser has it.
+// "download" also tries the Web Share API, but falls back to saving the crop
+// and copying the caption, for apps with no web share link.
+export type ShareMethod = "intent" | "native" | "download"
+
+export interface ShareContent {
+  title: string
+  text: string
+  url: string
+}
+
+export interface ShareTarget {
+  id: ShareTargetId
+  name: string
+  method: ShareMethod
+  // The platform-sized image sent as a file. Link-only targets pick up the
+  // permalink's preview images instead.
+  crop?: ShareCropId
+  intentUrl?: (content: ShareContent) => string
+}
+
+const encode = encodeURIComponent
+
+export const shareTargets: ShareTarget[] = [
+  { id: "device", name: "More apps", method: "native", crop: "square" },
+  {
+    id: "x",
+    name: "X",
+    method: "intent",
+    intentUrl: ({ text, url }) => `https://x.com/intent/tweet?text=${encode(text)}&url=${encode(url)}`,
+  },
+  {
+    id: "facebook",
+    name: "Facebook",
+    method: "intent",
+    intentUrl: ({ url }) => `https://www.facebook.com/sharer/sharer.php?u=${encode(url)}`,
+  },
+  {
+    id: "linkedin",
+    name: "LinkedIn",
+    method: "intent",
+    intentUrl: ({ url }) => `https://www.linkedin.com/sharing/share-offsite/?url=${encode(url)}`,
+  },
+  {
+    id: "whatsapp",
+    name: "WhatsApp",
+    method: "intent",
+    intentUrl: ({ text, url }) => `https://wa.me/?text=${encode(`${text} ${url}`)}`,
+  },
+  {
+    id: "email",
+    name: "Email",
+    method: "intent",
+    intentUrl: ({ title, text, url }) => `mailto:?subject=${encode(title)}&body=${encode(`${text}\n\n${url}`)}`,
+  },
+  { id: "instagram", name: "Instagram post", method: "download", crop: "square" },
+  { id: "instagram-story", name: "Instagram story", method: "download", crop: "story" },
+]
+
+export function getShareTarget(id: string) {
+  return shareTargets.find((target) => target.id === id)
+}
+
+// Pasted alongside a downloaded image, where there is no link field
+export function shareCaption({ text, url }: ShareContent) {
+  return `${text} ${url}`
+}
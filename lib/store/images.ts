@@ -0,0 +1,257 @@
+import { randomUUID } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+import type { ProvenanceManifest, SignedManifest } from "@/lib/provenance/manifest"
+import type { ComparisonPhase } from "@/lib/providers/types"
+
+export type ImageOperation = "variation" | "edit"
+
+export interface StoredImage {
+  id: string
+  cityId: string
+  cityName: string
+  issueId: string
+  issueName: string
+  providerId: string
+  providerName: string
+  model: string
+  size: string
+  seed?: number
+  prompt: string
+  templateId: string
+  templateVersion: number
+  mimeType: string
+  // Set on variations and edits of another stored image
+  parentId?: string
+  operation?: ImageOperation
+  // Set on the two halves of a comparison pair
+  phase?: ComparisonPhase
+  // Opaque id of the API key or browser session that generated the image;
+  // only that caller (or an admin) may delete it
+  owner?: string
+  createdAt: string
+  // Deleted images stay restorable for a while before their files are removed
+  deletedAt?: string
+}
+
+export type NewImage = Omit<StoredImage, "id" | "createdAt" | "deletedAt">
+
+export interface ImageQuery {
+  cityId?: string
+  issueId?: string
+  providerId?: string
+  page?: number
+  pageSize?: number
+}
+
+export interface ImagePage {
+  images: StoredImage[]
+  page: number
+  pageSize: number
+  total: number
+  totalPages: number
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+}
+
+const ID_PATTERN = /^[0-9a-f-]{36}$/
+// The signed manifest sits next to the image's own metadata
+const PROVENANCE_SUFFIX = ".provenance.json"
+
+export const MAX_PAGE_SIZE = 100
+
+// How long a deleted image can still be restored
+export const DELETED_IMAGE_RETENTION_MS = 24 * 60 * 60 * 1000
+
+function imagesDir() {
+  return path.join(process.env.DATA_DIR || path.join(process.cwd(), ".data"), "images")
+}
+
+// Share crops are derived on first request and kept, one folder per image
+function cropsDir(id: string) {
+  return path.join(process.env.DATA_DIR || path.join(process.cwd(), ".data"), "crops", id)
+}
+
+function metadataPath(id: string) {
+  return path.join(imagesDir(), `${id}.json`)
+}
+
+function provenancePath(id: string) {
+  return path.join(imagesDir(), `${id}${PROVENANCE_SUFFIX}`)
+}
+
+export function imageExtension(mimeType: string) {
+  return EXTENSIONS[mimeType] || "bin"
+}
+
+function dataPath(image: Pick<StoredImage, "id" | "mimeType">) {
+  return path.join(imagesDir(), `${image.id}.${imageExtension(image.mimeType)}`)
+}
+
+export function imageUrl(id: string) {
+  return `/api/images/${id}`
+}
+
+export async function saveImage(image: NewImage, data: Buffer): Promise<StoredImage> {
+  const stored: StoredImage = { ...image, id: randomUUID(), createdAt: new Date().toISOString() }
+
+  await fs.mkdir(imagesDir(), { recursive: true })
+  await fs.writeFile(dataPath(stored), data)
+  // Metadata is written last so a listed image always has its data on disk
+  await fs.writeFile(metadataPath(stored.id), JSON.stringify(stored, null, 2))
+
+  return stored
+}
+
+// Deleted images are treated as missing unless asked for, e.g. to restore one
+export async function getImage(id: string, { includeDeleted = false } = {}): Promise<StoredImage | null> {
+  if (!ID_PATTERN.test(id)) {
+    return null
+  }
+
+  try {
+    const image: StoredImage = JSON.parse(await fs.readFile(metadataPath(id), "utf8"))
+    return includeDeleted || !image.deletedAt ? image : null
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return null
+    throw error
+  }
+}
+
+export function restorableUntil(image: StoredImage) {
+  return image.deletedAt ? new Date(Date.parse(image.deletedAt) + DELETED_IMAGE_RETENTION_MS) : null
+}
+
+export async function deleteImage(image: StoredImage): Promise<StoredImage> {
+  const deleted = { ...image, deletedAt: new Date().toISOString() }
+  await fs.writeFile(metadataPath(image.id), JSON.stringify(deleted, null, 2))
+  return deleted
+}
+
+export async function restoreImage({ deletedAt, ...image }: StoredImage): Promise<StoredImage> {
+  await fs.writeFile(metadataPath(image.id), JSON.stringify(image, null, 2))
+  return image
+}
+
+// Metadata goes first so a half-purged image is never listed
+async function purgeImage(image: StoredImage) {
+  await fs.rm(metadataPath(image.id), { force: true })
+  await fs.rm(dataPath(image), { force: true })
+  await fs.rm(provenancePath(image.id), { force: true })
+  await fs.rm(cropsDir(image.id), { recursive: true, force: true })
+}
+
+export async function readImageData(image: StoredImage) {
+  return fs.readFile(dataPath(image))
+}
+
+async function readAll(): Promise<StoredImage[]> {
+  let files: string[]
+  try {
+    files = await fs.readdir(imagesDir())
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return []
+    throw error
+  }
+
+  const images = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json") && !file.endsWith(PROVENANCE_SUFFIX))
+      .map(async (file) => JSON.parse(await fs.readFile(path.join(imagesDir(), file), "utf8")) as StoredImage),
+  )
+
+  // Listing is also when deleted images past their undo window are removed
+  const now = Date.now()
+  await Promise.all(
+    images.filter((image) => image.deletedAt && restorableUntil(image)!.getTime() <= now).map(purgeImage),
+  )
+  return images.filter((image) => !image.deletedAt).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function listImages(query: ImageQuery = {}): Promise<ImagePage> {
+  const pageSize = Math.min(Math.max(query.pageSize || 20, 1), MAX_PAGE_SIZE)
+  const matching = (await readAll()).filter(
+    (image) =>
+      (!query.cityId || image.cityId === query.cityId) &&
+      (!query.issueId || image.issueId === query.issueId) &&
+      (!query.providerId || image.providerId === query.providerId),
+  )
+
+  const totalPages = Math.max(Math.ceil(matching.length / pageSize), 1)
+  const page = Math.min(Math.max(query.page || 1, 1), totalPages)
+
+  return {
+    images: matching.slice((page - 1) * pageSize, page * pageSize),
+    page,
+    pageSize,
+    total: matching.length,
+    totalPages,
+  }
+}
+
+export async function listStoredProviders() {
+  const providers = new Map<string, string>()
+  for (const image of await readAll()) {
+    providers.set(image.providerId, image.providerName)
+  }
+  return Array.from(providers, ([id, name]) => ({ id, name }))
+}
+
+// `name` identifies the variant, e.g. "story-en.jpg"
+export async function readCrop(id: string, name: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(path.join(cropsDir(id), name))
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return null
+    throw error
+  }
+}
+
+// Written under a temporary name and renamed, so a concurrent reader never
+// sees half a file
+export async function saveCrop(id: string, name: string, data: Buffer) {
+  const target = path.join(cropsDir(id), name)
+  const temporary = `${target}.${randomUUID()}.tmp`
+  await fs.mkdir(cropsDir(id), { recursive: true })
+  await fs.writeFile(temporary, data)
+  await fs.rename(temporary, target)
+}
+
+export async function saveProvenance(id: string, signed: SignedManifest) {
+  await fs.writeFile(provenancePath(id), JSON.stringify(signed, null, 2))
+}
+
+export async function readProvenance(id: string): Promise<SignedManifest | null> {
+  if (!ID_PATTERN.test(id)) {
+    return null
+  }
+
+  try {
+    return JSON.parse(await fs.readFile(provenancePath(id), "utf8"))
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return null
+    throw error
+  }
+}
+
+// A scan of every manifest: verification is rare enough not to need an index
+export async function findProvenance(match: (manifest: ProvenanceManifest) => boolean): Promise<SignedManifest | null> {
+  let files: string[]
+  try {
+    files = await fs.readdir(imagesDir())
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return null
+    throw error
+  }
+
+  for (const file of files.filter((name) => name.endsWith(PROVENANCE_SUFFIX))) {
+    const signed: SignedManifest = JSON.parse(await fs.readFile(path.join(imagesDir(), file), "utf8"))
+    if (match(signed.manifest)) return signed
+  }
+  return null
+}
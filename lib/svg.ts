@@ -0,0 +1,57 @@
+export function escapeXml(value: string) {
+  return value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`)
+}
+
+// Marks drawn over the character before them (accents, Devanagari vowel signs
+// and viramas, zero-width joiners), which take no width of their own
+const COMBINING = /[\u0300-\u036f\u0900-\u0903\u093a-\u094f\u0951-\u0957\u0962\u0963\u200c\u200d]/
+// CJK, Hangul and full-width forms are about twice as wide as Latin letters
+const WIDE = /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/
+
+function charWidth(char: string) {
+  return COMBINING.test(char) ? 0 : WIDE.test(char) ? 2 : 1
+}
+
+function textWidth(text: string) {
+  return Array.from(text).reduce((width, char) => width + charWidth(char), 0)
+}
+
+// Japanese, and some Hindi, runs on for whole sentences without a space, so
+// a word wider than the line is split between characters. A combining mark
+// stays with the character it belongs to.
+function breakWord(word: string, width: number) {
+  const pieces: string[] = []
+  let piece = ""
+  let used = 0
+  for (const char of Array.from(word)) {
+    const charUnits = charWidth(char)
+    if (piece && charUnits > 0 && used + charUnits > width) {
+      pieces.push(piece)
+      piece = ""
+      used = 0
+    }
+    piece += char
+    used += charUnits
+  }
+  if (piece) pieces.push(piece)
+  return pieces
+}
+
+// Greedy word wrap by character count, with wide characters counting double;
+// SVG has no text layout of its own
+export function wrapText(text: string, width: number) {
+  const lines: string[] = []
+  let line = ""
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    for (const piece of textWidth(word) > width ? breakWord(word, width) : [word]) {
+      if (line && textWidth(`${line} ${piece}`) > width) {
+        lines.push(line)
+        line = piece
+      } else {
+        line = line ? `${line} ${piece}` : piece
+      }
+    }
+  }
+  if (line) lines.push(line)
+  return lines
+}
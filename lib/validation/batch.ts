@@ -0,0 +1,117 @@
+import { findCity, findIssue, type City, type ClimateIssue } from "@/lib/catalog"
+import { DEFAULT_TEMPLATE_ID, getTemplate } from "@/lib/prompts"
+import type { ValidationIssue, ValidationResult } from "./text"
+import { detectInjection } from "./injection"
+import { parseGenerationOptions, type GenerationOptionsInput } from "./options"
+
+export interface BatchRequest {
+  // Every valid city × issue combination; cities without any requested issue are skipped
+  pairs: { city: City; issue: ClimateIssue }[]
+  templateIds: string[]
+  // Ground each prompt in the top climate fact for its city and issue
+  facts: boolean
+  cache: "default" | "bypass"
+  options: GenerationOptionsInput
+}
+
+// Cities × issues × templates, before multiplying by providers
+export const MAX_BATCH_CELLS = 48
+
+const ID = /^[a-z0-9-]+$/
+
+function checkIdList(issues: ValidationIssue[], field: string, value: unknown, required = false) {
+  if (value === undefined || value === null) {
+    if (required) issues.push({ field, code: "required", message: `${field} is required` })
+    return undefined
+  }
+  if (!Array.isArray(value) || value.some((id) => typeof id !== "string" || id.length > 64 || !ID.test(id))) {
+    issues.push({ field, code: "invalid_type", message: `${field} must be a list of ids` })
+    return undefined
+  }
+  if (required && value.length === 0) {
+    issues.push({ field, code: "required", message: `${field} must not be empty` })
+    return undefined
+  }
+  return Array.from(new Set(value as string[]))
+}
+
+export function parseBatchRequest(body: unknown): ValidationResult<BatchRequest> {
+  if (!body || typeof body !== "object") {
+    return { ok: false, issues: [{ field: "body", code: "invalid_type", message: "Request body must be a JSON object" }] }
+  }
+
+  const input = body as Record<string, unknown>
+  const issues: ValidationIssue[] = []
+
+  const cityIds = checkIdList(issues, "cities", input.cities, true) ?? []
+  const issueIds = checkIdList(issues, "issues", input.issues)
+  const templateIds = checkIdList(issues, "templates", input.templates) ?? []
+  const options = parseGenerationOptions(input, issues)
+
+  const cities: City[] = []
+  for (const id of cityIds) {
+    const city = findCity(id)
+    if (city) {
+      cities.push(city)
+    } else {
+      issues.push({ field: "cities", code: "not_in_catalog", message: `Unknown city "${id}"` })
+    }
+  }
+
+  // Without an issue list every issue of each city is included
+  const pairs = cities.flatMap((city) =>
+    (issueIds ?? city.issues.map((issue) => issue.id)).flatMap((issueId) => {
+      const issue = findIssue(city, issueId)
+      return issue ? [{ city, issue }] : []
+    }),
+  )
+  for (const id of issueIds ?? []) {
+    if (cities.length > 0 && !pairs.some(({ issue }) => issue.id === id)) {
+      issues.push({ field: "issues", code: "not_in_catalog", message: `Issue "${id}" does not apply to any selected city` })
+    }
+  }
+
+  if (cities.length > 0 && pairs.length === 0 && issues.length === 0) {
+    issues.push({ field: "issues", code: "required", message: "issues must name at least one issue" })
+  }
+
+  for (const id of templateIds) {
+    if (!getTemplate(id)) {
+      issues.push({ field: "templates", code: "not_in_catalog", message: `Unknown template "${id}"` })
+    }
+  }
+  if (templateIds.length === 0) {
+    templateIds.push(DEFAULT_TEMPLATE_ID)
+  }
+
+  if (pairs.length * templateIds.length > MAX_BATCH_CELLS) {
+    issues.push({
+      field: "cities",
+      code: "too_many",
+      message: `A batch may cover at most ${MAX_BATCH_CELLS} city, issue and template combinations`,
+    })
+  }
+
+  if (input.facts !== undefined && typeof input.facts !== "boolean") {
+    issues.push({ field: "facts", code: "invalid_type", message: "facts must be true or false" })
+  }
+
+  const cache = input.cache === "bypass" ? "bypass" : "default"
+  if (input.cache !== undefined && input.cache !== "default" && input.cache !== "bypass") {
+    issues.push({ field: "cache", code: "invalid_value", message: 'cache must be "default" or "bypass"' })
+  }
+
+  if (options.negativePrompt && detectInjection(options.negativePrompt)) {
+    issues.push({
+      field: "negativePrompt",
+      code: "prompt_injection",
+      message: "negativePrompt looks like an instruction rather than a description",
+    })
+  }
+
+  if (issues.length > 0 || pairs.length === 0) {
+    return { ok: false, issues }
+  }
+
+  return { ok: true, value: { pairs, templateIds, facts: input.facts === true, cache, options } }
+}
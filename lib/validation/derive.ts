@@ -0,0 +1,126 @@
+import { getProvider, type ImageProvider } from "@/lib/providers"
+import type { ImageOperation, StoredImage } from "@/lib/store/images"
+import { checkText, type ValidationIssue, type ValidationResult } from "./text"
+import { detectInjection } from "./injection"
+import { checkInteger } from "./options"
+
+export interface VariationRequestInput {
+  imageId: string
+  provider?: string
+  count: number
+}
+
+export interface EditRequestInput extends VariationRequestInput {
+  instruction: string
+  mask: Buffer
+}
+
+const ID = /^[a-z0-9.-]+$/
+const IMAGE_ID = /^[0-9a-f-]{36}$/
+const FREE_TEXT = /^[\p{L}\p{M}\p{N} .,'’()&-]*$/u
+const MASK_DATA_URL = /^data:image\/png;base64,([A-Za-z0-9+/]+=*)$/
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+const MAX_MASK_BYTES = 4 * 1024 * 1024
+
+function parseBase(body: unknown, issues: ValidationIssue[]) {
+  if (!body || typeof body !== "object") {
+    issues.push({ field: "body", code: "invalid_type", message: "Request body must be a JSON object" })
+    return null
+  }
+
+  const input = body as Record<string, unknown>
+  return {
+    input,
+    imageId: checkText(issues, "imageId", input.imageId, { required: true, maxLength: 36, pattern: IMAGE_ID }),
+    provider: checkText(issues, "provider", input.provider, { maxLength: 64, pattern: ID }),
+    count: checkInteger(issues, "count", input.count, 1, 10) ?? 1,
+  }
+}
+
+export function parseVariationRequest(body: unknown): ValidationResult<VariationRequestInput> {
+  const issues: ValidationIssue[] = []
+  const base = parseBase(body, issues)
+  if (issues.length > 0 || !base?.imageId) {
+    return { ok: false, issues }
+  }
+
+  return { ok: true, value: { imageId: base.imageId, provider: base.provider, count: base.count } }
+}
+
+function parseMask(issues: ValidationIssue[], value: unknown) {
+  const match = typeof value === "string" ? MASK_DATA_URL.exec(value) : null
+  if (!match) {
+    issues.push({ field: "mask", code: "invalid_type", message: "mask must be a PNG data URL" })
+    return undefined
+  }
+
+  const mask = Buffer.from(match[1], "base64")
+  if (mask.length > MAX_MASK_BYTES) {
+    issues.push({ field: "mask", code: "too_large", message: "mask must be at most 4 MB" })
+    return undefined
+  }
+  if (!mask.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    issues.push({ field: "mask", code: "invalid_type", message: "mask must be a PNG data URL" })
+    return undefined
+  }
+  return mask
+}
+
+export function parseEditRequest(body: unknown): ValidationResult<EditRequestInput> {
+  const issues: ValidationIssue[] = []
+  const base = parseBase(body, issues)
+  if (!base) {
+    return { ok: false, issues }
+  }
+
+  const instruction = checkText(issues, "instruction", base.input.instruction, {
+    required: true,
+    maxLength: 200,
+    pattern: FREE_TEXT,
+    patternMessage: "instruction may only contain letters, numbers, spaces and basic punctuation",
+  })
+  if (instruction && detectInjection(instruction)) {
+    issues.push({ field: "instruction", code: "prompt_injection", message: "instruction looks like a prompt override rather than an edit" })
+  }
+  const mask = parseMask(issues, base.input.mask)
+
+  if (issues.length > 0 || !base.imageId || !instruction || !mask) {
+    return { ok: false, issues }
+  }
+
+  return {
+    ok: true,
+    value: { imageId: base.imageId, provider: base.provider, count: base.count, instruction, mask },
+  }
+}
+
+// Variations and edits default to the provider that made the source image
+export function resolveDerivedProvider(
+  source: StoredImage,
+  { provider: providerId, count }: VariationRequestInput,
+  operation: ImageOperation,
+): ValidationResult<ImageProvider> {
+  const id = providerId || source.providerId
+  const provider = getProvider(id)
+  if (!provider || !provider.isConfigured()) {
+    return { ok: false, issues: [{ field: "provider", code: "unavailable", message: `Provider "${id}" is not available` }] }
+  }
+
+  const supported = operation === "variation" ? provider.vary : provider.edit
+  if (!supported) {
+    return {
+      ok: false,
+      issues: [{ field: "provider", code: "unsupported", message: `${provider.name} does not support ${operation}s` }],
+    }
+  }
+
+  const maxImages = provider.capabilities.models[0].maxImages
+  if (count > maxImages) {
+    return {
+      ok: false,
+      issues: [{ field: "count", code: "unsupported", message: `${provider.name} can make at most ${maxImages} image(s) at once` }],
+    }
+  }
+
+  return { ok: true, value: provider }
+}
@@ -0,0 +1,93 @@
+import { findCity, findIssue, type City, type ClimateIssue } from "@/lib/catalog"
+import type { GenerationMode } from "@/lib/jobs"
+import { getTemplate } from "@/lib/prompts"
+import { checkText, type ValidationIssue, type ValidationResult } from "./text"
+import { detectInjection } from "./injection"
+import { parseGenerationOptions, type GenerationOptionsInput } from "./options"
+
+export interface GenerateRequest {
+  city: City
+  issue: ClimateIssue
+  templateId?: string
+  landmark?: string
+  season?: string
+  audience?: string
+  cache: "default" | "bypass"
+  // Comparison mode renders a linked today/future pair and ignores templateId
+  mode: GenerationMode
+  // Id of a lib/facts fact for this city and issue to ground the prompt in
+  factId?: string
+  options: GenerationOptionsInput
+}
+
+const ID = /^[a-z0-9-]+$/
+// Letters in any script, digits, spaces and light punctuation only
+const FREE_TEXT = /^[\p{L}\p{M}\p{N} .,'’()&-]*$/u
+const FREE_TEXT_MESSAGE = "may only contain letters, numbers, spaces and basic punctuation"
+
+export function parseGenerateRequest(body: unknown): ValidationResult<GenerateRequest> {
+  if (!body || typeof body !== "object") {
+    return { ok: false, issues: [{ field: "body", code: "invalid_type", message: "Request body must be a JSON object" }] }
+  }
+
+  const input = body as Record<string, unknown>
+  const issues: ValidationIssue[] = []
+
+  const cityId = checkText(issues, "city", input.city, { required: true, maxLength: 64, pattern: ID })
+  const issueId = checkText(issues, "issue", input.issue, { required: true, maxLength: 64, pattern: ID })
+  const templateId = checkText(issues, "template", input.template, { maxLength: 64, pattern: ID })
+  const factId = checkText(issues, "fact", input.fact, { maxLength: 128, pattern: ID })
+  const landmark = checkText(issues, "landmark", input.landmark, { maxLength: 80 })
+  const season = checkText(issues, "season", input.season, {
+    maxLength: 40,
+    pattern: FREE_TEXT,
+    patternMessage: `season ${FREE_TEXT_MESSAGE}`,
+  })
+  const audience = checkText(issues, "audience", input.audience, {
+    maxLength: 80,
+    pattern: FREE_TEXT,
+    patternMessage: `audience ${FREE_TEXT_MESSAGE}`,
+  })
+
+  const options = parseGenerationOptions(input, issues)
+
+  const city = cityId ? findCity(cityId) : undefined
+  if (cityId && !city) {
+    issues.push({ field: "city", code: "not_in_catalog", message: `Unknown city "${cityId}"` })
+  }
+
+  const issue = city && issueId ? findIssue(city, issueId) : undefined
+  if (city && issueId && !issue) {
+    issues.push({ field: "issue", code: "not_in_catalog", message: `Unknown issue "${issueId}" for ${city.name}` })
+  }
+
+  if (city && landmark && !city.landmarks.includes(landmark)) {
+    issues.push({ field: "landmark", code: "not_in_catalog", message: `Unknown landmark "${landmark}" for ${city.name}` })
+  }
+
+  if (templateId && !getTemplate(templateId)) {
+    issues.push({ field: "template", code: "not_in_catalog", message: `Unknown template "${templateId}"` })
+  }
+
+  const cache = input.cache === "bypass" ? "bypass" : "default"
+  if (input.cache !== undefined && input.cache !== "default" && input.cache !== "bypass") {
+    issues.push({ field: "cache", code: "invalid_value", message: 'cache must be "default" or "bypass"' })
+  }
+
+  const mode = input.mode === "comparison" ? "comparison" : "single"
+  if (input.mode !== undefined && input.mode !== "single" && input.mode !== "comparison") {
+    issues.push({ field: "mode", code: "invalid_value", message: 'mode must be "single" or "comparison"' })
+  }
+
+  for (const [field, value] of Object.entries({ season, audience, negativePrompt: options.negativePrompt })) {
+    if (value && detectInjection(value)) {
+      issues.push({ field, code: "prompt_injection", message: `${field} looks like an instruction rather than a description` })
+    }
+  }
+
+  if (issues.length > 0 || !city || !issue) {
+    return { ok: false, issues }
+  }
+
+  return { ok: true, value: { city, issue, templateId, landmark, season, audience, cache, mode, factId, options } }
+}
@@ -0,0 +1,24 @@
+import { apiError } from "@/lib/api/errors"
+import type { ValidationIssue } from "./text"
+
+// Structured 422 body the page renders field by field
+export function unprocessable(code: "validation_failed" | "moderation_flagged", message: string, issues: ValidationIssue[]) {
+  return apiError(422, code, message, { issues })
+}
+
+export { checkText, type TextRule, type ValidationIssue, type ValidationResult } from "./text"
+export { detectInjection } from "./injection"
+export { parseGenerateRequest, type GenerateRequest } from "./generate"
+export { MAX_BATCH_CELLS, parseBatchRequest, type BatchRequest } from "./batch"
+export {
+  parseEditRequest,
+  parseVariationRequest,
+  resolveDerivedProvider,
+  type EditRequestInput,
+  type VariationRequestInput,
+} from "./derive"
+export {
+  parseGenerationOptions,
+  resolveProviderParams,
+  type GenerationOptionsInput,
+} from "./options"
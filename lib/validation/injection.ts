@@ -0,0 +1,16 @@
+// Phrases that try to steer the image model away from our template rather
+// than describe a scene. Matched case-insensitively against free-text inputs.
+const INJECTION_PATTERNS: RegExp[] = [
+  /\b(ignore|disregard|forget|override)\b.{0,30}\b(instructions?|prompts?|rules|above|previous|everything)\b/i,
+  /\b(system|hidden|original)\s+prompt\b/i,
+  /\byou\s+are\s+now\b/i,
+  /\b(new|updated)\s+instructions?\b/i,
+  /\b(act|pretend|behave)\s+as\b/i,
+  /\bjailbreak|do\s+anything\s+now\b/i,
+  /\b(style|prompt|negative\s+prompt)\s*:/i,
+  /```|<\||\|>|\[\/?INST\]|###/i,
+]
+
+export function detectInjection(text: string) {
+  return INJECTION_PATTERNS.some((pattern) => pattern.test(text))
+}
@@ -0,0 +1,157 @@
+import {
+  getModel,
+  sizeForAspectRatio,
+  type ImageProvider,
+  type ProviderSelection,
+} from "@/lib/providers"
+import { checkText, type ValidationIssue, type ValidationResult } from "./text"
+
+// Provider-independent advanced options as sent by the client
+export interface GenerationOptionsInput {
+  providers?: string[]
+  model?: string
+  size?: string
+  aspectRatio?: string
+  count?: number
+  quality?: string
+  style?: string
+  negativePrompt?: string
+  seed?: number
+}
+
+const ID = /^[a-z0-9.-]+$/
+export const MAX_SEED = 4294967295
+
+export function checkInteger(issues: ValidationIssue[], field: string, value: unknown, min: number, max: number) {
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+    issues.push({ field, code: "out_of_range", message: `${field} must be a whole number from ${min} to ${max}` })
+    return undefined
+  }
+  return value
+}
+
+// Syntax-only checks; capability checks need to know the providers
+export function parseGenerationOptions(input: Record<string, unknown>, issues: ValidationIssue[]): GenerationOptionsInput {
+  let providers: string[] | undefined
+  if (input.providers !== undefined) {
+    if (!Array.isArray(input.providers) || input.providers.some((id) => typeof id !== "string" || !ID.test(id))) {
+      issues.push({ field: "providers", code: "invalid_type", message: "providers must be a list of provider ids" })
+    } else if (input.providers.length > 0) {
+      providers = input.providers
+    }
+  }
+
+  return {
+    providers,
+    model: checkText(issues, "model", input.model, { maxLength: 64, pattern: ID }),
+    size: checkText(issues, "size", input.size, {
+      maxLength: 11,
+      pattern: /^\d{2,5}x\d{2,5}$/,
+      patternMessage: 'size must look like "1024x1024"',
+    }),
+    aspectRatio: checkText(issues, "aspectRatio", input.aspectRatio, {
+      maxLength: 7,
+      pattern: /^[1-9]\d?:[1-9]\d?$/,
+      patternMessage: 'aspectRatio must look like "16:9"',
+    }),
+    count: checkInteger(issues, "count", input.count, 1, 10),
+    quality: checkText(issues, "quality", input.quality, { maxLength: 32, pattern: ID }),
+    style: checkText(issues, "style", input.style, { maxLength: 32, pattern: ID }),
+    negativePrompt: checkText(issues, "negativePrompt", input.negativePrompt, {
+      maxLength: 200,
+      pattern: /^[\p{L}\p{M}\p{N} .,'’()&-]*$/u,
+      patternMessage: "negativePrompt may only contain letters, numbers, spaces and basic punctuation",
+    }),
+    seed: checkInteger(issues, "seed", input.seed, 0, MAX_SEED),
+  }
+}
+
+function checkChoice(
+  issues: ValidationIssue[],
+  field: string,
+  value: string | undefined,
+  choices: string[] | undefined,
+  owner: string,
+) {
+  if (value === undefined) return undefined
+  if (!choices) {
+    issues.push({ field, code: "unsupported", message: `${field} is not supported by ${owner}` })
+  } else if (!choices.includes(value)) {
+    issues.push({ field, code: "unsupported", message: `${owner} supports ${field} ${choices.join(", ")}` })
+  }
+  return value
+}
+
+// Picks the providers for a request and fills in each one's parameters,
+// rejecting any option a selected provider or model can't honour
+export function resolveProviderParams(
+  options: GenerationOptionsInput,
+  configured: ImageProvider[],
+): ValidationResult<ProviderSelection[]> {
+  const issues: ValidationIssue[] = []
+
+  let selected = configured
+  if (options.providers) {
+    selected = []
+    for (const id of options.providers) {
+      const provider = configured.find((p) => p.id === id)
+      if (provider) {
+        selected.push(provider)
+      } else {
+        issues.push({ field: "providers", code: "unavailable", message: `Provider "${id}" is not available` })
+      }
+    }
+  } else if (options.model) {
+    selected = configured.filter((provider) => getModel(provider, options.model))
+  }
+
+  if (selected.length === 0 && issues.length === 0) {
+    issues.push({ field: "model", code: "unavailable", message: `No available provider offers model "${options.model}"` })
+  }
+
+  const selections: ProviderSelection[] = []
+  for (const provider of selected) {
+    const model = getModel(provider, options.model)
+    if (!model) {
+      issues.push({ field: "model", code: "unsupported", message: `${provider.name} does not offer model "${options.model}"` })
+      continue
+    }
+
+    const owner = `${provider.name} ${model.id}`
+    let size = model.sizes[0]
+    if (options.size) {
+      size = options.size
+      checkChoice(issues, "size", options.size, model.sizes, owner)
+    } else if (options.aspectRatio) {
+      size = sizeForAspectRatio(model, options.aspectRatio)
+    }
+
+    const count = options.count ?? 1
+    if (count > model.maxImages) {
+      issues.push({ field: "count", code: "unsupported", message: `${owner} can generate at most ${model.maxImages} image(s)` })
+    }
+
+    if (options.negativePrompt && !provider.capabilities.supportsNegativePrompt) {
+      issues.push({ field: "negativePrompt", code: "unsupported", message: `negativePrompt is not supported by ${provider.name}` })
+    }
+    if (options.seed !== undefined && !provider.capabilities.supportsSeed) {
+      issues.push({ field: "seed", code: "unsupported", message: `seed is not supported by ${provider.name}` })
+    }
+
+    selections.push({
+      provider,
+      params: {
+        model: model.id,
+        size,
+        count,
+        quality: checkChoice(issues, "quality", options.quality, model.qualities, owner),
+        style: checkChoice(issues, "style", options.style, model.styles, owner),
+        negativePrompt: options.negativePrompt,
+        seed: options.seed,
+      },
+    })
+  }
+
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: selections }
+}
@@ -0,0 +1,42 @@
+export interface ValidationIssue {
+  field: string
+  code: string
+  message: string
+}
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; issues: ValidationIssue[] }
+
+export interface TextRule {
+  required?: boolean
+  maxLength: number
+  pattern?: RegExp
+  patternMessage?: string
+}
+
+// Checks one untrusted field, pushing any problems onto issues. Returns the
+// trimmed string, or undefined when absent or invalid.
+export function checkText(issues: ValidationIssue[], field: string, value: unknown, rule: TextRule) {
+  if (value === undefined || value === null || value === "") {
+    if (rule.required) {
+      issues.push({ field, code: "required", message: `${field} is required` })
+    }
+    return undefined
+  }
+
+  if (typeof value !== "string") {
+    issues.push({ field, code: "invalid_type", message: `${field} must be a string` })
+    return undefined
+  }
+
+  const text = value.trim()
+  if (text.length > rule.maxLength) {
+    issues.push({ field, code: "too_long", message: `${field} must be at most ${rule.maxLength} characters` })
+    return undefined
+  }
+  if (rule.pattern && !rule.pattern.test(text)) {
+    issues.push({ field, code: "invalid_characters", message: rule.patternMessage || `${field} contains invalid characters` })
+    return undefined
+  }
+
+  return text || undefined
+}
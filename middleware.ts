@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { ADMIN_REALM, isAdminEnabled, verifyAdminAuthorization } from "@/lib/api/admin"
+import { createSessionToken, SESSION_COOKIE, SESSION_MAX_AGE_SECONDS, verifySessionToken } from "@/lib/api/session"
+
+// Issues the first-party session cookie that lets the app's pages call /api/v1
+export async function middleware(request: NextRequest) {
+  if (request.nextUrl.pathname === "/admin" || request.nextUrl.pathname.startsWith("/admin/")) {
+    if (!isAdminEnabled()) {
+      return new NextResponse("Not Found", { status: 404 })
+    }
+    if (!(await verifyAdminAuthorization(request.headers.get("authorization")))) {
+      return new NextResponse("Authentication required", {
+        status: 401,
+        headers: { "WWW-Authenticate": `Basic realm="${ADMIN_REALM}", charset="UTF-8"` },
+      })
+    }
+  }
+
+  const response = NextResponse.next()
+  if (await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value)) {
+    return response
+  }
+
+  const token = await createSessionToken()
+  if (token) {
+    response.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: SESSION_MAX_AGE_SECONDS,
+    })
+  }
+  return response
+}
+
+export const config = {
+  // Pages only: API calls and static assets never start a session
+  matcher: ["/((?!api/|_next/|favicon.ico).*)"],
+}
@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // Runs instrumentation.ts, which checks required configuration at startup
+    instrumentationHook: true,
+  },
   images: {
     remotePatterns: [
       {
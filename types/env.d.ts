@@ -2,5 +2,47 @@ declare namespace NodeJS {
   interface ProcessEnv {
     STABILITY_API_KEY: string
     OPENAI_API_KEY: string
+    // Set to "true" to enable the offline, deterministic mock provider
+    MOCK_PROVIDER?: string
+    // Public origin used for absolute share and Open Graph URLs
+    SITE_URL?: string
+    // "rules" (default), "openai" or "off"
+    MODERATION_PROVIDER?: string
+    // Requests allowed per client within the sliding window (default 5 per 60000 ms)
+    RATE_LIMIT_MAX_REQUESTS?: string
+    RATE_LIMIT_WINDOW_MS?: string
+    // Where callers' addresses come from: "platform" (the host sets request.ip, e.g. Vercel)
+    // or "forwarded" (X-Forwarded-For from trusted proxies). Required in production.
+    CLIENT_ADDRESS_SOURCE?: string
+    // With "forwarded", how many proxies in front of the app append to X-Forwarded-For (default 1)
+    TRUSTED_PROXY_HOPS?: string
+    // Images each client may generate per UTC day (default 30)
+    DAILY_IMAGE_QUOTA?: string
+    // How long identical generations are served from cache (default 86400, 0 disables)
+    CACHE_TTL_SECONDS?: string
+    // Concurrent batch requests per provider as "providerId:limit" pairs, e.g. "dalle:1,stability:3" (default 2)
+    BATCH_CONCURRENCY?: string
+    // Provider ids to try in order when one fails, e.g. "dalle,stability" (default: no fallback)
+    PROVIDER_FALLBACK?: string
+    // Retries for transient provider failures (default 2), backing off from this many ms (default 500)
+    PROVIDER_RETRIES?: string
+    PROVIDER_RETRY_BASE_MS?: string
+    // Consecutive failures that pause a provider (default 5), and for how long (default 60000 ms)
+    CIRCUIT_FAILURE_THRESHOLD?: string
+    CIRCUIT_COOLDOWN_MS?: string
+    // Comma-separated "name:key" pairs accepted by /api/v1
+    API_KEYS?: string
+    // Enables the /admin dashboard behind HTTP Basic auth with this password
+    ADMIN_PASSWORD?: string
+    // Comma-separated API key names (from API_KEYS) allowed to read /api/v1/admin
+    ADMIN_KEYS?: string
+    // Signs the session cookie the app's own pages use for /api/v1 (required in production)
+    SESSION_SECRET?: string
+    // Server log threshold: "debug", "info" (default), "warn" or "error"
+    LOG_LEVEL?: string
+    // "json" (default, one object per line) or "pretty"
+    LOG_FORMAT?: string
+    // Browser log threshold (default "warn" in production, "debug" otherwise)
+    NEXT_PUBLIC_LOG_LEVEL?: string
   }
 }